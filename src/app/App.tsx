@@ -6,47 +6,106 @@
  * toolbar, the hex grid canvas, and the various sidebars.
  */
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { HexGrid } from '@/features/realm/components/HexGrid';
 import { Toolbar } from '@/features/realm/components/Toolbar';
 import { SelectionSidebar } from '@/features/realm/components/sidebars/SelectionSidebar';
+import { MultiSelectionSidebar } from '@/features/realm/components/sidebars/MultiSelectionSidebar';
+import { StampSidebar } from '@/features/realm/components/sidebars/StampSidebar';
 import { TerrainPainterSidebar } from '@/features/realm/components/sidebars/TerrainPainterSidebar';
 import { PoiPainterSidebar } from '@/features/realm/components/sidebars/PoiPainterSidebar';
 import { MythSidebar } from '@/features/realm/components/sidebars/MythSidebar';
-import { generateRealm } from '@/features/realm/services/realmGenerator';
-import { exportRealmAsJson, exportSvgAsPng } from '@/features/realm/services/fileService';
+import {
+  GenerationCancelledError,
+  generateRealmInBackground,
+  generateTerrainTexturesInBackground,
+} from '@/features/realm/services/generationService';
+import {
+  exportProjectAsJson,
+  exportSvgAsPng,
+  exportSvgAsSvg,
+} from '@/features/realm/services/fileService';
+import { exportAtlasAsPdf } from '@/features/realm/services/atlasExport';
+import { exportFoundryScene, exportUniversalVtt } from '@/features/realm/services/vttExport';
+import {
+  RealmFileError,
+  createRealmDocument,
+  describeRealmFileError,
+  loadRealmDocument,
+  parseRealmDocument,
+  REALM_DOCUMENT_VERSION,
+} from '@/features/realm/services/realmDocument';
+import { clearAutosave, readAutosave } from '@/features/realm/services/storageService';
+import type { AutosaveRecord } from '@/features/realm/services/storageService';
+import { useAutosave } from '@/features/realm/hooks/useAutosave';
+import { ProjectLibraryModal } from '@/features/realm/components/library/ProjectLibraryModal';
 import { ExportModal } from '@/features/realm/components/export/ExportModal';
+import { ImportMapModal } from '@/features/realm/components/import/ImportMapModal';
+import {
+  MapImportError,
+  createRealmFromForeignMap,
+  readForeignMap,
+} from '@/features/realm/services/mapImporters';
 import type {
-  Realm,
   Hex,
   ViewOptions,
   GenerationOptions,
+  GenerationProgress,
   Tool,
   Myth,
   TileSet,
   TerrainTextures,
   ExportSettings,
+  RealmDocument,
+  RealmDocumentContent,
+  RealmPath,
+  PathBrush,
+  PathSnap,
+  RevealBrush,
+  Stamp,
+  StampTransform,
+  TerrainBrush,
+  ForeignMap,
+  TerrainMapping,
+  HistoryDescription,
 } from '@/features/realm/types';
 import {
   DEFAULT_GRID_SIZE,
   DEFAULT_TILE_SETS,
-  LANDMARK_TYPES,
   TERRAIN_TYPES,
+  DEFAULT_TERRAIN_BRUSH,
   BARRIER_COLOR,
-  DEFAULT_GRID_COLOR,
-  DEFAULT_GRID_WIDTH,
   DEFAULT_TERRAIN_CLUSTERING_MATRIX,
-  DEFAULT_TERRAIN_BIASES,
-  DEFAULT_TERRAIN_HEIGHT_ORDER,
+  DEFAULT_GENERATION_OPTIONS,
+  DEFAULT_VIEW_OPTIONS,
   TERRAIN_BASE_COLORS,
+  DEFAULT_PARTY,
+  EXPORT_FILE_EXTENSIONS,
+  PATH_STYLES,
 } from '@/features/realm/config/constants';
-import { useHistory } from '@/shared/hooks/useHistory';
+import {
+  IDENTITY_TRANSFORM,
+  createStamp,
+  placeStamp,
+  transformStamp,
+} from '@/features/realm/utils/stampUtils';
+import { useRealmHistory } from '@/features/realm/hooks/useRealmHistory';
+import type { RealmHistory } from '@/features/realm/hooks/useRealmHistory';
 import { BarrierPainterSidebar } from '@/features/realm/components/sidebars/BarrierPainterSidebar';
+import { PathPainterSidebar } from '@/features/realm/components/sidebars/PathPainterSidebar';
+import { RevealSidebar } from '@/features/realm/components/sidebars/RevealSidebar';
+import { PartySidebar } from '@/features/realm/components/sidebars/PartySidebar';
 import { ConfirmationDialog } from '@/features/realm/components/ConfirmationDialog';
 import { HistoryControls } from '@/features/realm/components/HistoryControls';
-import { generateTerrainTextures } from '@/features/realm/utils/textureUtils';
+import { GenerationProgressPanel } from '@/features/realm/components/GenerationProgressPanel';
 import { normalizeKnightVisibility } from '@/features/realm/utils/visibilityUtils';
 import { getTerrainBaseColor } from '@/app/theme/colors';
+import { createRandomSeed } from '@/features/realm/utils/randomUtils';
+import { createPathId, erasePathsAt } from '@/features/realm/utils/pathUtils';
+import { moveParty } from '@/features/realm/utils/partyUtils';
+import { createMyth, toggleMythLinkedHex } from '@/features/realm/utils/mythUtils';
+import { findHex, hexKey, parseHexKey, replaceHexes } from '@/features/realm/utils/hexIndex';
+import { describeHexChanges } from '@/features/realm/utils/historyLabels';
 
 const INITIAL_KNIGHT_VISIBILITY = normalizeKnightVisibility(
   undefined,
@@ -67,6 +126,9 @@ export interface ConfirmationState {
   onConfirm: () => void;
   confirmText?: string;
   isInfo?: boolean;
+  /** Called instead of simply closing the dialog when the user cancels. */
+  onCancel?: () => void;
+  cancelText?: string;
 }
 
 /**
@@ -78,31 +140,54 @@ export default function App() {
     set: setRealm,
     undo: handleUndo,
     redo: handleRedo,
+    jumpTo: handleJumpInHistory,
     canUndo,
     canRedo,
-  } = useHistory<Realm | null>(null);
-  const [selectedHex, setSelectedHex] = useState<Hex | null>(null);
+    history: realmHistory,
+    restore: restoreRealmHistory,
+  } = useRealmHistory();
+  const [selectedHexKeys, setSelectedHexKeys] = useState<ReadonlySet<string>>(() => new Set());
+  /** The selected hex, when exactly one hex is selected. */
+  const selectedHex = useMemo(() => {
+    const [key] = selectedHexKeys;
+    if (!realm || key === undefined || selectedHexKeys.size !== 1) return null;
+    const { q, r } = parseHexKey(key);
+    return findHex(realm.hexes, q, r) ?? null;
+  }, [realm, selectedHexKeys]);
+  /**
+   * Selects a single hex, or clears the selection.
+   */
+  const setSelectedHex = useCallback(
+    (hex: Hex | null) => setSelectedHexKeys(hex ? new Set([hexKey(hex.q, hex.r)]) : new Set()),
+    []
+  );
   const [relocatingMythId, setRelocatingMythId] = useState<number | null>(null);
+  const [linkingMythId, setLinkingMythId] = useState<number | null>(null);
   const [viewOptions, setViewOptions] = useState<ViewOptions>({
-    showGrid: true,
-    isGmView: true,
-    orientation: 'pointy',
-    hexSize: { x: 50, y: 50 },
-    gridColor: DEFAULT_GRID_COLOR,
-    gridWidth: DEFAULT_GRID_WIDTH,
-    showIconSpray: true,
+    ...DEFAULT_VIEW_OPTIONS,
     visibility: {
       knight: INITIAL_KNIGHT_VISIBILITY,
     },
   });
   const [exportSettings, setExportSettings] = useState<ExportSettings>(() => ({
+    format: 'png',
     viewMode: 'referee',
     includeGrid: true,
     includeIconSpray: true,
+    paperSize: 'a4',
+    printHexSize: 25,
   }));
   const [activeTool, setActiveTool] = useState<Tool>('select');
   const [paintTerrain, setPaintTerrain] = useState<string>(TERRAIN_TYPES[0] ?? 'plain');
+  const [terrainBrush, setTerrainBrush] = useState<TerrainBrush>(DEFAULT_TERRAIN_BRUSH);
   const [paintPoi, setPaintPoi] = useState<string | null>('holding:castle');
+  const [paintPath, setPaintPath] = useState<PathBrush>('road');
+  const [pathSnap, setPathSnap] = useState<PathSnap>('center');
+  const [revealBrush, setRevealBrush] = useState<RevealBrush>('reveal');
+  const [revealRadius, setRevealRadius] = useState(1);
+  // The stamp pasted by the Stamp tool, as it was copied, and how it is turned and mirrored.
+  const [stamp, setStamp] = useState<Stamp | null>(null);
+  const [stampTransform, setStampTransform] = useState<StampTransform>(IDENTITY_TRANSFORM);
   const [tileSets, setTileSets] = useState<TileSet>(DEFAULT_TILE_SETS);
   const [terrainColors, setTerrainColors] = useState<Record<string, string>>(() => ({
     ...TERRAIN_BASE_COLORS,
@@ -143,6 +228,14 @@ export default function App() {
 
   const [confirmation, setConfirmation] = useState<ConfirmationState | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // Creation time of the opened project file, kept so saving again preserves it.
+  const [documentCreatedAt, setDocumentCreatedAt] = useState<string | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  // The map being imported from another tool, while its tiles are matched to terrain.
+  const [pendingImport, setPendingImport] = useState<ForeignMap | null>(null);
+  // Autosave is paused until the user has decided whether to recover the previous session.
+  const [isRecoveryResolved, setIsRecoveryResolved] = useState(false);
+  const hasCheckedAutosave = useRef(false);
   const [settingsView, setSettingsView] = useState<{
     tab: 'general' | 'generation' | 'terrain' | 'view';
     focusId: string | null;
@@ -153,45 +246,47 @@ export default function App() {
   const [terrainTextures, setTerrainTextures] = useState<TerrainTextures | null>(null);
   const [isLoadingTextures, setIsLoadingTextures] = useState(true);
 
-  // Initialize landmark counts for generation options.
-  const initialLandmarkCounts = LANDMARK_TYPES.reduce(
-    (acc, type) => {
-      acc[type] = 3;
-      return acc;
-    },
-    {} as Record<string, number>
-  );
-
   // State for all realm generation parameters.
-  const [generationOptions, setGenerationOptions] = useState<GenerationOptions>({
-    numHoldings: 4,
-    numMyths: 6,
-    mythMinDistance: 3,
-    landmarks: initialLandmarkCounts,
-    generateBarriers: false,
-    highlandFormation: 'linear',
-    highlandFormationStrength: 0.7,
-    highlandFormationRotation: 0,
-    highlandFormationInverse: false,
-    terrainRoughness: 0.5,
-    terrainClusteringMatrix: DEFAULT_TERRAIN_CLUSTERING_MATRIX,
-    terrainBiases: DEFAULT_TERRAIN_BIASES,
-    terrainHeightOrder: DEFAULT_TERRAIN_HEIGHT_ORDER,
-  });
+  const [generationOptions, setGenerationOptions] = useState<GenerationOptions>(() => ({
+    seed: createRandomSeed(),
+    ...DEFAULT_GENERATION_OPTIONS,
+  }));
+  // When locked, generating reuses the current seed instead of rolling a new one.
+  const [isSeedLocked, setIsSeedLocked] = useState(false);
+  // The progress of the generation running in the background, and the controller that cancels it.
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  const generationControllerRef = useRef<AbortController | null>(null);
 
   /**
    * Generates a new realm based on the current shape and generation options.
+   * Unless the seed is locked, a fresh seed is rolled and stored for the new realm.
+   * Generation runs in a web worker; starting it again cancels the generation under way.
    */
-  const handleGenerateRealm = useCallback(() => {
+  const handleGenerateRealm = useCallback(async () => {
+    generationControllerRef.current?.abort();
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
+    setGenerationProgress({ stage: 'terrain', fraction: 0 });
     try {
       const options =
         realmShape === 'hex'
           ? { shape: 'hex' as const, radius: realmRadius }
           : { shape: 'square' as const, width: realmWidth, height: realmHeight };
-      const newRealm = generateRealm(options, generationOptions);
-      setRealm(newRealm);
+      const seed = isSeedLocked ? generationOptions.seed : createRandomSeed();
+      const newRealm = await generateRealmInBackground(
+        options,
+        { ...generationOptions, seed },
+        { signal: controller.signal, onProgress: setGenerationProgress }
+      );
+      // A project opened in the meantime cancels the generation; its realm is kept.
+      if (generationControllerRef.current !== controller) return;
+      setRealm(newRealm, { label: 'Generated a new realm' });
       setSelectedHex(null);
+      setDocumentCreatedAt(null);
+      setGenerationOptions((prev) => (prev.seed === seed ? prev : { ...prev, seed }));
     } catch (error) {
+      if (error instanceof GenerationCancelledError) return;
+      if (generationControllerRef.current !== controller) return;
       const errorMessage =
         error instanceof Error
           ? error.message
@@ -204,8 +299,29 @@ export default function App() {
         confirmText: 'OK',
         isInfo: true,
       });
+    } finally {
+      if (generationControllerRef.current === controller) {
+        generationControllerRef.current = null;
+        setGenerationProgress(null);
+      }
     }
-  }, [realmShape, realmRadius, realmWidth, realmHeight, generationOptions, setRealm]);
+  }, [
+    realmShape,
+    realmRadius,
+    realmWidth,
+    realmHeight,
+    generationOptions,
+    isSeedLocked,
+    setRealm,
+    setSelectedHex,
+  ]);
+
+  /**
+   * Cancels the generation running in the background, keeping the current realm.
+   */
+  const handleCancelGeneration = useCallback(() => {
+    generationControllerRef.current?.abort();
+  }, []);
 
   /**
    * Generates the initial realm on component mount if one doesn't exist.
@@ -221,17 +337,21 @@ export default function App() {
    */
   useEffect(() => {
     if (Object.keys(terrainColors).length === 0) return;
+    const controller = new AbortController();
 
     const generateAndSetTextures = async () => {
       setIsLoadingTextures(true);
       try {
-        const textures = await generateTerrainTextures(
+        const textures = await generateTerrainTexturesInBackground(
           tileSets,
           terrainColors,
-          viewOptions.hexSize
+          viewOptions.hexSize,
+          { signal: controller.signal }
         );
         setTerrainTextures(textures);
       } catch (error) {
+        // Superseded by newer settings, whose textures are on their way.
+        if (error instanceof GenerationCancelledError) return;
         console.error('Failed to generate terrain textures:', error);
         setConfirmation({
           isOpen: true,
@@ -241,10 +361,11 @@ export default function App() {
           isInfo: true,
         });
       } finally {
-        setIsLoadingTextures(false);
+        if (!controller.signal.aborted) setIsLoadingTextures(false);
       }
     };
     generateAndSetTextures();
+    return () => controller.abort();
   }, [tileSets, terrainColors, viewOptions.hexSize]);
 
   /**
@@ -254,21 +375,27 @@ export default function App() {
     if (
       activeTool === 'terrain' ||
       activeTool === 'barrier' ||
+      activeTool === 'path' ||
       activeTool === 'poi' ||
-      activeTool === 'myth'
+      activeTool === 'myth' ||
+      activeTool === 'reveal' ||
+      activeTool === 'party' ||
+      activeTool === 'stamp'
     ) {
       setSelectedHex(null);
     }
     if (activeTool !== 'myth') {
       setRelocatingMythId(null);
+      setLinkingMythId(null);
     }
     if (activeTool !== 'terrain' && activeTool !== 'poi') {
       setIsPickingTile(false);
     }
-  }, [activeTool]);
+  }, [activeTool, setSelectedHex]);
 
   /**
-   * Effect to set up keyboard shortcuts for undo (Ctrl+Z), redo (Ctrl+Y), and canceling actions (Escape).
+   * Effect to set up keyboard shortcuts for undo (Ctrl+Z), redo (Ctrl+Y), and canceling actions or
+   * clearing the selection (Escape).
    */
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -277,6 +404,11 @@ export default function App() {
       if (event.key === 'Escape' && isPickingTile) {
         event.preventDefault();
         setIsPickingTile(false);
+      } else if (event.key === 'Escape') {
+        const { tagName } = event.target as HTMLElement;
+        if (tagName !== 'INPUT' && tagName !== 'TEXTAREA' && tagName !== 'SELECT') {
+          setSelectedHex(null);
+        }
       } else if (isCtrlOrCmd && event.key.toLowerCase() === 'z') {
         event.preventDefault();
         if (event.shiftKey) {
@@ -305,40 +437,102 @@ export default function App() {
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [canUndo, canRedo, handleUndo, handleRedo, isPickingTile]);
+  }, [canUndo, canRedo, handleUndo, handleRedo, isPickingTile, setSelectedHex]);
 
   /**
    * Updates one or more hexes in the realm state.
    * @param updatedHexOrHexes A single Hex object or an array of Hex objects to update.
+   * @param description How the change is shown in the history; by default it is described
+   *   from the hexes that changed.
    */
   const handleUpdateHex = useCallback(
-    (updatedHexOrHexes: Hex | Hex[]) => {
+    (updatedHexOrHexes: Hex | Hex[], description?: HistoryDescription) => {
       if (!realm) return;
 
       const updates = Array.isArray(updatedHexOrHexes) ? updatedHexOrHexes : [updatedHexOrHexes];
       if (updates.length === 0) return;
 
-      const updatedHexesMap = new Map<string, Hex>();
-      updates.forEach((h) => updatedHexesMap.set(`${h.q},${h.r}`, h));
+      setRealm(
+        { ...realm, hexes: replaceHexes(realm.hexes, updates) },
+        description ?? ((patch) => describeHexChanges(patch.hexes, tileSets))
+      );
+    },
+    [realm, setRealm, tileSets]
+  );
 
-      const newHexes = realm.hexes.map((h) => {
-        const key = `${h.q},${h.r}`;
-        return updatedHexesMap.get(key) || h;
+  /** The stamp as it is pasted, turned and mirrored for the grid. */
+  const placedStamp = useMemo(
+    () => stamp && transformStamp(stamp, stampTransform, viewOptions.orientation),
+    [stamp, stampTransform, viewOptions.orientation]
+  );
+
+  /**
+   * Chooses the stamp pasted by the Stamp tool, as it was copied.
+   * @param newStamp The stamp to paste.
+   */
+  const handleChooseStamp = useCallback((newStamp: Stamp) => {
+    setStamp(newStamp);
+    setStampTransform(IDENTITY_TRANSFORM);
+  }, []);
+
+  /**
+   * Copies the selected hexes into a stamp for the Stamp tool.
+   * @returns Whether any hexes were copied.
+   */
+  const handleCopySelection = useCallback(() => {
+    if (!realm) return false;
+    const copied = createStamp(realm.hexes, selectedHexKeys, 'Copied region');
+    if (copied) handleChooseStamp(copied);
+    return copied !== null;
+  }, [realm, selectedHexKeys, handleChooseStamp]);
+
+  /**
+   * Pastes the stamp with its anchor on a hex.
+   * @param hex The hex clicked with the Stamp tool.
+   */
+  const handlePlaceStamp = useCallback(
+    (hex: Hex) => {
+      if (!realm || !placedStamp) return;
+      handleUpdateHex(placeStamp(realm.hexes, placedStamp, hex), {
+        label: `Pasted ${placedStamp.name} at ${hex.q},${hex.r}`,
       });
+    },
+    [realm, placedStamp, handleUpdateHex]
+  );
 
-      setRealm({ ...realm, hexes: newHexes });
+  /**
+   * Effect to set up the keyboard shortcuts for copying (Ctrl+C) and pasting (Ctrl+V) hexes,
+   * and for turning (R, or Shift+R anticlockwise) and mirroring (M) the stamp being pasted.
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const { tagName } = event.target as HTMLElement;
+      if (tagName === 'INPUT' || tagName === 'TEXTAREA' || tagName === 'SELECT') return;
+      const isCtrlOrCmd = event.ctrlKey || event.metaKey;
+      const key = event.key.toLowerCase();
 
-      if (selectedHex) {
-        const updatedSelectedHexObject = updates.find(
-          (h) => h.q === selectedHex.q && h.r === selectedHex.r
-        );
-        if (updatedSelectedHexObject) {
-          setSelectedHex(updatedSelectedHexObject || null);
+      if (isCtrlOrCmd && key === 'c' && activeTool === 'select') {
+        if (handleCopySelection()) event.preventDefault();
+      } else if (isCtrlOrCmd && key === 'v' && stamp) {
+        event.preventDefault();
+        setActiveTool('stamp');
+      } else if (!isCtrlOrCmd && !event.altKey && activeTool === 'stamp') {
+        if (key === 'r') {
+          setStampTransform((prev) => ({
+            ...prev,
+            rotation: (prev.rotation + (event.shiftKey ? 5 : 1)) % 6,
+          }));
+        } else if (key === 'm') {
+          setStampTransform((prev) => ({ ...prev, isMirrored: !prev.isMirrored }));
         }
       }
-    },
-    [realm, selectedHex, setRealm]
-  );
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [activeTool, stamp, handleCopySelection]);
 
   /**
    * Adds a new myth to a specified hex.
@@ -349,7 +543,7 @@ export default function App() {
     (hex: Hex, andSelect = false) => {
       if (!realm) return;
 
-      const currentHexState = realm.hexes.find((h) => h.q === hex.q && h.r === hex.r);
+      const currentHexState = findHex(realm.hexes, hex.q, hex.r);
       if (
         !currentHexState ||
         currentHexState.myth ||
@@ -370,28 +564,22 @@ export default function App() {
 
       const newMythId =
         (realm.myths.length > 0 ? Math.max(...realm.myths.map((m) => m.id)) : 0) + 1;
-      const newMyth: Myth = { id: newMythId, name: `Myth #${newMythId}`, q: hex.q, r: hex.r };
+      const newMyth = createMyth(newMythId, hex);
       const newMyths = [...realm.myths, newMyth];
 
-      let updatedHexWithMyth: Hex | undefined;
-      const newHexes = realm.hexes.map((h) => {
-        if (h.q === hex.q && h.r === hex.r) {
-          updatedHexWithMyth = { ...h, myth: newMythId };
-          return updatedHexWithMyth;
-        }
-        return h;
-      });
+      const updatedHexWithMyth: Hex = { ...currentHexState, myth: newMythId };
+      const newHexes = replaceHexes(realm.hexes, [updatedHexWithMyth]);
 
-      setRealm({ ...realm, hexes: newHexes, myths: newMyths });
+      setRealm(
+        { ...realm, hexes: newHexes, myths: newMyths },
+        { label: `Added Myth #${newMythId}` }
+      );
 
-      if (
-        updatedHexWithMyth &&
-        ((selectedHex && selectedHex.q === hex.q && selectedHex.r === hex.r) || andSelect)
-      ) {
+      if ((selectedHex && selectedHex.q === hex.q && selectedHex.r === hex.r) || andSelect) {
         setSelectedHex(updatedHexWithMyth);
       }
     },
-    [realm, setRealm, selectedHex]
+    [realm, setRealm, selectedHex, setSelectedHex]
   );
 
   /**
@@ -421,24 +609,36 @@ export default function App() {
         return h;
       });
 
-      setRealm({ ...realm, hexes: newHexes, myths: newMyths });
+      setRealm(
+        { ...realm, hexes: newHexes, myths: newMyths },
+        { label: `Removed Myth #${removedMythId}` }
+      );
+      setLinkingMythId(null);
 
       if (selectedHex && selectedHex.q === hex.q && selectedHex.r === hex.r) {
         setSelectedHex(updatedHexWithoutMyth || null);
       }
     },
-    [realm, setRealm, selectedHex]
+    [realm, setRealm, selectedHex, setSelectedHex]
   );
 
   /**
    * Updates the data of an existing myth.
    * @param updatedMyth The myth object with updated data.
+   * @param description How the change is shown in the history. Edits to one myth made in
+   *   quick succession, like typing in its fields, are merged by default.
    */
   const handleUpdateMyth = useCallback(
-    (updatedMyth: Myth) => {
+    (
+      updatedMyth: Myth,
+      description: HistoryDescription = {
+        label: `Edited Myth #${updatedMyth.id}`,
+        mergeKey: `myth:${updatedMyth.id}`,
+      }
+    ) => {
       if (!realm) return;
       const newMyths = realm.myths.map((m) => (m.id === updatedMyth.id ? updatedMyth : m));
-      setRealm({ ...realm, myths: newMyths });
+      setRealm({ ...realm, myths: newMyths }, description);
     },
     [realm, setRealm]
   );
@@ -450,11 +650,40 @@ export default function App() {
   const handleToggleRelocateMyth = useCallback(
     (mythId: number) => {
       setRelocatingMythId((prev) => (prev === mythId ? null : mythId));
+      setLinkingMythId(null);
       if (relocatingMythId !== mythId) {
         setSelectedHex(null);
       }
     },
-    [relocatingMythId]
+    [relocatingMythId, setSelectedHex]
+  );
+
+  /**
+   * Toggles the mode for picking the hexes linked to a given myth.
+   * @param mythId The ID of the myth whose linked hexes are picked.
+   */
+  const handleToggleLinkMythHexes = useCallback((mythId: number) => {
+    setLinkingMythId((prev) => (prev === mythId ? null : mythId));
+    setRelocatingMythId(null);
+  }, []);
+
+  /**
+   * Links a hex to a myth, or unlinks it if it is already linked.
+   * @param mythId The ID of the myth.
+   * @param hex The hex to link or unlink.
+   */
+  const handleToggleMythLink = useCallback(
+    (mythId: number, hex: Hex) => {
+      if (!realm) return;
+      const myth = realm.myths.find((m) => m.id === mythId);
+      if (!myth) return;
+      if (myth.q === hex.q && myth.r === hex.r) return;
+      const isLinked = myth.linkedHexes.some((h) => h.q === hex.q && h.r === hex.r);
+      handleUpdateMyth(toggleMythLinkedHex(myth, hex), {
+        label: isLinked ? `Unlinked a hex from Myth #${mythId}` : `Linked a hex to Myth #${mythId}`,
+      });
+    },
+    [realm, handleUpdateMyth]
   );
 
   /**
@@ -466,7 +695,7 @@ export default function App() {
     (mythId: number, newHex: Hex) => {
       if (!realm) return;
 
-      const targetHexState = realm.hexes.find((h) => h.q === newHex.q && h.r === newHex.r);
+      const targetHexState = findHex(realm.hexes, newHex.q, newHex.r);
       if (
         !targetHexState ||
         targetHexState.myth ||
@@ -501,61 +730,264 @@ export default function App() {
       const updatedMyth = { ...mythToMove, q: newHex.q, r: newHex.r };
       const newMyths = realm.myths.map((m) => (m.id === mythId ? updatedMyth : m));
 
-      let updatedNewHexWithMyth: Hex | undefined;
-      const newHexes = realm.hexes.map((h) => {
-        if (h.q === oldHexCoords.q && h.r === oldHexCoords.r) {
-          const { myth: _removedMyth, ...rest } = h;
-          return rest;
-        }
-        if (h.q === newHex.q && h.r === newHex.r) {
-          updatedNewHexWithMyth = { ...h, myth: mythId };
-          return updatedNewHexWithMyth;
-        }
-        return h;
-      });
+      const updatedNewHexWithMyth: Hex = { ...targetHexState, myth: mythId };
+      const updates = [updatedNewHexWithMyth];
+      const oldHex = findHex(realm.hexes, oldHexCoords.q, oldHexCoords.r);
+      if (oldHex) {
+        const { myth: _removedMyth, ...rest } = oldHex;
+        updates.unshift(rest);
+      }
+      const newHexes = replaceHexes(realm.hexes, updates);
 
-      setRealm({ ...realm, hexes: newHexes, myths: newMyths });
+      setRealm({ ...realm, hexes: newHexes, myths: newMyths }, { label: `Moved Myth #${mythId}` });
       setRelocatingMythId(null);
-      if (updatedNewHexWithMyth) {
-        setSelectedHex(updatedNewHexWithMyth);
+      setSelectedHex(updatedNewHexWithMyth);
+    },
+    [realm, setRealm, setSelectedHex]
+  );
+
+  /**
+   * The editor state used to fill in fields that older project files did not store.
+   */
+  const getProjectFallback = useCallback(
+    (): RealmDocumentContent => ({
+      realm: realm ?? {
+        shape: realmShape,
+        hexes: [],
+        myths: [],
+        seatOfPower: { q: 0, r: 0 },
+        paths: [],
+        party: DEFAULT_PARTY,
+      },
+      tileSets,
+      terrainColors,
+      barrierColor: barrierColor ?? '',
+      viewOptions,
+      generationOptions,
+    }),
+    [realm, realmShape, tileSets, terrainColors, barrierColor, viewOptions, generationOptions]
+  );
+
+  /**
+   * Applies a loaded project, restoring the realm together with its tile sets, colours,
+   * view options and generation settings.
+   * @param project The validated project to apply.
+   * @param history The realm's undo/redo stack to restore, if it was saved with the project.
+   * @param label How opening the project is shown in the history.
+   */
+  const applyProject = useCallback(
+    (project: RealmDocument, history?: RealmHistory, label = 'Opened a project') => {
+      const importedRealm = project.realm;
+      // A realm still being generated would replace the project once it is done.
+      generationControllerRef.current?.abort();
+      generationControllerRef.current = null;
+      setGenerationProgress(null);
+
+      setTileSets(project.tileSets);
+      setTerrainColors(project.terrainColors);
+      setBarrierColor(project.barrierColor || BARRIER_COLOR);
+      setViewOptions(project.viewOptions);
+      setGenerationOptions(project.generationOptions);
+
+      if (history) {
+        restoreRealmHistory({ ...history, present: importedRealm });
+      } else {
+        setRealm(importedRealm, { label });
+      }
+      setSelectedHex(null);
+      setDocumentCreatedAt(project.createdAt);
+      setRealmShape(importedRealm.shape);
+      if (importedRealm.shape === 'hex') {
+        setRealmRadius(importedRealm.radius ?? DEFAULT_GRID_SIZE);
+      } else {
+        setRealmWidth(importedRealm.width ?? DEFAULT_GRID_SIZE);
+        setRealmHeight(importedRealm.height ?? DEFAULT_GRID_SIZE);
       }
     },
-    [realm, setRealm]
+    [restoreRealmHistory, setRealm, setSelectedHex]
   );
 
   /**
-   * Handles importing a realm from a JSON file, ensuring backward compatibility.
-   * @param importedRealm The realm object parsed from the JSON file.
+   * Opens a project file. Older formats are migrated and the file is validated
+   * before anything is applied.
+   * @param fileContent The raw text of the selected file.
+   * @throws {RealmFileError} If the file cannot be loaded.
    */
-  const handleImportRealm = (importedRealm: Realm) => {
-    if (!importedRealm.myths) {
-      importedRealm.myths = [];
-      importedRealm.hexes.forEach((hex) => {
-        if (hex.myth) {
-          importedRealm.myths.push({
-            id: hex.myth,
-            name: `Myth #${hex.myth}`,
-            q: hex.q,
-            r: hex.r,
-          });
+  const handleOpenProject = (fileContent: string) => {
+    applyProject(parseRealmDocument(fileContent, getProjectFallback()));
+  };
+
+  /**
+   * Opens a project from the local library, migrating it if it was saved by an older version.
+   * @param project The stored project.
+   * @throws {RealmFileError} If the project cannot be loaded.
+   */
+  const handleOpenLibraryProject = (project: RealmDocument) => {
+    applyProject(loadRealmDocument(project, getProjectFallback()));
+  };
+
+  /**
+   * Reads a map file from another tool and opens the terrain mapping dialog for it.
+   * @param file The selected file.
+   */
+  const handleImportMap = useCallback((file: File) => {
+    readForeignMap(file)
+      .then(setPendingImport)
+      .catch((error: unknown) => {
+        setConfirmation({
+          isOpen: true,
+          title: 'Import Failed',
+          message: `Failed to import map. \n${
+            error instanceof MapImportError ? error.message : 'The file could not be read.'
+          }`,
+          onConfirm: () => setConfirmation(null),
+          isInfo: true,
+        });
+      });
+  }, []);
+
+  /**
+   * Imports the pending map with the chosen terrain. The realm goes through the same
+   * validation as an opened project, keeping the current tile sets and settings.
+   * @param mapping The terrain chosen for each tile of the map.
+   */
+  const handleConfirmImport = useCallback(
+    (mapping: TerrainMapping) => {
+      if (!pendingImport) return;
+      try {
+        const fallback = getProjectFallback();
+        const project = createRealmDocument({
+          ...fallback,
+          realm: createRealmFromForeignMap(pendingImport, mapping),
+          viewOptions: {
+            ...fallback.viewOptions,
+            orientation: pendingImport.orientation ?? fallback.viewOptions.orientation,
+          },
+        });
+        applyProject(loadRealmDocument(project, fallback), undefined, 'Imported a map');
+        setPendingImport(null);
+      } catch (error) {
+        const message =
+          error instanceof RealmFileError
+            ? describeRealmFileError(error)
+            : error instanceof Error
+              ? error.message
+              : 'Unknown error.';
+        setConfirmation({
+          isOpen: true,
+          title: 'Import Failed',
+          message: `Failed to import map. \n${message}`,
+          onConfirm: () => setConfirmation(null),
+          isInfo: true,
+        });
+      }
+    },
+    [pendingImport, getProjectFallback, applyProject]
+  );
+
+  /**
+   * The current session as project content, or null before a realm exists.
+   */
+  const currentProjectContent = useMemo<RealmDocumentContent | null>(
+    () =>
+      realm
+        ? {
+            realm,
+            tileSets,
+            terrainColors,
+            barrierColor: barrierColor ?? '',
+            viewOptions,
+            generationOptions,
+          }
+        : null,
+    [realm, tileSets, terrainColors, barrierColor, viewOptions, generationOptions]
+  );
+
+  const getCurrentProject = useCallback(
+    () =>
+      currentProjectContent ? createRealmDocument(currentProjectContent, documentCreatedAt) : null,
+    [currentProjectContent, documentCreatedAt]
+  );
+
+  /**
+   * On startup, offers to restore the autosaved session. Autosaving stays paused until
+   * the choice is made, so the previous session is not overwritten.
+   */
+  useEffect(() => {
+    if (hasCheckedAutosave.current) return;
+    hasCheckedAutosave.current = true;
+    readAutosave()
+      .then((autosave) => {
+        if (!autosave) {
+          setIsRecoveryResolved(true);
+          return;
         }
+        setConfirmation({
+          isOpen: true,
+          title: 'Recover Unsaved Work?',
+          message: `An autosaved realm from ${new Date(autosave.savedAt).toLocaleString()} was found. Would you like to restore it?`,
+          confirmText: 'Restore',
+          cancelText: 'Discard',
+          onConfirm: () => {
+            setConfirmation(null);
+            try {
+              // Undo steps saved by an older format version cannot be migrated, so they are dropped.
+              const isCurrentFormat = autosave.project.formatVersion === REALM_DOCUMENT_VERSION;
+              applyProject(
+                loadRealmDocument(autosave.project, getProjectFallback()),
+                isCurrentFormat ? autosave.history : undefined
+              );
+            } catch (error) {
+              const message =
+                error instanceof RealmFileError
+                  ? describeRealmFileError(error)
+                  : 'The autosave could not be restored.';
+              setConfirmation({
+                isOpen: true,
+                title: 'Recovery Failed',
+                message,
+                onConfirm: () => setConfirmation(null),
+                isInfo: true,
+              });
+            }
+            setIsRecoveryResolved(true);
+          },
+          onCancel: () => {
+            setConfirmation(null);
+            setIsRecoveryResolved(true);
+            clearAutosave().catch((error: unknown) =>
+              console.error('Failed to clear autosave:', error)
+            );
+          },
+        });
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to read autosave:', error);
+        setIsRecoveryResolved(true);
       });
-    }
-    setRealm(importedRealm);
-    setSelectedHex(null);
-    setRealmShape(importedRealm.shape);
-    if (importedRealm.shape === 'hex') {
-      setRealmRadius(importedRealm.radius ?? DEFAULT_GRID_SIZE);
-    } else {
-      setRealmWidth(importedRealm.width ?? DEFAULT_GRID_SIZE);
-      setRealmHeight(importedRealm.height ?? DEFAULT_GRID_SIZE);
-    }
-  };
+  }, [applyProject, getProjectFallback]);
+
+  const autosaveRecord = useMemo<AutosaveRecord | null>(
+    () =>
+      isRecoveryResolved && currentProjectContent
+        ? {
+            project: createRealmDocument(currentProjectContent, documentCreatedAt),
+            history: realmHistory,
+            savedAt: new Date().toISOString(),
+          }
+        : null,
+    [isRecoveryResolved, currentProjectContent, documentCreatedAt, realmHistory]
+  );
+  useAutosave(autosaveRecord);
 
-  const handleExportJson = useCallback(() => {
-    if (realm) exportRealmAsJson(realm);
-  }, [realm]);
-  const handleExportPng = useCallback(() => {
+  /**
+   * Saves the realm and all editor state needed to restore it as a project file.
+   */
+  const handleSaveProject = useCallback(() => {
+    const project = getCurrentProject();
+    if (project) exportProjectAsJson(project);
+  }, [getCurrentProject]);
+  const handleExportMap = useCallback(() => {
     setExportSettings((prev) => {
       const next = {
         ...prev,
@@ -581,20 +1013,43 @@ export default function App() {
 
       const runExport = async () => {
         try {
-          const fileName =
-            settings.viewMode === 'referee' ? 'realm-map-referee.png' : 'realm-map-knight.png';
-          await exportSvgAsPng(EXPORT_PREVIEW_SVG_ID, fileName, {
-            scale: EXPORT_IMAGE_SCALE,
-            hideSelectionHighlights: true,
-          });
+          const fileName = `realm-map-${settings.viewMode}.${EXPORT_FILE_EXTENSIONS[settings.format]}`;
+          const exportViewOptions = { ...viewOptions, isGmView: settings.viewMode === 'referee' };
+          if (settings.format === 'foundry' || settings.format === 'uvtt') {
+            const exportVtt =
+              settings.format === 'foundry' ? exportFoundryScene : exportUniversalVtt;
+            await exportVtt(EXPORT_PREVIEW_SVG_ID, fileName, {
+              realm,
+              tileSets,
+              viewOptions: exportViewOptions,
+              includeGrid: settings.includeGrid,
+            });
+          } else if (settings.format === 'pdf') {
+            await exportAtlasAsPdf(EXPORT_PREVIEW_SVG_ID, fileName, {
+              realm,
+              tileSets,
+              terrainColors,
+              viewOptions: exportViewOptions,
+              paperSize: settings.paperSize,
+              printHexSize: settings.printHexSize,
+            });
+          } else if (settings.format === 'svg') {
+            await exportSvgAsSvg(EXPORT_PREVIEW_SVG_ID, fileName, {
+              hideSelectionHighlights: true,
+            });
+          } else {
+            await exportSvgAsPng(EXPORT_PREVIEW_SVG_ID, fileName, {
+              scale: EXPORT_IMAGE_SCALE,
+              hideSelectionHighlights: true,
+            });
+          }
           setIsExportModalOpen(false);
         } catch (error) {
-          console.error('Failed to export PNG', error);
+          console.error(`Failed to export ${settings.format.toUpperCase()}`, error);
           setConfirmation({
             isOpen: true,
             title: 'Export Failed',
-            message:
-              'Something went wrong while exporting the PNG. Please try again or report the issue if it persists.',
+            message: `Something went wrong while exporting the ${settings.format.toUpperCase()}. Please try again or report the issue if it persists.`,
             onConfirm: () => setConfirmation(null),
             isInfo: true,
           });
@@ -605,7 +1060,15 @@ export default function App() {
 
       void runExport();
     },
-    [realm, isExporting, setConfirmation, setIsExportModalOpen]
+    [
+      realm,
+      isExporting,
+      tileSets,
+      terrainColors,
+      viewOptions,
+      setConfirmation,
+      setIsExportModalOpen,
+    ]
   );
 
   const handleExportSettingsChange = useCallback((next: ExportSettings) => {
@@ -619,7 +1082,10 @@ export default function App() {
   const handleSetSeatOfPower = useCallback(
     (hex: Hex) => {
       if (!realm || !hex.holding) return;
-      setRealm({ ...realm, seatOfPower: { q: hex.q, r: hex.r } });
+      setRealm(
+        { ...realm, seatOfPower: { q: hex.q, r: hex.r } },
+        { label: 'Moved the Seat of Power' }
+      );
     },
     [realm, setRealm]
   );
@@ -681,14 +1147,24 @@ export default function App() {
         return newColors;
       });
       if (realm) {
-        setRealm({
-          ...realm,
-          hexes: realm.hexes.map((h) => (h.terrain === terrainId ? { ...h, terrain: 'plain' } : h)),
-        });
+        const label = tileSets.terrain.find((t) => t.id === terrainId)?.label ?? terrainId;
+        setRealm(
+          {
+            ...realm,
+            hexes: realm.hexes.map((h) =>
+              h.terrain === terrainId ? { ...h, terrain: 'plain' } : h
+            ),
+          },
+          { label: `Removed the ${label} terrain` }
+        );
       }
       if (paintTerrain === terrainId) setPaintTerrain(TERRAIN_TYPES[0] ?? 'plain');
+      setTerrainBrush((prev) => {
+        const { [terrainId]: _removed, ...scatterWeights } = prev.scatterWeights;
+        return { ...prev, scatterWeights };
+      });
     },
-    [realm, setRealm, paintTerrain]
+    [realm, setRealm, paintTerrain, tileSets.terrain]
   );
 
   const handleUpdateTerrainColor = useCallback(
@@ -712,7 +1188,168 @@ export default function App() {
       message: 'Are you sure you want to remove all barriers? This action cannot be undone.',
       onConfirm: () => {
         if (!realm) return;
-        setRealm({ ...realm, hexes: realm.hexes.map((h) => ({ ...h, barrierEdges: [] })) });
+        setRealm(
+          { ...realm, hexes: realm.hexes.map((h) => ({ ...h, barrierEdges: [] })) },
+          { label: 'Removed all barriers' }
+        );
+        setConfirmation(null);
+      },
+    });
+  }, [realm, setRealm]);
+
+  /**
+   * Adds a newly drawn path to the realm.
+   */
+  const handleAddPath = useCallback(
+    (path: Omit<RealmPath, 'id'>) => {
+      if (!realm) return;
+      setRealm(
+        {
+          ...realm,
+          paths: [...realm.paths, { ...path, id: createPathId(path.type, realm.paths) }],
+        },
+        { label: `Drew a ${PATH_STYLES[path.type].label.toLowerCase()}` }
+      );
+    },
+    [realm, setRealm]
+  );
+
+  /**
+   * Erases the parts of any paths that pass through the given hexes.
+   */
+  const handleErasePaths = useCallback(
+    (hexKeys: Set<string>) => {
+      if (!realm) return;
+      const paths = erasePathsAt(realm.paths, hexKeys);
+      if (paths.length === realm.paths.length && paths.every((p, i) => p === realm.paths[i])) {
+        return;
+      }
+      setRealm({ ...realm, paths }, { label: 'Erased paths', mergeKey: 'erase-paths' });
+    },
+    [realm, setRealm]
+  );
+
+  /**
+   * Opens a confirmation dialog to remove all rivers, roads and tracks from the map.
+   */
+  const handleRequestRemoveAllPaths = useCallback(() => {
+    setConfirmation({
+      isOpen: true,
+      title: 'Remove All Paths',
+      message: 'Are you sure you want to remove all rivers, roads and tracks?',
+      onConfirm: () => {
+        if (!realm) return;
+        setRealm({ ...realm, paths: [] }, { label: 'Removed all paths' });
+        setConfirmation(null);
+      },
+    });
+  }, [realm, setRealm]);
+
+  /**
+   * Switches the fog of war over unrevealed hexes in the Knight view on or off.
+   */
+  const handleToggleFogOfWar = useCallback((enabled: boolean) => {
+    setViewOptions((prev) => ({
+      ...prev,
+      visibility: {
+        ...prev.visibility,
+        knight: { ...prev.visibility.knight, fogOfWar: enabled },
+      },
+    }));
+  }, []);
+
+  /**
+   * Reveals every hex in the realm to the Knights.
+   */
+  const handleRevealAll = useCallback(() => {
+    if (!realm || realm.hexes.every((h) => h.isRevealed)) return;
+    setRealm(
+      { ...realm, hexes: realm.hexes.map((h) => ({ ...h, isRevealed: true })) },
+      { label: 'Revealed the whole realm' }
+    );
+  }, [realm, setRealm]);
+
+  /**
+   * Opens a confirmation dialog to hide the whole realm under the fog of war again.
+   */
+  const handleRequestConcealAll = useCallback(() => {
+    setConfirmation({
+      isOpen: true,
+      title: 'Conceal Entire Realm',
+      message: 'Are you sure you want to hide every hex from the Knights again?',
+      onConfirm: () => {
+        if (!realm) return;
+        setRealm(
+          { ...realm, hexes: realm.hexes.map(({ isRevealed: _isRevealed, ...rest }) => rest) },
+          { label: 'Concealed the whole realm' }
+        );
+        setConfirmation(null);
+      },
+    });
+  }, [realm, setRealm]);
+
+  /**
+   * Moves the party to a hex and logs the move. The Knights have now explored the hex,
+   * so it is also revealed.
+   */
+  const handleMoveParty = useCallback(
+    (hex: Hex) => {
+      if (!realm) return;
+      const party = moveParty(realm.party, hex);
+      if (party === realm.party) return;
+      const movedToHex = findHex(realm.hexes, hex.q, hex.r);
+      setRealm(
+        {
+          ...realm,
+          party,
+          hexes:
+            movedToHex && !movedToHex.isRevealed
+              ? replaceHexes(realm.hexes, [{ ...movedToHex, isRevealed: true }])
+              : realm.hexes,
+        },
+        { label: 'Moved the party' }
+      );
+    },
+    [realm, setRealm]
+  );
+
+  /**
+   * Sets the current day of the party's journey.
+   */
+  const handleSetPartyDay = useCallback(
+    (day: number) => {
+      if (!realm || day < 1) return;
+      setRealm(
+        { ...realm, party: { ...realm.party, day } },
+        { label: `Set the day to ${day}`, mergeKey: 'party-day' }
+      );
+    },
+    [realm, setRealm]
+  );
+
+  /**
+   * Takes back the party's most recent move.
+   */
+  const handleRemoveLastPartyMove = useCallback(() => {
+    if (!realm || realm.party.log.length === 0) return;
+    setRealm(
+      { ...realm, party: { ...realm.party, log: realm.party.log.slice(0, -1) } },
+      { label: "Took back the party's last move" }
+    );
+  }, [realm, setRealm]);
+
+  /**
+   * Opens a confirmation dialog to clear the travel log and remove the party from the map.
+   */
+  const handleRequestClearTravelLog = useCallback(() => {
+    setConfirmation({
+      isOpen: true,
+      title: 'Clear Travel Log',
+      message:
+        'Are you sure you want to clear the travel log? The party will be removed from the map and the day counter reset.',
+      onConfirm: () => {
+        if (!realm) return;
+        setRealm({ ...realm, party: DEFAULT_PARTY }, { label: 'Cleared the travel log' });
         setConfirmation(null);
       },
     });
@@ -823,10 +1460,12 @@ export default function App() {
   return (
     <div className="flex flex-col h-screen w-screen bg-realm-canvas-backdrop overflow-hidden">
       <Toolbar
-        onGenerate={handleGenerateRealm}
-        onExportJson={handleExportJson}
-        onExportPng={handleExportPng}
-        onImportJson={handleImportRealm}
+        onGenerate={() => void handleGenerateRealm()}
+        onSaveProject={handleSaveProject}
+        onExportMap={handleExportMap}
+        onOpenProject={handleOpenProject}
+        onImportMap={handleImportMap}
+        onOpenLibrary={() => setIsLibraryOpen(true)}
         viewOptions={viewOptions}
         setViewOptions={setViewOptions}
         realmShape={realmShape}
@@ -839,6 +1478,8 @@ export default function App() {
         setRealmHeight={setRealmHeight}
         generationOptions={generationOptions}
         setGenerationOptions={setGenerationOptions}
+        isSeedLocked={isSeedLocked}
+        setIsSeedLocked={setIsSeedLocked}
         onGenerationOptionChange={handleGenerationOptionChange}
         handleClusteringChange={handleClusteringChange}
         handleTerrainBiasChange={handleTerrainBiasChange}
@@ -860,15 +1501,29 @@ export default function App() {
               onUpdateHex={handleUpdateHex}
               viewOptions={viewOptions}
               selectedHex={selectedHex}
+              selectedHexKeys={selectedHexKeys}
               onHexClick={setSelectedHex}
+              onSelectHexes={setSelectedHexKeys}
               activeTool={activeTool}
               setActiveTool={setActiveTool}
               paintTerrain={paintTerrain}
+              terrainBrush={terrainBrush}
               paintPoi={paintPoi}
+              paintPath={paintPath}
+              pathSnap={pathSnap}
+              onAddPath={handleAddPath}
+              onErasePaths={handleErasePaths}
+              revealBrush={revealBrush}
+              revealRadius={revealRadius}
+              onMoveParty={handleMoveParty}
+              stamp={placedStamp}
+              onPlaceStamp={handlePlaceStamp}
               onAddMyth={handleAddMyth}
               onRemoveMyth={handleRemoveMyth}
               relocatingMythId={relocatingMythId}
               onRelocateMyth={handleRelocateMyth}
+              linkingMythId={linkingMythId}
+              onToggleMythLink={handleToggleMythLink}
               onSetSeatOfPower={handleSetSeatOfPower}
               tileSets={tileSets}
               terrainColors={terrainColors}
@@ -885,11 +1540,19 @@ export default function App() {
               <p>Generating initial realm...</p>
             </div>
           )}
+          {generationProgress && (
+            <GenerationProgressPanel
+              progress={generationProgress}
+              onCancel={realm ? handleCancelGeneration : undefined}
+            />
+          )}
         </main>
         {activeTool === 'terrain' ? (
           <TerrainPainterSidebar
             paintTerrain={paintTerrain}
             setPaintTerrain={setPaintTerrain}
+            terrainBrush={terrainBrush}
+            setTerrainBrush={setTerrainBrush}
             onClose={() => setActiveTool('select')}
             tileSets={tileSets}
             terrainColors={terrainColors}
@@ -908,6 +1571,9 @@ export default function App() {
             onClose={() => setActiveTool('select')}
             onStartPicking={handleStartPicking}
             isPickingTile={isPickingTile}
+            hexes={realm?.hexes ?? []}
+            onUpdateHex={handleUpdateHex}
+            nameTables={generationOptions.nameTables}
           />
         ) : activeTool === 'barrier' ? (
           <BarrierPainterSidebar
@@ -916,6 +1582,50 @@ export default function App() {
             barrierColor={barrierColor ?? ''}
             onColorChange={setBarrierColor}
           />
+        ) : activeTool === 'path' ? (
+          <PathPainterSidebar
+            paintPath={paintPath}
+            setPaintPath={setPaintPath}
+            pathSnap={pathSnap}
+            setPathSnap={setPathSnap}
+            onRemoveAllPaths={handleRequestRemoveAllPaths}
+            onClose={() => setActiveTool('select')}
+          />
+        ) : activeTool === 'reveal' && realm ? (
+          <RevealSidebar
+            revealBrush={revealBrush}
+            setRevealBrush={setRevealBrush}
+            revealRadius={revealRadius}
+            setRevealRadius={setRevealRadius}
+            isFogOfWarEnabled={viewOptions.visibility.knight.fogOfWar}
+            onToggleFogOfWar={handleToggleFogOfWar}
+            revealedCount={realm.hexes.filter((h) => h.isRevealed).length}
+            totalCount={realm.hexes.length}
+            onRevealAll={handleRevealAll}
+            onConcealAll={handleRequestConcealAll}
+            onClose={() => setActiveTool('select')}
+          />
+        ) : activeTool === 'stamp' ? (
+          <StampSidebar
+            stamp={stamp}
+            transform={stampTransform}
+            setTransform={setStampTransform}
+            onChooseStamp={handleChooseStamp}
+            orientation={viewOptions.orientation}
+            terrainColors={terrainColors}
+            barrierColor={barrierColor ?? ''}
+            setConfirmation={setConfirmation}
+            onClose={() => setActiveTool('select')}
+          />
+        ) : activeTool === 'party' && realm ? (
+          <PartySidebar
+            realm={realm}
+            tileSets={tileSets}
+            onSetDay={handleSetPartyDay}
+            onRemoveLastMove={handleRemoveLastPartyMove}
+            onClearLog={handleRequestClearTravelLog}
+            onClose={() => setActiveTool('select')}
+          />
         ) : activeTool === 'myth' && realm ? (
           <MythSidebar
             realm={realm}
@@ -925,18 +1635,36 @@ export default function App() {
             onRemoveMyth={handleRemoveMyth}
             relocatingMythId={relocatingMythId}
             onToggleRelocateMyth={handleToggleRelocateMyth}
+            linkingMythId={linkingMythId}
+            onToggleLinkMythHexes={handleToggleLinkMythHexes}
+            nameTables={generationOptions.nameTables}
             onClose={() => setActiveTool('select')}
           />
+        ) : activeTool === 'select' && realm && selectedHexKeys.size > 1 ? (
+          <MultiSelectionSidebar
+            realm={realm}
+            selectedHexKeys={selectedHexKeys}
+            onUpdateHex={handleUpdateHex}
+            onSelectHexes={setSelectedHexKeys}
+            onDeselect={() => setSelectedHex(null)}
+            onCopy={() => {
+              if (handleCopySelection()) setActiveTool('stamp');
+            }}
+            tileSets={tileSets}
+          />
         ) : activeTool === 'select' ? (
           <SelectionSidebar
             selectedHex={selectedHex}
             realm={realm}
             onUpdateHex={handleUpdateHex}
             onDeselect={() => setSelectedHex(null)}
+            onSelectHex={setSelectedHex}
+            onSelectHexes={setSelectedHexKeys}
             onSetSeatOfPower={handleSetSeatOfPower}
             onAddMyth={handleAddMyth}
             onRemoveMyth={handleRemoveMyth}
             tileSets={tileSets}
+            nameTables={generationOptions.nameTables}
           />
         ) : null}
       </div>
@@ -957,14 +1685,29 @@ export default function App() {
         terrainColors={terrainColors}
         previewPadding={Math.max(viewOptions.hexSize.x, viewOptions.hexSize.y)}
       />
+      <ImportMapModal
+        map={pendingImport}
+        onClose={() => setPendingImport(null)}
+        onImport={handleConfirmImport}
+        terrainTiles={tileSets.terrain}
+        terrainColors={terrainColors}
+      />
+      <ProjectLibraryModal
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        getCurrentProject={getCurrentProject}
+        onOpenProject={handleOpenLibraryProject}
+        setConfirmation={setConfirmation}
+      />
       {confirmation?.isOpen && (
         <ConfirmationDialog
           isOpen={confirmation.isOpen}
           title={confirmation.title}
           message={confirmation.message}
           onConfirm={confirmation.onConfirm}
-          onCancel={handleCancelConfirmation}
+          onCancel={confirmation.onCancel ?? handleCancelConfirmation}
           confirmText={confirmation.confirmText ?? 'OK'}
+          cancelText={confirmation.cancelText ?? 'Cancel'}
           isInfo={confirmation.isInfo ?? false}
         />
       )}
@@ -978,8 +1721,14 @@ export default function App() {
             handleRedo();
             setSelectedHex(null);
           }}
+          onJump={(position) => {
+            handleJumpInHistory(position);
+            setSelectedHex(null);
+          }}
           canUndo={canUndo}
           canRedo={canRedo}
+          past={realmHistory.past}
+          future={realmHistory.future}
         />
       )}
     </div>
@@ -0,0 +1,251 @@
+/**
+ * @file generateRealms.ts
+ * This file is the entry point of the headless generation CLI. It generates one or more realms
+ * from the command line, without a browser, and writes each one as a project file that the app
+ * can open, optionally along with an SVG map. Build and run it with `npm run generate -- --help`.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { GenerationOptions, Realm, ViewOptions } from '@/features/realm/types';
+import {
+  BARRIER_COLOR,
+  DEFAULT_GENERATION_OPTIONS,
+  DEFAULT_GRID_SIZE,
+  DEFAULT_TILE_SETS,
+  DEFAULT_VIEW_OPTIONS,
+  TERRAIN_BASE_COLORS,
+  TERRAIN_TEMPLATES,
+} from '@/features/realm/config/constants';
+import { generateRealm } from '@/features/realm/services/realmGenerator';
+import {
+  createRealmDocument,
+  validateGenerationOptions,
+} from '@/features/realm/services/realmDocument';
+import { renderRealmSvg } from '@/features/realm/services/svgRenderer';
+import { normalizeKnightVisibility } from '@/features/realm/utils/visibilityUtils';
+import { createRandomSeed, MAX_SEED, parseSeed } from '@/features/realm/utils/randomUtils';
+
+const USAGE = `Usage: npm run generate -- [options]
+
+Options:
+  --shape <hex|square>   The shape of the realm (default: square)
+  --radius <n>           The radius of a hex realm (default: ${DEFAULT_GRID_SIZE})
+  --width <n>            The width of a square realm (default: ${DEFAULT_GRID_SIZE})
+  --height <n>           The height of a square realm (default: ${DEFAULT_GRID_SIZE})
+  --template <key>       A terrain template: ${Object.keys(TERRAIN_TEMPLATES).join(', ')}
+  --options <file>       A JSON file of generation options, applied over the template
+  --seed <seed>          The seed of the first realm, a number or any text (default: random)
+  --count <n>            The number of realms to generate, with consecutive seeds (default: 1)
+  --out <dir>            The directory to write to (default: realms)
+  --svg                  Also write an SVG map of each realm
+  --knight               Render the SVG map as the Knights see it
+  --help                 Show this message`;
+
+/**
+ * The barrier colour of new projects. It is read from the theme's colour palette by name, so
+ * it is only missing if the theme renames that colour; the map then draws barriers in the
+ * colour of the text around them.
+ */
+const barrierColor = BARRIER_COLOR ?? 'currentColor';
+
+/**
+ * An error in the command-line arguments, reported without a stack trace.
+ */
+class UsageError extends Error {}
+
+/**
+ * Parses a whole number argument.
+ * @throws {UsageError} If the value is not a whole number of at least `min`.
+ */
+function parseCount(name: string, value: string | undefined, fallback: number, min: number) {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new UsageError(`--${name} must be a whole number of at least ${min}, got "${value}".`);
+  }
+  return parsed;
+}
+
+/**
+ * Builds the generation options from the defaults, the template and the options file, in
+ * that order of precedence. The noise settings and landmark counts are merged field by field,
+ * so a file can change one of them and keep the rest.
+ * @throws {UsageError} If the template does not exist, the options file cannot be read, or
+ *   an option has the wrong type.
+ */
+async function loadGenerationOptions(
+  templateKey: string | undefined,
+  optionsFile: string | undefined
+): Promise<Omit<GenerationOptions, 'seed'>> {
+  let template: Partial<GenerationOptions> = {};
+  if (templateKey !== undefined) {
+    const found = TERRAIN_TEMPLATES[templateKey];
+    if (!found) {
+      throw new UsageError(
+        `Unknown template "${templateKey}". Choose one of: ${Object.keys(TERRAIN_TEMPLATES).join(', ')}.`
+      );
+    }
+    template = found.options;
+  }
+
+  let fromFile: Record<string, unknown> = {};
+  if (optionsFile !== undefined) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await readFile(optionsFile, 'utf-8'));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new UsageError(`Could not read the options file "${optionsFile}": ${reason}`);
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new UsageError(`The options file "${optionsFile}" must contain a JSON object.`);
+    }
+    fromFile = parsed as Record<string, unknown>;
+  }
+
+  const { seed: _templateSeed, ...templateOptions } = template;
+  const { seed: _fileSeed, ...fileOptions } = fromFile;
+  const merged: Record<string, unknown> = {
+    ...DEFAULT_GENERATION_OPTIONS,
+    ...templateOptions,
+    ...fileOptions,
+  };
+  // A nested object in the file fills in the fields it leaves out; anything else is kept as it
+  // is, for the checks below to report.
+  for (const key of ['noise', 'landmarks'] as const) {
+    const value = fileOptions[key];
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      merged[key] = { ...DEFAULT_GENERATION_OPTIONS[key], ...templateOptions[key], ...value };
+    }
+  }
+
+  const [issue] = validateGenerationOptions({ ...merged, seed: 0 });
+  if (issue) {
+    const field = issue.path.replace(/^generationOptions\./, '');
+    throw new UsageError(`Invalid generation option: ${field} ${issue.message}.`);
+  }
+  return merged as Omit<GenerationOptions, 'seed'>;
+}
+
+/**
+ * Writes a realm as a project file, and as an SVG map when asked to.
+ * @returns The paths of the files written.
+ */
+async function writeRealm(
+  realm: Realm,
+  generationOptions: GenerationOptions,
+  outDir: string,
+  { svg, knight }: { svg: boolean; knight: boolean }
+): Promise<string[]> {
+  const viewOptions: ViewOptions = {
+    ...DEFAULT_VIEW_OPTIONS,
+    visibility: {
+      knight: normalizeKnightVisibility(undefined, DEFAULT_TILE_SETS, realm.myths).visibility,
+    },
+  };
+  const baseName = path.join(outDir, `realm-${generationOptions.seed}`);
+  const written: string[] = [];
+
+  const document = createRealmDocument({
+    realm,
+    tileSets: DEFAULT_TILE_SETS,
+    terrainColors: TERRAIN_BASE_COLORS,
+    barrierColor,
+    viewOptions,
+    generationOptions,
+  });
+  await writeFile(`${baseName}.json`, JSON.stringify(document, null, 2));
+  written.push(`${baseName}.json`);
+
+  if (svg) {
+    const map = renderRealmSvg(realm, {
+      viewOptions: { ...viewOptions, isGmView: !knight },
+      tileSets: DEFAULT_TILE_SETS,
+      terrainColors: TERRAIN_BASE_COLORS,
+      barrierColor,
+    });
+    await writeFile(`${baseName}.svg`, map);
+    written.push(`${baseName}.svg`);
+  }
+  return written;
+}
+
+/**
+ * Reads the command-line arguments.
+ * @throws {UsageError} If an option is unknown or is missing its value.
+ */
+function readArgs() {
+  try {
+    return parseArgs({
+      options: {
+        shape: { type: 'string', default: 'square' },
+        radius: { type: 'string' },
+        width: { type: 'string' },
+        height: { type: 'string' },
+        template: { type: 'string' },
+        options: { type: 'string' },
+        seed: { type: 'string' },
+        count: { type: 'string' },
+        out: { type: 'string', default: 'realms' },
+        svg: { type: 'boolean', default: false },
+        knight: { type: 'boolean', default: false },
+        help: { type: 'boolean', default: false },
+      },
+    }).values;
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function main() {
+  const values = readArgs();
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (values.shape !== 'hex' && values.shape !== 'square') {
+    throw new UsageError(`--shape must be "hex" or "square", got "${values.shape}".`);
+  }
+  const shape =
+    values.shape === 'hex'
+      ? {
+          shape: 'hex' as const,
+          radius: parseCount('radius', values.radius, DEFAULT_GRID_SIZE, 1),
+        }
+      : {
+          shape: 'square' as const,
+          width: parseCount('width', values.width, DEFAULT_GRID_SIZE, 1),
+          height: parseCount('height', values.height, DEFAULT_GRID_SIZE, 1),
+        };
+  const count = parseCount('count', values.count, 1, 1);
+
+  const firstSeed = values.seed !== undefined ? parseSeed(values.seed) : createRandomSeed();
+
+  const baseOptions = await loadGenerationOptions(values.template, values.options);
+  await mkdir(values.out, { recursive: true });
+
+  for (let i = 0; i < count; i++) {
+    const generationOptions: GenerationOptions = {
+      ...baseOptions,
+      seed: (firstSeed + i) % (MAX_SEED + 1),
+    };
+    const realm = generateRealm(shape, generationOptions);
+    const written = await writeRealm(realm, generationOptions, values.out, {
+      svg: values.svg,
+      knight: values.knight,
+    });
+    console.log(`Seed ${generationOptions.seed}: ${written.join(', ')}`);
+  }
+}
+
+main().catch((error: unknown) => {
+  if (error instanceof UsageError) {
+    console.error(`${error.message}\n\n${USAGE}`);
+  } else {
+    console.error(error);
+  }
+  process.exitCode = 1;
+});
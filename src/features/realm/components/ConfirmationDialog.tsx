@@ -57,7 +57,7 @@ export function ConfirmationDialog({
         >
           {title}
         </h2>
-        <p className="text-text-muted mb-6 text-center">{message}</p>
+        <p className="text-text-muted mb-6 text-center whitespace-pre-line">{message}</p>
         <div className="flex justify-center gap-4">
           {!isInfo && (
             <button
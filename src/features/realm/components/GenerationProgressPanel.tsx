@@ -0,0 +1,65 @@
+/**
+ * @file GenerationProgressPanel.tsx
+ * This component renders a floating panel showing the progress of realm generation, which runs
+ * in the background, with a button to cancel it.
+ */
+import React from 'react';
+import type { GenerationProgress, GenerationStage } from '@/features/realm/types';
+
+/** The stages of generation in the order they run, with the label shown for each. */
+const STAGES: { stage: GenerationStage; label: string }[] = [
+  { stage: 'terrain', label: 'Shaping the terrain' },
+  { stage: 'relaxation', label: 'Settling the terrain' },
+  { stage: 'holdings', label: 'Founding holdings' },
+  { stage: 'landmarks', label: 'Placing landmarks' },
+  { stage: 'myths', label: 'Placing myths' },
+];
+
+/**
+ * Props for the GenerationProgressPanel component.
+ */
+interface GenerationProgressPanelProps {
+  /** The progress of the generation under way. */
+  progress: GenerationProgress;
+  /** Callback to cancel generation. Without it, no cancel button is shown. */
+  onCancel?: (() => void) | undefined;
+}
+
+/**
+ * A component that renders the progress of realm generation.
+ */
+export function GenerationProgressPanel({ progress, onCancel }: GenerationProgressPanelProps) {
+  const index = Math.max(
+    0,
+    STAGES.findIndex(({ stage }) => stage === progress.stage)
+  );
+  const percent = Math.round(((index + progress.fraction) / STAGES.length) * 100);
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 w-72 bg-realm-canvas-backdrop/90 border border-border-panel-divider p-3 rounded-lg shadow-lg z-20">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="text-text-high-contrast">{STAGES[index]?.label}...</span>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="px-2 py-1 rounded-md text-xs text-text-muted transition-colors hover:bg-realm-command-panel-hover hover:text-text-high-contrast"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+      <div
+        className="mt-2 h-1.5 w-full rounded-full bg-realm-command-panel-surface overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div
+          className="h-full rounded-full bg-actions-command-primary transition-[width]"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -4,8 +4,12 @@
 
 import React, { useMemo, useRef } from 'react';
 import { Icon } from './Icon';
-import type { ViewOptions } from '@/features/realm/types';
-import { DEFAULT_GRID_COLOR, DEFAULT_GRID_WIDTH } from '@/features/realm/config/constants';
+import type { HexLabelStyle, ViewOptions } from '@/features/realm/types';
+import {
+  DEFAULT_GRID_COLOR,
+  DEFAULT_GRID_WIDTH,
+  HEX_LABEL_STYLES,
+} from '@/features/realm/config/constants';
 
 /**
  * Helper to convert RGBA string to hex and opacity.
@@ -87,6 +91,7 @@ export const GridSettingsPopover = React.forwardRef<HTMLDivElement, GridSettings
         showGrid: true,
         gridColor: DEFAULT_GRID_COLOR,
         gridWidth: DEFAULT_GRID_WIDTH,
+        hexLabels: 'none',
       }));
     };
 
@@ -199,6 +204,26 @@ export const GridSettingsPopover = React.forwardRef<HTMLDivElement, GridSettings
               aria-label="Grid border width"
             />
           </div>
+          <hr className="border-border-panel-divider" />
+          <div>
+            <label htmlFor="hex-labels" className="block text-sm font-medium text-text-muted mb-1">
+              Hex Labels
+            </label>
+            <select
+              id="hex-labels"
+              value={viewOptions.hexLabels}
+              onChange={(e) =>
+                setViewOptions((v) => ({ ...v, hexLabels: e.target.value as HexLabelStyle }))
+              }
+              className="w-full bg-realm-command-panel-surface p-2 text-sm font-medium text-text-muted focus:outline-none focus:ring-2 focus:ring-actions-command-primary rounded-md"
+            >
+              {HEX_LABEL_STYLES.map((style) => (
+                <option key={style.id} value={style.id}>
+                  {style.example ? `${style.label} (${style.example})` : style.label}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
         <div className="mt-4 pt-4 border-t border-border-panel-divider">
           <button
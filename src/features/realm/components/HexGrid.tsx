@@ -15,20 +15,70 @@ import type {
   TileSet,
   TerrainTextures,
   Point,
+  PathBrush,
+  PathPoint,
+  PathSnap,
+  RealmPath,
+  RevealBrush,
+  Tile,
+  PoiDetails,
+  Stamp,
+  TerrainBrush,
 } from '@/features/realm/types';
 import {
   axialToPixel,
   getHexCorners,
   getBarrierPath,
   findClosestEdge,
+  findClosestCorner,
   getNeighbors,
+  getHexesInRange,
+  pathPointToPixel,
 } from '@/features/realm/utils/hexUtils';
+import { erasePathsAt } from '@/features/realm/utils/pathUtils';
+import {
+  findTerrainRegion,
+  getBrushHexes,
+  getLineBrushHexes,
+  pickWeightedTerrain,
+} from '@/features/realm/utils/brushUtils';
+import { findHex, hexKey, replaceHexes } from '@/features/realm/utils/hexIndex';
+import { findHexesInShape, getSelectionOutline } from '@/features/realm/utils/selectionUtils';
+import type { SelectionShape } from '@/features/realm/utils/selectionUtils';
+import { cullHexes, getCullingBounds } from '@/features/realm/utils/viewportUtils';
 import { usePanAndZoom } from '@/features/realm/hooks/usePanAndZoom';
 import { HEX_SELECTED_COLOR } from '@/features/realm/config/constants';
 import { ToolsPalette } from './ToolsPalette';
 import { ShortcutTips } from './ShortcutTips';
 import type { ConfirmationState } from '@/app/App';
 import { Hexagon } from './hexgrid/Hexagon';
+import { RealmPaths } from './hexgrid/RealmPaths';
+import { HexFog } from './hexgrid/HexFog';
+import { PartyTrail } from './hexgrid/PartyTrail';
+import { MythLinks } from './hexgrid/MythLinks';
+import { TerrainChunks } from './hexgrid/TerrainChunks';
+import { HexLabels } from './hexgrid/HexLabels';
+import { MapOverlays } from './hexgrid/MapOverlays';
+import { StampPreview } from './hexgrid/StampPreview';
+import { BrushOutline } from './hexgrid/BrushOutline';
+import { HexTooltip } from './hexgrid/HexTooltip';
+import type { TooltipPlace } from './hexgrid/HexTooltip';
+
+/** The opacity of the fog of war in the Referee view, so unrevealed hexes stay visible while revealing. */
+const REFEREE_FOG_OPACITY = 0.55;
+/** How far the pointer must move, in screen pixels, before a click becomes a selection drag. */
+const SELECTION_DRAG_THRESHOLD = 4;
+
+/** A marquee or lasso being dragged with the Select tool. */
+interface SelectionDrag extends SelectionShape {
+  /** The hex the drag started on, which is clicked if the pointer barely moves. */
+  hex: Hex;
+  /** Whether the hexes are added to the selection rather than replacing it (Shift). */
+  isAdditive: boolean;
+  /** Where the drag started on screen. */
+  origin: Point;
+  isDragging: boolean;
+}
 
 /**
  * Props for the HexGrid component.
@@ -38,15 +88,35 @@ interface HexGridProps {
   onUpdateHex: (updatedHexes: Hex | Hex[]) => void;
   viewOptions: ViewOptions;
   selectedHex: Hex | null;
+  /** The keys of all selected hexes. */
+  selectedHexKeys: ReadonlySet<string>;
   onHexClick: (hex: Hex | null) => void;
+  /** Replaces the selection, after dragging a marquee or lasso or shift-clicking a hex. */
+  onSelectHexes: (keys: ReadonlySet<string>) => void;
   activeTool: Tool;
   setActiveTool: (tool: Tool) => void;
   paintTerrain: string;
+  /** The shape and size of the Terrain Painter's brush, and its scatter mix. */
+  terrainBrush: TerrainBrush;
   paintPoi: string | null;
+  paintPath: PathBrush;
+  pathSnap: PathSnap;
+  onAddPath: (path: Omit<RealmPath, 'id'>) => void;
+  onErasePaths: (hexKeys: Set<string>) => void;
+  revealBrush: RevealBrush;
+  revealRadius: number;
+  onMoveParty: (hex: Hex) => void;
+  /** The stamp pasted by the Stamp tool, already turned and mirrored. */
+  stamp: Stamp | null;
+  /** Pastes the stamp with its anchor on a hex. */
+  onPlaceStamp: (hex: Hex) => void;
   onAddMyth: (hex: Hex, andSelect?: boolean) => void;
   onRemoveMyth: (hex: Hex) => void;
   relocatingMythId: number | null;
   onRelocateMyth: (mythId: number, newHex: Hex) => void;
+  /** The ID of the myth whose linked hexes are being picked on the map, if any. */
+  linkingMythId: number | null;
+  onToggleMythLink: (mythId: number, hex: Hex) => void;
   onSetSeatOfPower: (hex: Hex) => void;
   tileSets: TileSet;
   terrainColors: Record<string, string>;
@@ -70,17 +140,32 @@ export function HexGrid({
   onUpdateHex,
   viewOptions,
   selectedHex,
+  selectedHexKeys,
   onHexClick,
+  onSelectHexes,
   activeTool,
   setActiveTool,
   paintTerrain,
+  terrainBrush,
   paintPoi,
+  paintPath,
+  pathSnap,
+  onAddPath,
+  onErasePaths,
+  revealBrush,
+  revealRadius,
+  onMoveParty,
+  stamp,
+  onPlaceStamp,
   onAddMyth,
   onRemoveMyth,
   relocatingMythId,
   onRelocateMyth,
+  linkingMythId,
+  onToggleMythLink,
   onSetSeatOfPower,
   tileSets,
+  terrainColors,
   barrierColor,
   isSettingsOpen,
   isPickingTile,
@@ -92,7 +177,7 @@ export function HexGrid({
   isInteractive = true,
   staticPadding,
 }: HexGridProps) {
-  const { viewbox, containerRef, onMouseDown, isPanning } = usePanAndZoom({
+  const { viewbox, containerRef, onMouseDown, isPanning, viewport } = usePanAndZoom({
     initialWidth: 1000,
     initialHeight: 800,
     minZoom: 0.2,
@@ -126,10 +211,13 @@ export function HexGrid({
   const [isPainting, setIsPainting] = useState(false);
   const [paintedHexes, setPaintedHexes] = useState(new Map<string, Hex>());
   const barrierPaintModeRef = useRef<'add' | 'remove'>('add');
-  const realmHexesMap = useMemo(
-    () => new Map(realm.hexes.map((h) => [`${h.q},${h.r}`, h])),
-    [realm.hexes]
-  );
+  // The hex a line of terrain is dragged from, and the hexes scattered over in this stroke.
+  const lineStartRef = useRef<Hex | null>(null);
+  const scatteredHexesRef = useRef(new Set<string>());
+  const [draftPathPoints, setDraftPathPoints] = useState<PathPoint[]>([]);
+  const [erasedPathHexes, setErasedPathHexes] = useState(new Set<string>());
+  const selectionDragRef = useRef<SelectionDrag | null>(null);
+  const [selectionShape, setSelectionShape] = useState<SelectionShape | null>(null);
   const staticViewBox = useMemo(() => {
     if (isInteractive) {
       return null;
@@ -188,13 +276,42 @@ export function HexGrid({
   ]);
   const svgViewBox = isInteractive ? viewbox : (staticViewBox ?? viewbox);
   const svgRef = useRef<SVGSVGElement>(null);
+
+  /**
+   * Converts a point on screen to map units.
+   */
+  const toMapPoint = useCallback((clientX: number, clientY: number): Point | null => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return null;
+    const svgPoint = svg.createSVGPoint();
+    svgPoint.x = clientX;
+    svgPoint.y = clientY;
+    const { x, y } = svgPoint.matrixTransform(ctm.inverse());
+    return { x, y };
+  }, []);
+
   const [isSpacePanActive, setIsSpacePanActive] = useState(false);
+  // The hovered hex and the top of it on screen, relative to the container, for the tooltip.
+  const [hoveredHex, setHoveredHex] = useState<{
+    key: string;
+    q: number;
+    r: number;
+    position: Point;
+  } | null>(null);
   const [hoveredBarrier, setHoveredBarrier] = useState<{
     q: number;
     r: number;
     edge: number;
   } | null>(null);
 
+  /**
+   * Effect to hide the hex tooltip when the map is panned or zoomed, as it would be out of place.
+   */
+  useEffect(() => {
+    setHoveredHex(null);
+  }, [viewbox]);
+
   /**
    * Effect to enable panning with the spacebar.
    */
@@ -247,6 +364,8 @@ export function HexGrid({
       container.style.cursor = isPanning ? 'grabbing' : 'grab';
     } else if (relocatingMythId !== null) {
       container.style.cursor = 'move';
+    } else if (linkingMythId !== null) {
+      container.style.cursor = 'crosshair';
     } else {
       switch (activeTool) {
         case 'select':
@@ -257,7 +376,11 @@ export function HexGrid({
           break;
         case 'myth':
         case 'barrier':
+        case 'path':
+        case 'reveal':
+        case 'party':
         case 'poi':
+        case 'stamp':
           container.style.cursor = 'crosshair';
           break;
         default:
@@ -270,6 +393,7 @@ export function HexGrid({
     isSpacePanActive,
     isPanning,
     relocatingMythId,
+    linkingMythId,
     activeTool,
     containerRef,
   ]);
@@ -278,31 +402,174 @@ export function HexGrid({
    * Memoized array of hexes to display, combining base realm hexes with
    * any hexes currently being painted for a responsive preview.
    */
-  const displayHexes = useMemo(() => {
-    if (paintedHexes.size === 0) return realm.hexes;
-    const hexesMap = new Map(realm.hexes.map((h) => [`${h.q},${h.r}`, h]));
-    paintedHexes.forEach((hex, key) => hexesMap.set(key, hex));
-    return Array.from(hexesMap.values());
-  }, [realm.hexes, paintedHexes]);
+  const displayHexes = useMemo(
+    () => replaceHexes(realm.hexes, paintedHexes.values()),
+    [realm.hexes, paintedHexes]
+  );
+
+  // The interactive map only draws the hexes near the viewport, and draws their terrain from
+  // cached bitmaps. The static map, which is exported, draws every hex in full.
+  const isCulled = isInteractive && viewport !== null;
+  const cullingBounds = viewport ? getCullingBounds(viewport) : null;
+  const cullX = cullingBounds?.x;
+  const cullY = cullingBounds?.y;
+  const cullWidth = cullingBounds?.width;
+  const cullHeight = cullingBounds?.height;
+
+  /**
+   * Memoized array of the hexes to draw. The culling bounds snap to a coarse grid, so the
+   * array stays the same while the map pans a little.
+   */
+  const visibleHexes = useMemo(() => {
+    if (
+      !isCulled ||
+      cullX === undefined ||
+      cullY === undefined ||
+      cullWidth === undefined ||
+      cullHeight === undefined
+    ) {
+      return displayHexes;
+    }
+    return cullHexes(displayHexes, viewOptions.orientation, viewOptions.hexSize, {
+      x: cullX,
+      y: cullY,
+      width: cullWidth,
+      height: cullHeight,
+    });
+  }, [
+    isCulled,
+    cullX,
+    cullY,
+    cullWidth,
+    cullHeight,
+    displayHexes,
+    viewOptions.orientation,
+    viewOptions.hexSize,
+  ]);
+
+  /**
+   * Memoized paths to display, with any hexes being erased already cleared for a preview.
+   */
+  const displayPaths = useMemo(
+    () => erasePathsAt(realm.paths, erasedPathHexes),
+    [realm.paths, erasedPathHexes]
+  );
+
+  /**
+   * Extends the path being drawn, or erases paths, as the mouse passes over a hex.
+   * Points snap to the hex centre or to the hex corner nearest the pointer.
+   */
+  const handlePathStroke = useCallback(
+    (hex: Hex, e: React.MouseEvent) => {
+      if (paintPath === 'eraser') {
+        const key = `${hex.q},${hex.r}`;
+        setErasedPathHexes((prev) => (prev.has(key) ? prev : new Set(prev).add(key)));
+        return;
+      }
+
+      let point: PathPoint = { q: hex.q, r: hex.r };
+      if (pathSnap === 'edge' && svgRef.current) {
+        const center = axialToPixel(hex, viewOptions.orientation, viewOptions.hexSize);
+        const svgPoint = svgRef.current.createSVGPoint();
+        svgPoint.x = e.clientX;
+        svgPoint.y = e.clientY;
+        const ctm = svgRef.current.getScreenCTM();
+        if (!ctm) return;
+        const transformedPoint = svgPoint.matrixTransform(ctm.inverse());
+        const relativePoint = {
+          x: transformedPoint.x - center.x,
+          y: transformedPoint.y - center.y,
+        };
+        point = { ...point, corner: findClosestCorner(relativePoint, hexCorners) };
+      }
+
+      setDraftPathPoints((prev) => {
+        const last = prev[prev.length - 1];
+        if (last) {
+          // Hex corners are shared between neighbours, so compare positions rather than hexes.
+          const a = pathPointToPixel(
+            last,
+            viewOptions.orientation,
+            viewOptions.hexSize,
+            hexCorners
+          );
+          const b = pathPointToPixel(
+            point,
+            viewOptions.orientation,
+            viewOptions.hexSize,
+            hexCorners
+          );
+          if (Math.hypot(a.x - b.x, a.y - b.y) < 1) return prev;
+        }
+        return [...prev, point];
+      });
+    },
+    [paintPath, pathSnap, viewOptions.orientation, viewOptions.hexSize, hexCorners]
+  );
 
   /**
-   * Handles the painting logic for terrain and barriers while the mouse is held down.
+   * Handles the painting logic for terrain, barriers and the fog of war while the mouse is held down.
    */
   const handlePaint = useCallback(
     (hex: Hex, e?: React.MouseEvent) => {
       if (!isInteractive) return;
-      if (activeTool !== 'terrain' && activeTool !== 'barrier') return;
+      if (activeTool !== 'terrain' && activeTool !== 'barrier' && activeTool !== 'reveal') return;
+
+      // The scatter brush picks the terrain of each hex once per stroke, so dragging back over a
+      // hex keeps its pick. The picks are made here, as React may run the state update twice.
+      const scatterPicks = new Map<string, string>();
+      if (activeTool === 'terrain' && terrainBrush.shape === 'scatter') {
+        getBrushHexes(hex, terrainBrush.size).forEach(({ q, r }) => {
+          const key = `${q},${r}`;
+          if (scatteredHexesRef.current.has(key)) return;
+          scatteredHexesRef.current.add(key);
+          scatterPicks.set(key, pickWeightedTerrain(terrainBrush.scatterWeights) ?? paintTerrain);
+        });
+      }
+
+      const lineStart = lineStartRef.current ?? hex;
 
       setPaintedHexes((prevPainted) => {
         const getHex = (q: number, r: number) =>
-          prevPainted.get(`${q},${r}`) || realmHexesMap.get(`${q},${r}`);
+          prevPainted.get(`${q},${r}`) || findHex(realm.hexes, q, r);
         const currentHex = getHex(hex.q, hex.r);
         if (!currentHex) return prevPainted;
 
         const newPainted = new Map(prevPainted);
         if (activeTool === 'terrain') {
-          if (currentHex.terrain === paintTerrain) return prevPainted;
-          newPainted.set(`${hex.q},${hex.r}`, { ...currentHex, terrain: paintTerrain });
+          const { shape, size } = terrainBrush;
+          if (shape === 'line') {
+            // The line is drawn again from where the drag started, rather than added to.
+            const line = new Map<string, Hex>();
+            getLineBrushHexes(lineStart, hex, size).forEach(({ q, r }) => {
+              const targetHex = findHex(realm.hexes, q, r);
+              if (!targetHex || targetHex.terrain === paintTerrain) return;
+              line.set(`${q},${r}`, { ...targetHex, terrain: paintTerrain });
+            });
+            return line;
+          }
+          let hasChanged = false;
+          getBrushHexes(hex, size, shape === 'ring').forEach(({ q, r }) => {
+            const key = `${q},${r}`;
+            const targetHex = getHex(q, r);
+            if (!targetHex) return;
+            const terrain = shape === 'scatter' ? scatterPicks.get(key) : paintTerrain;
+            if (!terrain || targetHex.terrain === terrain) return;
+            newPainted.set(key, { ...targetHex, terrain });
+            hasChanged = true;
+          });
+          if (!hasChanged) return prevPainted;
+        } else if (activeTool === 'reveal') {
+          const isRevealing = revealBrush === 'reveal';
+          let hasChanged = false;
+          getHexesInRange(hex, revealRadius).forEach(({ q, r }) => {
+            const targetHex = getHex(q, r);
+            if (!targetHex || Boolean(targetHex.isRevealed) === isRevealing) return;
+            const { isRevealed: _isRevealed, ...rest } = targetHex;
+            newPainted.set(`${q},${r}`, isRevealing ? { ...rest, isRevealed: true } : rest);
+            hasChanged = true;
+          });
+          if (!hasChanged) return prevPainted;
         } else if (activeTool === 'barrier' && e && svgRef.current) {
           const center = axialToPixel(hex, viewOptions.orientation, viewOptions.hexSize);
           const svgPoint = svgRef.current.createSVGPoint();
@@ -351,7 +618,10 @@ export function HexGrid({
       isInteractive,
       activeTool,
       paintTerrain,
-      realmHexesMap,
+      terrainBrush,
+      revealBrush,
+      revealRadius,
+      realm.hexes,
       viewOptions.orientation,
       viewOptions.hexSize,
       hexCorners,
@@ -376,20 +646,45 @@ export function HexGrid({
       if (relocatingMythId !== null) {
         e.stopPropagation();
         e.preventDefault();
-        const targetHex = realm.hexes.find((h) => h.q === hex.q && h.r === hex.r);
+        const targetHex = findHex(realm.hexes, hex.q, hex.r);
         if (targetHex) onRelocateMyth(relocatingMythId, targetHex);
         return;
       }
 
+      if (linkingMythId !== null) {
+        e.stopPropagation();
+        e.preventDefault();
+        const targetHex = findHex(realm.hexes, hex.q, hex.r);
+        if (targetHex) onToggleMythLink(linkingMythId, targetHex);
+        return;
+      }
+
       if (activeTool === 'select') {
-        onHexClick(hex);
+        // A plain click selects one hex and a plain drag pans the map. Dragging with Shift
+        // selects the hexes under a marquee, and with Alt those under a lasso.
+        if (!e.shiftKey && !e.altKey) {
+          onHexClick(hex);
+          return;
+        }
+        e.stopPropagation();
+        e.preventDefault();
+        const start = toMapPoint(e.clientX, e.clientY);
+        if (!start) return;
+        selectionDragRef.current = {
+          mode: e.altKey ? 'lasso' : 'marquee',
+          points: [start],
+          hex,
+          isAdditive: e.shiftKey,
+          origin: { x: e.clientX, y: e.clientY },
+          isDragging: false,
+        };
         return;
       }
 
       e.stopPropagation();
       e.preventDefault();
 
-      const currentHex = realmHexesMap.get(`${hex.q},${hex.r}`);
+      const currentHex = findHex(realm.hexes, hex.q, hex.r);
       if (!currentHex) return;
 
       if (activeTool === 'myth') {
@@ -398,6 +693,16 @@ export function HexGrid({
         return;
       }
 
+      if (activeTool === 'party') {
+        onMoveParty(currentHex);
+        return;
+      }
+
+      if (activeTool === 'stamp') {
+        if (stamp) onPlaceStamp(currentHex);
+        return;
+      }
+
       if (activeTool === 'poi' && paintPoi) {
         const [type, id] = paintPoi.split(':');
         if (typeof id === 'undefined') return;
@@ -422,29 +727,51 @@ export function HexGrid({
             }
           }
         } else {
+          // Removing a holding or landmark also discards its record.
           const updatedHex: Hex = { ...currentHex };
           if (type === 'holding') {
             if (updatedHex.holding === id) {
               delete updatedHex.holding;
+              delete updatedHex.holdingDetails;
             } else {
               updatedHex.holding = id;
             }
             delete updatedHex.landmark;
+            delete updatedHex.landmarkDetails;
           } else if (type === 'landmark') {
             if (updatedHex.landmark === id) {
               delete updatedHex.landmark;
+              delete updatedHex.landmarkDetails;
             } else {
               updatedHex.landmark = id;
             }
             delete updatedHex.holding;
+            delete updatedHex.holdingDetails;
           }
           onUpdateHex([updatedHex]);
         }
         return;
       }
 
-      if (activeTool === 'terrain' || activeTool === 'barrier') {
+      if (activeTool === 'path') {
         setIsPainting(true);
+        handlePathStroke(hex, e);
+        return;
+      }
+
+      if (activeTool === 'terrain' && terrainBrush.shape === 'fill') {
+        if (currentHex.terrain !== paintTerrain) {
+          onUpdateHex(
+            findTerrainRegion(realm.hexes, currentHex).map((h) => ({ ...h, terrain: paintTerrain }))
+          );
+        }
+        return;
+      }
+
+      if (activeTool === 'terrain' || activeTool === 'barrier' || activeTool === 'reveal') {
+        setIsPainting(true);
+        lineStartRef.current = currentHex;
+        scatteredHexesRef.current = new Set();
         if (activeTool === 'barrier' && svgRef.current) {
           const center = axialToPixel(hex, viewOptions.orientation, viewOptions.hexSize);
           const svgPoint = svgRef.current.createSVGPoint();
@@ -473,10 +800,17 @@ export function HexGrid({
       relocatingMythId,
       realm.hexes,
       onRelocateMyth,
+      linkingMythId,
+      onToggleMythLink,
       activeTool,
+      toMapPoint,
       onHexClick,
-      realmHexesMap,
       onAddMyth,
+      onMoveParty,
+      stamp,
+      onPlaceStamp,
+      paintTerrain,
+      terrainBrush.shape,
       paintPoi,
       onRemoveMyth,
       onSetSeatOfPower,
@@ -487,6 +821,7 @@ export function HexGrid({
       hexCorners,
       paintedHexes,
       handlePaint,
+      handlePathStroke,
     ]
   );
 
@@ -495,13 +830,63 @@ export function HexGrid({
    */
   const handleMouseUp = useCallback(() => {
     if (!isInteractive) return;
+
+    const drag = selectionDragRef.current;
+    if (drag) {
+      selectionDragRef.current = null;
+      setSelectionShape(null);
+      const key = hexKey(drag.hex.q, drag.hex.r);
+      if (drag.isDragging) {
+        const keys = findHexesInShape(
+          realm.hexes,
+          viewOptions.orientation,
+          viewOptions.hexSize,
+          drag
+        );
+        onSelectHexes(new Set(drag.isAdditive ? [...selectedHexKeys, ...keys] : keys));
+      } else if (drag.isAdditive) {
+        const keys = new Set(selectedHexKeys);
+        if (keys.has(key)) keys.delete(key);
+        else keys.add(key);
+        onSelectHexes(keys);
+      } else {
+        onHexClick(drag.hex);
+      }
+      return;
+    }
+
     if (!isPainting) return;
     setIsPainting(false);
+    lineStartRef.current = null;
     if (paintedHexes.size > 0) {
       onUpdateHex(Array.from(paintedHexes.values()));
     }
     setPaintedHexes(new Map());
-  }, [isInteractive, isPainting, onUpdateHex, paintedHexes]);
+    if (draftPathPoints.length >= 2 && paintPath !== 'eraser') {
+      onAddPath({ type: paintPath, points: draftPathPoints });
+    }
+    setDraftPathPoints([]);
+    if (erasedPathHexes.size > 0) {
+      onErasePaths(erasedPathHexes);
+    }
+    setErasedPathHexes(new Set());
+  }, [
+    isInteractive,
+    realm.hexes,
+    viewOptions.orientation,
+    viewOptions.hexSize,
+    selectedHexKeys,
+    onSelectHexes,
+    onHexClick,
+    isPainting,
+    onUpdateHex,
+    paintedHexes,
+    draftPathPoints,
+    paintPath,
+    onAddPath,
+    erasedPathHexes,
+    onErasePaths,
+  ]);
 
   /**
    * Handles mouse move events for painting and barrier hover previews.
@@ -509,9 +894,33 @@ export function HexGrid({
   const handleHexMouseMove = useCallback(
     (hex: Hex, e: React.MouseEvent) => {
       if (!isInteractive) return;
+
+      const hexKey = `${hex.q},${hex.r}`;
+      if (hoveredHex?.key !== hexKey && svgRef.current && containerRef.current) {
+        const ctm = svgRef.current.getScreenCTM();
+        if (ctm) {
+          const center = axialToPixel(hex, viewOptions.orientation, viewOptions.hexSize);
+          const svgPoint = svgRef.current.createSVGPoint();
+          svgPoint.x = center.x;
+          svgPoint.y = center.y + hexBoundingBox.y;
+          const screenPoint = svgPoint.matrixTransform(ctm);
+          const containerRect = containerRef.current.getBoundingClientRect();
+          setHoveredHex({
+            key: hexKey,
+            q: hex.q,
+            r: hex.r,
+            position: {
+              x: screenPoint.x - containerRect.left,
+              y: screenPoint.y - containerRect.top,
+            },
+          });
+        }
+      }
+
       // Robust painting on drag
       if (isPainting) {
-        handlePaint(hex, e);
+        if (activeTool === 'path') handlePathStroke(hex, e);
+        else handlePaint(hex, e);
       }
 
       // Barrier hover preview
@@ -551,10 +960,121 @@ export function HexGrid({
       viewOptions.hexSize,
       hexCorners,
       hoveredBarrier,
+      hoveredHex,
+      hexBoundingBox.y,
+      containerRef,
       handlePaint,
+      handlePathStroke,
     ]
   );
 
+  /**
+   * Handles mouse move events over the map to extend a marquee or lasso being dragged.
+   */
+  const handleSelectionDrag = useCallback(
+    (e: React.MouseEvent) => {
+      const drag = selectionDragRef.current;
+      if (!drag) return;
+      const distance = Math.hypot(e.clientX - drag.origin.x, e.clientY - drag.origin.y);
+      if (!drag.isDragging && distance < SELECTION_DRAG_THRESHOLD) return;
+      const point = toMapPoint(e.clientX, e.clientY);
+      const [start] = drag.points;
+      const last = drag.points[drag.points.length - 1];
+      if (!point || !start || !last) return;
+      drag.isDragging = true;
+      if (drag.mode === 'marquee') {
+        drag.points = [start, point];
+      } else if (Math.hypot(point.x - last.x, point.y - last.y) >= viewOptions.hexSize.x / 4) {
+        drag.points = [...drag.points, point];
+      }
+      setSelectionShape({ mode: drag.mode, points: drag.points });
+    },
+    [toMapPoint, viewOptions.hexSize.x]
+  );
+
+  // The memoized hexes get handlers that never change and call the latest ones, so that
+  // hovering and painting do not draw every hex again.
+  const hexHandlersRef = useRef({
+    onMouseDown: handleHexMouseDown,
+    onMouseMove: handleHexMouseMove,
+  });
+  useEffect(() => {
+    hexHandlersRef.current = { onMouseDown: handleHexMouseDown, onMouseMove: handleHexMouseMove };
+  }, [handleHexMouseDown, handleHexMouseMove]);
+  const onHexMouseDown = useCallback(
+    (hex: Hex, e: React.MouseEvent) => hexHandlersRef.current.onMouseDown(hex, e),
+    []
+  );
+  const onHexMouseMove = useCallback(
+    (hex: Hex, e: React.MouseEvent) => hexHandlersRef.current.onMouseMove(hex, e),
+    []
+  );
+
+  // Knights never see through the fog. The Referee sees it faintly while using the Reveal tool.
+  const fogOpacity =
+    viewOptions.visibility.knight.fogOfWar && !viewOptions.isGmView
+      ? 1
+      : isInteractive && activeTool === 'reveal'
+        ? REFEREE_FOG_OPACITY
+        : 0;
+
+  /**
+   * Memoized hexes of each layer, which stay the same while the map pans within the culling
+   * bounds. On the interactive map, only the hexes being painted draw their own terrain.
+   */
+  const hexLayers = useMemo(() => {
+    const renderHexes = (layer: 'background' | 'foreground') =>
+      visibleHexes.map((hex) => {
+        const isSelected = selectedHexKeys.has(hexKey(hex.q, hex.r));
+        const isSeatOfPower = Boolean(
+          hex.holding && hex.q === realm.seatOfPower.q && hex.r === realm.seatOfPower.r
+        );
+        return (
+          <Hexagon
+            key={`hex-${layer}-${hex.q}-${hex.r}`}
+            hex={hex}
+            viewOptions={viewOptions}
+            tileSets={tileSets}
+            terrainTextures={terrainTextures}
+            barrierColor={barrierColor}
+            isSelected={isSelected}
+            isSeatOfPower={isSeatOfPower}
+            isFogged={fogOpacity === 1 && !hex.isRevealed}
+            showTerrain={!isCulled || paintedHexes.has(`${hex.q},${hex.r}`)}
+            isSpacePanActive={isSpacePanActive}
+            activeTool={activeTool}
+            isPickingTile={isPickingTile}
+            onMouseDown={onHexMouseDown}
+            onMouseMove={onHexMouseMove}
+            hexCorners={hexCorners}
+            hexCornersInnerHighlight={hexCornersInnerHighlight}
+            hexBoundingBox={hexBoundingBox}
+            layer={layer}
+          />
+        );
+      });
+    return { background: renderHexes('background'), foreground: renderHexes('foreground') };
+  }, [
+    visibleHexes,
+    selectedHexKeys,
+    realm.seatOfPower,
+    viewOptions,
+    tileSets,
+    terrainTextures,
+    barrierColor,
+    fogOpacity,
+    isCulled,
+    paintedHexes,
+    isSpacePanActive,
+    activeTool,
+    isPickingTile,
+    onHexMouseDown,
+    onHexMouseMove,
+    hexCorners,
+    hexCornersInnerHighlight,
+    hexBoundingBox,
+  ]);
+
   if (isLoadingTextures || !terrainTextures) {
     return (
       <div className="flex items-center justify-center h-full text-text-muted">
@@ -563,34 +1083,64 @@ export function HexGrid({
     );
   }
 
-  const renderHexes = (layer: 'background' | 'foreground') => {
-    return displayHexes.map((hex) => {
-      const isSelected = selectedHex ? hex.q === selectedHex.q && hex.r === selectedHex.r : false;
-      const isSeatOfPower = Boolean(
-        hex.holding && hex.q === realm.seatOfPower.q && hex.r === realm.seatOfPower.r
-      );
-      return (
-        <Hexagon
-          key={`hex-${layer}-${hex.q}-${hex.r}`}
-          hex={hex}
-          viewOptions={viewOptions}
-          tileSets={tileSets}
-          terrainTextures={terrainTextures}
-          barrierColor={barrierColor}
-          isSelected={isSelected}
-          isSeatOfPower={isSeatOfPower}
-          isSpacePanActive={isSpacePanActive}
-          activeTool={activeTool}
-          isPickingTile={isPickingTile}
-          onMouseDown={handleHexMouseDown}
-          onMouseMove={handleHexMouseMove}
-          hexCorners={hexCorners}
-          hexCornersInnerHighlight={hexCornersInnerHighlight}
-          hexBoundingBox={hexBoundingBox}
-          layer={layer}
-        />
-      );
-    });
+  // While the Myth tool is open, the links of the myth being edited are shown on the map.
+  const editedMythId = linkingMythId ?? selectedHex?.myth;
+  const editedMyth =
+    isInteractive && activeTool === 'myth'
+      ? realm.myths.find((myth) => myth.id === editedMythId)
+      : undefined;
+
+  const renderTooltip = () => {
+    if (!hoveredHex || isPainting || isPanning || isSpacePanActive || activeTool === 'stamp') {
+      return null;
+    }
+    const hex = findHex(realm.hexes, hoveredHex.q, hoveredHex.r);
+    if (!hex || (fogOpacity === 1 && !hex.isRevealed)) return null;
+    const { isGmView, visibility } = viewOptions;
+    const showNotes = isGmView || visibility.knight.showHexNotes;
+
+    // Knights see only the public fields of the places they can see on the map.
+    const describePlace = (
+      tiles: Tile[],
+      id: string | undefined,
+      details: PoiDetails | undefined,
+      knightVisibility: Record<string, boolean>,
+      occupantLabel: string
+    ): TooltipPlace[] => {
+      if (!id || !details) return [];
+      if (!isGmView && (!visibility.knight.showPoiDetails || !(knightVisibility[id] ?? true))) {
+        return [];
+      }
+      const { secrets: _secrets, ...publicDetails } = details;
+      const typeLabel = tiles.find((tile) => tile.id === id)?.label ?? id;
+      return [{ typeLabel, occupantLabel, details: isGmView ? details : publicDetails }];
+    };
+    const places = [
+      ...describePlace(
+        tileSets.holding,
+        hex.holding,
+        hex.holdingDetails,
+        visibility.knight.holdings,
+        'Ruler'
+      ),
+      ...describePlace(
+        tileSets.landmark,
+        hex.landmark,
+        hex.landmarkDetails,
+        visibility.knight.landmarks,
+        'Occupant'
+      ),
+    ];
+
+    return (
+      <HexTooltip
+        position={hoveredHex.position}
+        name={isGmView || visibility.knight.showHexNames ? hex.name : undefined}
+        tags={showNotes ? hex.tags : undefined}
+        notes={showNotes ? hex.notes : undefined}
+        places={places}
+      />
+    );
   };
 
   return (
@@ -604,12 +1154,14 @@ export function HexGrid({
         className="w-full h-full"
         viewBox={svgViewBox}
         onMouseDown={!isInteractive || isPickingTile ? undefined : onMouseDown}
+        onMouseMove={isInteractive ? handleSelectionDrag : undefined}
         onMouseUp={isInteractive ? handleMouseUp : undefined}
         onMouseLeave={
           isInteractive
             ? () => {
                 handleMouseUp();
                 setHoveredBarrier(null);
+                setHoveredHex(null);
               }
             : undefined
         }
@@ -620,14 +1172,48 @@ export function HexGrid({
           </clipPath>
         </defs>
 
-        <g>{renderHexes('background')}</g>
-        <g>{renderHexes('foreground')}</g>
+        {isCulled && viewport && (
+          <TerrainChunks
+            hexes={realm.hexes}
+            viewOptions={viewOptions}
+            terrainTextures={terrainTextures}
+            hexBoundingBox={hexBoundingBox}
+            viewport={viewport}
+            hideUnrevealed={fogOpacity === 1}
+          />
+        )}
+        <g>{hexLayers.background}</g>
+        <RealmPaths
+          paths={displayPaths}
+          viewOptions={viewOptions}
+          hexCorners={hexCorners}
+          draftPath={
+            paintPath !== 'eraser' && draftPathPoints.length > 0
+              ? { type: paintPath, points: draftPathPoints }
+              : null
+          }
+        />
+        {fogOpacity > 0 && (
+          <HexFog
+            hexes={visibleHexes}
+            viewOptions={viewOptions}
+            hexCorners={hexCorners}
+            idPrefix={svgId}
+            opacity={fogOpacity}
+          />
+        )}
+        <PartyTrail party={realm.party} viewOptions={viewOptions} hexCorners={hexCorners} />
+        {editedMyth && (
+          <MythLinks myth={editedMyth} viewOptions={viewOptions} hexCorners={hexCorners} />
+        )}
+        <g>{hexLayers.foreground}</g>
+        <HexLabels hexes={displayHexes} visibleHexes={visibleHexes} viewOptions={viewOptions} />
 
         {/* Barrier Hover Highlight Layer */}
         {isInteractive && hoveredBarrier && activeTool === 'barrier' && !isPainting && (
           <g style={{ pointerEvents: 'none' }}>
             {(() => {
-              const hex = realmHexesMap.get(`${hoveredBarrier.q},${hoveredBarrier.r}`);
+              const hex = findHex(realm.hexes, hoveredBarrier.q, hoveredBarrier.r);
               if (!hex) return null;
               return (
                 <g
@@ -647,7 +1233,54 @@ export function HexGrid({
             })()}
           </g>
         )}
+        {isInteractive &&
+          activeTool === 'terrain' &&
+          terrainBrush.shape !== 'fill' &&
+          terrainBrush.size > 1 &&
+          hoveredHex &&
+          !isPanning && (
+            <BrushOutline
+              hexes={getBrushHexes(hoveredHex, terrainBrush.size, terrainBrush.shape === 'ring')}
+              orientation={viewOptions.orientation}
+              hexSize={viewOptions.hexSize}
+              hexCorners={hexCorners}
+            />
+          )}
+        {isInteractive && activeTool === 'stamp' && stamp && hoveredHex && !isPanning && (
+          <StampPreview
+            stamp={stamp}
+            target={hoveredHex}
+            orientation={viewOptions.orientation}
+            hexSize={viewOptions.hexSize}
+            hexCorners={hexCorners}
+            terrainColors={terrainColors}
+            barrierColor={barrierColor}
+          />
+        )}
+        {selectionShape && (
+          <polygon
+            points={getSelectionOutline(selectionShape)
+              .map((p) => `${p.x},${p.y}`)
+              .join(' ')}
+            fill={HEX_SELECTED_COLOR}
+            fillOpacity={0.1}
+            stroke={HEX_SELECTED_COLOR}
+            strokeWidth={1.5}
+            strokeDasharray="6 4"
+            vectorEffect="non-scaling-stroke"
+            style={{ pointerEvents: 'none' }}
+          />
+        )}
+        <MapOverlays
+          realm={realm}
+          tileSets={tileSets}
+          terrainColors={terrainColors}
+          barrierColor={barrierColor}
+          viewOptions={viewOptions}
+          viewBox={svgViewBox}
+        />
       </svg>
+      {isInteractive && renderTooltip()}
       {!isSettingsOpen && <ToolsPalette activeTool={activeTool} setActiveTool={setActiveTool} />}
       {!isSettingsOpen && <ShortcutTips />}
     </div>
@@ -1,8 +1,10 @@
-﻿/**
+/**
  * @file HistoryControls.tsx
- * This component renders a floating panel with Undo and Redo buttons.
+ * This component renders a floating panel with Undo and Redo buttons, and a list of the
+ * steps of the history for jumping to any of them.
  */
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import type { RealmHistoryEntry } from '@/features/realm/types';
 import { Icon } from './Icon';
 
 /**
@@ -13,34 +15,92 @@ interface HistoryControlsProps {
   onUndo: () => void;
   /** Callback to trigger the redo action. */
   onRedo: () => void;
+  /** Callback to undo or redo steps until the given number of steps are made. */
+  onJump: (position: number) => void;
   /** Whether the undo action is available. */
   canUndo: boolean;
   /** Whether the redo action is available. */
   canRedo: boolean;
+  /** The steps that can be undone, oldest first. */
+  past: RealmHistoryEntry[];
+  /** The steps that can be redone, next first. */
+  future: RealmHistoryEntry[];
 }
 
+const BUTTON_CLASS =
+  'p-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-text-muted hover:bg-realm-command-panel-hover enabled:hover:text-text-high-contrast';
+
 /**
- * A component that renders floating Undo/Redo controls.
+ * A component that renders floating Undo/Redo controls and the history list.
  */
-export function HistoryControls({ onUndo, onRedo, canUndo, canRedo }: HistoryControlsProps) {
+export function HistoryControls({
+  onUndo,
+  onRedo,
+  onJump,
+  canUndo,
+  canRedo,
+  past,
+  future,
+}: HistoryControlsProps) {
+  const [isListOpen, setIsListOpen] = useState(false);
+  const currentRowRef = useRef<HTMLButtonElement>(null);
+  const rows = [{ label: 'Start of history', time: null }, ...past, ...future];
+
+  /**
+   * Effect to keep the current step in view as the list opens or the history moves.
+   */
+  useEffect(() => {
+    if (isListOpen) currentRowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [isListOpen, past.length]);
+
   return (
-    <div className="absolute bottom-4 right-[21rem] bg-realm-canvas-backdrop/80 border border-border-panel-divider p-2 rounded-lg shadow-lg flex items-center gap-2 z-10">
-      <button
-        onClick={onUndo}
-        disabled={!canUndo}
-        className="p-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-text-muted hover:bg-realm-command-panel-hover enabled:hover:text-text-high-contrast"
-        title="Undo (Ctrl+Z)"
-      >
-        <Icon name="undo" className="w-5 h-5" />
-      </button>
-      <button
-        onClick={onRedo}
-        disabled={!canRedo}
-        className="p-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-text-muted hover:bg-realm-command-panel-hover enabled:hover:text-text-high-contrast"
-        title="Redo (Ctrl+Y)"
-      >
-        <Icon name="redo" className="w-5 h-5" />
-      </button>
+    <div className="absolute bottom-4 right-[21rem] flex flex-col items-end gap-2 z-10">
+      {isListOpen && (
+        <ol
+          className="w-72 max-h-80 overflow-y-auto bg-realm-canvas-backdrop/90 border border-border-panel-divider p-1 rounded-lg shadow-lg text-sm"
+          aria-label="History"
+        >
+          {rows.map((row, position) => {
+            const isCurrent = position === past.length;
+            const isUndone = position > past.length;
+            return (
+              <li key={position}>
+                <button
+                  ref={isCurrent ? currentRowRef : undefined}
+                  onClick={() => onJump(position)}
+                  className={`w-full text-left px-2 py-1 rounded-md transition-colors hover:bg-realm-command-panel-hover ${
+                    isCurrent
+                      ? 'bg-realm-command-panel-hover text-text-high-contrast'
+                      : isUndone
+                        ? 'text-text-muted opacity-60'
+                        : 'text-text-muted'
+                  }`}
+                  title={row.time ? new Date(row.time).toLocaleTimeString() : undefined}
+                  aria-current={isCurrent ? 'step' : undefined}
+                >
+                  {row.label}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+      <div className="bg-realm-canvas-backdrop/80 border border-border-panel-divider p-2 rounded-lg shadow-lg flex items-center gap-2">
+        <button onClick={onUndo} disabled={!canUndo} className={BUTTON_CLASS} title="Undo (Ctrl+Z)">
+          <Icon name="undo" className="w-5 h-5" />
+        </button>
+        <button onClick={onRedo} disabled={!canRedo} className={BUTTON_CLASS} title="Redo (Ctrl+Y)">
+          <Icon name="redo" className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => setIsListOpen((prev) => !prev)}
+          className={`${BUTTON_CLASS} ${isListOpen ? 'text-text-high-contrast' : ''}`}
+          title="History"
+          aria-expanded={isListOpen}
+        >
+          <Icon name="history" className="w-5 h-5" />
+        </button>
+      </div>
     </div>
   );
 }
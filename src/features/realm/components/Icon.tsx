@@ -12,6 +12,7 @@ import {
   RotateCcw,
   Undo2,
   Redo2,
+  History,
   Eye,
   Hexagon,
   FileUp,
@@ -62,6 +63,7 @@ import {
   Wind,
   Compass,
   ArrowUp,
+  ArrowDown,
   Circle,
   Pipette,
   Wheat,
@@ -77,6 +79,28 @@ import {
   Gem,
   GripVertical,
   SlidersHorizontal,
+  Dices,
+  Lock,
+  LockOpen,
+  Library,
+  Import,
+  Save,
+  FolderOpen,
+  Copy,
+  Pencil,
+  Route,
+  Eraser,
+  EyeOff,
+  CloudFog,
+  Shield,
+  Footprints,
+  Link2,
+  Stamp,
+  RotateCw,
+  FlipHorizontal2,
+  Disc,
+  Slash,
+  PaintBucket,
 } from 'lucide-react';
 
 /**
@@ -90,10 +114,13 @@ export const iconComponentMap: Record<string, React.ElementType> = {
   grid: Hexagon,
   undo: Undo2,
   redo: Redo2,
+  history: History,
   eye: Eye,
   upload: FileUp,
   download: FileDown,
   'image-down': ImageDown,
+  library: Library,
+  import: Import,
   sun: Sun,
   moon: Moon,
 
@@ -113,6 +140,12 @@ export const iconComponentMap: Record<string, React.ElementType> = {
   'chevron-down': ChevronDown,
   move: Move,
   'trash-2': Trash2,
+  stamp: Stamp,
+  'rotate-cw': RotateCw,
+  'flip-horizontal': FlipHorizontal2,
+  disc: Disc,
+  slash: Slash,
+  'paint-bucket': PaintBucket,
   pipette: Pipette,
   reset: RotateCcw,
   star: Star,
@@ -121,10 +154,25 @@ export const iconComponentMap: Record<string, React.ElementType> = {
   network: Network,
   compass: Compass,
   'arrow-up': ArrowUp,
+  'arrow-down': ArrowDown,
   circle: Circle,
   'spray-can': SprayCan,
   'grip-vertical': GripVertical,
   sliders: SlidersHorizontal,
+  dices: Dices,
+  lock: Lock,
+  'lock-open': LockOpen,
+  save: Save,
+  'folder-open': FolderOpen,
+  copy: Copy,
+  pencil: Pencil,
+  route: Route,
+  eraser: Eraser,
+  'eye-off': EyeOff,
+  fog: CloudFog,
+  shield: Shield,
+  footprints: Footprints,
+  link: Link2,
 
   // Terrain & Spray Icons
   trees: Trees,
@@ -34,6 +34,12 @@ export function ShortcutTips() {
       <Shortcut keys={['Ctrl', 'Z']} description="Undo" />
       <Shortcut keys={['Ctrl', 'Y']} description="Redo" />
       <Shortcut keys={['Ctrl', 'I']} description="Pipette Tool" />
+      <Shortcut keys={['Shift', 'Click']} description="Add to Selection" />
+      <Shortcut keys={['Shift', 'Drag']} description="Box Select" />
+      <Shortcut keys={['Alt', 'Drag']} description="Lasso Select" />
+      <Shortcut keys={['Ctrl', 'C']} description="Copy Hexes" />
+      <Shortcut keys={['Ctrl', 'V']} description="Paste Hexes" />
+      <Shortcut keys={['R']} description="Turn Stamp" />
     </div>
   );
 }
@@ -6,11 +6,12 @@
  */
 
 import React, { useRef, useState, useEffect } from 'react';
-import type { ViewOptions, Realm, GenerationOptions, TileSet, Myth } from '@/features/realm/types';
+import type { ViewOptions, GenerationOptions, TileSet, Myth } from '@/features/realm/types';
 import { ToolbarButton } from './ui/ToolbarButton';
 import { SettingsModal } from './settings/SettingsModal';
 import { GridSettingsPopover } from './GridSettingsPopover';
 import type { ConfirmationState } from '@/app/App';
+import { RealmFileError, describeRealmFileError } from '@/features/realm/services/realmDocument';
 
 function ToolbarDivider() {
   return <div className="border-l border-border-panel-divider h-6" aria-hidden="true" />;
@@ -21,9 +22,12 @@ function ToolbarDivider() {
  */
 interface ToolbarProps {
   onGenerate: () => void;
-  onExportJson: () => void;
-  onExportPng: () => void;
-  onImportJson: (realm: Realm) => void;
+  onSaveProject: () => void;
+  onExportMap: () => void;
+  onOpenProject: (fileContent: string) => void;
+  /** Reads a map file from another tool and starts importing it. */
+  onImportMap: (file: File) => void;
+  onOpenLibrary: () => void;
   viewOptions: ViewOptions;
   setViewOptions: React.Dispatch<React.SetStateAction<ViewOptions>>;
   realmShape: 'hex' | 'square';
@@ -36,6 +40,8 @@ interface ToolbarProps {
   setRealmHeight: React.Dispatch<React.SetStateAction<number>>;
   generationOptions: GenerationOptions;
   setGenerationOptions: React.Dispatch<React.SetStateAction<GenerationOptions>>;
+  isSeedLocked: boolean;
+  setIsSeedLocked: React.Dispatch<React.SetStateAction<boolean>>;
   onGenerationOptionChange: <K extends keyof GenerationOptions>(
     key: K,
     value: GenerationOptions[K]
@@ -63,9 +69,11 @@ interface ToolbarProps {
  */
 export function Toolbar({
   onGenerate,
-  onExportJson,
-  onExportPng,
-  onImportJson,
+  onSaveProject,
+  onExportMap,
+  onOpenProject,
+  onImportMap,
+  onOpenLibrary,
   viewOptions,
   setViewOptions,
   isSettingsOpen,
@@ -76,6 +84,7 @@ export function Toolbar({
   ...settingsProps
 }: ToolbarProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [isGridSettingsOpen, setIsGridSettingsOpen] = useState(false);
   const gridSettingsPopoverRef = useRef<HTMLDivElement>(null);
   const gridSettingsButtonRef = useRef<HTMLButtonElement>(null);
@@ -111,7 +120,7 @@ export function Toolbar({
   }, [isSettingsOpen, isGridSettingsOpen, setIsSettingsOpen]);
 
   /**
-   * Handles the file selection for importing a realm.
+   * Handles the file selection for opening a project.
    */
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -121,28 +130,18 @@ export function Toolbar({
         try {
           const fileContent = e.target?.result;
           if (typeof fileContent !== 'string') throw new Error('File could not be read.');
-          const loadedData = JSON.parse(fileContent);
-          // Basic validation and backward compatibility for older formats
-          if (!loadedData.hexes || !loadedData.seatOfPower) throw new Error('Invalid realm file.');
-          if (!loadedData.myths) {
-            loadedData.myths = [];
-            loadedData.hexes.forEach((hex: { myth: number; q: number; r: number }) => {
-              if (hex.myth)
-                loadedData.myths.push({
-                  id: hex.myth,
-                  name: `Myth #${hex.myth}`,
-                  q: hex.q,
-                  r: hex.r,
-                });
-            });
-          }
-          onImportJson(loadedData as Realm);
+          onOpenProject(fileContent);
         } catch (error) {
-          const message = error instanceof Error ? error.message : 'Unknown error.';
+          const message =
+            error instanceof RealmFileError
+              ? describeRealmFileError(error)
+              : error instanceof Error
+                ? error.message
+                : 'Unknown error.';
           setConfirmation({
             isOpen: true,
-            title: 'Import Failed',
-            message: `Failed to import realm. The file might be corrupted or in the wrong format. \nError: ${message}`,
+            title: 'Open Failed',
+            message: `Failed to open project. \n${message}`,
             onConfirm: () => setConfirmation(null),
             isInfo: true,
           });
@@ -155,6 +154,17 @@ export function Toolbar({
     }
   };
 
+  /**
+   * Handles the file selection for importing a map from another tool.
+   */
+  const handleImportFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onImportMap(file);
+    if (importInputRef.current) {
+      importInputRef.current.value = '';
+    }
+  };
+
   const handleOpenSettings = () => {
     setSettingsView({ tab: 'general', focusId: null });
     setIsSettingsOpen(true);
@@ -247,15 +257,41 @@ export function Toolbar({
         <ToolbarButton
           onClick={() => fileInputRef.current?.click()}
           icon="upload"
-          title="Import from JSON file"
+          title="Open a project file"
         >
-          Import JSON
+          Open Project
         </ToolbarButton>
-        <ToolbarButton onClick={onExportJson} icon="download" title="Export as JSON file">
-          Export JSON
+        <input
+          type="file"
+          ref={importInputRef}
+          onChange={handleImportFileChange}
+          accept=".json,.tmj,.wxx,.xml,.csv,.txt"
+          style={{ display: 'none' }}
+          aria-hidden="true"
+        />
+        <ToolbarButton
+          onClick={() => importInputRef.current?.click()}
+          icon="import"
+          title="Import a map from Tiled, Worldographer or a CSV file"
+        >
+          Import Map
         </ToolbarButton>
-        <ToolbarButton onClick={onExportPng} icon="image-down" title="Export as PNG image">
-          Export PNG
+        <ToolbarButton onClick={onSaveProject} icon="download" title="Save project as JSON file">
+          Save Project
+        </ToolbarButton>
+        <ToolbarButton
+          onClick={onOpenLibrary}
+          icon="library"
+          title="Open the local project library"
+        >
+          Library
+        </ToolbarButton>
+        <ToolbarButton
+          onClick={onExportMap}
+          icon="image-down"
+          title="Export the map as an image, a printable atlas or a virtual tabletop scene"
+        >
+          Export Map
         </ToolbarButton>
       </div>
     </header>
@@ -52,8 +52,12 @@ export function ToolsPalette({ activeTool, setActiveTool }: ToolsPaletteProps) {
     { id: 'select', icon: 'mouse-pointer-2', label: 'Select Tool' },
     { id: 'terrain', icon: 'brush', label: 'Terrain Painter' },
     { id: 'barrier', icon: 'barrier-painter', label: 'Barrier Painter' },
+    { id: 'path', icon: 'route', label: 'Path Painter' },
     { id: 'poi', icon: 'map-pin-pen', label: 'Points of Interest Painter' },
     { id: 'myth', icon: 'sparkle', label: 'Myth Tool' },
+    { id: 'reveal', icon: 'fog', label: 'Fog of War' },
+    { id: 'party', icon: 'footprints', label: 'Party Tool' },
+    { id: 'stamp', icon: 'stamp', label: 'Stamp Tool' },
   ];
 
   return (
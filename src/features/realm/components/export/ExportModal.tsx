@@ -1,17 +1,27 @@
 /**
  * @file ExportModal.tsx
- * Modal for configuring and previewing PNG exports of the realm map.
+ * Modal for configuring and previewing exports of the realm map: PNG and SVG images, the
+ * printable PDF atlas, and scenes for virtual tabletops.
  */
 
 import React, { useMemo } from 'react';
 import type {
+  ExportFormat,
   ExportSettings,
+  PaperSize,
   Realm,
   TerrainTextures,
   TileSet,
   ViewOptions,
 } from '@/features/realm/types';
 import { HexGrid } from '@/features/realm/components/HexGrid';
+import {
+  DEFAULT_TERRAIN_BRUSH,
+  PAPER_SIZES,
+  PRINT_HEX_SIZES,
+} from '@/features/realm/config/constants';
+import { planAtlas } from '@/features/realm/services/atlasExport';
+import { planVttScene } from '@/features/realm/services/vttExport';
 import type { ConfirmationState } from '@/app/App';
 import { Icon } from '@/features/realm/components/Icon';
 
@@ -33,7 +43,35 @@ interface ExportModalProps {
   terrainColors: Record<string, string>;
 }
 
+/** The export formats, with a short description of each. */
+const EXPORT_FORMATS: { id: ExportFormat; label: string; description: string }[] = [
+  { id: 'png', label: 'PNG', description: 'A high-resolution image, ready to share.' },
+  {
+    id: 'svg',
+    label: 'SVG',
+    description: 'A vector image that stays sharp at any size, for print and layout tools.',
+  },
+  {
+    id: 'pdf',
+    label: 'PDF',
+    description:
+      'A printable atlas: the map tiled across overlapping pages, with a legend and an index.',
+  },
+  {
+    id: 'foundry',
+    label: 'Foundry',
+    description:
+      'A Foundry VTT scene package: the map on a matching hex grid, with a journal page and a map note for each myth, holding and landmark.',
+  },
+  {
+    id: 'uvtt',
+    label: 'UVTT',
+    description: 'A Universal VTT (.dd2vtt) file with the map and its grid size.',
+  },
+];
+
 const noop = (): void => undefined;
+const NO_SELECTION: ReadonlySet<string> = new Set();
 const noopConfirmationDispatch: React.Dispatch<React.SetStateAction<ConfirmationState | null>> = (
   _value
 ) => undefined;
@@ -64,6 +102,20 @@ export function ExportModal({
     };
   }, [baseViewOptions, settings.includeGrid, settings.includeIconSpray, settings.viewMode]);
 
+  const atlasPlan = useMemo(
+    () =>
+      realm && settings.format === 'pdf'
+        ? planAtlas(realm, baseViewOptions, settings.paperSize, settings.printHexSize)
+        : null,
+    [realm, baseViewOptions, settings.format, settings.paperSize, settings.printHexSize]
+  );
+  const isVttFormat = settings.format === 'foundry' || settings.format === 'uvtt';
+  const vttPlan = useMemo(
+    () => (realm && isVttFormat ? planVttScene(realm, baseViewOptions) : null),
+    [realm, baseViewOptions, isVttFormat]
+  );
+  const formatLabel = EXPORT_FORMATS.find((format) => format.id === settings.format)?.label;
+
   if (!isOpen) {
     return null;
   }
@@ -97,6 +149,34 @@ export function ExportModal({
 
         <div className="grid gap-6 px-6 py-6 lg:grid-cols-[260px,1fr]">
           <section aria-label="Export settings" className="flex flex-col gap-4">
+            <div>
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-text-muted">
+                Format
+              </h3>
+              <div className="mt-2 grid grid-cols-3 gap-2">
+                {EXPORT_FORMATS.map((format) => {
+                  const isActive = settings.format === format.id;
+                  return (
+                    <button
+                      key={format.id}
+                      type="button"
+                      onClick={() => onSettingsChange({ ...settings, format: format.id })}
+                      className={`flex-1 rounded-md border px-3 py-2 text-sm font-medium transition-colors ${
+                        isActive
+                          ? 'border-actions-command-primary bg-actions-command-primary/20 text-text-high-contrast'
+                          : 'border-border-panel-divider bg-realm-command-panel-surface text-text-muted hover:text-text-high-contrast'
+                      }`}
+                    >
+                      {format.label}
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="mt-2 text-xs text-text-subtle">
+                {EXPORT_FORMATS.find((format) => format.id === settings.format)?.description}
+              </p>
+            </div>
+
             <div>
               <h3 className="text-sm font-semibold uppercase tracking-wide text-text-muted">
                 View
@@ -122,6 +202,73 @@ export function ExportModal({
               </div>
             </div>
 
+            {settings.format === 'pdf' && (
+              <div>
+                <h3 className="text-sm font-semibold uppercase tracking-wide text-text-muted">
+                  Print
+                </h3>
+                <div className="mt-2 flex gap-2">
+                  {(Object.keys(PAPER_SIZES) as PaperSize[]).map((paperSize) => {
+                    const isActive = settings.paperSize === paperSize;
+                    return (
+                      <button
+                        key={paperSize}
+                        type="button"
+                        onClick={() => onSettingsChange({ ...settings, paperSize })}
+                        className={`flex-1 rounded-md border px-3 py-2 text-sm font-medium transition-colors ${
+                          isActive
+                            ? 'border-actions-command-primary bg-actions-command-primary/20 text-text-high-contrast'
+                            : 'border-border-panel-divider bg-realm-command-panel-surface text-text-muted hover:text-text-high-contrast'
+                        }`}
+                      >
+                        {PAPER_SIZES[paperSize].label}
+                      </button>
+                    );
+                  })}
+                </div>
+                <label
+                  htmlFor="export-print-hex-size"
+                  className="mt-3 block text-sm text-text-high-contrast"
+                >
+                  Hex size
+                </label>
+                <select
+                  id="export-print-hex-size"
+                  value={settings.printHexSize}
+                  onChange={(event) =>
+                    onSettingsChange({ ...settings, printHexSize: Number(event.target.value) })
+                  }
+                  className="mt-1 w-full rounded-md border border-border-panel-divider bg-realm-command-panel-surface px-2 py-1.5 text-sm text-text-high-contrast"
+                >
+                  {PRINT_HEX_SIZES.map((size) => (
+                    <option key={size} value={size}>
+                      {size} mm
+                    </option>
+                  ))}
+                </select>
+                {atlasPlan && (
+                  <p className="mt-2 text-xs text-text-subtle">
+                    The map spans {atlasPlan.sheets.length}{' '}
+                    {atlasPlan.sheets.length === 1 ? 'sheet' : 'sheets'} ({atlasPlan.columns}{' '}
+                    across, {atlasPlan.rows} down), plus an overview, a legend and an index.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {vttPlan && (
+              <div>
+                <h3 className="text-sm font-semibold uppercase tracking-wide text-text-muted">
+                  Scene
+                </h3>
+                <p className="mt-2 text-xs text-text-subtle">
+                  The scene is {vttPlan.width} × {vttPlan.height} pixels, with hexes{' '}
+                  {vttPlan.gridSize} pixels across.
+                  {settings.format === 'foundry' &&
+                    ' Copy the folder in the archive into your Foundry VTT Data folder, then run its import-macro.js as a Script macro to create the scene and journal.'}
+                </p>
+              </div>
+            )}
             <div>
               <h3 className="text-sm font-semibold uppercase tracking-wide text-text-muted">
                 Appearance
@@ -170,15 +317,29 @@ export function ExportModal({
                     onUpdateHex={noop}
                     viewOptions={previewViewOptions}
                     selectedHex={null}
+                    selectedHexKeys={NO_SELECTION}
                     onHexClick={noop}
+                    onSelectHexes={noop}
                     activeTool="select"
                     setActiveTool={noop}
                     paintTerrain="plain"
+                    terrainBrush={DEFAULT_TERRAIN_BRUSH}
                     paintPoi={null}
+                    paintPath="river"
+                    pathSnap="center"
+                    onAddPath={noop}
+                    onErasePaths={noop}
+                    revealBrush="reveal"
+                    revealRadius={0}
+                    onMoveParty={noop}
+                    stamp={null}
+                    onPlaceStamp={noop}
                     onAddMyth={noop}
                     onRemoveMyth={noop}
                     relocatingMythId={null}
                     onRelocateMyth={noop}
+                    linkingMythId={null}
+                    onToggleMythLink={noop}
                     onSetSeatOfPower={noop}
                     tileSets={tileSets}
                     terrainColors={terrainColors}
@@ -218,7 +379,7 @@ export function ExportModal({
               disabled={!realm || isExporting}
               className="rounded-md bg-actions-command-primary px-4 py-2 text-sm font-semibold text-text-high-contrast transition-colors hover:bg-actions-command-primary/80 disabled:cursor-not-allowed disabled:bg-border-panel-divider disabled:text-text-muted"
             >
-              {isExporting ? 'Exporting...' : 'Export PNG'}
+              {isExporting ? 'Exporting...' : `Export ${formatLabel ?? settings.format}`}
             </button>
           </div>
         </div>
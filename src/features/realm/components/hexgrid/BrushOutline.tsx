@@ -0,0 +1,45 @@
+/**
+ * @file BrushOutline.tsx
+ * This component renders the outline of the hexes a brush covers around the pointer, so larger
+ * Terrain Painter brushes show what they will paint.
+ */
+import React from 'react';
+import type { HexOrientation, Point } from '@/features/realm/types';
+import { axialToPixel } from '@/features/realm/utils/hexUtils';
+import { HEX_SELECTED_COLOR } from '@/features/realm/config/constants';
+
+interface BrushOutlineProps {
+  /** The hexes the brush covers. */
+  hexes: { q: number; r: number }[];
+  orientation: HexOrientation;
+  hexSize: Point;
+  hexCorners: Point[];
+}
+
+export const BrushOutline = React.memo(
+  ({ hexes, orientation, hexSize, hexCorners }: BrushOutlineProps) => {
+    const points = hexCorners.map((p) => `${p.x},${p.y}`).join(' ');
+
+    return (
+      <g style={{ pointerEvents: 'none' }}>
+        {hexes.map((hex) => {
+          const center = axialToPixel(hex, orientation, hexSize);
+          return (
+            <polygon
+              key={`${hex.q},${hex.r}`}
+              points={points}
+              transform={`translate(${center.x}, ${center.y})`}
+              fill={HEX_SELECTED_COLOR}
+              fillOpacity={0.1}
+              stroke={HEX_SELECTED_COLOR}
+              strokeOpacity={0.6}
+              strokeWidth={1.5}
+              strokeLinejoin="round"
+            />
+          );
+        })}
+      </g>
+    );
+  }
+);
+BrushOutline.displayName = 'BrushOutline';
@@ -0,0 +1,90 @@
+/**
+ * @file HexFog.tsx
+ * This component renders the fog of war over the hexes the Knights have not yet revealed.
+ * The fog is a cloud texture drawn in map space, so it flows across neighbouring hexes.
+ */
+import React, { useMemo } from 'react';
+import type { Hex, Point, ViewOptions } from '@/features/realm/types';
+import { axialToPixel } from '@/features/realm/utils/hexUtils';
+import { FOG_COLOR, FOG_SHADOW_COLOR } from '@/features/realm/config/constants';
+
+interface HexFogProps {
+  hexes: Hex[];
+  viewOptions: ViewOptions;
+  hexCorners: Point[];
+  /** A prefix for the ids of the fog texture, unique to the SVG it is rendered in. */
+  idPrefix: string;
+  /** The opacity of the fog. The Referee sees through it while revealing hexes. */
+  opacity: number;
+}
+
+const FOG_TILE_SIZE = 256;
+
+export const HexFog = React.memo(
+  ({ hexes, viewOptions, hexCorners, idPrefix, opacity }: HexFogProps) => {
+    const fogPolygons = useMemo(
+      () =>
+        hexes
+          .filter((hex) => !hex.isRevealed)
+          .map((hex) => {
+            const center = axialToPixel(hex, viewOptions.orientation, viewOptions.hexSize);
+            return {
+              key: `${hex.q},${hex.r}`,
+              points: hexCorners.map((c) => `${center.x + c.x},${center.y + c.y}`).join(' '),
+            };
+          }),
+      [hexes, viewOptions.orientation, viewOptions.hexSize, hexCorners]
+    );
+
+    if (fogPolygons.length === 0) return null;
+
+    const filterId = `${idPrefix}-fog-noise`;
+    const patternId = `${idPrefix}-fog`;
+
+    return (
+      <g style={{ pointerEvents: 'none' }} opacity={opacity}>
+        <defs>
+          <filter id={filterId} x="0" y="0" width="100%" height="100%">
+            <feTurbulence
+              type="fractalNoise"
+              baseFrequency="0.012"
+              numOctaves={4}
+              seed={7}
+              stitchTiles="stitch"
+              result="noise"
+            />
+            {/* Turn the red channel of the noise into the alpha of the cloud colour. */}
+            <feColorMatrix
+              in="noise"
+              type="matrix"
+              values="0 0 0 0 0  0 0 0 0 0  0 0 0 0 0  1.8 0 0 0 -0.5"
+              result="clouds"
+            />
+            <feFlood floodColor={FOG_COLOR} />
+            <feComposite operator="in" in2="clouds" />
+          </filter>
+          <pattern
+            id={patternId}
+            patternUnits="userSpaceOnUse"
+            width={FOG_TILE_SIZE}
+            height={FOG_TILE_SIZE}
+          >
+            <rect width={FOG_TILE_SIZE} height={FOG_TILE_SIZE} fill={FOG_SHADOW_COLOR} />
+            <rect width={FOG_TILE_SIZE} height={FOG_TILE_SIZE} filter={`url(#${filterId})`} />
+          </pattern>
+        </defs>
+        {fogPolygons.map(({ key, points }) => (
+          <polygon
+            key={key}
+            points={points}
+            fill={`url(#${patternId})`}
+            stroke={`url(#${patternId})`}
+            strokeWidth={1.5}
+            strokeLinejoin="round"
+          />
+        ))}
+      </g>
+    );
+  }
+);
+HexFog.displayName = 'HexFog';
@@ -17,7 +17,8 @@ export const HexHoverHighlight = ({
   activeTool,
   isPickingTile,
 }: HexHoverHighlightProps) => {
-  const shouldShowHover = ['select', 'poi', 'myth'].includes(activeTool) && !isPickingTile;
+  const shouldShowHover =
+    ['select', 'poi', 'myth', 'reveal', 'party'].includes(activeTool) && !isPickingTile;
 
   return (
     <polygon
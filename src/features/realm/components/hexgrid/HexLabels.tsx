@@ -0,0 +1,58 @@
+/**
+ * @file HexLabels.tsx
+ * This component renders the coordinate label of each hex, near its top edge so that it stays
+ * clear of the holding, landmark and myth markers in the middle of the hex.
+ */
+import React, { useMemo } from 'react';
+import type { Hex, ViewOptions } from '@/features/realm/types';
+import { CARD_SURFACE_COLOR, TEXT_INVERSE_COLOR } from '@/features/realm/config/constants';
+import { axialToPixel } from '@/features/realm/utils/hexUtils';
+import { createHexLabeler } from '@/features/realm/utils/hexLabelUtils';
+
+interface HexLabelsProps {
+  hexes: Hex[];
+  /** The hexes to label, when only some are drawn. All of the hexes still decide the labels. */
+  visibleHexes?: Hex[];
+  viewOptions: ViewOptions;
+}
+
+export const HexLabels = ({ hexes, visibleHexes = hexes, viewOptions }: HexLabelsProps) => {
+  const { hexLabels, orientation, hexSize } = viewOptions;
+  const labeler = useMemo(
+    () => createHexLabeler(hexes, hexLabels, orientation),
+    [hexes, hexLabels, orientation]
+  );
+
+  if (hexLabels === 'none') {
+    return null;
+  }
+
+  const fontSize = hexSize.x * 0.22;
+  const offsetY = -hexSize.y * (orientation === 'pointy' ? 0.62 : 0.58);
+
+  return (
+    <g style={{ pointerEvents: 'none' }} data-hex-labels="">
+      {visibleHexes.map((hex) => {
+        const { x, y } = axialToPixel(hex, orientation, hexSize);
+        return (
+          <text
+            key={`${hex.q},${hex.r}`}
+            x={x}
+            y={y + offsetY}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fontSize={fontSize}
+            fontFamily="Georgia, serif"
+            fill={CARD_SURFACE_COLOR}
+            stroke={TEXT_INVERSE_COLOR}
+            strokeWidth={fontSize * 0.2}
+            strokeLinejoin="round"
+            paintOrder="stroke"
+          >
+            {labeler(hex)}
+          </text>
+        );
+      })}
+    </g>
+  );
+};
@@ -0,0 +1,80 @@
+/**
+ * @file HexTooltip.tsx
+ * This component renders the hover tooltip showing a hex's custom name, tags and notes, and
+ * the records of its holding and landmark.
+ * It is positioned over the map in screen space, just above the hovered hex.
+ */
+import React from 'react';
+import type { PoiDetails, Point } from '@/features/realm/types';
+import { POPULATION_TIERS } from '@/features/realm/config/constants';
+import { MarkdownText } from '../ui/MarkdownText';
+import { Icon } from '../Icon';
+
+/** The record of a holding or landmark, as shown in the tooltip. */
+export interface TooltipPlace {
+  /** The label of the holding or landmark type, e.g. "Castle". */
+  typeLabel: string;
+  /** The label of the occupant field, e.g. "Ruler". */
+  occupantLabel: string;
+  /** The record, without the secrets when they must stay hidden. */
+  details: PoiDetails;
+}
+
+interface HexTooltipProps {
+  /** The position of the top of the hovered hex, relative to the map container. */
+  position: Point;
+  name?: string | undefined;
+  tags?: string[] | undefined;
+  notes?: string | undefined;
+  places?: TooltipPlace[] | undefined;
+}
+
+export const HexTooltip = ({ position, name, tags, notes, places = [] }: HexTooltipProps) => {
+  if (!name && !notes && !(tags && tags.length > 0) && places.length === 0) return null;
+
+  return (
+    <div
+      className="absolute z-20 max-w-xs px-3 py-2 rounded-md border border-border-panel-divider bg-realm-command-panel-surface shadow-lg pointer-events-none"
+      style={{
+        left: position.x,
+        top: position.y,
+        transform: 'translate(-50%, calc(-100% - 8px))',
+      }}
+      role="tooltip"
+    >
+      {name && <p className="font-semibold text-text-high-contrast">{name}</p>}
+      {tags && tags.length > 0 && (
+        <p className="text-xs text-text-subtle">{tags.map((tag) => `#${tag}`).join(' ')}</p>
+      )}
+      {places.map(({ typeLabel, occupantLabel, details }) => {
+        const population = POPULATION_TIERS.find((tier) => tier.id === details.population);
+        return (
+          <div key={typeLabel} className="mt-1 text-sm text-text-muted">
+            <p className="text-text-high-contrast">
+              <span className="font-semibold">{typeLabel}</span>
+              {details.name && `: ${details.name}`}
+            </p>
+            {details.occupant && (
+              <p>
+                {occupantLabel}: {details.occupant}
+              </p>
+            )}
+            {population && <p>Population: {population.label}</p>}
+            {details.description && <p className="whitespace-pre-line">{details.description}</p>}
+            {details.secrets && (
+              <p className="flex gap-1 italic whitespace-pre-line">
+                <Icon name="eye-off" className="w-3 h-3 mt-1 flex-shrink-0" />
+                {details.secrets}
+              </p>
+            )}
+          </div>
+        );
+      })}
+      {notes && (
+        <div className="mt-1 max-h-48 overflow-hidden text-text-muted">
+          <MarkdownText source={notes} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -29,6 +29,10 @@ interface HexagonProps {
   barrierColor: string;
   isSelected: boolean;
   isSeatOfPower: boolean;
+  /** Whether the hex is hidden under the fog of war, in which case none of its contents are drawn. */
+  isFogged: boolean;
+  /** Whether the terrain is drawn here. The interactive map draws it from cached bitmaps instead. */
+  showTerrain: boolean;
   isSpacePanActive: boolean;
   activeTool: Tool;
   isPickingTile: boolean;
@@ -49,6 +53,8 @@ export const Hexagon = React.memo(
     barrierColor,
     isSelected,
     isSeatOfPower,
+    isFogged,
+    showTerrain,
     isSpacePanActive,
     activeTool,
     isPickingTile,
@@ -87,7 +93,7 @@ export const Hexagon = React.memo(
     const isHolding = Boolean(displayHolding);
     const seatOfPowerVisible = isSeatOfPower && (isGmView || knightVisibility.seatOfPower);
     const mythVisible = isGmView || !hex.myth ? true : (knightVisibility.myths[hex.myth] ?? true);
-    const barriersVisible = isGmView || knightVisibility.showBarriers;
+    const barriersVisible = !isFogged && (isGmView || knightVisibility.showBarriers);
 
     const textureSet = terrainTextures ? terrainTextures[hex.terrain] : null;
     let textureUrl = '';
@@ -109,16 +115,18 @@ export const Hexagon = React.memo(
         className="group"
         style={{ pointerEvents: isSpacePanActive ? 'none' : 'auto' }}
       >
-        {layer === 'background' && (
+        {layer === 'background' && !isFogged && (
           <>
-            <HexTerrain
-              textureUrl={textureUrl}
-              hexBoundingBox={hexBoundingBox}
-              hexCorners={hexCorners}
-              showGrid={viewOptions.showGrid}
-              gridColor={viewOptions.gridColor}
-              gridWidth={viewOptions.gridWidth}
-            />
+            {showTerrain && (
+              <HexTerrain
+                textureUrl={textureUrl}
+                hexBoundingBox={hexBoundingBox}
+                hexCorners={hexCorners}
+                showGrid={viewOptions.showGrid}
+                gridColor={viewOptions.gridColor}
+                gridWidth={viewOptions.gridWidth}
+              />
+            )}
 
             <HexBackplate
               activeTile={activeTile}
@@ -0,0 +1,388 @@
+/**
+ * @file MapOverlays.tsx
+ * This component renders the legend, compass rose and scale bar over the map. They are drawn
+ * inside the map's SVG, so that they are included in exports, and sized and placed relative to
+ * the visible part of the map, so that they keep their place on screen when panning and zooming.
+ */
+import React, { useMemo } from 'react';
+import type {
+  MapOverlayPosition,
+  PathType,
+  Realm,
+  TileSet,
+  ViewOptions,
+} from '@/features/realm/types';
+import {
+  CARD_SURFACE_COLOR,
+  HOLDING_ICON_BORDER_COLOR,
+  LANDMARK_ICON_BORDER_COLOR,
+  MYTH_COLOR,
+  PATH_STYLES,
+  PATH_TYPES,
+  TEXT_INVERSE_COLOR,
+} from '@/features/realm/config/constants';
+import { getTerrainBaseColor } from '@/app/theme/colors';
+import { Icon } from '../Icon';
+
+interface MapOverlaysProps {
+  realm: Realm;
+  tileSets: TileSet;
+  terrainColors: Record<string, string>;
+  barrierColor: string;
+  viewOptions: ViewOptions;
+  /** The visible part of the map, as an SVG `viewBox` string. */
+  viewBox: string;
+}
+
+/** An entry in the legend, with the symbol it is drawn with. */
+type LegendEntry =
+  | { kind: 'terrain'; label: string; color: string }
+  | { kind: 'marker'; label: string; icon: string; borderColor: string | undefined }
+  | { kind: 'myth'; label: string }
+  | { kind: 'path'; label: string; type: PathType }
+  | { kind: 'barrier'; label: string };
+
+/** The number of legend entries stacked in a column before starting another. */
+const LEGEND_ROWS_PER_COLUMN = 10;
+/** The hex counts the scale bar can span, from shortest to longest. */
+const SCALE_BAR_HEX_COUNTS = [1, 2, 3, 5, 10, 20, 50, 100];
+const FONT_FAMILY = 'Georgia, serif';
+
+/** The corners across from a corner, horizontally and vertically. */
+const mirrorPosition = (position: MapOverlayPosition, axis: 'horizontal' | 'vertical') => {
+  const [vertical, horizontal] = position.split('-') as ['top' | 'bottom', 'left' | 'right'];
+  return axis === 'horizontal'
+    ? `${vertical}-${horizontal === 'left' ? 'right' : 'left'}`
+    : `${vertical === 'top' ? 'bottom' : 'top'}-${horizontal}`;
+};
+
+export const MapOverlays = ({
+  realm,
+  tileSets,
+  terrainColors,
+  barrierColor,
+  viewOptions,
+  viewBox,
+}: MapOverlaysProps) => {
+  const { overlays, isGmView, hexSize } = viewOptions;
+  const knight = viewOptions.visibility.knight;
+
+  const legendEntries = useMemo(() => {
+    if (!overlays.showLegend) return [];
+    const visibleHexes = realm.hexes.filter(
+      (hex) => isGmView || !knight.fogOfWar || hex.isRevealed
+    );
+    const terrain = new Set(visibleHexes.map((hex) => hex.terrain));
+    const holdings = new Set(visibleHexes.flatMap((hex) => (hex.holding ? [hex.holding] : [])));
+    const landmarks = new Set(visibleHexes.flatMap((hex) => (hex.landmark ? [hex.landmark] : [])));
+    const hasMyths = visibleHexes.some(
+      (hex) => hex.myth && (isGmView || (knight.myths[hex.myth] ?? true))
+    );
+    const hasBarriers =
+      (isGmView || knight.showBarriers) && visibleHexes.some((hex) => hex.barrierEdges.length > 0);
+    const pathTypes = new Set(realm.paths.map((path) => path.type));
+
+    const entries: LegendEntry[] = [
+      ...tileSets.terrain
+        .filter((tile) => terrain.has(tile.id))
+        .map(
+          (tile): LegendEntry => ({
+            kind: 'terrain',
+            label: tile.label,
+            color: terrainColors[tile.id] ?? getTerrainBaseColor(tile.id),
+          })
+        ),
+      ...tileSets.holding
+        .filter((tile) => holdings.has(tile.id) && (isGmView || (knight.holdings[tile.id] ?? true)))
+        .map(
+          (tile): LegendEntry => ({
+            kind: 'marker',
+            label: tile.label,
+            icon: tile.icon,
+            borderColor: HOLDING_ICON_BORDER_COLOR,
+          })
+        ),
+      ...tileSets.landmark
+        .filter(
+          (tile) => landmarks.has(tile.id) && (isGmView || (knight.landmarks[tile.id] ?? true))
+        )
+        .map(
+          (tile): LegendEntry => ({
+            kind: 'marker',
+            label: tile.label,
+            icon: tile.icon,
+            borderColor: LANDMARK_ICON_BORDER_COLOR,
+          })
+        ),
+      ...(hasMyths ? [{ kind: 'myth', label: 'Myth' } as const] : []),
+      ...PATH_TYPES.filter((type) => pathTypes.has(type)).map(
+        (type): LegendEntry => ({ kind: 'path', label: PATH_STYLES[type].label, type })
+      ),
+      ...(hasBarriers ? [{ kind: 'barrier', label: 'Barrier' } as const] : []),
+    ];
+    return entries;
+  }, [
+    overlays.showLegend,
+    realm.hexes,
+    realm.paths,
+    tileSets,
+    terrainColors,
+    isGmView,
+    knight.fogOfWar,
+    knight.myths,
+    knight.holdings,
+    knight.landmarks,
+    knight.showBarriers,
+  ]);
+
+  const [vbX = 0, vbY = 0, vbWidth = 0, vbHeight = 0] = viewBox.split(/[\s,]+/).map(Number);
+  if (
+    (!overlays.showLegend && !overlays.showCompass && !overlays.showScaleBar) ||
+    !(vbWidth > 0 && vbHeight > 0)
+  ) {
+    return null;
+  }
+
+  // Everything is measured in hundredths of the shorter side of the visible map.
+  const unit = Math.min(vbWidth, vbHeight) / 100;
+  const margin = unit * 2;
+  const padding = unit * 1.5;
+  const fontSize = unit * 1.6;
+  const cardStyle = {
+    fill: CARD_SURFACE_COLOR,
+    fillOpacity: 0.92,
+    stroke: TEXT_INVERSE_COLOR,
+    strokeWidth: unit * 0.15,
+  };
+
+  /** Places a box of a given size in a corner of the visible map. */
+  const placeInCorner = (position: string, width: number, height: number) => ({
+    x: position.endsWith('left') ? vbX + margin : vbX + vbWidth - margin - width,
+    y: position.startsWith('top') ? vbY + margin : vbY + vbHeight - margin - height,
+  });
+
+  const renderLegend = () => {
+    if (!overlays.showLegend || legendEntries.length === 0) return null;
+    const rowHeight = unit * 3;
+    const symbolSize = unit * 2.2;
+    const columns = Math.ceil(legendEntries.length / LEGEND_ROWS_PER_COLUMN);
+    const rows = Math.min(legendEntries.length, LEGEND_ROWS_PER_COLUMN);
+    // Text cannot be measured before it is drawn, so labels are allowed an average glyph width.
+    const longestLabel = Math.max(...legendEntries.map((entry) => entry.label.length));
+    const columnWidth = symbolSize + unit + longestLabel * fontSize * 0.55 + unit * 1.5;
+    const width = padding * 2 + columns * columnWidth;
+    const height = padding * 2 + rowHeight * (rows + 1);
+    const { x, y } = placeInCorner(overlays.position, width, height);
+
+    return (
+      <g transform={`translate(${x}, ${y})`}>
+        <rect width={width} height={height} rx={unit} {...cardStyle} />
+        <text
+          x={padding}
+          y={padding + rowHeight / 2}
+          dominantBaseline="middle"
+          fontSize={fontSize * 1.1}
+          fontWeight="bold"
+          fontFamily={FONT_FAMILY}
+          fill={TEXT_INVERSE_COLOR}
+        >
+          Legend
+        </text>
+        {legendEntries.map((entry, index) => {
+          const column = Math.floor(index / LEGEND_ROWS_PER_COLUMN);
+          const row = index % LEGEND_ROWS_PER_COLUMN;
+          const left = padding + column * columnWidth;
+          const top = padding + rowHeight * (row + 1) + (rowHeight - symbolSize) / 2;
+          const middle = top + symbolSize / 2;
+          return (
+            <g key={`${entry.kind}-${entry.label}`}>
+              {entry.kind === 'terrain' && (
+                <rect
+                  x={left}
+                  y={top}
+                  width={symbolSize}
+                  height={symbolSize}
+                  rx={unit * 0.3}
+                  fill={entry.color}
+                  stroke={TEXT_INVERSE_COLOR}
+                  strokeWidth={unit * 0.1}
+                />
+              )}
+              {entry.kind === 'marker' && (
+                <>
+                  <rect
+                    x={left}
+                    y={top}
+                    width={symbolSize}
+                    height={symbolSize}
+                    rx={unit * 0.3}
+                    fill={CARD_SURFACE_COLOR}
+                    stroke={entry.borderColor}
+                    strokeWidth={unit * 0.3}
+                  />
+                  <Icon
+                    name={entry.icon}
+                    x={left + symbolSize * 0.15}
+                    y={top + symbolSize * 0.15}
+                    width={symbolSize * 0.7}
+                    height={symbolSize * 0.7}
+                    color={TEXT_INVERSE_COLOR}
+                    strokeWidth={2}
+                  />
+                </>
+              )}
+              {entry.kind === 'myth' && (
+                <circle
+                  cx={left + symbolSize / 2}
+                  cy={middle}
+                  r={symbolSize / 2}
+                  fill={MYTH_COLOR}
+                />
+              )}
+              {entry.kind === 'path' && (
+                <line
+                  x1={left}
+                  y1={middle}
+                  x2={left + symbolSize}
+                  y2={middle}
+                  stroke={PATH_STYLES[entry.type].color}
+                  strokeWidth={unit * PATH_STYLES[entry.type].width * 0.1}
+                  strokeDasharray={PATH_STYLES[entry.type].dash
+                    ?.split(/\s+/)
+                    .map((length) => Number(length) * unit * 0.05)
+                    .join(' ')}
+                  strokeLinecap="round"
+                />
+              )}
+              {entry.kind === 'barrier' && (
+                <line
+                  x1={left}
+                  y1={middle}
+                  x2={left + symbolSize}
+                  y2={middle}
+                  stroke={barrierColor}
+                  strokeWidth={unit * 0.5}
+                  strokeLinecap="round"
+                />
+              )}
+              <text
+                x={left + symbolSize + unit}
+                y={middle}
+                dominantBaseline="middle"
+                fontSize={fontSize}
+                fontFamily={FONT_FAMILY}
+                fill={TEXT_INVERSE_COLOR}
+              >
+                {entry.label}
+              </text>
+            </g>
+          );
+        })}
+      </g>
+    );
+  };
+
+  const renderCompass = () => {
+    if (!overlays.showCompass) return null;
+    const size = unit * 9;
+    const radius = size / 2;
+    const { x, y } = placeInCorner(mirrorPosition(overlays.position, 'horizontal'), size, size);
+    const point = radius * 0.72;
+    const waist = radius * 0.16;
+
+    return (
+      <g transform={`translate(${x + radius}, ${y + radius})`}>
+        <circle r={radius} {...cardStyle} />
+        <path
+          d={`M 0 ${-point} L ${waist} 0 L ${-waist} 0 Z`}
+          fill={TEXT_INVERSE_COLOR}
+          stroke={TEXT_INVERSE_COLOR}
+          strokeWidth={unit * 0.1}
+        />
+        <path
+          d={`M 0 ${point} L ${waist} 0 L ${-waist} 0 Z`}
+          fill={CARD_SURFACE_COLOR}
+          stroke={TEXT_INVERSE_COLOR}
+          strokeWidth={unit * 0.1}
+        />
+        <path
+          d={`M ${-point * 0.7} 0 L 0 ${waist} L ${point * 0.7} 0 L 0 ${-waist} Z`}
+          fill="none"
+          stroke={TEXT_INVERSE_COLOR}
+          strokeWidth={unit * 0.1}
+        />
+        <text
+          y={-point - unit * 0.2}
+          textAnchor="middle"
+          fontSize={fontSize}
+          fontWeight="bold"
+          fontFamily={FONT_FAMILY}
+          fill={TEXT_INVERSE_COLOR}
+        >
+          N
+        </text>
+      </g>
+    );
+  };
+
+  const renderScaleBar = () => {
+    if (!overlays.showScaleBar) return null;
+    // One hex is the distance between the centres of neighbouring hexes.
+    const hexLength = Math.sqrt(3) * hexSize.x;
+    const maxLength = unit * 28;
+    const hexCount =
+      [...SCALE_BAR_HEX_COUNTS].reverse().find((count) => count * hexLength <= maxLength) ?? 1;
+    const segments = hexCount <= 5 ? hexCount : 5;
+    const barLength = hexCount * hexLength;
+    const barHeight = unit * 0.9;
+    const width = barLength + padding * 2;
+    const height = padding * 2 + barHeight + fontSize * 1.6;
+    const { x, y } = placeInCorner(mirrorPosition(overlays.position, 'vertical'), width, height);
+    const distance = Math.round(hexCount * overlays.distancePerHex * 100) / 100;
+
+    return (
+      <g transform={`translate(${x}, ${y})`}>
+        <rect width={width} height={height} rx={unit} {...cardStyle} />
+        {Array.from({ length: segments }, (_, index) => (
+          <rect
+            key={index}
+            x={padding + (index * barLength) / segments}
+            y={padding}
+            width={barLength / segments}
+            height={barHeight}
+            fill={index % 2 === 0 ? TEXT_INVERSE_COLOR : CARD_SURFACE_COLOR}
+            stroke={TEXT_INVERSE_COLOR}
+            strokeWidth={unit * 0.1}
+          />
+        ))}
+        <text
+          x={padding}
+          y={padding + barHeight + fontSize * 1.2}
+          fontSize={fontSize}
+          fontFamily={FONT_FAMILY}
+          fill={TEXT_INVERSE_COLOR}
+        >
+          0
+        </text>
+        <text
+          x={padding + barLength}
+          y={padding + barHeight + fontSize * 1.2}
+          textAnchor="end"
+          fontSize={fontSize}
+          fontFamily={FONT_FAMILY}
+          fill={TEXT_INVERSE_COLOR}
+        >
+          {`${distance} ${overlays.distanceUnit}`.trim()}
+        </text>
+      </g>
+    );
+  };
+
+  return (
+    <g style={{ pointerEvents: 'none' }} data-map-overlays="">
+      {renderScaleBar()}
+      {renderCompass()}
+      {renderLegend()}
+    </g>
+  );
+};
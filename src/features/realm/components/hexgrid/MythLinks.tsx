@@ -0,0 +1,53 @@
+/**
+ * @file MythLinks.tsx
+ * This component renders the hexes linked to a myth while it is being edited: a ring on
+ * each linked hex and a dashed line back to the myth's own hex.
+ */
+import React from 'react';
+import type { Myth, Point, ViewOptions } from '@/features/realm/types';
+import { axialToPixel } from '@/features/realm/utils/hexUtils';
+import { MYTH_COLOR } from '@/features/realm/config/constants';
+
+interface MythLinksProps {
+  myth: Myth;
+  viewOptions: ViewOptions;
+  hexCorners: Point[];
+}
+
+export const MythLinks = React.memo(({ myth, viewOptions, hexCorners }: MythLinksProps) => {
+  const { orientation, hexSize } = viewOptions;
+  const mythCenter = axialToPixel(myth, orientation, hexSize);
+  const points = hexCorners.map((p) => `${p.x},${p.y}`).join(' ');
+
+  return (
+    <g style={{ pointerEvents: 'none' }}>
+      {myth.linkedHexes.map((hex) => {
+        const center = axialToPixel(hex, orientation, hexSize);
+        return (
+          <g key={`${hex.q},${hex.r}`}>
+            <line
+              x1={mythCenter.x}
+              y1={mythCenter.y}
+              x2={center.x}
+              y2={center.y}
+              stroke={MYTH_COLOR}
+              strokeOpacity={0.7}
+              strokeWidth={2}
+              strokeDasharray="6 6"
+              strokeLinecap="round"
+            />
+            <polygon
+              points={points}
+              transform={`translate(${center.x}, ${center.y}) scale(0.85)`}
+              fill="none"
+              stroke={MYTH_COLOR}
+              strokeWidth={3}
+              strokeLinejoin="round"
+            />
+          </g>
+        );
+      })}
+    </g>
+  );
+});
+MythLinks.displayName = 'MythLinks';
@@ -0,0 +1,77 @@
+/**
+ * @file PartyTrail.tsx
+ * This component renders the route the Knights' party has travelled as a trail through
+ * the hexes in its travel log, marking where each day began, and the party marker on the
+ * hex where the party is now.
+ */
+import React from 'react';
+import type { Party, Point, ViewOptions } from '@/features/realm/types';
+import { axialToPixel, getPolylinePath } from '@/features/realm/utils/hexUtils';
+import { getPartyPosition } from '@/features/realm/utils/partyUtils';
+import { CARD_SURFACE_COLOR, PARTY_COLOR } from '@/features/realm/config/constants';
+import { Icon } from '../Icon';
+
+interface PartyTrailProps {
+  party: Party;
+  viewOptions: ViewOptions;
+  hexCorners: Point[];
+}
+
+export const PartyTrail = React.memo(({ party, viewOptions, hexCorners }: PartyTrailProps) => {
+  const position = getPartyPosition(party);
+  if (!position) return null;
+
+  const { orientation, hexSize } = viewOptions;
+  const markerCenter = axialToPixel(position, orientation, hexSize);
+  const markerRadius = hexSize.x * 0.32;
+  // The first stop of each day, except the day the party is on now, which the marker shows.
+  const dayStarts = party.log.filter(
+    (entry, index) => index < party.log.length - 1 && party.log[index - 1]?.day !== entry.day
+  );
+
+  return (
+    <g style={{ pointerEvents: 'none' }}>
+      {party.log.length > 1 && (
+        <path
+          d={getPolylinePath(party.log, orientation, hexSize, hexCorners)}
+          fill="none"
+          stroke={PARTY_COLOR}
+          strokeWidth={3}
+          strokeDasharray="2 7"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      )}
+      {dayStarts.map((entry, index) => {
+        const center = axialToPixel(entry, orientation, hexSize);
+        return (
+          <g key={`${entry.day}-${index}`} transform={`translate(${center.x}, ${center.y})`}>
+            <circle r={hexSize.x * 0.16} fill={CARD_SURFACE_COLOR} stroke={PARTY_COLOR} />
+            <text
+              textAnchor="middle"
+              dy=".35em"
+              fill={PARTY_COLOR}
+              fontSize={hexSize.x * 0.18}
+              fontWeight="bold"
+            >
+              {entry.day}
+            </text>
+          </g>
+        );
+      })}
+      <g transform={`translate(${markerCenter.x}, ${markerCenter.y})`}>
+        <circle r={markerRadius} fill={PARTY_COLOR} stroke={CARD_SURFACE_COLOR} strokeWidth={3} />
+        <Icon
+          name="shield"
+          x={-markerRadius * 0.6}
+          y={-markerRadius * 0.6}
+          width={markerRadius * 1.2}
+          height={markerRadius * 1.2}
+          className="text-text-inverse"
+          strokeWidth={2.5}
+        />
+      </g>
+    </g>
+  );
+});
+PartyTrail.displayName = 'PartyTrail';
@@ -0,0 +1,53 @@
+/**
+ * @file RealmPaths.tsx
+ * This component renders the rivers, roads and tracks of the realm as polylines
+ * running through hex centres or along hex edges.
+ */
+import React from 'react';
+import type { PathType, Point, RealmPath, ViewOptions } from '@/features/realm/types';
+import { getPolylinePath } from '@/features/realm/utils/hexUtils';
+import { PATH_STYLES, PATH_TYPES } from '@/features/realm/config/constants';
+
+interface RealmPathsProps {
+  paths: RealmPath[];
+  viewOptions: ViewOptions;
+  hexCorners: Point[];
+  /** A path that is still being drawn, shown with reduced opacity. */
+  draftPath?: { type: PathType; points: RealmPath['points'] } | null;
+}
+
+/** Rivers are drawn first so that roads appear to bridge them. */
+const byDrawOrder = (a: RealmPath, b: RealmPath) =>
+  PATH_TYPES.indexOf(a.type) - PATH_TYPES.indexOf(b.type);
+
+export const RealmPaths = React.memo(
+  ({ paths, viewOptions, hexCorners, draftPath }: RealmPathsProps) => {
+    const renderPath = (key: string, type: PathType, points: RealmPath['points'], opacity = 1) => {
+      if (points.length < 2) return null;
+      const style = PATH_STYLES[type];
+      return (
+        <path
+          key={key}
+          d={getPolylinePath(points, viewOptions.orientation, viewOptions.hexSize, hexCorners)}
+          fill="none"
+          stroke={style.color}
+          strokeWidth={style.width}
+          strokeDasharray={style.dash}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeOpacity={opacity}
+        />
+      );
+    };
+
+    if (paths.length === 0 && !draftPath) return null;
+
+    return (
+      <g style={{ pointerEvents: 'none' }}>
+        {[...paths].sort(byDrawOrder).map((path) => renderPath(path.id, path.type, path.points))}
+        {draftPath && renderPath('draft', draftPath.type, draftPath.points, 0.6)}
+      </g>
+    );
+  }
+);
+RealmPaths.displayName = 'RealmPaths';
@@ -0,0 +1,76 @@
+/**
+ * @file StampPreview.tsx
+ * This component renders a stamp as it would be pasted: the terrain colour and barriers of
+ * each of its hexes, around the hex its anchor is placed on. It is drawn under the pointer
+ * while the Stamp tool is active, and as a thumbnail in the Stamp tool's sidebar.
+ */
+import React from 'react';
+import type { HexOrientation, Point, Stamp } from '@/features/realm/types';
+import { axialToPixel, getBarrierPath } from '@/features/realm/utils/hexUtils';
+import { HEX_SELECTED_COLOR } from '@/features/realm/config/constants';
+import { getTerrainBaseColor } from '@/app/theme/colors';
+
+interface StampPreviewProps {
+  /** The stamp, already turned and mirrored. */
+  stamp: Stamp;
+  /** The hex the anchor of the stamp is placed on. */
+  target: { q: number; r: number };
+  orientation: HexOrientation;
+  hexSize: Point;
+  hexCorners: Point[];
+  terrainColors: Record<string, string>;
+  barrierColor: string;
+  /** The opacity of the terrain colours, so the map shows through on the map. */
+  fillOpacity?: number;
+}
+
+export const StampPreview = React.memo(
+  ({
+    stamp,
+    target,
+    orientation,
+    hexSize,
+    hexCorners,
+    terrainColors,
+    barrierColor,
+    fillOpacity = 0.6,
+  }: StampPreviewProps) => {
+    const points = hexCorners.map((p) => `${p.x},${p.y}`).join(' ');
+
+    return (
+      <g style={{ pointerEvents: 'none' }}>
+        {stamp.hexes.map((hex) => {
+          const center = axialToPixel(
+            { q: target.q + hex.q, r: target.r + hex.r },
+            orientation,
+            hexSize
+          );
+          const isAnchor = hex.q === 0 && hex.r === 0;
+          return (
+            <g key={`${hex.q},${hex.r}`} transform={`translate(${center.x}, ${center.y})`}>
+              <polygon
+                points={points}
+                fill={terrainColors[hex.terrain] ?? getTerrainBaseColor(hex.terrain)}
+                fillOpacity={fillOpacity}
+                stroke={HEX_SELECTED_COLOR}
+                strokeOpacity={isAnchor ? 1 : 0.5}
+                strokeWidth={isAnchor ? 3 : 1}
+                strokeLinejoin="round"
+              />
+              {hex.barrierEdges.map((edge) => (
+                <path
+                  key={edge}
+                  d={getBarrierPath(edge, hexCorners)}
+                  stroke={barrierColor}
+                  strokeWidth={4}
+                  strokeLinecap="round"
+                />
+              ))}
+            </g>
+          );
+        })}
+      </g>
+    );
+  }
+);
+StampPreview.displayName = 'StampPreview';
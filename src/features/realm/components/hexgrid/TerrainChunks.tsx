@@ -0,0 +1,230 @@
+/**
+ * @file TerrainChunks.tsx
+ * This component draws the terrain of the interactive map from cached bitmaps, one per chunk
+ * of neighbouring hexes, instead of an SVG image per hex. Only the chunks near the viewport are
+ * drawn, at a level of detail that follows the zoom, and a chunk is only drawn again once its
+ * hexes or the terrain style change.
+ */
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Hex, MapViewport, TerrainTextures, ViewOptions } from '@/features/realm/types';
+import {
+  boundsIntersect,
+  getChunkLevel,
+  groupHexesIntoChunks,
+} from '@/features/realm/utils/viewportUtils';
+import type { MapBounds } from '@/features/realm/utils/viewportUtils';
+import { loadTerrainImages, renderTerrainChunk } from '@/features/realm/utils/textureUtils';
+import type { TerrainChunkStyle } from '@/features/realm/utils/textureUtils';
+
+interface TerrainChunksProps {
+  hexes: Hex[];
+  viewOptions: ViewOptions;
+  terrainTextures: TerrainTextures;
+  hexBoundingBox: MapBounds;
+  viewport: MapViewport;
+  /** Whether unrevealed hexes are left out, as the fog of war hides them completely. */
+  hideUnrevealed: boolean;
+}
+
+/** A chunk bitmap, and what it was drawn from so it can tell when it is out of date. */
+interface CachedChunk {
+  url: string;
+  bounds: MapBounds;
+  hexes: Hex[];
+  terrainImages: Map<string, HTMLImageElement>;
+  styleKey: string;
+}
+
+/** The number of chunk bitmaps kept once they scroll out of view. */
+const MAX_CACHED_CHUNKS = 48;
+
+/**
+ * Checks whether two lists hold the same hexes, so a chunk whose hexes were not edited keeps
+ * its bitmap.
+ */
+const isSameHexes = (a: Hex[], b: Hex[]) =>
+  a.length === b.length && a.every((hex, index) => hex === b[index]);
+
+export const TerrainChunks = ({
+  hexes,
+  viewOptions,
+  terrainTextures,
+  hexBoundingBox,
+  viewport,
+  hideUnrevealed,
+}: TerrainChunksProps) => {
+  const { orientation, hexSize, showGrid, gridColor, gridWidth, showIconSpray } = viewOptions;
+  const [terrainImages, setTerrainImages] = useState<Map<string, HTMLImageElement> | null>(null);
+  const cacheRef = useRef(new Map<string, CachedChunk>());
+  // Bitmaps replaced or evicted while they may still be on screen, released after the next update.
+  const retiredUrlsRef = useRef<string[]>([]);
+  const [shownChunks, setShownChunks] = useState<CachedChunk[]>([]);
+
+  const devicePixelRatio = typeof window !== 'undefined' ? (window.devicePixelRatio ?? 1) : 1;
+  const level = getChunkLevel(viewport.scale * devicePixelRatio);
+
+  const chunks = useMemo(
+    () => groupHexesIntoChunks(hexes, orientation, hexSize, hexBoundingBox, level),
+    [hexes, orientation, hexSize, hexBoundingBox, level]
+  );
+
+  // The chunks in view, and the ring around it so that panning finds them ready, nearest first.
+  const wantedKeys = useMemo(() => {
+    const margin = Math.max(viewport.width, viewport.height) / 2;
+    const area = {
+      x: viewport.x - margin,
+      y: viewport.y - margin,
+      width: viewport.width + margin * 2,
+      height: viewport.height + margin * 2,
+    };
+    const centerX = viewport.x + viewport.width / 2;
+    const centerY = viewport.y + viewport.height / 2;
+    const distance = ({ bounds }: { bounds: MapBounds }) =>
+      Math.hypot(bounds.x + bounds.width / 2 - centerX, bounds.y + bounds.height / 2 - centerY);
+    return Array.from(chunks.values())
+      .filter((chunk) => boundsIntersect(chunk.bounds, area))
+      .sort((a, b) => distance(a) - distance(b))
+      .map((chunk) => chunk.key)
+      .join(' ');
+  }, [chunks, viewport.x, viewport.y, viewport.width, viewport.height]);
+
+  /**
+   * Effect to decode the terrain textures whenever they, or the icon spray setting, change.
+   */
+  useEffect(() => {
+    let isCancelled = false;
+    loadTerrainImages(terrainTextures, showIconSpray)
+      .then((images) => {
+        if (!isCancelled) setTerrainImages(images);
+      })
+      .catch((error: unknown) => console.error('Failed to load terrain textures:', error));
+    return () => {
+      isCancelled = true;
+    };
+  }, [terrainTextures, showIconSpray]);
+
+  /**
+   * Effect to draw the chunks in view that have no up-to-date bitmap. Each bitmap is shown as
+   * soon as it is ready, over the ones already on screen, which stay until all are ready so the
+   * map never shows gaps while zooming.
+   */
+  useEffect(() => {
+    if (!terrainImages) return;
+    let isCancelled = false;
+    const style: TerrainChunkStyle = {
+      orientation,
+      hexSize,
+      showGrid,
+      gridColor,
+      gridWidth,
+      hideUnrevealed,
+    };
+    const styleKey = JSON.stringify(style);
+    const cache = cacheRef.current;
+
+    const update = async () => {
+      const wanted = wantedKeys ? wantedKeys.split(' ') : [];
+      for (const key of wanted) {
+        const chunk = chunks.get(key);
+        const cached = cache.get(key);
+        if (!chunk) continue;
+        if (
+          cached &&
+          cached.terrainImages === terrainImages &&
+          cached.styleKey === styleKey &&
+          isSameHexes(cached.hexes, chunk.hexes)
+        ) {
+          continue;
+        }
+        const blob = await renderTerrainChunk(chunk, level, terrainImages, style);
+        // An earlier update may have drawn the chunk in the meantime.
+        const replaced = cache.get(key);
+        if (replaced) retiredUrlsRef.current.push(replaced.url);
+        const drawn: CachedChunk = {
+          url: URL.createObjectURL(blob),
+          bounds: chunk.bounds,
+          hexes: chunk.hexes,
+          terrainImages,
+          styleKey,
+        };
+        cache.set(key, drawn);
+        if (isCancelled) return;
+        setShownChunks((prev) => [...prev.filter((shown) => shown !== replaced), drawn]);
+      }
+
+      const shown: CachedChunk[] = [];
+      wanted.forEach((key) => {
+        const cached = cache.get(key);
+        if (!cached) return;
+        // Refresh the place of the chunk in the cache, which evicts the least recently shown.
+        cache.delete(key);
+        cache.set(key, cached);
+        shown.push(cached);
+      });
+      for (const [key, cached] of cache) {
+        if (cache.size <= Math.max(MAX_CACHED_CHUNKS, shown.length)) break;
+        cache.delete(key);
+        retiredUrlsRef.current.push(cached.url);
+      }
+      setShownChunks(shown);
+    };
+
+    update().catch((error: unknown) => console.error('Failed to draw the terrain:', error));
+    return () => {
+      isCancelled = true;
+    };
+  }, [
+    terrainImages,
+    chunks,
+    wantedKeys,
+    level,
+    orientation,
+    hexSize,
+    showGrid,
+    gridColor,
+    gridWidth,
+    hideUnrevealed,
+  ]);
+
+  /**
+   * Effect to release the bitmaps that are no longer on screen.
+   */
+  useEffect(() => {
+    const shownUrls = new Set(shownChunks.map((chunk) => chunk.url));
+    retiredUrlsRef.current = retiredUrlsRef.current.filter((url) => {
+      if (shownUrls.has(url)) return true;
+      URL.revokeObjectURL(url);
+      return false;
+    });
+  }, [shownChunks]);
+
+  /**
+   * Effect to release every bitmap when the map goes away.
+   */
+  useEffect(() => {
+    const cache = cacheRef.current;
+    const retiredUrls = retiredUrlsRef;
+    return () => {
+      cache.forEach((cached) => URL.revokeObjectURL(cached.url));
+      cache.clear();
+      retiredUrls.current.forEach((url) => URL.revokeObjectURL(url));
+      retiredUrls.current = [];
+    };
+  }, []);
+
+  return (
+    <g style={{ pointerEvents: 'none' }}>
+      {shownChunks.map((chunk) => (
+        <image
+          key={chunk.url}
+          href={chunk.url}
+          x={chunk.bounds.x}
+          y={chunk.bounds.y}
+          width={chunk.bounds.width}
+          height={chunk.bounds.height}
+          preserveAspectRatio="none"
+        />
+      ))}
+    </g>
+  );
+};
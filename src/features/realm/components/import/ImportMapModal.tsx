@@ -0,0 +1,165 @@
+/**
+ * @file ImportMapModal.tsx
+ * Modal for importing a hex map made with another tool. Each kind of tile in the map is
+ * matched to one of the realm's terrain types, or left out, before the map replaces the realm.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ForeignMap, ForeignMapFormat, TerrainMapping, Tile } from '@/features/realm/types';
+import { suggestTerrainMapping } from '@/features/realm/services/mapImporters';
+import { getTerrainBaseColor } from '@/app/theme/colors';
+import { Icon } from '@/features/realm/components/Icon';
+
+interface ImportMapModalProps {
+  /** The map read from the selected file, or null when no import is in progress. */
+  map: ForeignMap | null;
+  onClose: () => void;
+  /** Imports the map with the chosen terrain for each tile. */
+  onImport: (mapping: TerrainMapping) => void;
+  terrainTiles: Tile[];
+  terrainColors: Record<string, string>;
+}
+
+/** The display name of each import format. */
+const FORMAT_LABELS: Record<ForeignMapFormat, string> = {
+  tiled: 'Tiled map',
+  worldographer: 'Worldographer map',
+  csv: 'CSV hex list',
+};
+
+export function ImportMapModal({
+  map,
+  onClose,
+  onImport,
+  terrainTiles,
+  terrainColors,
+}: ImportMapModalProps) {
+  const [mapping, setMapping] = useState<TerrainMapping>({});
+
+  useEffect(() => {
+    if (map) setMapping(suggestTerrainMapping(map.tiles, terrainTiles));
+  }, [map, terrainTiles]);
+
+  const importedHexCount = useMemo(
+    () => (map ? map.tiles.reduce((sum, tile) => sum + (mapping[tile.id] ? tile.count : 0), 0) : 0),
+    [map, mapping]
+  );
+
+  if (!map) {
+    return null;
+  }
+
+  const orientationNote =
+    map.orientation === null
+      ? 'The hexes keep the current orientation.'
+      : `The map uses ${map.orientation}-topped hexes, which the view will switch to.`;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-overlay-scrim p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="import-modal-title"
+    >
+      <div className="relative flex max-h-[90vh] w-full max-w-2xl flex-col rounded-lg border border-border-panel-divider bg-realm-map-viewport shadow-xl">
+        <div className="flex items-start justify-between border-b border-border-panel-divider px-6 py-4">
+          <div>
+            <h2 id="import-modal-title" className="text-xl font-semibold text-text-high-contrast">
+              Import Map
+            </h2>
+            <p className="text-sm text-text-muted">
+              {map.fileName}: {FORMAT_LABELS[map.format]}, {map.hexes.length} hexes in{' '}
+              {map.tiles.length} {map.tiles.length === 1 ? 'kind' : 'kinds'} of tile.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-text-muted hover:text-text-high-contrast transition-colors"
+            aria-label="Close import modal"
+          >
+            <Icon name="close" className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-text-muted">Terrain</h3>
+          <p className="mt-1 text-xs text-text-subtle">
+            Choose the terrain for each tile of the map. Hexes whose tile is left out are not
+            imported. {orientationNote}
+          </p>
+          <ul className="mt-3 space-y-2">
+            {map.tiles.map((tile) => {
+              const terrainId = mapping[tile.id] ?? null;
+              const swatchColor = terrainId
+                ? (terrainColors[terrainId] ?? getTerrainBaseColor(terrainId))
+                : 'transparent';
+              return (
+                <li
+                  key={tile.id}
+                  className="flex items-center gap-3 rounded-md border border-border-panel-divider bg-realm-command-panel-surface px-3 py-2"
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium text-text-high-contrast">
+                      {tile.label}
+                    </p>
+                    <p className="text-xs text-text-muted">
+                      {tile.count} {tile.count === 1 ? 'hex' : 'hexes'}
+                    </p>
+                  </div>
+                  <span
+                    className="h-6 w-6 flex-shrink-0 rounded border border-black/20"
+                    style={{ backgroundColor: swatchColor }}
+                    aria-hidden="true"
+                  />
+                  <select
+                    value={terrainId ?? ''}
+                    onChange={(event) =>
+                      setMapping((current) => ({
+                        ...current,
+                        [tile.id]: event.target.value === '' ? null : event.target.value,
+                      }))
+                    }
+                    className="w-44 rounded-md border border-border-panel-divider bg-realm-map-viewport px-2 py-1.5 text-sm text-text-high-contrast"
+                    aria-label={`Terrain for ${tile.label}`}
+                  >
+                    <option value="">Leave out</option>
+                    {terrainTiles.map((terrain) => (
+                      <option key={terrain.id} value={terrain.id}>
+                        {terrain.label}
+                      </option>
+                    ))}
+                  </select>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        <div className="flex flex-col gap-3 border-t border-border-panel-divider px-6 py-4 sm:flex-row sm:items-center sm:justify-between">
+          <p className="text-xs text-text-subtle">
+            {importedHexCount} of {map.hexes.length} hexes will be imported, replacing the current
+            realm.
+          </p>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-md border border-border-panel-divider px-4 py-2 text-sm font-medium text-text-muted hover:text-text-high-contrast"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => onImport(mapping)}
+              disabled={importedHexCount === 0}
+              className="rounded-md bg-actions-command-primary px-4 py-2 text-sm font-semibold text-text-high-contrast transition-colors hover:bg-actions-command-primary/80 disabled:cursor-not-allowed disabled:bg-border-panel-divider disabled:text-text-muted"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
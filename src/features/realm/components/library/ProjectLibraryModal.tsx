@@ -0,0 +1,289 @@
+/**
+ * @file ProjectLibraryModal.tsx
+ * Modal listing the named projects saved locally in the browser. Projects can be
+ * saved, opened, duplicated, renamed and deleted from here.
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealmDocument } from '@/features/realm/types';
+import {
+  deleteSavedProject,
+  duplicateSavedProject,
+  listSavedProjects,
+  loadSavedProject,
+  renameSavedProject,
+  saveProjectToLibrary,
+} from '@/features/realm/services/storageService';
+import type { SavedProjectSummary } from '@/features/realm/services/storageService';
+import type { ConfirmationState } from '@/app/App';
+import { Icon } from '@/features/realm/components/Icon';
+
+interface ProjectLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Builds a project from the current session, or returns null if there is no realm. */
+  getCurrentProject: () => RealmDocument | null;
+  /** Opens a project from the library. Throws if the project cannot be loaded. */
+  onOpenProject: (project: RealmDocument) => void;
+  setConfirmation: React.Dispatch<React.SetStateAction<ConfirmationState | null>>;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+export function ProjectLibraryModal({
+  isOpen,
+  onClose,
+  getCurrentProject,
+  onOpenProject,
+  setConfirmation,
+}: ProjectLibraryModalProps) {
+  const [projects, setProjects] = useState<SavedProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const renameInputRef = useRef<HTMLInputElement>(null);
+
+  const showError = useCallback(
+    (title: string, error: unknown) => {
+      setConfirmation({
+        isOpen: true,
+        title,
+        message: error instanceof Error ? error.message : 'An unknown error occurred.',
+        onConfirm: () => setConfirmation(null),
+        isInfo: true,
+      });
+    },
+    [setConfirmation]
+  );
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setProjects(await listSavedProjects());
+    } catch (error) {
+      showError('Library Unavailable', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    if (isOpen) {
+      void refresh();
+    } else {
+      setRenamingId(null);
+    }
+  }, [isOpen, refresh]);
+
+  useEffect(() => {
+    if (renamingId) renameInputRef.current?.focus();
+  }, [renamingId]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleSave = async () => {
+    const project = getCurrentProject();
+    const name = saveName.trim();
+    if (!project || !name) return;
+    try {
+      await saveProjectToLibrary(name, project);
+      setSaveName('');
+      await refresh();
+    } catch (error) {
+      showError('Save Failed', error);
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    try {
+      const record = await loadSavedProject(id);
+      if (!record) throw new Error('This save no longer exists.');
+      onOpenProject(record.project);
+      onClose();
+    } catch (error) {
+      showError('Open Failed', error);
+    }
+  };
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateSavedProject(id);
+      await refresh();
+    } catch (error) {
+      showError('Duplicate Failed', error);
+    }
+  };
+
+  const handleStartRename = (project: SavedProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const handleCommitRename = async () => {
+    const id = renamingId;
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (!id || !name) return;
+    try {
+      await renameSavedProject(id, name);
+      await refresh();
+    } catch (error) {
+      showError('Rename Failed', error);
+    }
+  };
+
+  const handleDelete = (project: SavedProjectSummary) => {
+    setConfirmation({
+      isOpen: true,
+      title: 'Delete Save',
+      message: `Are you sure you want to delete "${project.name}"? This cannot be undone.`,
+      confirmText: 'Delete',
+      onConfirm: () => {
+        setConfirmation(null);
+        deleteSavedProject(project.id)
+          .then(refresh)
+          .catch((error: unknown) => showError('Delete Failed', error));
+      },
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-overlay-scrim p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="project-library-title"
+    >
+      <div className="relative w-full max-w-2xl rounded-lg border border-border-panel-divider bg-realm-map-viewport shadow-xl">
+        <div className="flex items-start justify-between border-b border-border-panel-divider px-6 py-4">
+          <div>
+            <h2
+              id="project-library-title"
+              className="text-xl font-semibold text-text-high-contrast"
+            >
+              Project Library
+            </h2>
+            <p className="text-sm text-text-muted">
+              Named saves are stored in this browser. Your work is also autosaved as you edit.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-text-muted hover:text-text-high-contrast transition-colors"
+            aria-label="Close project library"
+          >
+            <Icon name="close" className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-4 px-6 py-6">
+          <form
+            className="flex gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              void handleSave();
+            }}
+          >
+            <input
+              type="text"
+              value={saveName}
+              onChange={(event) => setSaveName(event.target.value)}
+              placeholder="Name this realm…"
+              className="flex-1 bg-realm-command-panel-surface p-2 text-sm font-medium text-text-muted focus:outline-none focus:ring-2 focus:ring-actions-command-primary rounded-md"
+              aria-label="Save name"
+            />
+            <button
+              type="submit"
+              disabled={saveName.trim() === ''}
+              className="flex items-center gap-2 rounded-md bg-actions-command-primary px-4 py-2 text-sm font-medium text-text-high-contrast transition-colors hover:bg-actions-command-primary-hover disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              <Icon name="save" className="h-4 w-4" />
+              Save Current
+            </button>
+          </form>
+
+          <div className="max-h-96 overflow-y-auto rounded-md border border-border-panel-divider">
+            {isLoading && projects.length === 0 ? (
+              <p className="p-4 text-center text-sm text-text-muted">Loading saves…</p>
+            ) : projects.length === 0 ? (
+              <p className="p-4 text-center text-sm text-text-muted">No saved projects yet.</p>
+            ) : (
+              <ul className="divide-y divide-border-panel-divider">
+                {projects.map((project) => (
+                  <li key={project.id} className="flex items-center gap-3 px-4 py-3">
+                    <div className="min-w-0 flex-1">
+                      {renamingId === project.id ? (
+                        <input
+                          ref={renameInputRef}
+                          type="text"
+                          value={renameValue}
+                          onChange={(event) => setRenameValue(event.target.value)}
+                          onBlur={() => void handleCommitRename()}
+                          onKeyDown={(event) => {
+                            if (event.key === 'Enter') void handleCommitRename();
+                            if (event.key === 'Escape') setRenamingId(null);
+                          }}
+                          className="w-full bg-realm-command-panel-surface p-1 text-sm font-medium text-text-high-contrast focus:outline-none focus:ring-2 focus:ring-actions-command-primary rounded-md"
+                          aria-label={`New name for ${project.name}`}
+                        />
+                      ) : (
+                        <p className="truncate text-sm font-medium text-text-high-contrast">
+                          {project.name}
+                        </p>
+                      )}
+                      <p className="text-xs text-text-muted">
+                        {project.hexCount} hexes · updated {formatDate(project.updatedAt)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        onClick={() => void handleOpen(project.id)}
+                        className="p-2 rounded-md text-text-muted hover:text-text-high-contrast hover:bg-realm-command-panel-hover"
+                        title="Open"
+                        aria-label={`Open ${project.name}`}
+                      >
+                        <Icon name="folder-open" className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void handleDuplicate(project.id)}
+                        className="p-2 rounded-md text-text-muted hover:text-text-high-contrast hover:bg-realm-command-panel-hover"
+                        title="Duplicate"
+                        aria-label={`Duplicate ${project.name}`}
+                      >
+                        <Icon name="copy" className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleStartRename(project)}
+                        className="p-2 rounded-md text-text-muted hover:text-text-high-contrast hover:bg-realm-command-panel-hover"
+                        title="Rename"
+                        aria-label={`Rename ${project.name}`}
+                      >
+                        <Icon name="pencil" className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(project)}
+                        className="p-2 rounded-md text-text-muted hover:text-actions-danger-base hover:bg-realm-command-panel-hover"
+                        title="Delete"
+                        aria-label={`Delete ${project.name}`}
+                      >
+                        <Icon name="trash-2" className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
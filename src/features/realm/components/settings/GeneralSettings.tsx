@@ -2,9 +2,14 @@
  * @file Component for the "General" tab in the main settings modal.
  */
 
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import type { GenerationOptions, TileSet } from '@/features/realm/types';
+import { createRandomSeed, parseSeed } from '@/features/realm/utils/randomUtils';
+import { NAME_FEATURES } from '@/features/realm/config/nameTables';
+import { parseNameTables, resolveNameTables } from '@/features/realm/services/nameGenerator';
+import { exportNameTablesAsJson } from '@/features/realm/services/fileService';
 import { SettingsSection } from '../ui/SettingsSection';
+import { Icon } from '../Icon';
 
 /**
  * Props for the GeneralSettings component.
@@ -20,12 +25,15 @@ interface GeneralSettingsProps {
   setRealmHeight: React.Dispatch<React.SetStateAction<number>>;
   generationOptions: GenerationOptions;
   setGenerationOptions: React.Dispatch<React.SetStateAction<GenerationOptions>>;
+  /** Whether the seed is kept when generating, instead of rolling a new one. */
+  isSeedLocked: boolean;
+  setIsSeedLocked: React.Dispatch<React.SetStateAction<boolean>>;
   tileSets: TileSet;
 }
 
 /**
  * A component that renders the general settings for realm generation,
- * including map shape, size, points of interest, and myth settings.
+ * including map shape, size, points of interest, myth settings, and names.
  */
 export const GeneralSettings = ({
   realmShape,
@@ -38,8 +46,69 @@ export const GeneralSettings = ({
   setRealmHeight,
   generationOptions,
   setGenerationOptions,
+  isSeedLocked,
+  setIsSeedLocked,
   tileSets,
 }: GeneralSettingsProps) => {
+  // The seed field is edited as free text so users can paste a shared seed code.
+  const [seedInput, setSeedInput] = useState(String(generationOptions.seed));
+  const [nameTablesError, setNameTablesError] = useState<string | null>(null);
+  const nameTablesInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setSeedInput(String(generationOptions.seed));
+  }, [generationOptions.seed]);
+
+  /**
+   * Reads a name tables file and uses its tables in place of the built-in ones.
+   */
+  const handleNameTablesFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        try {
+          const fileContent = e.target?.result;
+          if (typeof fileContent !== 'string') throw new Error('File could not be read.');
+          const nameTables = parseNameTables(fileContent);
+          setGenerationOptions((prev) => ({
+            ...prev,
+            nameTables: { ...prev.nameTables, ...nameTables },
+          }));
+          setNameTablesError(null);
+        } catch (error) {
+          setNameTablesError(error instanceof Error ? error.message : 'Unknown error.');
+        }
+      };
+      reader.readAsText(file);
+    }
+    if (nameTablesInputRef.current) {
+      nameTablesInputRef.current.value = '';
+    }
+  };
+
+  /**
+   * Applies the typed seed. Entering a seed locks it, so the next generation uses it.
+   */
+  const commitSeedInput = () => {
+    if (seedInput.trim() === '') {
+      setSeedInput(String(generationOptions.seed));
+      return;
+    }
+    const seed = parseSeed(seedInput);
+    setSeedInput(String(seed));
+    setGenerationOptions((prev) => ({ ...prev, seed }));
+    setIsSeedLocked(true);
+  };
+
+  /**
+   * Rolls a new seed. Like a typed seed, it is locked, so the next generation uses the seed shown.
+   */
+  const handleRandomizeSeed = () => {
+    setGenerationOptions((prev) => ({ ...prev, seed: createRandomSeed() }));
+    setIsSeedLocked(true);
+  };
+
   const handleLandmarkChange = (landmarkId: string, value: string) => {
     setGenerationOptions((prev) => ({
       ...prev,
@@ -52,6 +121,56 @@ export const GeneralSettings = ({
 
   return (
     <div className="space-y-6">
+      <SettingsSection title="Seed">
+        <div>
+          <label htmlFor="realm-seed" className="block text-sm font-medium text-text-muted mb-1">
+            Seed
+          </label>
+          <div className="flex items-center gap-2">
+            <input
+              id="realm-seed"
+              type="text"
+              inputMode="numeric"
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+              onBlur={commitSeedInput}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitSeedInput();
+              }}
+              className="flex-1 bg-realm-command-panel-surface p-2 text-sm font-mono text-text-muted focus:outline-none focus:ring-2 focus:ring-actions-command-primary rounded-md"
+              aria-label="Generation seed"
+            />
+            <button
+              type="button"
+              onClick={handleRandomizeSeed}
+              className="p-2 rounded-md bg-realm-command-panel-surface text-text-muted hover:text-text-high-contrast"
+              title="Randomize seed"
+              aria-label="Randomize seed"
+            >
+              <Icon name="dices" className="w-5 h-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsSeedLocked((prev) => !prev)}
+              className={`p-2 rounded-md ${
+                isSeedLocked
+                  ? 'bg-actions-command-primary text-text-high-contrast'
+                  : 'bg-realm-command-panel-surface text-text-muted hover:text-text-high-contrast'
+              }`}
+              title={isSeedLocked ? 'Unlock seed' : 'Lock seed'}
+              aria-label={isSeedLocked ? 'Unlock seed' : 'Lock seed'}
+              aria-pressed={isSeedLocked}
+            >
+              <Icon name={isSeedLocked ? 'lock' : 'lock-open'} className="w-5 h-5" />
+            </button>
+          </div>
+          <p className="text-xs text-text-muted mt-2">
+            {isSeedLocked
+              ? 'The seed is locked: generating again with the same options recreates this realm.'
+              : 'A new seed is rolled each time a realm is generated.'}
+          </p>
+        </div>
+      </SettingsSection>
       <SettingsSection title="Map Shape &amp; Size">
         <div>
           <label htmlFor="realm-shape" className="block text-sm font-medium text-text-muted mb-1">
@@ -213,6 +332,25 @@ export const GeneralSettings = ({
             aria-label="Minimum distance between myths"
           />
         </div>
+        <div>
+          <label htmlFor="num-rivers" className="block text-sm font-medium text-text-muted mb-1">
+            Rivers
+          </label>
+          <input
+            id="num-rivers"
+            type="number"
+            value={generationOptions.numRivers}
+            onChange={(e) =>
+              setGenerationOptions((prev) => ({
+                ...prev,
+                numRivers: Math.max(0, parseInt(e.target.value, 10) || 0),
+              }))
+            }
+            min="0"
+            className="w-full bg-realm-command-panel-surface p-2 text-sm font-medium text-text-muted focus:outline-none focus:ring-2 focus:ring-actions-command-primary rounded-md"
+            aria-label="Number of rivers"
+          />
+        </div>
         <label
           htmlFor="generate-barriers"
           className="flex items-center justify-between pt-4 border-t border-border-panel-divider cursor-pointer"
@@ -231,6 +369,110 @@ export const GeneralSettings = ({
             <div className="w-11 h-6 bg-realm-command-panel-surface rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-actions-command-primary"></div>
           </div>
         </label>
+        <label
+          htmlFor="generate-roads"
+          className="flex items-center justify-between cursor-pointer"
+        >
+          <span className="text-sm font-medium text-text-muted">Generate Roads</span>
+          <div className="relative">
+            <input
+              id="generate-roads"
+              type="checkbox"
+              checked={generationOptions.generateRoads}
+              onChange={(e) =>
+                setGenerationOptions((prev) => ({ ...prev, generateRoads: e.target.checked }))
+              }
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-realm-command-panel-surface rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-actions-command-primary"></div>
+          </div>
+        </label>
+      </SettingsSection>
+      <SettingsSection title="Names">
+        <label
+          htmlFor="generate-names"
+          className="flex items-center justify-between cursor-pointer"
+        >
+          <span className="text-sm font-medium text-text-muted">
+            Name Holdings, Landmarks, Myths &amp; Rivers
+          </span>
+          <div className="relative">
+            <input
+              id="generate-names"
+              type="checkbox"
+              checked={generationOptions.generateNames}
+              onChange={(e) =>
+                setGenerationOptions((prev) => ({ ...prev, generateNames: e.target.checked }))
+              }
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-realm-command-panel-surface rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-actions-command-primary"></div>
+          </div>
+        </label>
+        <div className="pt-4 border-t border-border-panel-divider">
+          <p className="text-sm font-medium text-text-muted mb-1">Name Tables</p>
+          <p className="text-xs text-text-subtle mb-2">
+            Download the tables to use as a template, then import your own. Imported tables replace
+            the built-in ones for their features.
+          </p>
+          <ul className="text-xs text-text-muted mb-3 grid grid-cols-2 gap-1">
+            {NAME_FEATURES.map((feature) => (
+              <li key={feature.id}>
+                {feature.label}:{' '}
+                <span className="text-text-high-contrast">
+                  {generationOptions.nameTables[feature.id] ? 'Imported' : 'Built-in'}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <input
+              ref={nameTablesInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleNameTablesFileChange}
+              className="hidden"
+              aria-label="Import name tables"
+            />
+            <button
+              type="button"
+              onClick={() => nameTablesInputRef.current?.click()}
+              className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-text-muted bg-realm-command-panel-surface rounded-md hover:bg-realm-command-panel-hover transition-colors"
+            >
+              <Icon name="upload" className="w-4 h-4" />
+              Import
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                exportNameTablesAsJson(resolveNameTables(generationOptions.nameTables))
+              }
+              className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-text-muted bg-realm-command-panel-surface rounded-md hover:bg-realm-command-panel-hover transition-colors"
+            >
+              <Icon name="download" className="w-4 h-4" />
+              Download
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setGenerationOptions((prev) => ({ ...prev, nameTables: {} }));
+                setNameTablesError(null);
+              }}
+              disabled={Object.keys(generationOptions.nameTables).length === 0}
+              className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-text-muted bg-realm-command-panel-surface rounded-md hover:bg-realm-command-panel-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Icon name="reset" className="w-4 h-4" />
+              Reset
+            </button>
+          </div>
+          {nameTablesError && (
+            <p className="mt-2 text-xs text-actions-danger-base whitespace-pre-line" role="alert">
+              Could not import the name tables.
+              {'\n'}
+              {nameTablesError}
+            </p>
+          )}
+        </div>
       </SettingsSection>
     </div>
   );
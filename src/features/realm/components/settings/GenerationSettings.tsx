@@ -3,8 +3,14 @@
  */
 
 import React, { useMemo, useEffect, useState } from 'react';
-import type { GenerationOptions, TileSet, HighlandFormation } from '@/features/realm/types';
+import type {
+  GenerationOptions,
+  TileSet,
+  HighlandFormation,
+  NoiseSettings,
+} from '@/features/realm/types';
 import { TERRAIN_TEMPLATES } from '@/features/realm/config/constants';
+import { HIGHLAND_FORMATIONS } from '@/features/realm/services/formations';
 import { SettingsSection } from '../ui/SettingsSection';
 import { SettingSlider } from '../ui/SettingSlider';
 import { Icon } from '../Icon';
@@ -80,22 +86,58 @@ export const GenerationSettings = ({
           'Good for unique landmasses.',
         ],
       },
+      {
+        id: 'ridge',
+        name: 'Ridge Chain',
+        icon: 'mountains',
+        description: [
+          'Creates a winding mountain chain.',
+          'Highlands form along the ridge.',
+          'Good for dividing a realm.',
+        ],
+      },
+      {
+        id: 'archipelago',
+        name: 'Archipelago',
+        icon: 'waves',
+        description: [
+          'Creates scattered islands.',
+          'Highlands form on each island.',
+          'Good for fragmented realms.',
+        ],
+      },
+      {
+        id: 'twinPeaks',
+        name: 'Twin Peaks',
+        icon: 'mountain',
+        description: [
+          'Creates two separate peaks.',
+          'Highlands form on both.',
+          'Good for rival domains.',
+        ],
+      },
     ],
     []
   );
 
+  const selectedFormation =
+    generationOptions.highlandFormation === 'random'
+      ? null
+      : HIGHLAND_FORMATIONS[generationOptions.highlandFormation];
+  const rotationPeriod = selectedFormation?.rotationPeriod ?? null;
+  const selectedFormationIcon =
+    formationOptions.find((option) => option.id === generationOptions.highlandFormation)?.icon ??
+    'arrow-up';
+
   useEffect(() => {
-    if (
-      generationOptions.highlandFormation === 'triangle' &&
-      generationOptions.highlandFormationRotation > 120
-    ) {
-      onGenerationOptionChange('highlandFormationRotation', 120);
+    if (rotationPeriod !== null && generationOptions.highlandFormationRotation > rotationPeriod) {
+      onGenerationOptionChange('highlandFormationRotation', rotationPeriod);
     }
-  }, [
-    generationOptions.highlandFormation,
-    generationOptions.highlandFormationRotation,
-    onGenerationOptionChange,
-  ]);
+  }, [rotationPeriod, generationOptions.highlandFormationRotation, onGenerationOptionChange]);
+
+  const handleNoiseChange = <K extends keyof NoiseSettings>(key: K, value: NoiseSettings[K]) => {
+    onGenerationOptionChange('noise', { ...generationOptions.noise, [key]: value });
+  };
 
   const handleBiasInputChange = (e: React.ChangeEvent<HTMLInputElement>, terrainId: string) => {
     let value = parseInt(e.target.value, 10);
@@ -221,8 +263,7 @@ export const GenerationSettings = ({
               onChange={(v) => onGenerationOptionChange('highlandFormationStrength', v)}
               tooltip="Controls the intensity of the highland formation shape."
             />
-            {(generationOptions.highlandFormation === 'linear' ||
-              generationOptions.highlandFormation === 'triangle') && (
+            {rotationPeriod !== null && (
               <div className="grid grid-cols-2 gap-4 items-center pt-4 border-t border-border-panel-divider">
                 <div>
                   <SettingSlider
@@ -230,7 +271,7 @@ export const GenerationSettings = ({
                     value={generationOptions.highlandFormationRotation}
                     onChange={(v) => onGenerationOptionChange('highlandFormationRotation', v)}
                     min={0}
-                    max={generationOptions.highlandFormation === 'triangle' ? 120 : 360}
+                    max={rotationPeriod}
                     step={1}
                     displayMultiplier={1}
                     displaySuffix="Â°"
@@ -239,22 +280,21 @@ export const GenerationSettings = ({
                 </div>
                 <div className="flex flex-col items-center justify-center text-center">
                   <Icon
-                    name={
-                      generationOptions.highlandFormation === 'triangle' ? 'triangle' : 'arrow-up'
-                    }
+                    name={selectedFormationIcon}
                     className="w-8 h-8 mx-auto mb-2 text-text-muted"
                     style={{
                       transform: `rotate(${generationOptions.highlandFormationRotation}deg)`,
                     }}
                   />
                   <p className="text-xs text-text-muted">
-                    Lowlands start at the base and highlands form towards the tip.
+                    {generationOptions.highlandFormation === 'linear'
+                      ? 'Lowlands start at the base and highlands form towards the tip.'
+                      : 'The icon turns with the formation.'}
                   </p>
                 </div>
               </div>
             )}
-            {(generationOptions.highlandFormation === 'circle' ||
-              generationOptions.highlandFormation === 'triangle') && (
+            {selectedFormation?.invertible && (
               <label
                 htmlFor="invert-formation"
                 className="flex items-center justify-between pt-4 border-t border-border-panel-divider cursor-pointer"
@@ -281,6 +321,61 @@ export const GenerationSettings = ({
         )}
       </SettingsSection>
 
+      <SettingsSection title="Elevation Noise">
+        <p className="text-xs text-text-muted !mt-0">
+          Advanced settings for the noise that shapes elevation. The clustering slider below also
+          scales the noise frequency and the number of smoothing passes.
+        </p>
+        <SettingSlider
+          label="Octaves"
+          value={generationOptions.noise.octaves}
+          onChange={(v) => handleNoiseChange('octaves', v)}
+          min={1}
+          max={8}
+          step={1}
+          displayMultiplier={1}
+          displaySuffix=""
+          tooltip="The number of noise layers combined. More octaves add finer detail."
+        />
+        <SettingSlider
+          label="Lacunarity"
+          value={generationOptions.noise.lacunarity}
+          onChange={(v) => handleNoiseChange('lacunarity', v)}
+          min={1.5}
+          max={3}
+          step={0.05}
+          displayMultiplier={1}
+          displayDecimals={2}
+          displaySuffix="×"
+          tooltip="How much finer each octave is than the last."
+        />
+        <SettingSlider
+          label="Persistence"
+          value={generationOptions.noise.persistence}
+          onChange={(v) => handleNoiseChange('persistence', v)}
+          min={0.2}
+          max={0.8}
+          tooltip="How much each octave contributes relative to the last. Higher values give rougher, more broken elevation."
+        />
+        <SettingSlider
+          label="Domain Warp"
+          value={generationOptions.noise.warpStrength}
+          onChange={(v) => handleNoiseChange('warpStrength', v)}
+          tooltip="Distorts the noise with a second noise field, bending regions into swirling, less regular shapes."
+        />
+        <SettingSlider
+          label="Smoothing Passes"
+          value={generationOptions.noise.relaxationPasses}
+          onChange={(v) => handleNoiseChange('relaxationPasses', v)}
+          min={0}
+          max={10}
+          step={1}
+          displayMultiplier={1}
+          displaySuffix=""
+          tooltip="How many times terrain is clustered with its neighbours after it is placed, at medium clusteredness."
+        />
+      </SettingsSection>
+
       <SettingsSection title="Terrain Biases">
         <p className="text-xs text-text-muted !mt-0">
           Set relative weights. Higher numbers mean more of that terrain.
@@ -314,7 +409,7 @@ export const GenerationSettings = ({
           label="Terrain Clusteredness"
           value={1 - generationOptions.terrainRoughness}
           onChange={(v) => onGenerationOptionChange('terrainRoughness', 1 - v)}
-          tooltip="Higher values create large, smooth regions. Lower values result in chaotic, mixed landscapes."
+          tooltip="Higher values create large, smooth regions. Lower values result in chaotic, mixed landscapes. Also sets the scale of the elevation noise and the number of smoothing passes."
         />
         <div className="pt-4 border-t border-border-panel-divider">
           <p className="text-sm text-text-muted">
@@ -30,6 +30,8 @@ interface SettingsModalProps {
   // Props for multiple tabs
   generationOptions: GenerationOptions;
   setGenerationOptions: React.Dispatch<React.SetStateAction<GenerationOptions>>;
+  isSeedLocked: boolean;
+  setIsSeedLocked: React.Dispatch<React.SetStateAction<boolean>>;
   tileSets: TileSet;
   setTileSets: React.Dispatch<React.SetStateAction<TileSet>>;
   // Props for GenerationSettings
@@ -127,6 +129,8 @@ export const SettingsModal = ({ isOpen, onClose, settingsView, ...props }: Setti
                 setRealmHeight={props.setRealmHeight}
                 generationOptions={props.generationOptions}
                 setGenerationOptions={props.setGenerationOptions}
+                isSeedLocked={props.isSeedLocked}
+                setIsSeedLocked={props.setIsSeedLocked}
                 tileSets={props.tileSets}
               />
             )}
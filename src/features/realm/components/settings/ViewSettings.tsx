@@ -3,9 +3,16 @@
  */
 
 import React, { useMemo } from 'react';
-import type { ViewOptions, TileSet, Myth, KnightVisibilitySettings } from '@/features/realm/types';
+import type {
+  ViewOptions,
+  TileSet,
+  Myth,
+  KnightVisibilitySettings,
+  MapOverlayPosition,
+  MapOverlaySettings,
+} from '@/features/realm/types';
 import { SettingsSection } from '../ui/SettingsSection';
-import { DEFAULT_VIEW_VISIBILITY } from '@/features/realm/config/constants';
+import { DEFAULT_VIEW_VISIBILITY, MAP_OVERLAY_POSITIONS } from '@/features/realm/config/constants';
 import { Icon } from '../Icon';
 
 interface ViewSettingsProps {
@@ -30,6 +37,10 @@ const buildDefaultVisibility = (tileSets: TileSet, myths: Myth[]): KnightVisibil
     return acc;
   }, {}),
   showBarriers: DEFAULT_VIEW_VISIBILITY.showBarriers,
+  fogOfWar: DEFAULT_VIEW_VISIBILITY.fogOfWar,
+  showHexNames: DEFAULT_VIEW_VISIBILITY.showHexNames,
+  showHexNotes: DEFAULT_VIEW_VISIBILITY.showHexNotes,
+  showPoiDetails: DEFAULT_VIEW_VISIBILITY.showPoiDetails,
 });
 
 const Switch = ({
@@ -214,6 +225,64 @@ export const ViewSettings = ({
     }));
   };
 
+  const handleFogOfWarToggle = (value: boolean) => {
+    handleHoldingsUpdate((current) => ({
+      ...current,
+      fogOfWar: value,
+    }));
+  };
+
+  const handleHexNamesToggle = (value: boolean) => {
+    handleHoldingsUpdate((current) => ({
+      ...current,
+      showHexNames: value,
+    }));
+  };
+
+  const handleHexNotesToggle = (value: boolean) => {
+    handleHoldingsUpdate((current) => ({
+      ...current,
+      showHexNotes: value,
+    }));
+  };
+
+  const handlePoiDetailsToggle = (value: boolean) => {
+    handleHoldingsUpdate((current) => ({
+      ...current,
+      showPoiDetails: value,
+    }));
+  };
+
+  const handleOverlaysUpdate = (changes: Partial<MapOverlaySettings>) => {
+    setViewOptions((prev) => ({ ...prev, overlays: { ...prev.overlays, ...changes } }));
+  };
+
+  const overlayToggles: {
+    id: string;
+    key: 'showLegend' | 'showCompass' | 'showScaleBar';
+    title: string;
+    description: string;
+  }[] = [
+    {
+      id: 'show-legend-toggle',
+      key: 'showLegend',
+      title: 'Legend',
+      description: 'List the terrain, holdings, landmarks and paths shown on the map.',
+    },
+    {
+      id: 'show-compass-toggle',
+      key: 'showCompass',
+      title: 'Compass Rose',
+      description: 'Mark north in the corner beside the legend.',
+    },
+    {
+      id: 'show-scale-bar-toggle',
+      key: 'showScaleBar',
+      title: 'Scale Bar',
+      description: 'Show how far a number of hexes is, using the distance below.',
+    },
+  ];
+
   const handleReset = () => {
     const defaults = buildDefaultVisibility(tileSets, myths);
     handleHoldingsUpdate(() => defaults);
@@ -404,6 +473,89 @@ export const ViewSettings = ({
             />
           </label>
         </div>
+
+        <div className="rounded-md border border-border-panel-divider bg-realm-command-panel-surface px-4 py-3">
+          <label
+            htmlFor="fog-of-war-toggle"
+            className="flex items-center justify-between gap-3 cursor-pointer"
+          >
+            <div>
+              <span className="block text-sm font-semibold text-text-high-contrast">
+                Fog of War
+              </span>
+              <span className="block text-xs text-text-muted">
+                Hide hexes the Knights have not explored. Reveal them with the Reveal tool.
+              </span>
+            </div>
+            <Switch
+              id="fog-of-war-toggle"
+              checked={knightVisibility.fogOfWar}
+              onChange={handleFogOfWarToggle}
+            />
+          </label>
+        </div>
+
+        <div className="rounded-md border border-border-panel-divider bg-realm-command-panel-surface px-4 py-3">
+          <label
+            htmlFor="show-hex-names-toggle"
+            className="flex items-center justify-between gap-3 cursor-pointer"
+          >
+            <div>
+              <span className="block text-sm font-semibold text-text-high-contrast">Hex Names</span>
+              <span className="block text-xs text-text-muted">
+                Toggle whether custom hex names appear in Knight view tooltips.
+              </span>
+            </div>
+            <Switch
+              id="show-hex-names-toggle"
+              checked={knightVisibility.showHexNames}
+              onChange={handleHexNamesToggle}
+            />
+          </label>
+        </div>
+
+        <div className="rounded-md border border-border-panel-divider bg-realm-command-panel-surface px-4 py-3">
+          <label
+            htmlFor="show-hex-notes-toggle"
+            className="flex items-center justify-between gap-3 cursor-pointer"
+          >
+            <div>
+              <span className="block text-sm font-semibold text-text-high-contrast">
+                Hex Notes &amp; Tags
+              </span>
+              <span className="block text-xs text-text-muted">
+                Toggle whether the Referee&apos;s notes and tags appear in Knight view tooltips.
+              </span>
+            </div>
+            <Switch
+              id="show-hex-notes-toggle"
+              checked={knightVisibility.showHexNotes}
+              onChange={handleHexNotesToggle}
+            />
+          </label>
+        </div>
+
+        <div className="rounded-md border border-border-panel-divider bg-realm-command-panel-surface px-4 py-3">
+          <label
+            htmlFor="show-poi-details-toggle"
+            className="flex items-center justify-between gap-3 cursor-pointer"
+          >
+            <div>
+              <span className="block text-sm font-semibold text-text-high-contrast">
+                Holding &amp; Landmark Details
+              </span>
+              <span className="block text-xs text-text-muted">
+                Toggle whether names, rulers, populations and descriptions appear in Knight view
+                tooltips. Secrets are never shown.
+              </span>
+            </div>
+            <Switch
+              id="show-poi-details-toggle"
+              checked={knightVisibility.showPoiDetails}
+              onChange={handlePoiDetailsToggle}
+            />
+          </label>
+        </div>
       </SettingsSection>
 
       <div className="flex justify-end">
@@ -416,6 +568,103 @@ export const ViewSettings = ({
           Reset to Defaults
         </button>
       </div>
+
+      <SettingsSection title="Map Overlays">
+        <p className="text-xs text-text-muted !mt-0">
+          Overlays are drawn over the map in both views and included in PNG and SVG exports.
+        </p>
+
+        {overlayToggles.map((toggle) => (
+          <div
+            key={toggle.key}
+            className="rounded-md border border-border-panel-divider bg-realm-command-panel-surface px-4 py-3"
+          >
+            <label
+              htmlFor={toggle.id}
+              className="flex items-center justify-between gap-3 cursor-pointer"
+            >
+              <div>
+                <span className="block text-sm font-semibold text-text-high-contrast">
+                  {toggle.title}
+                </span>
+                <span className="block text-xs text-text-muted">{toggle.description}</span>
+              </div>
+              <Switch
+                id={toggle.id}
+                checked={viewOptions.overlays[toggle.key]}
+                onChange={(value) => handleOverlaysUpdate({ [toggle.key]: value })}
+              />
+            </label>
+          </div>
+        ))}
+
+        <div>
+          <label
+            htmlFor="overlay-position"
+            className="block text-sm font-medium text-text-muted mb-1"
+          >
+            Legend Position
+          </label>
+          <select
+            id="overlay-position"
+            value={viewOptions.overlays.position}
+            onChange={(e) =>
+              handleOverlaysUpdate({ position: e.target.value as MapOverlayPosition })
+            }
+            className="w-full bg-realm-command-panel-surface p-2 text-sm font-medium text-text-muted focus:outline-none focus:ring-2 focus:ring-actions-command-primary rounded-md"
+          >
+            {MAP_OVERLAY_POSITIONS.map((position) => (
+              <option key={position.id} value={position.id}>
+                {position.label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-text-muted">
+            The compass takes the corner beside the legend and the scale bar the one above or below
+            it.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label
+              htmlFor="distance-per-hex"
+              className="block text-sm font-medium text-text-muted mb-1"
+            >
+              Distance per Hex
+            </label>
+            <input
+              id="distance-per-hex"
+              type="number"
+              value={viewOptions.overlays.distancePerHex}
+              onChange={(e) =>
+                handleOverlaysUpdate({
+                  distancePerHex: Math.max(0, parseFloat(e.target.value) || 0),
+                })
+              }
+              min="0"
+              step="0.5"
+              className="w-full bg-realm-command-panel-surface p-2 text-sm font-medium text-text-muted focus:outline-none focus:ring-2 focus:ring-actions-command-primary rounded-md"
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="distance-unit"
+              className="block text-sm font-medium text-text-muted mb-1"
+            >
+              Unit
+            </label>
+            <input
+              id="distance-unit"
+              type="text"
+              value={viewOptions.overlays.distanceUnit}
+              onChange={(e) => handleOverlaysUpdate({ distanceUnit: e.target.value })}
+              placeholder="miles"
+              className="w-full bg-realm-command-panel-surface p-2 text-sm font-medium text-text-muted focus:outline-none focus:ring-2 focus:ring-actions-command-primary rounded-md"
+            />
+          </div>
+        </div>
+      </SettingsSection>
     </div>
   );
 };
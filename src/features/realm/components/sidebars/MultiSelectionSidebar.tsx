@@ -0,0 +1,198 @@
+/**
+ * @file MultiSelectionSidebar.tsx
+ * This component renders the sidebar shown when several hexes are selected with the Select
+ * tool. It summarises the selection and applies bulk edits to it: setting the terrain, clearing
+ * holdings and landmarks, adding or removing barriers around the selection, and deleting the
+ * contents of the hexes. Each edit is a single update, undone in one step. The selection can
+ * also be copied as a stamp, to be pasted elsewhere.
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { Hex, HistoryDescription, Realm, TileSet } from '@/features/realm/types';
+import { Icon } from '../Icon';
+import {
+  clearHexContents,
+  clearPlaces,
+  getSelectedHexes,
+  setPerimeterBarriers,
+} from '@/features/realm/utils/selectionUtils';
+import { SelectByAttribute } from './SelectByAttribute';
+
+/**
+ * Props for the MultiSelectionSidebar component.
+ */
+interface MultiSelectionSidebarProps {
+  realm: Realm;
+  /** The keys of the selected hexes. */
+  selectedHexKeys: ReadonlySet<string>;
+  /** Callback to update hexes, with the description of the edit for the history. */
+  onUpdateHex: (hexes: Hex[], description: HistoryDescription) => void;
+  /** Callback to replace the selection. */
+  onSelectHexes: (keys: ReadonlySet<string>) => void;
+  /** Callback to clear the selection. */
+  onDeselect: () => void;
+  /** Callback to copy the selection into a stamp and paste it with the Stamp tool. */
+  onCopy: () => void;
+  tileSets: TileSet;
+}
+
+const BUTTON_CLASS =
+  'w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-text-muted bg-realm-command-panel-surface rounded-md hover:bg-realm-command-panel-hover border border-border-panel-divider transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+/**
+ * The sidebar component for editing several selected hexes at once.
+ */
+export function MultiSelectionSidebar({
+  realm,
+  selectedHexKeys,
+  onUpdateHex,
+  onSelectHexes,
+  onDeselect,
+  onCopy,
+  tileSets,
+}: MultiSelectionSidebarProps) {
+  const [terrain, setTerrain] = useState(tileSets.terrain[0]?.id ?? '');
+
+  const selectedHexes = useMemo(
+    () => getSelectedHexes(realm.hexes, selectedHexKeys),
+    [realm.hexes, selectedHexKeys]
+  );
+  const count = `${selectedHexes.length} ${selectedHexes.length === 1 ? 'hex' : 'hexes'}`;
+
+  // The terrain of the selection, most common first.
+  const terrainSummary = useMemo(() => {
+    const counts = new Map<string, number>();
+    selectedHexes.forEach((hex) => counts.set(hex.terrain, (counts.get(hex.terrain) ?? 0) + 1));
+    return Array.from(counts, ([id, total]) => ({
+      label: tileSets.terrain.find((tile) => tile.id === id)?.label ?? id,
+      total,
+    })).sort((a, b) => b.total - a.total);
+  }, [selectedHexes, tileSets.terrain]);
+  const placeCount = selectedHexes.filter((hex) => hex.holding || hex.landmark).length;
+
+  const handleSetTerrain = () => {
+    const label = tileSets.terrain.find((tile) => tile.id === terrain)?.label ?? terrain;
+    onUpdateHex(
+      selectedHexes.filter((hex) => hex.terrain !== terrain).map((hex) => ({ ...hex, terrain })),
+      { label: `Set ${count} to ${label}` }
+    );
+  };
+
+  return (
+    <aside className="w-80 bg-realm-canvas-backdrop border-l border-border-panel-divider p-4 flex flex-col">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold">
+          <span className="font-decorative text-[1.1em]">{selectedHexes.length}</span> Hexes
+          Selected
+        </h2>
+        <button
+          onClick={onDeselect}
+          className="p-1 rounded-full hover:bg-realm-command-panel-hover"
+          aria-label="Clear Selection"
+        >
+          <Icon name="close" className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="flex-grow overflow-y-auto pr-2 space-y-6">
+        <p className="text-sm text-text-muted">
+          {terrainSummary.map(({ label, total }) => `${total} ${label}`).join(', ')}
+          {placeCount > 0 && `. ${placeCount} with a holding or landmark.`}
+        </p>
+
+        <SelectByAttribute
+          hexes={realm.hexes}
+          tileSets={tileSets}
+          selectedHexKeys={selectedHexKeys}
+          onSelectHexes={onSelectHexes}
+        />
+
+        <div className="space-y-2">
+          <label htmlFor="bulk-terrain" className="block text-sm font-medium text-text-muted">
+            Terrain
+          </label>
+          <div className="flex gap-2">
+            <select
+              id="bulk-terrain"
+              value={terrain}
+              onChange={(e) => setTerrain(e.target.value)}
+              className="w-full p-2 bg-realm-command-panel-surface border border-border-panel-divider rounded-md focus:outline-none focus:ring-2 focus:ring-actions-command-primary"
+            >
+              {tileSets.terrain.map((tile) => (
+                <option key={tile.id} value={tile.id}>
+                  {tile.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleSetTerrain}
+              className="px-3 py-2 text-sm font-medium text-text-muted bg-realm-command-panel-surface rounded-md hover:bg-realm-command-panel-hover border border-border-panel-divider transition-colors"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-text-muted">Barriers</label>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() =>
+                onUpdateHex(setPerimeterBarriers(realm.hexes, selectedHexKeys, true), {
+                  label: `Added barriers around ${count}`,
+                })
+              }
+              className={BUTTON_CLASS}
+              title="Add barriers along the edge of the selection"
+            >
+              <Icon name="barrier-painter" className="w-4 h-4" />
+              Surround
+            </button>
+            <button
+              onClick={() =>
+                onUpdateHex(setPerimeterBarriers(realm.hexes, selectedHexKeys, false), {
+                  label: `Removed barriers around ${count}`,
+                })
+              }
+              className={BUTTON_CLASS}
+              title="Remove the barriers along the edge of the selection"
+            >
+              <Icon name="eraser" className="w-4 h-4" />
+              Open Up
+            </button>
+          </div>
+        </div>
+
+        <div className="pt-4 border-t border-border-panel-divider space-y-2">
+          <button onClick={onCopy} className={BUTTON_CLASS} title="Copy (Ctrl+C)">
+            <Icon name="stamp" className="w-4 h-4" />
+            Copy as Stamp
+          </button>
+          <button
+            onClick={() =>
+              onUpdateHex(clearPlaces(selectedHexes), {
+                label: `Cleared holdings and landmarks from ${count}`,
+              })
+            }
+            disabled={placeCount === 0}
+            className={BUTTON_CLASS}
+          >
+            <Icon name="map-pin-pen" className="w-4 h-4" />
+            Clear Holdings & Landmarks
+          </button>
+          <button
+            onClick={() =>
+              onUpdateHex(clearHexContents(realm.hexes, selectedHexKeys), {
+                label: `Deleted the contents of ${count}`,
+              })
+            }
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-text-muted bg-actions-danger-base/50 rounded-md hover:bg-actions-danger-base/80 border border-actions-danger-base transition-colors"
+            title="Remove the holdings, landmarks, names, notes, tags and barriers of the selected hexes"
+          >
+            <Icon name="close" className="w-4 h-4" />
+            Delete Contents
+          </button>
+        </div>
+      </div>
+    </aside>
+  );
+}
@@ -1,14 +1,23 @@
 ﻿/**
  * @file MythSidebar.tsx
  * This component renders the sidebar for the Myth tool. It lists all myths
- * present in the realm and provides controls for editing their names,
- * relocating them, or removing them.
+ * present in the realm and provides a detail sheet for each: its name, status,
+ * description, omens, cast and linked hexes, and controls for relocating or
+ * removing it.
  */
 
-import React from 'react';
-import type { Realm, Hex, Myth } from '@/features/realm/types';
+import React, { useState } from 'react';
+import type { Realm, Hex, Myth, MythOmen, MythStatus, NameTables } from '@/features/realm/types';
+import { MYTH_STATUSES } from '@/features/realm/config/constants';
+import { findHex } from '@/features/realm/utils/hexIndex';
+import { rollName } from '@/features/realm/services/nameGenerator';
 import { Icon } from '../Icon';
 
+const INPUT_CLASS =
+  'w-full bg-realm-command-panel-surface p-2 text-sm font-medium text-text-muted focus:outline-none focus:ring-2 focus:ring-actions-command-primary rounded-md';
+const ICON_BUTTON_CLASS =
+  'p-1 rounded-md text-text-muted hover:bg-realm-command-panel-hover disabled:opacity-30 disabled:cursor-not-allowed';
+
 /**
  * Props for the MythSidebar component.
  */
@@ -20,6 +29,12 @@ interface MythSidebarProps {
   onRemoveMyth: (hex: Hex) => void;
   relocatingMythId: number | null;
   onToggleRelocateMyth: (mythId: number) => void;
+  /** The ID of the myth whose linked hexes are being picked on the map, if any. */
+  linkingMythId: number | null;
+  /** Callback to start or stop picking the linked hexes of a myth on the map. */
+  onToggleLinkMythHexes: (mythId: number) => void;
+  /** The imported name tables, used when rolling names. */
+  nameTables: Partial<NameTables>;
   onClose: () => void;
 }
 
@@ -34,14 +49,42 @@ export function MythSidebar({
   onRemoveMyth,
   relocatingMythId,
   onToggleRelocateMyth,
+  linkingMythId,
+  onToggleLinkMythHexes,
+  nameTables,
   onClose,
 }: MythSidebarProps) {
+  const [castInput, setCastInput] = useState('');
+
   const findHexForMyth = (myth: Myth): Hex | undefined => {
-    return realm.hexes.find((h) => h.q === myth.q && h.r === myth.r);
+    return findHex(realm.hexes, myth.q, myth.r);
+  };
+
+  const describeHex = (coords: { q: number; r: number }) => {
+    const hex = findHex(realm.hexes, coords.q, coords.r);
+    return hex?.name ? `${hex.name} (${coords.q}, ${coords.r})` : `(${coords.q}, ${coords.r})`;
+  };
+
+  const updateOmens = (myth: Myth, omens: MythOmen[]) => onUpdateMyth({ ...myth, omens });
+
+  const moveOmen = (myth: Myth, index: number, offset: number) => {
+    const omens = [...myth.omens];
+    const [omen] = omens.splice(index, 1);
+    if (!omen) return;
+    omens.splice(index + offset, 0, omen);
+    updateOmens(myth, omens);
+  };
+
+  const addCastMember = (myth: Myth) => {
+    const name = castInput.trim();
+    if (name !== '' && !myth.cast.includes(name)) {
+      onUpdateMyth({ ...myth, cast: [...myth.cast, name] });
+    }
+    setCastInput('');
   };
 
   const handleMythClick = (myth: Myth) => {
-    if (relocatingMythId) return;
+    if (relocatingMythId || linkingMythId) return;
     const hex = findHexForMyth(myth);
     if (hex) onSelectHex(selectedHex?.myth === myth.id ? null : hex);
   };
@@ -71,8 +114,12 @@ export function MythSidebar({
               {realm.myths
                 .sort((a, b) => a.id - b.id)
                 .map((myth) => {
-                  const isExpanded = selectedHex?.myth === myth.id;
                   const isRelocating = relocatingMythId === myth.id;
+                  const isLinking = linkingMythId === myth.id;
+                  const isExpanded = selectedHex?.myth === myth.id || isLinking;
+                  const occurredOmens = myth.omens.filter((omen) => omen.hasOccurred).length;
+                  const statusLabel =
+                    MYTH_STATUSES.find((status) => status.id === myth.status)?.label ?? myth.status;
 
                   return (
                     <li
@@ -83,7 +130,7 @@ export function MythSidebar({
                         onClick={() => handleMythClick(myth)}
                         className="w-full text-left p-3 hover:bg-realm-command-panel-hover transition-colors flex justify-between items-center disabled:cursor-not-allowed"
                         aria-expanded={isExpanded || isRelocating}
-                        disabled={!!relocatingMythId}
+                        disabled={!!relocatingMythId || !!linkingMythId}
                       >
                         <div>
                           <p className="font-semibold text-text-accent-headline">
@@ -91,7 +138,9 @@ export function MythSidebar({
                             <span className="text-text-high-contrast">{myth.name}</span>
                           </p>
                           <p className="text-xs text-text-muted">
-                            Location: ({myth.q}, {myth.r})
+                            {statusLabel} · Location: ({myth.q}, {myth.r})
+                            {myth.omens.length > 0 &&
+                              ` · Omens: ${occurredOmens}/${myth.omens.length}`}
                           </p>
                         </div>
                         <Icon
@@ -108,14 +157,244 @@ export function MythSidebar({
                             >
                               Edit Name
                             </label>
+                            <div className="flex gap-2">
+                              <input
+                                id={`myth-name-${myth.id}`}
+                                type="text"
+                                value={myth.name}
+                                onChange={(e) => onUpdateMyth({ ...myth, name: e.target.value })}
+                                className={INPUT_CLASS}
+                              />
+                              <button
+                                onClick={() =>
+                                  onUpdateMyth({ ...myth, name: rollName(nameTables, 'myth') })
+                                }
+                                className="p-2 rounded-md text-text-muted bg-realm-command-panel-surface hover:bg-realm-command-panel-hover"
+                                title="Roll a name"
+                                aria-label="Roll a name"
+                              >
+                                <Icon name="dices" className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </div>
+                          <div>
+                            <label
+                              htmlFor={`myth-status-${myth.id}`}
+                              className="block text-sm font-medium text-text-muted mb-1"
+                            >
+                              Status
+                            </label>
+                            <select
+                              id={`myth-status-${myth.id}`}
+                              value={myth.status}
+                              onChange={(e) =>
+                                onUpdateMyth({ ...myth, status: e.target.value as MythStatus })
+                              }
+                              className={INPUT_CLASS}
+                            >
+                              {MYTH_STATUSES.map((status) => (
+                                <option key={status.id} value={status.id}>
+                                  {status.label}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label
+                              htmlFor={`myth-description-${myth.id}`}
+                              className="block text-sm font-medium text-text-muted mb-1"
+                            >
+                              Description
+                            </label>
+                            <textarea
+                              id={`myth-description-${myth.id}`}
+                              value={myth.description}
+                              onChange={(e) =>
+                                onUpdateMyth({ ...myth, description: e.target.value })
+                              }
+                              rows={4}
+                              placeholder="What the myth is and what it wants."
+                              className={`${INPUT_CLASS} resize-y`}
+                            />
+                          </div>
+                          <div>
+                            <p className="text-sm font-medium text-text-muted mb-1">Omens</p>
+                            {myth.omens.length > 0 && (
+                              <ol className="space-y-1 mb-2">
+                                {myth.omens.map((omen, index) => (
+                                  <li key={index} className="flex items-center gap-1">
+                                    <input
+                                      type="checkbox"
+                                      checked={omen.hasOccurred}
+                                      onChange={(e) =>
+                                        updateOmens(
+                                          myth,
+                                          myth.omens.map((o, i) =>
+                                            i === index
+                                              ? { ...o, hasOccurred: e.target.checked }
+                                              : o
+                                          )
+                                        )
+                                      }
+                                      className="flex-shrink-0 accent-actions-command-primary"
+                                      aria-label={`Omen ${index + 1} has occurred`}
+                                    />
+                                    <span className="w-4 text-xs text-text-subtle text-right flex-shrink-0">
+                                      {index + 1}.
+                                    </span>
+                                    <input
+                                      type="text"
+                                      value={omen.text}
+                                      onChange={(e) =>
+                                        updateOmens(
+                                          myth,
+                                          myth.omens.map((o, i) =>
+                                            i === index ? { ...o, text: e.target.value } : o
+                                          )
+                                        )
+                                      }
+                                      placeholder="Describe the omen"
+                                      className={`${INPUT_CLASS} min-w-0 p-1 ${
+                                        omen.hasOccurred ? 'line-through opacity-70' : ''
+                                      }`}
+                                      aria-label={`Omen ${index + 1}`}
+                                    />
+                                    <button
+                                      onClick={() => moveOmen(myth, index, -1)}
+                                      disabled={index === 0}
+                                      className={ICON_BUTTON_CLASS}
+                                      aria-label={`Move omen ${index + 1} up`}
+                                    >
+                                      <Icon name="arrow-up" className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                      onClick={() => moveOmen(myth, index, 1)}
+                                      disabled={index === myth.omens.length - 1}
+                                      className={ICON_BUTTON_CLASS}
+                                      aria-label={`Move omen ${index + 1} down`}
+                                    >
+                                      <Icon name="arrow-down" className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                      onClick={() =>
+                                        updateOmens(
+                                          myth,
+                                          myth.omens.filter((_, i) => i !== index)
+                                        )
+                                      }
+                                      className={ICON_BUTTON_CLASS}
+                                      aria-label={`Remove omen ${index + 1}`}
+                                    >
+                                      <Icon name="close" className="w-4 h-4" />
+                                    </button>
+                                  </li>
+                                ))}
+                              </ol>
+                            )}
+                            <button
+                              onClick={() =>
+                                updateOmens(myth, [...myth.omens, { text: '', hasOccurred: false }])
+                              }
+                              className="w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-medium text-text-muted bg-realm-command-panel-surface rounded-md hover:bg-realm-command-panel-hover transition-colors"
+                            >
+                              <Icon name="plus" className="w-4 h-4" />
+                              Add Omen
+                            </button>
+                          </div>
+                          <div>
+                            <label
+                              htmlFor={`myth-cast-${myth.id}`}
+                              className="block text-sm font-medium text-text-muted mb-1"
+                            >
+                              Cast
+                            </label>
+                            {myth.cast.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mb-2">
+                                {myth.cast.map((name) => (
+                                  <span
+                                    key={name}
+                                    className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-realm-command-panel-surface text-xs text-text-high-contrast"
+                                  >
+                                    {name}
+                                    <button
+                                      onClick={() =>
+                                        onUpdateMyth({
+                                          ...myth,
+                                          cast: myth.cast.filter((member) => member !== name),
+                                        })
+                                      }
+                                      className="rounded-full hover:bg-realm-command-panel-hover"
+                                      aria-label={`Remove ${name}`}
+                                    >
+                                      <Icon name="close" className="w-3 h-3" />
+                                    </button>
+                                  </span>
+                                ))}
+                              </div>
+                            )}
                             <input
-                              id={`myth-name-${myth.id}`}
+                              id={`myth-cast-${myth.id}`}
                               type="text"
-                              value={myth.name}
-                              onChange={(e) => onUpdateMyth({ ...myth, name: e.target.value })}
-                              className="w-full bg-realm-command-panel-surface p-2 text-sm font-medium text-text-muted focus:outline-none focus:ring-2 focus:ring-actions-command-primary rounded-md"
+                              value={castInput}
+                              onChange={(e) => setCastInput(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                  e.preventDefault();
+                                  addCastMember(myth);
+                                }
+                              }}
+                              placeholder="Add a name and press Enter"
+                              className={INPUT_CLASS}
                             />
                           </div>
+                          <div>
+                            <p className="text-sm font-medium text-text-muted mb-1">Linked Hexes</p>
+                            {myth.linkedHexes.length > 0 ? (
+                              <ul className="space-y-1 mb-2">
+                                {myth.linkedHexes.map((hex) => (
+                                  <li
+                                    key={`${hex.q},${hex.r}`}
+                                    className="flex items-center justify-between text-sm text-text-high-contrast"
+                                  >
+                                    {describeHex(hex)}
+                                    <button
+                                      onClick={() =>
+                                        onUpdateMyth({
+                                          ...myth,
+                                          linkedHexes: myth.linkedHexes.filter(
+                                            (h) => h.q !== hex.q || h.r !== hex.r
+                                          ),
+                                        })
+                                      }
+                                      className={ICON_BUTTON_CLASS}
+                                      aria-label={`Unlink hex ${hex.q}, ${hex.r}`}
+                                    >
+                                      <Icon name="close" className="w-4 h-4" />
+                                    </button>
+                                  </li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <p className="text-xs text-text-subtle mb-2">No hexes linked yet.</p>
+                            )}
+                            <button
+                              onClick={() => onToggleLinkMythHexes(myth.id)}
+                              disabled={isRelocating}
+                              className={`w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                                isLinking
+                                  ? 'bg-realm-command-panel-hover/80 text-text-high-contrast hover:bg-realm-command-panel-hover'
+                                  : 'bg-realm-command-panel-surface text-text-muted hover:bg-realm-command-panel-hover'
+                              }`}
+                            >
+                              <Icon name="link" className="w-4 h-4" />
+                              {isLinking ? 'Done Linking' : 'Link Hexes'}
+                            </button>
+                            {isLinking && (
+                              <p className="mt-1 text-xs text-text-subtle text-center">
+                                Click hexes on the map to link or unlink them.
+                              </p>
+                            )}
+                          </div>
                           <div className="flex gap-2">
                             <button
                               onClick={() => onToggleRelocateMyth(myth.id)}
@@ -0,0 +1,163 @@
+/**
+ * @file PartySidebar.tsx
+ * This component renders the sidebar for the Party tool. It shows where the Knights'
+ * party is, keeps the day counter of the journey, and lists the travel log day by day.
+ */
+
+import React, { useMemo } from 'react';
+import type { Realm, TileSet, TravelLogEntry } from '@/features/realm/types';
+import { getPartyPosition } from '@/features/realm/utils/partyUtils';
+import { Icon } from '../Icon';
+
+/**
+ * Props for the PartySidebar component.
+ */
+interface PartySidebarProps {
+  realm: Realm;
+  tileSets: TileSet;
+  /** Callback to change the current day of the journey. */
+  onSetDay: (day: number) => void;
+  /** Callback to take back the party's most recent move. */
+  onRemoveLastMove: () => void;
+  /** Callback function to request clearing the travel log. */
+  onClearLog: () => void;
+  onClose: () => void;
+}
+
+/**
+ * The sidebar component for tracking the party and its travel log.
+ */
+export function PartySidebar({
+  realm,
+  tileSets,
+  onSetDay,
+  onRemoveLastMove,
+  onClearLog,
+  onClose,
+}: PartySidebarProps) {
+  const { party } = realm;
+  const position = getPartyPosition(party);
+  // The day cannot go back past a day on which the party has already moved.
+  const earliestDay = Math.max(1, position?.day ?? 1);
+
+  const terrainLabels = useMemo(
+    () => new Map(tileSets.terrain.map((tile) => [tile.id, tile.label])),
+    [tileSets.terrain]
+  );
+  const hexTerrain = useMemo(
+    () => new Map(realm.hexes.map((hex) => [`${hex.q},${hex.r}`, hex.terrain])),
+    [realm.hexes]
+  );
+
+  const days = useMemo(() => {
+    const byDay = new Map<number, TravelLogEntry[]>();
+    party.log.forEach((entry) => byDay.set(entry.day, [...(byDay.get(entry.day) ?? []), entry]));
+    return [...byDay.entries()].sort(([a], [b]) => b - a);
+  }, [party.log]);
+
+  const describeHex = (entry: TravelLogEntry) => {
+    const terrain = hexTerrain.get(`${entry.q},${entry.r}`);
+    const label = terrain ? (terrainLabels.get(terrain) ?? terrain) : 'Unknown';
+    return `${label} (${entry.q}, ${entry.r})`;
+  };
+
+  return (
+    <aside className="w-80 bg-realm-canvas-backdrop border-l border-border-panel-divider p-4 flex flex-col">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold">Party Tool</h2>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-full hover:bg-realm-command-panel-hover"
+          aria-label="Close Party Tool"
+        >
+          <Icon name="close" className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="flex-grow overflow-y-auto pr-2 space-y-4">
+        <p className="text-sm text-text-muted">
+          {position
+            ? 'Click a hex on the map to move the party there. Each move is logged on the current day.'
+            : 'Click a hex on the map to place the party.'}
+        </p>
+
+        <div className="bg-realm-map-viewport rounded-md p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-xs text-text-muted">Current Position</p>
+              <p className="font-semibold text-text-high-contrast">
+                {position ? describeHex(position) : 'Not placed'}
+              </p>
+            </div>
+            <Icon name="shield" className="w-6 h-6 text-text-muted" />
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="text-lg font-bold text-text-accent-headline">Day {party.day}</p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onSetDay(party.day - 1)}
+                disabled={party.day <= earliestDay}
+                className="p-2 rounded-md bg-realm-command-panel-surface text-text-muted hover:bg-realm-command-panel-hover disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-label="Previous day"
+              >
+                <Icon name="minus" className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onSetDay(party.day + 1)}
+                className="flex items-center gap-2 px-3 py-2 rounded-md bg-realm-command-panel-surface text-sm font-medium text-text-muted hover:bg-realm-command-panel-hover"
+              >
+                <Icon name="plus" className="w-4 h-4" />
+                Next Day
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold mb-2">Travel Log</h3>
+          {days.length > 0 ? (
+            <ul className="space-y-2">
+              {days.map(([day, entries]) => (
+                <li key={day} className="bg-realm-map-viewport rounded-md p-3">
+                  <p className="font-semibold text-text-accent-headline mb-1">Day {day}</p>
+                  <ol className="space-y-1">
+                    {entries.map((entry, index) => (
+                      <li
+                        key={`${entry.q},${entry.r}-${index}`}
+                        className={`text-sm ${
+                          entry === position ? 'text-text-high-contrast' : 'text-text-muted'
+                        }`}
+                      >
+                        {describeHex(entry)}
+                      </li>
+                    ))}
+                  </ol>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-text-muted text-center py-4">The party has not travelled yet.</p>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={onRemoveLastMove}
+            disabled={!position}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-text-muted bg-realm-command-panel-surface rounded-md hover:bg-realm-command-panel-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Icon name="undo" className="w-4 h-4" />
+            Undo Move
+          </button>
+          <button
+            onClick={onClearLog}
+            disabled={!position}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-text-muted bg-actions-danger-base/50 rounded-md hover:bg-actions-danger-base/80 border border-actions-danger-base transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Icon name="trash-2" className="w-4 h-4" />
+            Clear Log
+          </button>
+        </div>
+      </div>
+    </aside>
+  );
+}
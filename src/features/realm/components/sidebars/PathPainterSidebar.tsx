@@ -0,0 +1,133 @@
+/**
+ * @file PathPainterSidebar.tsx
+ * This component renders the sidebar for the Path Painter tool.
+ * It lets the user choose which kind of path to draw (or the eraser), whether new paths
+ * follow hex centres or hex edges, and provides an action to remove all paths.
+ */
+
+import React from 'react';
+import { Icon } from '../Icon';
+import { PATH_STYLES, PATH_TYPES } from '@/features/realm/config/constants';
+import type { PathBrush, PathSnap } from '@/features/realm/types';
+
+/**
+ * Props for the PathPainterSidebar component.
+ */
+interface PathPainterSidebarProps {
+  /** The currently selected path type, or the eraser. */
+  paintPath: PathBrush;
+  /** Callback to set the path type to draw. */
+  setPaintPath: (brush: PathBrush) => void;
+  /** Whether new paths run through hex centres or along hex edges. */
+  pathSnap: PathSnap;
+  /** Callback to change how new paths snap to the grid. */
+  setPathSnap: (snap: PathSnap) => void;
+  /** Callback function to request the removal of all paths. */
+  onRemoveAllPaths: () => void;
+  /** Callback function to close the sidebar. */
+  onClose: () => void;
+}
+
+const SNAP_OPTIONS: { id: PathSnap; label: string }[] = [
+  { id: 'center', label: 'Hex Centres' },
+  { id: 'edge', label: 'Hex Edges' },
+];
+
+/**
+ * The sidebar component for the path painting tool.
+ */
+export function PathPainterSidebar({
+  paintPath,
+  setPaintPath,
+  pathSnap,
+  setPathSnap,
+  onRemoveAllPaths,
+  onClose,
+}: PathPainterSidebarProps) {
+  const brushButtonClass = (isSelected: boolean) =>
+    `w-full flex items-center gap-3 p-2 rounded-lg border-2 transition-all duration-150 text-sm font-medium ${
+      isSelected
+        ? 'bg-actions-command-primary/20 border-actions-command-primary text-text-high-contrast'
+        : 'bg-realm-map-viewport border-border-panel-divider hover:border-text-muted text-text-muted'
+    }`;
+
+  return (
+    <aside className="w-80 bg-realm-canvas-backdrop border-l border-border-panel-divider p-4 flex flex-col">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold">Path Painter</h2>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-full hover:bg-realm-command-panel-hover"
+          aria-label="Close Path Painter"
+        >
+          <Icon name="close" className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="flex-grow overflow-y-auto pr-2 space-y-6">
+        <p className="text-sm text-text-muted">
+          Click and drag across the map to draw a path. Use the eraser to cut paths where you drag.
+        </p>
+
+        <div className="space-y-2">
+          {PATH_TYPES.map((type) => {
+            const style = PATH_STYLES[type];
+            return (
+              <button
+                key={type}
+                onClick={() => setPaintPath(type)}
+                className={brushButtonClass(paintPath === type)}
+                aria-label={`Draw ${style.label.toLowerCase()}s`}
+              >
+                <svg className="w-12 h-6 flex-shrink-0" viewBox="0 0 48 24" aria-hidden="true">
+                  <path
+                    d="M 4 16 Q 16 4 24 12 T 44 8"
+                    fill="none"
+                    stroke={style.color}
+                    strokeWidth={style.width / 2}
+                    strokeDasharray={style.dash}
+                    strokeLinecap="round"
+                  />
+                </svg>
+                {style.label}
+              </button>
+            );
+          })}
+          <button
+            onClick={() => setPaintPath('eraser')}
+            className={brushButtonClass(paintPath === 'eraser')}
+            aria-label="Erase paths"
+          >
+            <span className="w-12 flex justify-center flex-shrink-0">
+              <Icon name="eraser" className="w-5 h-5" />
+            </span>
+            Eraser
+          </button>
+        </div>
+
+        <div className="pt-4 border-t border-border-panel-divider">
+          <h3 className="text-lg font-bold mb-2">Follow</h3>
+          <div className="grid grid-cols-2 gap-2">
+            {SNAP_OPTIONS.map((option) => (
+              <button
+                key={option.id}
+                onClick={() => setPathSnap(option.id)}
+                disabled={paintPath === 'eraser'}
+                className={`${brushButtonClass(pathSnap === option.id)} justify-center disabled:opacity-50 disabled:cursor-not-allowed`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <button
+          onClick={onRemoveAllPaths}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-text-muted bg-actions-danger-base/50 rounded-md hover:bg-actions-danger-base/80 border border-actions-danger-base transition-colors"
+        >
+          <Icon name="trash-2" className="w-4 h-4" />
+          Remove All Paths
+        </button>
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * @file PoiDetailsEditor.tsx
+ * This component renders the form for the record of a placed holding or landmark: its name,
+ * ruler or occupant, population, description and the Referee's secrets. It is shared by the
+ * selection sidebar and the POI painter sidebar.
+ */
+
+import React from 'react';
+import type { NameTables, PoiDetails, PopulationTier } from '@/features/realm/types';
+import { POPULATION_TIERS } from '@/features/realm/config/constants';
+import { rollName } from '@/features/realm/services/nameGenerator';
+import { Icon } from '../Icon';
+
+const INPUT_CLASS =
+  'w-full p-2 text-sm bg-realm-command-panel-surface border border-border-panel-divider rounded-md focus:outline-none focus:ring-2 focus:ring-actions-command-primary';
+
+/**
+ * Props for the PoiDetailsEditor component.
+ */
+interface PoiDetailsEditorProps {
+  /** Whether the record is of a holding or a landmark, which decides the field labels. */
+  kind: 'holding' | 'landmark';
+  details: PoiDetails | undefined;
+  /** Callback with the updated record. Blank fields are removed by the caller. */
+  onChange: (details: PoiDetails) => void;
+  /** A prefix for the ids of the form fields, unique on the page. */
+  idPrefix: string;
+  /** The imported name tables, used when rolling a name. */
+  nameTables: Partial<NameTables>;
+}
+
+/**
+ * The form for editing the record of a holding or landmark.
+ */
+export function PoiDetailsEditor({
+  kind,
+  details = {},
+  onChange,
+  idPrefix,
+  nameTables,
+}: PoiDetailsEditorProps) {
+  const handleChange = <K extends keyof PoiDetails>(key: K, value: PoiDetails[K]) => {
+    onChange({ ...details, [key]: value });
+  };
+
+  return (
+    <div className="space-y-2 p-3 bg-realm-map-viewport rounded-md">
+      <div>
+        <label
+          htmlFor={`${idPrefix}-name`}
+          className="block text-xs font-medium text-text-muted mb-1"
+        >
+          Name
+        </label>
+        <div className="flex gap-2">
+          <input
+            id={`${idPrefix}-name`}
+            type="text"
+            value={details.name ?? ''}
+            placeholder={kind === 'holding' ? 'e.g. Blackwater Keep' : 'e.g. The Weeping Stone'}
+            onChange={(e) => handleChange('name', e.target.value)}
+            className={INPUT_CLASS}
+          />
+          <button
+            type="button"
+            onClick={() => handleChange('name', rollName(nameTables, kind))}
+            className="p-2 rounded-md text-text-muted bg-realm-command-panel-surface border border-border-panel-divider hover:bg-realm-command-panel-hover"
+            title="Roll a name"
+            aria-label="Roll a name"
+          >
+            <Icon name="dices" className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <div>
+        <label
+          htmlFor={`${idPrefix}-occupant`}
+          className="block text-xs font-medium text-text-muted mb-1"
+        >
+          {kind === 'holding' ? 'Ruler' : 'Occupant'}
+        </label>
+        <input
+          id={`${idPrefix}-occupant`}
+          type="text"
+          value={details.occupant ?? ''}
+          onChange={(e) => handleChange('occupant', e.target.value)}
+          className={INPUT_CLASS}
+        />
+      </div>
+      <div>
+        <label
+          htmlFor={`${idPrefix}-population`}
+          className="block text-xs font-medium text-text-muted mb-1"
+        >
+          Population
+        </label>
+        <select
+          id={`${idPrefix}-population`}
+          value={details.population ?? ''}
+          onChange={(e) => handleChange('population', e.target.value as PopulationTier)}
+          className={INPUT_CLASS}
+        >
+          <option value="">Unknown</option>
+          {POPULATION_TIERS.map((tier) => (
+            <option key={tier.id} value={tier.id}>
+              {tier.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label
+          htmlFor={`${idPrefix}-description`}
+          className="block text-xs font-medium text-text-muted mb-1"
+        >
+          Description
+        </label>
+        <textarea
+          id={`${idPrefix}-description`}
+          value={details.description ?? ''}
+          rows={3}
+          onChange={(e) => handleChange('description', e.target.value)}
+          className={INPUT_CLASS}
+        />
+      </div>
+      <div>
+        <label
+          htmlFor={`${idPrefix}-secrets`}
+          className="flex items-center gap-1 text-xs font-medium text-text-muted mb-1"
+        >
+          <Icon name="eye-off" className="w-3 h-3" />
+          Secrets (Referee only)
+        </label>
+        <textarea
+          id={`${idPrefix}-secrets`}
+          value={details.secrets ?? ''}
+          rows={3}
+          onChange={(e) => handleChange('secrets', e.target.value)}
+          className={INPUT_CLASS}
+        />
+      </div>
+    </div>
+  );
+}
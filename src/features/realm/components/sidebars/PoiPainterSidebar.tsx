@@ -1,16 +1,19 @@
 ﻿/**
  * @file PoiPainterSidebar.tsx
  * This component renders the sidebar for the "Points of Interest" painter tool.
- * It allows the user to select a holding, landmark, or action to apply to hexes on the map.
+ * It allows the user to select a holding, landmark, or action to apply to hexes on the map,
+ * and lists the holdings and landmarks already placed so their records can be edited.
  */
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Icon } from '../Icon';
 import {
   DEFAULT_TILE_SETS as TILE_SETS,
   SPECIAL_POI_ICONS,
 } from '@/features/realm/config/constants';
-import type { Tile } from '@/features/realm/types';
+import type { Hex, NameTables, Tile } from '@/features/realm/types';
+import { withPoiDetails } from '@/features/realm/utils/hexDetailsUtils';
+import { PoiDetailsEditor } from './PoiDetailsEditor';
 
 /**
  * Props for the PoiPainterSidebar component.
@@ -26,6 +29,12 @@ interface PoiPainterSidebarProps {
   onStartPicking: () => void;
   /** Whether the tile picking mode is currently active. */
   isPickingTile: boolean;
+  /** The hexes of the realm, used to list the placed holdings and landmarks. */
+  hexes: Hex[];
+  /** Callback to save a hex whose holding or landmark record was edited. */
+  onUpdateHex: (hex: Hex) => void;
+  /** The imported name tables, used when rolling names. */
+  nameTables: Partial<NameTables>;
 }
 
 interface PoiButtonProps {
@@ -103,7 +112,21 @@ export function PoiPainterSidebar({
   onClose,
   onStartPicking,
   isPickingTile,
+  hexes,
+  onUpdateHex,
+  nameTables,
 }: PoiPainterSidebarProps) {
+  const [expandedHexKey, setExpandedHexKey] = useState<string | null>(null);
+  const placedHexes = hexes.filter((hex) => hex.holding || hex.landmark);
+
+  const describePlace = (hex: Hex) => {
+    const tiles = hex.holding ? TILE_SETS.holding : TILE_SETS.landmark;
+    const id = hex.holding ?? hex.landmark;
+    const tile = tiles.find((t) => t.id === id);
+    const name = hex.holdingDetails?.name ?? hex.landmarkDetails?.name;
+    return { icon: tile?.icon ?? 'map-pin-pen', label: tile?.label ?? id ?? '', name };
+  };
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'i') {
@@ -169,6 +192,71 @@ export function PoiPainterSidebar({
           paintPoi={paintPoi}
           setPaintPoi={setPaintPoi}
         />
+        <div>
+          <h3 className="text-lg font-semibold mb-2 text-text-muted">Placed</h3>
+          {placedHexes.length > 0 ? (
+            <ul className="space-y-2">
+              {placedHexes.map((hex) => {
+                const key = `${hex.q},${hex.r}`;
+                const isExpanded = expandedHexKey === key;
+                const { icon, label, name } = describePlace(hex);
+                return (
+                  <li key={key} className="bg-realm-map-viewport rounded-md overflow-hidden">
+                    <button
+                      onClick={() => setExpandedHexKey(isExpanded ? null : key)}
+                      className="w-full text-left p-3 hover:bg-realm-command-panel-hover transition-colors flex items-center gap-3"
+                      aria-expanded={isExpanded}
+                    >
+                      <Icon name={icon} className="w-5 h-5 text-text-muted flex-shrink-0" />
+                      <div className="flex-grow min-w-0">
+                        <p className="font-semibold text-text-high-contrast truncate">
+                          {name ?? label}
+                        </p>
+                        <p className="text-xs text-text-muted">
+                          {name ? `${label} · ` : ''}Location: ({hex.q}, {hex.r})
+                        </p>
+                      </div>
+                      <Icon
+                        name={isExpanded ? 'chevron-up' : 'chevron-down'}
+                        className="w-5 h-5 text-text-muted flex-shrink-0"
+                      />
+                    </button>
+                    {isExpanded && (
+                      <div className="p-3 pt-0 space-y-2">
+                        {hex.holding && (
+                          <PoiDetailsEditor
+                            kind="holding"
+                            details={hex.holdingDetails}
+                            onChange={(details) =>
+                              onUpdateHex(withPoiDetails(hex, 'holdingDetails', details))
+                            }
+                            idPrefix={`poi-holding-${hex.q}-${hex.r}`}
+                            nameTables={nameTables}
+                          />
+                        )}
+                        {hex.landmark && (
+                          <PoiDetailsEditor
+                            kind="landmark"
+                            details={hex.landmarkDetails}
+                            onChange={(details) =>
+                              onUpdateHex(withPoiDetails(hex, 'landmarkDetails', details))
+                            }
+                            idPrefix={`poi-landmark-${hex.q}-${hex.r}`}
+                            nameTables={nameTables}
+                          />
+                        )}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-text-muted text-center py-4">
+              No holdings or landmarks have been placed.
+            </p>
+          )}
+        </div>
       </div>
     </aside>
   );
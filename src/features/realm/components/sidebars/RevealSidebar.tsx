@@ -0,0 +1,156 @@
+/**
+ * @file RevealSidebar.tsx
+ * This component renders the sidebar for the Reveal tool, used to track which hexes the
+ * Knights have explored. It lets the user choose between revealing and concealing hexes,
+ * set the radius revealed around each clicked hex, switch the fog of war on or off, and
+ * reveal or conceal the whole realm at once.
+ */
+
+import React from 'react';
+import { Icon } from '../Icon';
+import { MAX_REVEAL_RADIUS } from '@/features/realm/config/constants';
+import type { RevealBrush } from '@/features/realm/types';
+
+/**
+ * Props for the RevealSidebar component.
+ */
+interface RevealSidebarProps {
+  /** Whether the tool reveals or conceals hexes. */
+  revealBrush: RevealBrush;
+  /** Callback to switch between revealing and concealing. */
+  setRevealBrush: (brush: RevealBrush) => void;
+  /** The number of hexes around each clicked hex that are revealed or concealed with it. */
+  revealRadius: number;
+  /** Callback to change the reveal radius. */
+  setRevealRadius: (radius: number) => void;
+  /** Whether unrevealed hexes are hidden under fog in the Knight view. */
+  isFogOfWarEnabled: boolean;
+  /** Callback to switch the fog of war on or off. */
+  onToggleFogOfWar: (enabled: boolean) => void;
+  /** The number of hexes revealed so far. */
+  revealedCount: number;
+  /** The total number of hexes in the realm. */
+  totalCount: number;
+  /** Callback function to reveal every hex. */
+  onRevealAll: () => void;
+  /** Callback function to request concealing every hex. */
+  onConcealAll: () => void;
+  /** Callback function to close the sidebar. */
+  onClose: () => void;
+}
+
+const BRUSH_OPTIONS: { id: RevealBrush; icon: string; label: string }[] = [
+  { id: 'reveal', icon: 'eye', label: 'Reveal' },
+  { id: 'conceal', icon: 'eye-off', label: 'Conceal' },
+];
+
+/**
+ * The sidebar component for the fog of war reveal tool.
+ */
+export function RevealSidebar({
+  revealBrush,
+  setRevealBrush,
+  revealRadius,
+  setRevealRadius,
+  isFogOfWarEnabled,
+  onToggleFogOfWar,
+  revealedCount,
+  totalCount,
+  onRevealAll,
+  onConcealAll,
+  onClose,
+}: RevealSidebarProps) {
+  const brushButtonClass = (isSelected: boolean) =>
+    `w-full flex items-center justify-center gap-2 p-2 rounded-lg border-2 transition-all duration-150 text-sm font-medium ${
+      isSelected
+        ? 'bg-actions-command-primary/20 border-actions-command-primary text-text-high-contrast'
+        : 'bg-realm-map-viewport border-border-panel-divider hover:border-text-muted text-text-muted'
+    }`;
+
+  return (
+    <aside className="w-80 bg-realm-canvas-backdrop border-l border-border-panel-divider p-4 flex flex-col">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold">Fog of War</h2>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-full hover:bg-realm-command-panel-hover"
+          aria-label="Close Fog of War"
+        >
+          <Icon name="close" className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="flex-grow overflow-y-auto pr-2 space-y-6">
+        <p className="text-sm text-text-muted">
+          Click or drag across the map to reveal the hexes the Knights have explored. In the Referee
+          view, the fog is shown faintly while this tool is active.
+        </p>
+
+        <label className="flex items-center gap-3 text-sm text-text-high-contrast cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isFogOfWarEnabled}
+            onChange={(event) => onToggleFogOfWar(event.target.checked)}
+            className="h-4 w-4 rounded border-border-panel-divider bg-realm-command-panel-surface text-actions-command-primary focus:ring-actions-command-primary"
+          />
+          <span>Hide unrevealed hexes in Knight view</span>
+        </label>
+
+        <div className="grid grid-cols-2 gap-2">
+          {BRUSH_OPTIONS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => setRevealBrush(option.id)}
+              className={brushButtonClass(revealBrush === option.id)}
+            >
+              <Icon name={option.icon} className="w-4 h-4" />
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label htmlFor="reveal-radius" className="text-sm font-medium text-text-muted">
+              Radius
+            </label>
+            <span className="text-sm font-mono text-text-high-contrast">
+              {revealRadius === 0
+                ? 'Single hex'
+                : `${revealRadius} hex${revealRadius > 1 ? 'es' : ''}`}
+            </span>
+          </div>
+          <input
+            id="reveal-radius"
+            type="range"
+            min={0}
+            max={MAX_REVEAL_RADIUS}
+            step={1}
+            value={revealRadius}
+            onChange={(event) => setRevealRadius(Number(event.target.value))}
+            className="w-full"
+          />
+        </div>
+
+        <div className="pt-4 border-t border-border-panel-divider space-y-2">
+          <p className="text-sm text-text-muted">
+            {revealedCount} of {totalCount} hexes revealed.
+          </p>
+          <button
+            onClick={onRevealAll}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-text-muted bg-realm-command-panel-surface rounded-md hover:bg-realm-command-panel-hover border border-border-panel-divider transition-colors"
+          >
+            <Icon name="eye" className="w-4 h-4" />
+            Reveal Entire Realm
+          </button>
+          <button
+            onClick={onConcealAll}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-text-muted bg-actions-danger-base/50 rounded-md hover:bg-actions-danger-base/80 border border-actions-danger-base transition-colors"
+          >
+            <Icon name="fog" className="w-4 h-4" />
+            Conceal Entire Realm
+          </button>
+        </div>
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * @file SelectByAttribute.tsx
+ * This component renders the controls for selecting every hex with an attribute, such as all
+ * marsh hexes, all castles or all hexes tagged #ford. It is shown in the Select tool's sidebars.
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { Hex, TileSet } from '@/features/realm/types';
+import { hexKey } from '@/features/realm/utils/hexIndex';
+import { ANY_ATTRIBUTE_VALUE, findHexesByAttribute } from '@/features/realm/utils/selectionUtils';
+import type { SelectionAttribute } from '@/features/realm/utils/selectionUtils';
+
+/**
+ * Props for the SelectByAttribute component.
+ */
+interface SelectByAttributeProps {
+  /** The hexes of the realm. */
+  hexes: Hex[];
+  tileSets: TileSet;
+  /** The keys of the selected hexes, which matches can be added to. Without it, matches only
+   *  replace the selection. */
+  selectedHexKeys?: ReadonlySet<string> | undefined;
+  /** Callback to replace the selection. */
+  onSelectHexes: (keys: ReadonlySet<string>) => void;
+}
+
+const ATTRIBUTE_OPTIONS: { id: SelectionAttribute; label: string }[] = [
+  { id: 'terrain', label: 'Terrain' },
+  { id: 'holding', label: 'Holding' },
+  { id: 'landmark', label: 'Landmark' },
+  { id: 'tag', label: 'Tag' },
+];
+
+const SELECT_CLASS =
+  'w-full p-2 bg-realm-command-panel-surface border border-border-panel-divider rounded-md focus:outline-none focus:ring-2 focus:ring-actions-command-primary';
+const BUTTON_CLASS =
+  'flex-1 px-3 py-2 text-sm font-medium text-text-muted bg-realm-command-panel-surface rounded-md hover:bg-realm-command-panel-hover border border-border-panel-divider transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+/**
+ * A component that selects the hexes with a chosen attribute.
+ */
+export function SelectByAttribute({
+  hexes,
+  tileSets,
+  selectedHexKeys,
+  onSelectHexes,
+}: SelectByAttributeProps) {
+  const [attribute, setAttribute] = useState<SelectionAttribute>('terrain');
+  const [value, setValue] = useState<string>('');
+
+  const valueOptions = useMemo(() => {
+    switch (attribute) {
+      case 'terrain':
+        return tileSets.terrain.map(({ id, label }) => ({ id, label }));
+      case 'holding':
+      case 'landmark':
+        return [
+          { id: ANY_ATTRIBUTE_VALUE, label: `Any ${attribute}` },
+          ...tileSets[attribute].map(({ id, label }) => ({ id, label })),
+        ];
+      case 'tag':
+        return [...new Set(hexes.flatMap((hex) => hex.tags ?? []))]
+          .sort()
+          .map((tag) => ({ id: tag, label: `#${tag}` }));
+    }
+  }, [attribute, tileSets, hexes]);
+
+  // The chosen value, or the first one offered until a value is chosen for this attribute.
+  const chosenValue = valueOptions.some((option) => option.id === value)
+    ? value
+    : (valueOptions[0]?.id ?? '');
+  const matches = useMemo(
+    () =>
+      chosenValue === ''
+        ? []
+        : findHexesByAttribute(hexes, attribute, chosenValue).map((hex) => hexKey(hex.q, hex.r)),
+    [hexes, attribute, chosenValue]
+  );
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-text-muted">Select by attribute</label>
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={attribute}
+          onChange={(e) => setAttribute(e.target.value as SelectionAttribute)}
+          className={SELECT_CLASS}
+          aria-label="Attribute"
+        >
+          {ATTRIBUTE_OPTIONS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={chosenValue}
+          onChange={(e) => setValue(e.target.value)}
+          className={SELECT_CLASS}
+          aria-label="Value"
+          disabled={valueOptions.length === 0}
+        >
+          {valueOptions.length === 0 && <option value="">No tags</option>}
+          {valueOptions.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onSelectHexes(new Set(matches))}
+          disabled={matches.length === 0}
+          className={BUTTON_CLASS}
+        >
+          Select {matches.length}
+        </button>
+        {selectedHexKeys && (
+          <button
+            onClick={() => onSelectHexes(new Set([...selectedHexKeys, ...matches]))}
+            disabled={matches.length === 0}
+            className={BUTTON_CLASS}
+          >
+            Add to Selection
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,23 @@
 ﻿/**
  * @file SelectionSidebar.tsx
  * This component displays the details of a selected hex and allows for editing its properties,
- * such as terrain, holding, landmark, myths, and barriers. It appears when the 'select'
- * tool is active and a hex has been clicked.
+ * such as terrain, holding, landmark, myths, barriers, and the Referee's name, notes and tags.
+ * Placed holdings and landmarks each get a record of their own.
+ * It appears when the 'select' tool is active. Until a hex has been clicked, it offers a search
+ * through the names, notes and tags of all hexes.
  */
 
-import React from 'react';
-import type { Hex, Realm, TileSet } from '@/features/realm/types';
+import React, { useState } from 'react';
+import type { Hex, NameTables, Realm, TileSet } from '@/features/realm/types';
 import { BARRIER_COLOR, HEX_SELECTED_COLOR } from '@/features/realm/config/constants';
 import { Icon } from '../Icon';
 import { getHexCorners, getBarrierPath, getNeighbors } from '@/features/realm/utils/hexUtils';
+import { findHex } from '@/features/realm/utils/hexIndex';
+import { parseTags, searchHexes, withPoiDetails } from '@/features/realm/utils/hexDetailsUtils';
+import { MarkdownText } from '../ui/MarkdownText';
+import { rollName } from '@/features/realm/services/nameGenerator';
+import { PoiDetailsEditor } from './PoiDetailsEditor';
+import { SelectByAttribute } from './SelectByAttribute';
 
 const hexToRgbaWithAlpha = (hex: string, alphaMultiplier = 1): string => {
   if (!hex.startsWith('#')) {
@@ -47,10 +55,15 @@ interface SelectionSidebarProps {
   realm: Realm | null;
   onUpdateHex: (hex: Hex | Hex[]) => void;
   onDeselect: () => void;
+  onSelectHex: (hex: Hex) => void;
+  /** Callback to select several hexes, e.g. all hexes with an attribute. */
+  onSelectHexes: (keys: ReadonlySet<string>) => void;
   onSetSeatOfPower: (hex: Hex) => void;
   onAddMyth: (hex: Hex, andSelect?: boolean) => void;
   onRemoveMyth: (hex: Hex) => void;
   tileSets: TileSet;
+  /** The imported name tables, used when rolling names. */
+  nameTables: Partial<NameTables>;
 }
 
 /**
@@ -87,17 +100,79 @@ export function SelectionSidebar({
   realm,
   onUpdateHex,
   onDeselect,
+  onSelectHex,
+  onSelectHexes,
   onSetSeatOfPower,
   onAddMyth,
   onRemoveMyth,
   tileSets,
+  nameTables,
 }: SelectionSidebarProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isPreviewingNotes, setIsPreviewingNotes] = useState(false);
+  const [tagInput, setTagInput] = useState('');
+
   if (!selectedHex) {
+    const results = realm ? searchHexes(realm.hexes, searchQuery) : [];
     return (
-      <aside className="w-80 bg-realm-canvas-backdrop border-l border-border-panel-divider p-4 flex flex-col items-center justify-center text-center">
-        <Icon name="mouse-pointer-2" className="w-16 h-16 text-realm-command-panel-hover mb-4" />
-        <h2 className="text-xl font-bold">Select a Hex</h2>
-        <p className="text-text-muted">Click on any hex on the map to view and edit its details.</p>
+      <aside className="w-80 bg-realm-canvas-backdrop border-l border-border-panel-divider p-4 flex flex-col">
+        <div className="flex flex-col items-center text-center mt-8 mb-6">
+          <Icon name="mouse-pointer-2" className="w-16 h-16 text-realm-command-panel-hover mb-4" />
+          <h2 className="text-xl font-bold">Select a Hex</h2>
+          <p className="text-text-muted">
+            Click on any hex on the map to view and edit its details. Shift+Drag across the map,
+            Alt+Drag a lasso, or Shift+Click, to select several hexes and edit them together.
+          </p>
+        </div>
+        <label htmlFor="hex-search" className="block text-sm font-medium text-text-muted mb-1">
+          Search names, notes and tags
+        </label>
+        <input
+          id="hex-search"
+          type="search"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="e.g. Greywater or #ford"
+          className="w-full p-2 mb-3 bg-realm-command-panel-surface border border-border-panel-divider rounded-md focus:outline-none focus:ring-2 focus:ring-actions-command-primary"
+        />
+        <div className="flex-grow overflow-y-auto">
+          {searchQuery.trim() !== '' && results.length === 0 && (
+            <p className="text-text-muted text-center py-4">No hexes match your search.</p>
+          )}
+          <ul className="space-y-2">
+            {results.map((hex) => (
+              <li key={`${hex.q},${hex.r}`}>
+                <button
+                  onClick={() => onSelectHex(hex)}
+                  className="w-full text-left p-3 bg-realm-map-viewport rounded-md hover:bg-realm-command-panel-hover transition-colors"
+                >
+                  <p className="font-semibold text-text-high-contrast">
+                    {hex.name || `Hex (${hex.q}, ${hex.r})`}
+                  </p>
+                  {hex.name && (
+                    <p className="text-xs text-text-muted">
+                      Location: ({hex.q}, {hex.r})
+                    </p>
+                  )}
+                  {hex.tags && hex.tags.length > 0 && (
+                    <p className="text-xs text-text-muted mt-1">
+                      {hex.tags.map((tag) => `#${tag}`).join(' ')}
+                    </p>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+          {realm && (
+            <div className="mt-6 pt-4 border-t border-border-panel-divider">
+              <SelectByAttribute
+                hexes={realm.hexes}
+                tileSets={tileSets}
+                onSelectHexes={onSelectHexes}
+              />
+            </div>
+          )}
+        </div>
       </aside>
     );
   }
@@ -108,6 +183,50 @@ export function SelectionSidebar({
     onUpdateHex({ ...selectedHex, [key]: value });
   };
 
+  /**
+   * Updates the name or notes of the hex. Blank text removes the field.
+   */
+  const handleTextDetailChange = (key: 'name' | 'notes', value: string) => {
+    const updatedHex: Hex = { ...selectedHex };
+    if (value.trim() === '') {
+      delete updatedHex[key];
+    } else {
+      updatedHex[key] = value;
+    }
+    onUpdateHex(updatedHex);
+  };
+
+  /**
+   * Places or clears the holding or landmark. Clearing it also discards its record.
+   */
+  const handlePoiChange = (key: 'holding' | 'landmark', value: string) => {
+    const updatedHex: Hex = { ...selectedHex };
+    if (value === '') {
+      delete updatedHex[key];
+      delete updatedHex[key === 'holding' ? 'holdingDetails' : 'landmarkDetails'];
+    } else {
+      updatedHex[key] = value;
+    }
+    onUpdateHex(updatedHex);
+  };
+
+  const handleTagsChange = (tags: string[]) => {
+    const updatedHex: Hex = { ...selectedHex };
+    if (tags.length === 0) {
+      delete updatedHex.tags;
+    } else {
+      updatedHex.tags = tags;
+    }
+    onUpdateHex(updatedHex);
+  };
+
+  const handleAddTags = () => {
+    const newTags = parseTags(tagInput);
+    setTagInput('');
+    if (newTags.length === 0) return;
+    handleTagsChange([...new Set([...(selectedHex.tags ?? []), ...newTags])]);
+  };
+
   const handleBarrierToggle = (edge: number) => {
     if (!selectedHex || !realm) return;
 
@@ -125,9 +244,7 @@ export function SelectionSidebar({
       return;
     }
 
-    const neighborHex = realm.hexes.find(
-      (h) => h.q === neighborCoords.q && h.r === neighborCoords.r
-    );
+    const neighborHex = findHex(realm.hexes, neighborCoords.q, neighborCoords.r);
 
     if (neighborHex) {
       const oppositeEdge = (edge + 3) % 6;
@@ -170,6 +287,31 @@ export function SelectionSidebar({
         </button>
       </div>
       <div className="flex-grow overflow-y-auto">
+        <div className="mb-4">
+          <label htmlFor="hex-name" className="block text-sm font-medium text-text-muted mb-1">
+            Name
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="hex-name"
+              type="text"
+              value={selectedHex.name ?? ''}
+              placeholder="e.g. Greywater Ford"
+              onChange={(e) => handleTextDetailChange('name', e.target.value)}
+              className="w-full p-2 bg-realm-command-panel-surface border border-border-panel-divider rounded-md focus:outline-none focus:ring-2 focus:ring-actions-command-primary"
+            />
+            <button
+              type="button"
+              onClick={() => handleTextDetailChange('name', rollName(nameTables, 'region'))}
+              className="p-2 rounded-md text-text-muted bg-realm-command-panel-surface border border-border-panel-divider hover:bg-realm-command-panel-hover"
+              title="Roll a region name"
+              aria-label="Roll a region name"
+            >
+              <Icon name="dices" className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
         {renderSelect('Terrain', selectedHex.terrain, tileSets.terrain, (e) =>
           handleChange('terrain', e.target.value)
         )}
@@ -178,7 +320,7 @@ export function SelectionSidebar({
           <label className="block text-sm font-medium text-text-muted mb-1">Holding</label>
           <select
             value={selectedHex.holding || ''}
-            onChange={(e) => handleChange('holding', e.target.value)}
+            onChange={(e) => handlePoiChange('holding', e.target.value)}
             className="w-full p-2 bg-realm-command-panel-surface border border-border-panel-divider rounded-md focus:outline-none focus:ring-2 focus:ring-actions-command-primary"
           >
             <option value="">None</option>
@@ -206,6 +348,17 @@ export function SelectionSidebar({
                 Make Seat of Power
               </button>
             )}
+            <div className="mt-2">
+              <PoiDetailsEditor
+                kind="holding"
+                details={selectedHex.holdingDetails}
+                onChange={(details) =>
+                  onUpdateHex(withPoiDetails(selectedHex, 'holdingDetails', details))
+                }
+                idPrefix="hex-holding"
+                nameTables={nameTables}
+              />
+            </div>
           </div>
         )}
 
@@ -213,7 +366,7 @@ export function SelectionSidebar({
           <label className="block text-sm font-medium text-text-muted mb-1">Landmark</label>
           <select
             value={selectedHex.landmark || ''}
-            onChange={(e) => handleChange('landmark', e.target.value)}
+            onChange={(e) => handlePoiChange('landmark', e.target.value)}
             className="w-full p-2 bg-realm-command-panel-surface border border-border-panel-divider rounded-md focus:outline-none focus:ring-2 focus:ring-actions-command-primary"
           >
             <option value="">None</option>
@@ -223,6 +376,19 @@ export function SelectionSidebar({
               </option>
             ))}
           </select>
+          {selectedHex.landmark && (
+            <div className="mt-2">
+              <PoiDetailsEditor
+                kind="landmark"
+                details={selectedHex.landmarkDetails}
+                onChange={(details) =>
+                  onUpdateHex(withPoiDetails(selectedHex, 'landmarkDetails', details))
+                }
+                idPrefix="hex-landmark"
+                nameTables={nameTables}
+              />
+            </div>
+          )}
         </div>
 
         <div className="mb-4">
@@ -299,6 +465,83 @@ export function SelectionSidebar({
             </svg>
           </div>
         </div>
+
+        <div className="mb-4">
+          <label htmlFor="hex-tags" className="block text-sm font-medium text-text-muted mb-1">
+            Tags
+          </label>
+          {selectedHex.tags && selectedHex.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mb-2">
+              {selectedHex.tags.map((tag) => (
+                <span
+                  key={tag}
+                  className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 text-xs rounded-full bg-realm-command-panel-surface text-text-high-contrast"
+                >
+                  #{tag}
+                  <button
+                    onClick={() =>
+                      handleTagsChange(selectedHex.tags?.filter((t) => t !== tag) ?? [])
+                    }
+                    className="p-0.5 rounded-full hover:bg-realm-command-panel-hover"
+                    aria-label={`Remove tag ${tag}`}
+                  >
+                    <Icon name="close" className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <input
+            id="hex-tags"
+            type="text"
+            value={tagInput}
+            placeholder="Add tags, separated by commas"
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAddTags();
+              }
+            }}
+            className="w-full p-2 bg-realm-command-panel-surface border border-border-panel-divider rounded-md focus:outline-none focus:ring-2 focus:ring-actions-command-primary"
+          />
+        </div>
+
+        <div className="mb-4">
+          <div className="flex justify-between items-center mb-1">
+            <label htmlFor="hex-notes" className="block text-sm font-medium text-text-muted">
+              Notes
+            </label>
+            {selectedHex.notes && (
+              <button
+                onClick={() => setIsPreviewingNotes((prev) => !prev)}
+                className="flex items-center gap-1 text-xs text-text-muted hover:text-text-high-contrast"
+              >
+                <Icon name={isPreviewingNotes ? 'pencil' : 'eye'} className="w-3 h-3" />
+                {isPreviewingNotes ? 'Edit' : 'Preview'}
+              </button>
+            )}
+          </div>
+          {selectedHex.notes && isPreviewingNotes ? (
+            <div className="p-2 bg-realm-map-viewport rounded-md text-text-muted">
+              <MarkdownText source={selectedHex.notes} />
+            </div>
+          ) : (
+            <>
+              <textarea
+                id="hex-notes"
+                value={selectedHex.notes ?? ''}
+                rows={6}
+                placeholder="Notes for the Referee. Markdown is supported."
+                onChange={(e) => handleTextDetailChange('notes', e.target.value)}
+                className="w-full p-2 text-sm bg-realm-command-panel-surface border border-border-panel-divider rounded-md focus:outline-none focus:ring-2 focus:ring-actions-command-primary"
+              />
+              <p className="text-xs text-text-subtle">
+                Supports **bold**, *italics*, lists, headings and links.
+              </p>
+            </>
+          )}
+        </div>
       </div>
     </aside>
   );
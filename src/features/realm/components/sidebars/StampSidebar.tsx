@@ -0,0 +1,298 @@
+/**
+ * @file StampSidebar.tsx
+ * This component renders the sidebar for the Stamp tool, which pastes copied regions of hexes
+ * onto the map. It shows the stamp being pasted, turns and mirrors it, and keeps a library of
+ * saved stamps that can be used in any realm.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Icon } from '../Icon';
+import type { HexOrientation, Stamp, StampTransform } from '@/features/realm/types';
+import type { ConfirmationState } from '@/app/App';
+import {
+  deleteSavedStamp,
+  listSavedStamps,
+  saveStampToLibrary,
+} from '@/features/realm/services/storageService';
+import type { SavedStampRecord } from '@/features/realm/services/storageService';
+import { axialToPixel, getHexCorners } from '@/features/realm/utils/hexUtils';
+import { IDENTITY_TRANSFORM, transformStamp } from '@/features/realm/utils/stampUtils';
+import { StampPreview } from '../hexgrid/StampPreview';
+
+/**
+ * Props for the StampSidebar component.
+ */
+interface StampSidebarProps {
+  /** The stamp being pasted, as it was copied. */
+  stamp: Stamp | null;
+  /** How the stamp is turned and mirrored. */
+  transform: StampTransform;
+  /** Callback to change how the stamp is turned and mirrored. */
+  setTransform: (transform: StampTransform) => void;
+  /** Callback to paste a different stamp, e.g. one from the library. */
+  onChooseStamp: (stamp: Stamp) => void;
+  orientation: HexOrientation;
+  terrainColors: Record<string, string>;
+  barrierColor: string;
+  setConfirmation: React.Dispatch<React.SetStateAction<ConfirmationState | null>>;
+  /** Callback function to close the sidebar. */
+  onClose: () => void;
+}
+
+const THUMBNAIL_HEX_SIZE = { x: 12, y: 12 };
+
+const BUTTON_CLASS =
+  'w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-text-muted bg-realm-command-panel-surface rounded-md hover:bg-realm-command-panel-hover border border-border-panel-divider transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+/**
+ * A small drawing of a stamp, fitted to its hexes.
+ */
+function StampThumbnail({
+  stamp,
+  orientation,
+  terrainColors,
+  barrierColor,
+}: {
+  stamp: Stamp;
+  orientation: HexOrientation;
+  terrainColors: Record<string, string>;
+  barrierColor: string;
+}) {
+  const corners = getHexCorners(orientation, THUMBNAIL_HEX_SIZE);
+  const centers = stamp.hexes.map((hex) => axialToPixel(hex, orientation, THUMBNAIL_HEX_SIZE));
+  const xs = centers.map((p) => p.x);
+  const ys = centers.map((p) => p.y);
+  const margin = THUMBNAIL_HEX_SIZE.x + 2;
+  const minX = Math.min(...xs) - margin;
+  const minY = Math.min(...ys) - margin;
+  const width = Math.max(...xs) - Math.min(...xs) + margin * 2;
+  const height = Math.max(...ys) - Math.min(...ys) + margin * 2;
+
+  return (
+    <svg
+      viewBox={`${minX} ${minY} ${width} ${height}`}
+      className="w-full h-40 bg-realm-map-viewport rounded-md"
+      aria-hidden="true"
+    >
+      <StampPreview
+        stamp={stamp}
+        target={{ q: 0, r: 0 }}
+        orientation={orientation}
+        hexSize={THUMBNAIL_HEX_SIZE}
+        hexCorners={corners}
+        terrainColors={terrainColors}
+        barrierColor={barrierColor}
+        fillOpacity={1}
+      />
+    </svg>
+  );
+}
+
+/**
+ * The sidebar component for the Stamp tool.
+ */
+export function StampSidebar({
+  stamp,
+  transform,
+  setTransform,
+  onChooseStamp,
+  orientation,
+  terrainColors,
+  barrierColor,
+  setConfirmation,
+  onClose,
+}: StampSidebarProps) {
+  const [savedStamps, setSavedStamps] = useState<SavedStampRecord[]>([]);
+  const [saveName, setSaveName] = useState('');
+
+  const showError = useCallback(
+    (title: string, error: unknown) => {
+      setConfirmation({
+        isOpen: true,
+        title,
+        message: error instanceof Error ? error.message : 'An unknown error occurred.',
+        onConfirm: () => setConfirmation(null),
+        isInfo: true,
+      });
+    },
+    [setConfirmation]
+  );
+
+  const refresh = useCallback(async () => {
+    try {
+      setSavedStamps(await listSavedStamps());
+    } catch (error) {
+      showError('Stamp Library Unavailable', error);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const handleSave = async () => {
+    const name = saveName.trim();
+    if (!stamp || !name) return;
+    try {
+      const record = await saveStampToLibrary({ ...stamp, name });
+      onChooseStamp({ name: record.name, hexes: record.hexes });
+      setSaveName('');
+      await refresh();
+    } catch (error) {
+      showError('Save Failed', error);
+    }
+  };
+
+  const handleDelete = (record: SavedStampRecord) => {
+    setConfirmation({
+      isOpen: true,
+      title: 'Delete Stamp',
+      message: `Are you sure you want to delete the stamp "${record.name}"? This cannot be undone.`,
+      confirmText: 'Delete',
+      onConfirm: () => {
+        setConfirmation(null);
+        deleteSavedStamp(record.id)
+          .then(refresh)
+          .catch((error: unknown) => showError('Delete Failed', error));
+      },
+    });
+  };
+
+  return (
+    <aside className="w-80 bg-realm-canvas-backdrop border-l border-border-panel-divider p-4 flex flex-col">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold">Stamp Tool</h2>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-full hover:bg-realm-command-panel-hover"
+          aria-label="Close Stamp Tool"
+        >
+          <Icon name="close" className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="flex-grow overflow-y-auto pr-2 space-y-6">
+        {stamp ? (
+          <div className="space-y-3">
+            <p className="text-sm text-text-muted">
+              Click a hex on the map to paste{' '}
+              <span className="text-text-high-contrast">{stamp.name}</span> ({stamp.hexes.length}{' '}
+              {stamp.hexes.length === 1 ? 'hex' : 'hexes'}) with its outlined hex there.
+            </p>
+            <StampThumbnail
+              stamp={transformStamp(stamp, transform, orientation)}
+              orientation={orientation}
+              terrainColors={terrainColors}
+              barrierColor={barrierColor}
+            />
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                onClick={() =>
+                  setTransform({ ...transform, rotation: (transform.rotation + 5) % 6 })
+                }
+                className={BUTTON_CLASS}
+                title="Turn 60° anticlockwise (Shift+R)"
+                aria-label="Turn anticlockwise"
+              >
+                <Icon name="reset" className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() =>
+                  setTransform({ ...transform, rotation: (transform.rotation + 1) % 6 })
+                }
+                className={BUTTON_CLASS}
+                title="Turn 60° clockwise (R)"
+                aria-label="Turn clockwise"
+              >
+                <Icon name="rotate-cw" className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setTransform({ ...transform, isMirrored: !transform.isMirrored })}
+                className={`${BUTTON_CLASS} ${
+                  transform.isMirrored
+                    ? 'border-actions-command-primary text-text-high-contrast'
+                    : ''
+                }`}
+                title="Mirror left to right (M)"
+                aria-label="Mirror"
+                aria-pressed={transform.isMirrored}
+              >
+                <Icon name="flip-horizontal" className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="flex justify-between items-center text-sm text-text-muted">
+              <span>
+                Turned {transform.rotation * 60}°{transform.isMirrored ? ', mirrored' : ''}
+              </span>
+              <button
+                onClick={() => setTransform(IDENTITY_TRANSFORM)}
+                disabled={transform.rotation === 0 && !transform.isMirrored}
+                className="underline hover:text-text-high-contrast disabled:opacity-50 disabled:no-underline"
+              >
+                Reset
+              </button>
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') void handleSave();
+                }}
+                placeholder="e.g. Mountain pass"
+                aria-label="Stamp name"
+                className="flex-1 min-w-0 p-2 bg-realm-command-panel-surface border border-border-panel-divider rounded-md focus:outline-none focus:ring-2 focus:ring-actions-command-primary"
+              />
+              <button
+                onClick={() => void handleSave()}
+                disabled={!saveName.trim()}
+                className="px-3 py-2 text-sm font-medium text-text-muted bg-realm-command-panel-surface rounded-md hover:bg-realm-command-panel-hover border border-border-panel-divider transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col items-center text-center mt-4">
+            <Icon name="stamp" className="w-16 h-16 text-realm-command-panel-hover mb-4" />
+            <p className="text-text-muted">
+              Select hexes with the Select tool and copy them with Ctrl+C, or choose a stamp from
+              the library.
+            </p>
+          </div>
+        )}
+
+        <div className="pt-4 border-t border-border-panel-divider">
+          <h3 className="text-sm font-medium text-text-muted mb-2">Library</h3>
+          {savedStamps.length === 0 ? (
+            <p className="text-sm text-text-muted">Saved stamps will appear here.</p>
+          ) : (
+            <ul className="space-y-2">
+              {savedStamps.map((record) => (
+                <li key={record.id} className="flex items-center gap-2">
+                  <button
+                    onClick={() => onChooseStamp({ name: record.name, hexes: record.hexes })}
+                    className="flex-1 text-left p-2 bg-realm-map-viewport rounded-md hover:bg-realm-command-panel-hover transition-colors"
+                  >
+                    <p className="font-semibold text-text-high-contrast">{record.name}</p>
+                    <p className="text-xs text-text-muted">
+                      {record.hexes.length} {record.hexes.length === 1 ? 'hex' : 'hexes'}
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(record)}
+                    className="p-2 rounded-md text-text-muted hover:bg-realm-command-panel-hover hover:text-text-high-contrast"
+                    aria-label={`Delete ${record.name}`}
+                    title="Delete"
+                  >
+                    <Icon name="trash-2" className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </aside>
+  );
+}
@@ -1,17 +1,18 @@
 /**
  * @file TerrainPainterSidebar.tsx
  * This component renders the sidebar for the Terrain Painter tool. It allows users
- * to select a terrain type to paint, customize terrain colors, and add or remove
- * custom terrain types.
+ * to select a terrain type to paint and the brush to paint it with, customize terrain
+ * colors, and add or remove custom terrain types.
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { Icon } from '../Icon';
 import { TERRAIN_TYPES } from '@/features/realm/config/constants';
 import { resolveColorToken, getTerrainBaseColor } from '@/app/theme/colors';
-import type { TileSet, Tile } from '@/features/realm/types';
+import type { TileSet, Tile, TerrainBrush } from '@/features/realm/types';
 import { InfoPopup } from '../ui/InfoPopup';
 import { AddTerrainForm } from './terrain/AddTerrainForm';
+import { TerrainBrushControls } from './terrain/TerrainBrushControls';
 import { useInfoPopup } from '@/shared/hooks/useInfoPopup';
 import { TerrainColorSwatch } from '../ui/TerrainColorSwatch';
 
@@ -29,6 +30,9 @@ const buildSpraySummary = (terrain: Tile): string =>
 interface TerrainPainterSidebarProps {
   paintTerrain: string;
   setPaintTerrain: (terrain: string) => void;
+  /** The shape and size of the brush, and its scatter mix. */
+  terrainBrush: TerrainBrush;
+  setTerrainBrush: (brush: TerrainBrush) => void;
   onClose: () => void;
   tileSets: TileSet;
   terrainColors: Record<string, string>;
@@ -47,6 +51,8 @@ interface TerrainPainterSidebarProps {
 export function TerrainPainterSidebar({
   paintTerrain,
   setPaintTerrain,
+  terrainBrush,
+  setTerrainBrush,
   onClose,
   tileSets,
   terrainColors,
@@ -130,6 +136,12 @@ export function TerrainPainterSidebar({
             Click on the map to pick a terrain.
           </div>
         )}
+        <TerrainBrushControls
+          brush={terrainBrush}
+          onBrushChange={setTerrainBrush}
+          terrains={tileSets.terrain}
+          getTerrainColor={(id) => resolveColor(terrainColors[id])}
+        />
         <p className="text-sm text-text-muted mb-4">
           Select a terrain to paint. Click a color swatch to customize.
         </p>
@@ -0,0 +1,176 @@
+/**
+ * @file TerrainBrushControls.tsx
+ * This component renders the brush settings of the Terrain Painter: the shape and size of the
+ * brush, and the mix of terrains the scatter brush paints.
+ */
+import React from 'react';
+import { Icon } from '@/features/realm/components/Icon';
+import { MAX_TERRAIN_BRUSH_SIZE } from '@/features/realm/config/constants';
+import type { Tile, TerrainBrush, TerrainBrushShape } from '@/features/realm/types';
+
+interface TerrainBrushControlsProps {
+  brush: TerrainBrush;
+  onBrushChange: (brush: TerrainBrush) => void;
+  terrains: Tile[];
+  /** Resolves the colour of a terrain, for the swatches of the scatter mix. */
+  getTerrainColor: (id: string) => string;
+}
+
+const SHAPE_OPTIONS: { id: TerrainBrushShape; icon: string; label: string; hint: string }[] = [
+  { id: 'circle', icon: 'disc', label: 'Circle', hint: 'Paints every hex around the pointer.' },
+  { id: 'ring', icon: 'circle', label: 'Ring', hint: 'Paints the outermost hexes of the brush.' },
+  {
+    id: 'line',
+    icon: 'slash',
+    label: 'Line',
+    hint: 'Drag to paint a straight line from where you start.',
+  },
+  {
+    id: 'fill',
+    icon: 'paint-bucket',
+    label: 'Fill',
+    hint: 'Click to repaint every connected hex of the same terrain.',
+  },
+  {
+    id: 'scatter',
+    icon: 'spray-can',
+    label: 'Scatter',
+    hint: 'Paints a random mix of terrains, each as likely as its weight.',
+  },
+];
+
+const MAX_SCATTER_WEIGHT = 10;
+
+export const TerrainBrushControls: React.FC<TerrainBrushControlsProps> = ({
+  brush,
+  onBrushChange,
+  terrains,
+  getTerrainColor,
+}) => {
+  const shapeOption = SHAPE_OPTIONS.find((option) => option.id === brush.shape);
+  const mix = terrains.filter((terrain) => (brush.scatterWeights[terrain.id] ?? 0) > 0);
+  const totalWeight = mix.reduce(
+    (sum, terrain) => sum + (brush.scatterWeights[terrain.id] ?? 0),
+    0
+  );
+
+  const setWeight = (id: string, weight: number) => {
+    const { [id]: _previous, ...rest } = brush.scatterWeights;
+    onBrushChange({
+      ...brush,
+      scatterWeights: weight > 0 ? { ...rest, [id]: weight } : rest,
+    });
+  };
+
+  return (
+    <div className="mb-6 space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-text-muted mb-1">Brush</label>
+        <div className="grid grid-cols-5 gap-1">
+          {SHAPE_OPTIONS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => onBrushChange({ ...brush, shape: option.id })}
+              className={`flex items-center justify-center p-2 rounded-lg border-2 transition-all duration-150 ${
+                brush.shape === option.id
+                  ? 'bg-actions-command-primary/20 border-actions-command-primary text-text-high-contrast'
+                  : 'bg-realm-map-viewport border-border-panel-divider hover:border-text-muted text-text-muted'
+              }`}
+              title={option.label}
+              aria-label={`${option.label} brush`}
+              aria-pressed={brush.shape === option.id}
+            >
+              <Icon name={option.icon} className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+        {shapeOption && <p className="text-xs text-text-muted mt-1">{shapeOption.hint}</p>}
+      </div>
+
+      {brush.shape !== 'fill' && (
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label htmlFor="terrain-brush-size" className="text-sm font-medium text-text-muted">
+              Size
+            </label>
+            <span className="text-sm font-mono text-text-high-contrast">
+              {brush.size === 1 ? 'Single hex' : `${brush.size * 2 - 1} hexes across`}
+            </span>
+          </div>
+          <input
+            id="terrain-brush-size"
+            type="range"
+            min={1}
+            max={MAX_TERRAIN_BRUSH_SIZE}
+            step={1}
+            value={brush.size}
+            onChange={(event) => onBrushChange({ ...brush, size: Number(event.target.value) })}
+            className="w-full"
+          />
+        </div>
+      )}
+
+      {brush.shape === 'scatter' && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-text-muted">Mix</label>
+          {mix.length === 0 && (
+            <p className="text-xs text-text-muted">
+              Add terrains to the mix. Until then, the selected terrain is painted.
+            </p>
+          )}
+          {mix.map((terrain) => {
+            const weight = brush.scatterWeights[terrain.id] ?? 0;
+            return (
+              <div key={terrain.id} className="flex items-center gap-2">
+                <span
+                  className="w-4 h-4 rounded-sm flex-shrink-0 border border-white/80"
+                  style={{ backgroundColor: getTerrainColor(terrain.id) }}
+                />
+                <span className="w-20 text-sm text-text-muted truncate" title={terrain.label}>
+                  {terrain.label}
+                </span>
+                <input
+                  type="range"
+                  min={1}
+                  max={MAX_SCATTER_WEIGHT}
+                  step={1}
+                  value={weight}
+                  onChange={(event) => setWeight(terrain.id, Number(event.target.value))}
+                  className="flex-1 min-w-0"
+                  aria-label={`${terrain.label} weight`}
+                />
+                <span className="w-9 text-right text-xs font-mono text-text-high-contrast">
+                  {Math.round((weight / totalWeight) * 100)}%
+                </span>
+                <button
+                  onClick={() => setWeight(terrain.id, 0)}
+                  className="p-1 rounded-full text-text-muted hover:bg-realm-command-panel-hover"
+                  aria-label={`Remove ${terrain.label} from the mix`}
+                >
+                  <Icon name="close" className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            );
+          })}
+          <select
+            value=""
+            onChange={(event) => {
+              if (event.target.value) setWeight(event.target.value, 1);
+            }}
+            className="w-full p-2 text-sm bg-realm-command-panel-surface border border-border-panel-divider rounded-md focus:outline-none focus:ring-2 focus:ring-actions-command-primary"
+            aria-label="Add a terrain to the mix"
+          >
+            <option value="">Add a terrain…</option>
+            {terrains
+              .filter((terrain) => !mix.includes(terrain))
+              .map((terrain) => (
+                <option key={terrain.id} value={terrain.id}>
+                  {terrain.label}
+                </option>
+              ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+/**
+ * @file MarkdownText.tsx
+ * This component renders a small subset of Markdown, as used in hex notes: headings,
+ * paragraphs, bulleted and numbered lists, quotes, bold, italics, inline code and links.
+ * The text is turned into React elements rather than HTML, so notes cannot inject markup.
+ */
+import React from 'react';
+
+interface MarkdownTextProps {
+  /** The Markdown source to render. */
+  source: string;
+  className?: string;
+}
+
+type Block =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'quote'; text: string }
+  | { kind: 'list'; ordered: boolean; items: string[] };
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.*)$/;
+const BULLET_PATTERN = /^\s*[-*]\s+(.*)$/;
+const NUMBERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE_PATTERN = /^>\s?(.*)$/;
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|__[^_]+__|\*[^*]+\*|_[^_]+_|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g;
+
+/**
+ * Splits Markdown source into blocks. Consecutive lines of the same kind are merged.
+ */
+function parseBlocks(source: string): Block[] {
+  const blocks: Block[] = [];
+  source.split(/\r?\n/).forEach((line) => {
+    const last = blocks[blocks.length - 1];
+    if (line.trim() === '') {
+      blocks.push({ kind: 'paragraph', text: '' });
+      return;
+    }
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      blocks.push({ kind: 'heading', level: heading[1]?.length ?? 1, text: heading[2] ?? '' });
+      return;
+    }
+    const bullet = BULLET_PATTERN.exec(line);
+    const numbered = bullet ? null : NUMBERED_PATTERN.exec(line);
+    const item = bullet ?? numbered;
+    if (item) {
+      const ordered = Boolean(numbered);
+      if (last?.kind === 'list' && last.ordered === ordered) last.items.push(item[1] ?? '');
+      else blocks.push({ kind: 'list', ordered, items: [item[1] ?? ''] });
+      return;
+    }
+    const quote = QUOTE_PATTERN.exec(line);
+    if (quote) {
+      if (last?.kind === 'quote') last.text += `\n${quote[1] ?? ''}`;
+      else blocks.push({ kind: 'quote', text: quote[1] ?? '' });
+      return;
+    }
+    if (last?.kind === 'paragraph' && last.text !== '') last.text += `\n${line}`;
+    else blocks.push({ kind: 'paragraph', text: line });
+  });
+  return blocks.filter((block) => block.kind !== 'paragraph' || block.text !== '');
+}
+
+/**
+ * Renders the inline formatting of a line of text. Splitting on the capturing pattern puts the
+ * formatted pieces at odd indices; the text between them is plain, even if it holds a stray
+ * marker.
+ */
+function renderInline(text: string): React.ReactNode[] {
+  return text.split(INLINE_PATTERN).map((part, index) => {
+    if (index % 2 === 0) {
+      return <React.Fragment key={index}>{part}</React.Fragment>;
+    }
+    if (part.startsWith('**') || part.startsWith('__')) {
+      return <strong key={index}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith('*') || part.startsWith('_')) {
+      return <em key={index}>{part.slice(1, -1)}</em>;
+    }
+    if (part.startsWith('`')) {
+      return (
+        <code key={index} className="px-1 rounded bg-realm-command-panel-surface font-mono">
+          {part.slice(1, -1)}
+        </code>
+      );
+    }
+    const link = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(part);
+    if (link) {
+      const [, label, href] = link;
+      // Only web links are followed; anything else is shown as plain text.
+      if (href && /^https?:\/\//i.test(href)) {
+        return (
+          <a
+            key={index}
+            href={href}
+            target="_blank"
+            rel="noreferrer noopener"
+            className="text-actions-command-primary underline"
+          >
+            {label}
+          </a>
+        );
+      }
+      return <React.Fragment key={index}>{label}</React.Fragment>;
+    }
+    return <React.Fragment key={index}>{part}</React.Fragment>;
+  });
+}
+
+/**
+ * Renders text with line breaks kept.
+ */
+const renderLines = (text: string) =>
+  text.split('\n').map((line, index) => (
+    <React.Fragment key={index}>
+      {index > 0 && <br />}
+      {renderInline(line)}
+    </React.Fragment>
+  ));
+
+export const MarkdownText = ({ source, className = '' }: MarkdownTextProps) => (
+  <div className={`space-y-2 text-sm break-words ${className}`.trim()}>
+    {parseBlocks(source).map((block, index) => {
+      switch (block.kind) {
+        case 'heading':
+          return (
+            <p
+              key={index}
+              className={`font-bold text-text-high-contrast ${block.level === 1 ? 'text-base' : ''}`}
+            >
+              {renderInline(block.text)}
+            </p>
+          );
+        case 'quote':
+          return (
+            <blockquote key={index} className="pl-2 border-l-2 border-border-panel-divider italic">
+              {renderLines(block.text)}
+            </blockquote>
+          );
+        case 'list': {
+          const items = block.items.map((item, itemIndex) => (
+            <li key={itemIndex}>{renderInline(item)}</li>
+          ));
+          return block.ordered ? (
+            <ol key={index} className="list-decimal pl-5">
+              {items}
+            </ol>
+          ) : (
+            <ul key={index} className="list-disc pl-5">
+              {items}
+            </ul>
+          );
+        }
+        default:
+          return <p key={index}>{renderLines(block.text)}</p>;
+      }
+    })}
+  </div>
+);
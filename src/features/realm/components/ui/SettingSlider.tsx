@@ -28,6 +28,8 @@ interface SettingSliderProps {
   displayMultiplier?: number;
   /** A suffix for the displayed value (e.g., '%'). */
   displaySuffix?: string;
+  /** The number of decimal places shown in the displayed value. */
+  displayDecimals?: number;
 }
 
 /**
@@ -44,6 +46,7 @@ export const SettingSlider = ({
   step = 0.01,
   displayMultiplier = 100,
   displaySuffix = '%',
+  displayDecimals = 0,
 }: SettingSliderProps) => {
   const inputId = `slider-${label.toLowerCase().replace(/\s+/g, '-')}`;
   const range = max - min;
@@ -56,7 +59,10 @@ export const SettingSlider = ({
   const trackColor = resolveColorToken('realm-command-panel-surface');
   const thumbBg = resolveColorToken('realm-command-panel-surface');
   const thumbBorder = resolveColorToken('border-panel-divider');
-  const displayValue = Math.round(value * displayMultiplier);
+  const displayValue =
+    displayDecimals > 0
+      ? (value * displayMultiplier).toFixed(displayDecimals)
+      : Math.round(value * displayMultiplier);
 
   const sliderStyle = useMemo(
     () => ({
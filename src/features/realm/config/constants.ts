@@ -10,6 +10,18 @@ import type {
   GenerationOptions,
   SpraySettings,
   KnightVisibilitySettings,
+  TerrainBrush,
+  ViewOptions,
+  PathType,
+  NoiseSettings,
+  Party,
+  MythStatus,
+  PopulationTier,
+  PaperSize,
+  ExportFormat,
+  HexLabelStyle,
+  MapOverlaySettings,
+  MapOverlayPosition,
 } from '../types/index.ts';
 import { colorPalette, tailwindColorPalette } from '@/app/theme/colors';
 
@@ -37,9 +49,15 @@ export const LANDMARK_ICON_BORDER_COLOR = flattenedColors['border-landmark-marke
 export const TEXT_INVERSE_COLOR = flattenedColors['text-inverse'];
 export const TEXT_HIGH_CONTRAST_COLOR = flattenedColors['text-high-contrast'];
 export const CARD_SURFACE_COLOR = flattenedColors['realm-card-surface'];
+export const MAP_VIEWPORT_COLOR = flattenedColors['realm-map-viewport'];
 export const BORDER_PANEL_DIVIDER_COLOR = flattenedColors['border-panel-divider'];
 export const COMMAND_PANEL_SURFACE_COLOR = flattenedColors['realm-command-panel-surface'];
 export const SUCCESS_HIGHLIGHT_COLOR = flattenedColors['feedback-success-highlight'];
+export const RIVER_COLOR = flattenedColors['terrain-lakes-base'] ?? '#3f6e66';
+export const ROAD_COLOR = '#8a6a45';
+export const FOG_COLOR = '#5d646c';
+export const FOG_SHADOW_COLOR = '#394047';
+export const PARTY_COLOR = '#d9a441';
 export const DEFAULT_GRID_COLOR = 'rgba(234, 235, 236, 0.2)';
 export const DEFAULT_GRID_WIDTH = 1;
 export const DEFAULT_VIEW_VISIBILITY: KnightVisibilitySettings = {
@@ -48,6 +66,10 @@ export const DEFAULT_VIEW_VISIBILITY: KnightVisibilitySettings = {
   landmarks: {},
   myths: {},
   showBarriers: false,
+  fogOfWar: false,
+  showHexNames: true,
+  showHexNotes: false,
+  showPoiDetails: true,
 };
 
 // =================================================================================
@@ -96,6 +118,64 @@ export const LANDMARK_TYPES = ['dwelling', 'sanctum', 'monument', 'hazard', 'cur
 /** The base probability for a barrier to be generated on any given hex edge. */
 export const BARRIER_CHANCE = 1 / 6;
 
+/** The types of path that can be drawn, in the order they are offered in the Path Painter. */
+export const PATH_TYPES: PathType[] = ['river', 'road', 'track'];
+/** How each type of path is drawn. `dash` is an optional SVG dash pattern. */
+export const PATH_STYLES: Record<
+  PathType,
+  { label: string; color: string; width: number; dash?: string }
+> = {
+  river: { label: 'River', color: RIVER_COLOR, width: 6 },
+  road: { label: 'Road', color: ROAD_COLOR, width: 5 },
+  track: { label: 'Track', color: ROAD_COLOR, width: 3, dash: '8 6' },
+};
+
+/** The population tiers of holdings and landmarks, from smallest to largest. */
+export const POPULATION_TIERS: { id: PopulationTier; label: string }[] = [
+  { id: 'deserted', label: 'Deserted' },
+  { id: 'sparse', label: 'Sparse' },
+  { id: 'modest', label: 'Modest' },
+  { id: 'populous', label: 'Populous' },
+  { id: 'teeming', label: 'Teeming' },
+];
+
+/** The stages of a myth, in order, with their display labels. */
+export const MYTH_STATUSES: { id: MythStatus; label: string }[] = [
+  { id: 'dormant', label: 'Dormant' },
+  { id: 'active', label: 'Active' },
+  { id: 'resolved', label: 'Resolved' },
+];
+
+/** The file extension of each export format. */
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  png: 'png',
+  svg: 'svg',
+  pdf: 'pdf',
+  foundry: 'zip',
+  uvtt: 'dd2vtt',
+};
+
+/** The paper sizes of the printable atlas, in portrait, in points (1/72 inch). */
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  letter: { label: 'Letter', width: 612, height: 792 },
+};
+
+/** The hex sizes offered for the printable atlas, in millimetres from corner to corner. */
+export const PRINT_HEX_SIZES = [15, 20, 25, 30, 40];
+
+/** The party of a new realm: not yet placed, on the first day of the journey. */
+export const DEFAULT_PARTY: Party = { day: 1, log: [] };
+
+/** The largest radius (in hexes) the Reveal tool can lift the fog of war around a hex. */
+export const MAX_REVEAL_RADIUS = 6;
+
+/** The largest size of the Terrain Painter's brush. */
+export const MAX_TERRAIN_BRUSH_SIZE = 5;
+
+/** The Terrain Painter's brush as the app starts: a single hex, with no scatter mix yet. */
+export const DEFAULT_TERRAIN_BRUSH: TerrainBrush = { shape: 'circle', size: 1, scatterWeights: {} };
+
 /** A master list of icons available for the Icon Spray feature. */
 export const SPRAYABLE_ICONS = [
   'tree-pine',
@@ -648,6 +728,82 @@ export const DEFAULT_TERRAIN_BIASES: Record<string, number> = {
   plain: 10,
 };
 
+/** The default elevation noise settings. */
+export const DEFAULT_NOISE_SETTINGS: NoiseSettings = {
+  octaves: 5,
+  lacunarity: 2,
+  persistence: 0.5,
+  warpStrength: 0,
+  relaxationPasses: 4,
+};
+
+/**
+ * The default parameters for realm generation. The seed is excluded because a
+ * fresh one is rolled for each new session.
+ */
+export const DEFAULT_GENERATION_OPTIONS: Omit<GenerationOptions, 'seed'> = {
+  numHoldings: 4,
+  numMyths: 6,
+  mythMinDistance: 3,
+  landmarks: Object.fromEntries(LANDMARK_TYPES.map((type) => [type, 3])),
+  generateBarriers: false,
+  numRivers: 3,
+  generateRoads: true,
+  generateNames: true,
+  nameTables: {},
+  highlandFormation: 'linear',
+  highlandFormationStrength: 0.7,
+  highlandFormationRotation: 0,
+  highlandFormationInverse: false,
+  terrainRoughness: 0.5,
+  noise: DEFAULT_NOISE_SETTINGS,
+  terrainClusteringMatrix: DEFAULT_TERRAIN_CLUSTERING_MATRIX,
+  terrainBiases: DEFAULT_TERRAIN_BIASES,
+  terrainHeightOrder: DEFAULT_TERRAIN_HEIGHT_ORDER,
+};
+
+/** The coordinate label styles for hexes, with their display labels and an example each. */
+export const HEX_LABEL_STYLES: { id: HexLabelStyle; label: string; example: string }[] = [
+  { id: 'none', label: 'None', example: '' },
+  { id: 'axial', label: 'Axial', example: '3,-2' },
+  { id: 'offset', label: 'Column & Row', example: '0412' },
+  { id: 'alphanumeric', label: 'Letter & Number', example: 'D12' },
+];
+
+/** The corners the map overlays can be placed in, with their display labels. */
+export const MAP_OVERLAY_POSITIONS: { id: MapOverlayPosition; label: string }[] = [
+  { id: 'top-left', label: 'Top Left' },
+  { id: 'top-right', label: 'Top Right' },
+  { id: 'bottom-left', label: 'Bottom Left' },
+  { id: 'bottom-right', label: 'Bottom Right' },
+];
+
+/** The default map overlays: none shown, with six-mile hexes on the scale bar. */
+export const DEFAULT_MAP_OVERLAYS: MapOverlaySettings = {
+  showLegend: false,
+  showCompass: false,
+  showScaleBar: false,
+  position: 'bottom-left',
+  distancePerHex: 6,
+  distanceUnit: 'miles',
+};
+
+/** The default display options for the map view. */
+export const DEFAULT_VIEW_OPTIONS: ViewOptions = {
+  showGrid: true,
+  isGmView: true,
+  orientation: 'pointy',
+  hexSize: { x: 50, y: 50 },
+  gridColor: DEFAULT_GRID_COLOR,
+  gridWidth: DEFAULT_GRID_WIDTH,
+  showIconSpray: true,
+  hexLabels: 'none',
+  overlays: DEFAULT_MAP_OVERLAYS,
+  visibility: {
+    knight: DEFAULT_VIEW_VISIBILITY,
+  },
+};
+
 /**
  * A collection of preset templates for terrain generation settings.
  */
@@ -662,6 +818,7 @@ export const TERRAIN_TEMPLATES: Record<
       highlandFormationStrength: 0.7,
       highlandFormationRotation: 0,
       terrainRoughness: 0.5,
+      noise: { ...DEFAULT_NOISE_SETTINGS },
       terrainBiases: { ...DEFAULT_TERRAIN_BIASES },
     },
   },
@@ -672,6 +829,13 @@ export const TERRAIN_TEMPLATES: Record<
       highlandFormationStrength: 1.0,
       highlandFormationRotation: 0,
       terrainRoughness: 0.8,
+      noise: {
+        octaves: 7,
+        lacunarity: 2.3,
+        persistence: 0.6,
+        warpStrength: 0.15,
+        relaxationPasses: 2,
+      },
       terrainBiases: {
         marsh: 1,
         heath: 2,
@@ -695,6 +859,13 @@ export const TERRAIN_TEMPLATES: Record<
       highlandFormationStrength: 0.5,
       highlandFormationRotation: 180,
       terrainRoughness: 0.25,
+      noise: {
+        octaves: 3,
+        lacunarity: 1.8,
+        persistence: 0.4,
+        warpStrength: 0.35,
+        relaxationPasses: 6,
+      },
       terrainBiases: {
         marsh: 15,
         heath: 5,
@@ -718,6 +889,13 @@ export const TERRAIN_TEMPLATES: Record<
       highlandFormationStrength: 1.0,
       highlandFormationInverse: true,
       terrainRoughness: 0.75,
+      noise: {
+        octaves: 5,
+        lacunarity: 2.1,
+        persistence: 0.55,
+        warpStrength: 0.1,
+        relaxationPasses: 3,
+      },
       terrainBiases: {
         marsh: 5,
         heath: 2,
@@ -0,0 +1,129 @@
+/**
+ * @file nameTables.ts
+ * This file contains the built-in name tables used by the name generator, one grammar per
+ * kind of realm feature. The names lean on the weathered, half-English sound of Mythic
+ * Bastionland's realms.
+ */
+import type { NameFeature, NameTables } from '../types/index.ts';
+
+/** The kinds of feature that can be named, with their display labels. */
+export const NAME_FEATURES: { id: NameFeature; label: string }[] = [
+  { id: 'holding', label: 'Holdings' },
+  { id: 'landmark', label: 'Landmarks' },
+  { id: 'myth', label: 'Myths' },
+  { id: 'region', label: 'Regions' },
+  { id: 'river', label: 'Rivers' },
+];
+
+const ROOTS = [
+  'Ash',
+  'Black',
+  'Bram',
+  'Cold',
+  'Crow',
+  'Dun',
+  'Elder',
+  'Fen',
+  'Grey',
+  'Hart',
+  'Iron',
+  'Lark',
+  'Mire',
+  'Oak',
+  'Raven',
+  'Red',
+  'Rook',
+  'Salt',
+  'Stone',
+  'Thorn',
+  'Wolf',
+  'Wych',
+];
+
+const ADJECTIVES = [
+  'Ashen',
+  'Barren',
+  'Broken',
+  'Drowned',
+  'Endless',
+  'Forgotten',
+  'Hollow',
+  'Hungry',
+  'Pale',
+  'Restless',
+  'Silent',
+  'Sunken',
+  'Weeping',
+  'Withered',
+];
+
+/** The built-in name tables. */
+export const DEFAULT_NAME_TABLES: NameTables = {
+  holding: {
+    patterns: ['{root}{end}', '{root}{end} {seat}', '{seat} of {root}{end}'],
+    parts: {
+      root: ROOTS,
+      end: [
+        'bury',
+        'combe',
+        'croft',
+        'ford',
+        'gate',
+        'hold',
+        'holm',
+        'ley',
+        'mere',
+        'stead',
+        'wick',
+      ],
+      seat: ['Bastion', 'Fastness', 'Hall', 'Keep', 'Manor', 'Rampart', 'Tower'],
+    },
+  },
+  landmark: {
+    patterns: ['The {adjective} {feature}', 'The {feature} of the {creature}', '{root} {feature}'],
+    parts: {
+      root: ROOTS,
+      adjective: ADJECTIVES,
+      feature: ['Barrow', 'Cairn', 'Cross', 'Henge', 'Hollow', 'Pool', 'Stair', 'Stone', 'Well'],
+      creature: ['Bear', 'Crow', 'Giant', 'Hare', 'Serpent', 'Stag', 'Witch', 'Wolf'],
+    },
+  },
+  myth: {
+    patterns: ['The {creature}', 'The {adjective} {creature}', 'The {creature} of {root}{end}'],
+    parts: {
+      root: ROOTS,
+      end: ['bury', 'fell', 'ford', 'moor', 'wood'],
+      adjective: ADJECTIVES,
+      creature: [
+        'Beast',
+        'Court',
+        'Host',
+        'Knight',
+        'Mother',
+        'Pack',
+        'Plague',
+        'Queen',
+        'Swarm',
+        'Titan',
+        'Wurm',
+      ],
+    },
+  },
+  region: {
+    patterns: ['The {adjective} {land}', '{root}{end}', '{root}{end} {land}'],
+    parts: {
+      root: ROOTS,
+      end: ['dale', 'den', 'fell', 'ham', 'moor', 'shaw', 'wold'],
+      adjective: ADJECTIVES,
+      land: ['Downs', 'Fells', 'Marches', 'Reach', 'Vale', 'Weald', 'Wilds'],
+    },
+  },
+  river: {
+    patterns: ['The {root}{flow}', 'River {root}', 'The {adjective} Water'],
+    parts: {
+      root: ROOTS,
+      flow: ['beck', 'bourne', 'brook', 'burn', 'run', 'wash', 'water'],
+      adjective: ADJECTIVES,
+    },
+  },
+};
@@ -0,0 +1,58 @@
+/**
+ * @file useAutosave.ts
+ * This file contains a custom React hook that periodically writes the current
+ * session to the IndexedDB autosave slot.
+ */
+import { useEffect, useRef } from 'react';
+import { writeAutosave } from '@/features/realm/services/storageService';
+import type { AutosaveRecord } from '@/features/realm/services/storageService';
+
+/**
+ * Options for the useAutosave hook.
+ */
+interface AutosaveOptions {
+  /** How long to wait after the last change before saving, in milliseconds. */
+  delay?: number;
+  /** The longest a change waits to be saved while edits keep coming, in milliseconds. */
+  maxWait?: number;
+  /** The maximum number of undo and redo steps to persist each. */
+  historyLimit?: number;
+}
+
+/**
+ * Writes the given record to the autosave slot once it has been unchanged for `delay` ms.
+ * Rapid edits (like paint strokes) are therefore coalesced into a single write, but a change
+ * is never left unsaved for longer than `maxWait` ms while editing continues.
+ * @param record The session to save, or `null` to skip saving (e.g. before recovery is resolved).
+ * @param options Configuration for the debounce delay, its maximum wait and the persisted
+ *   history depth.
+ */
+export function useAutosave(
+  record: AutosaveRecord | null,
+  { delay = 1500, maxWait = 10000, historyLimit = 20 }: AutosaveOptions = {}
+) {
+  // When the oldest unsaved change was made, or `null` if everything is saved.
+  const unsavedSinceRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!record) return;
+    const unsavedSince = unsavedSinceRef.current ?? Date.now();
+    unsavedSinceRef.current = unsavedSince;
+    const wait = Math.max(0, Math.min(delay, unsavedSince + maxWait - Date.now()));
+    const timeout = window.setTimeout(() => {
+      unsavedSinceRef.current = null;
+      const { past, present, future } = record.history;
+      writeAutosave({
+        ...record,
+        history: {
+          past: past.slice(-historyLimit),
+          present,
+          future: future.slice(0, historyLimit),
+        },
+      }).catch((error: unknown) => {
+        console.error('Autosave failed:', error);
+      });
+    }, wait);
+    return () => window.clearTimeout(timeout);
+  }, [record, delay, maxWait, historyLimit]);
+}
@@ -4,7 +4,8 @@
  * interactions on an SVG canvas.
  */
 import type React from 'react';
-import { useState, useRef, useCallback, useEffect } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import type { MapViewport } from '@/features/realm/types';
 
 /**
  * Options for the usePanAndZoom hook.
@@ -21,7 +22,8 @@ interface PanAndZoomOptions {
  * A custom hook to manage the state and event handlers for panning and zooming an SVG viewbox.
  * @param options - Configuration for the hook, including initial dimensions and zoom limits.
  * @returns An object containing the viewbox string, a ref for the container element,
- *          event handlers for mouse down and wheel events, and a boolean indicating if panning is active.
+ *          event handlers for mouse down and wheel events, a boolean indicating if panning is active,
+ *          and the part of the map shown in the container once it has been measured.
  */
 export function usePanAndZoom({
   initialWidth,
@@ -38,6 +40,9 @@ export function usePanAndZoom({
   const isPanningRef = useRef(false);
   const lastPoint = useRef({ x: 0, y: 0 });
   const containerRef = useRef<HTMLDivElement>(null);
+  const [containerSize, setContainerSize] = useState<{ width: number; height: number } | null>(
+    null
+  );
   const clampZoom = useCallback(
     (value: number) => Math.max(minZoom, Math.min(maxZoom, value)),
     [minZoom, maxZoom]
@@ -145,5 +150,41 @@ export function usePanAndZoom({
     };
   }, [enabled, onWheel]);
 
-  return { viewbox, containerRef, onMouseDown, isPanning: enabled ? isPanning : false };
+  /**
+   * Effect to track the size of the container, which decides how much of the map it shows.
+   */
+  useEffect(() => {
+    if (!enabled) return;
+    const container = containerRef.current;
+    if (!container || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      if (!entry) return;
+      const { width, height } = entry.contentRect;
+      setContainerSize((prev) =>
+        prev?.width === width && prev.height === height ? prev : { width, height }
+      );
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  // The SVG fits the viewbox inside the container, so one of its sides shows more of the map.
+  const viewport = useMemo((): MapViewport | null => {
+    if (!containerSize || containerSize.width === 0 || containerSize.height === 0) return null;
+    const [x, y, w, h] = viewbox.split(' ').map(Number);
+    if (x === undefined || y === undefined || !w || !h) return null;
+    const scale = Math.min(containerSize.width / w, containerSize.height / h);
+    const width = containerSize.width / scale;
+    const height = containerSize.height / scale;
+    return { x: x - (width - w) / 2, y: y - (height - h) / 2, width, height, scale };
+  }, [containerSize, viewbox]);
+
+  return {
+    viewbox,
+    containerRef,
+    onMouseDown,
+    isPanning: enabled ? isPanning : false,
+    viewport: enabled ? viewport : null,
+  };
 }
@@ -0,0 +1,230 @@
+/**
+ * @file useRealmHistory.ts
+ * This file contains a custom React hook for managing the realm with undo/redo capabilities.
+ * Each step of the history is stored as a labelled patch of the parts of the realm it touched,
+ * so long editing sessions only keep their edits, not a copy of the realm per step.
+ */
+
+import { useState, useCallback } from 'react';
+import type {
+  HistoryDescription,
+  Realm,
+  RealmHistoryEntry,
+  RealmPatch,
+} from '@/features/realm/types';
+import {
+  applyRealmPatch,
+  createRealmPatch,
+  getPatchSize,
+  isEmptyPatch,
+  mergeRealmPatches,
+} from '@/features/realm/utils/realmPatch';
+
+/**
+ * The state of the history hook. It is also exposed so the undo/redo stack can be persisted
+ * and restored.
+ */
+export interface RealmHistory {
+  /** The steps that can be undone, oldest first. */
+  past: RealmHistoryEntry[];
+  present: Realm | null;
+  /** The steps that can be redone, next first. */
+  future: RealmHistoryEntry[];
+}
+
+/** A description of a change, or a function describing it from its patch. */
+export type HistoryDescriber = HistoryDescription | ((patch: RealmPatch) => HistoryDescription);
+
+/** The default maximum number of undo steps kept in memory. */
+const DEFAULT_HISTORY_LIMIT = 100;
+/** The default maximum number of hexes kept by the undo steps together. */
+const DEFAULT_HISTORY_HEX_LIMIT = 100_000;
+/** How soon a change must follow a step with the same merge key to be merged into it. */
+const MERGE_WINDOW_MS = 2000;
+
+/**
+ * Drops the oldest steps beyond the step limit or the hex limit. The newest step is always
+ * kept, however large it is.
+ */
+const trimPast = (past: RealmHistoryEntry[], limit: number, hexLimit: number) => {
+  let start = past.length;
+  let size = 0;
+  while (start > 0 && past.length - start < limit) {
+    const entry = past[start - 1];
+    if (!entry) break;
+    size += getPatchSize(entry.patch);
+    if (size > hexLimit && start < past.length) break;
+    start--;
+  }
+  return past.slice(start);
+};
+
+/**
+ * Undoes the latest step of a history.
+ */
+const stepBack = (history: RealmHistory): RealmHistory => {
+  const { past, present, future } = history;
+  const entry = past[past.length - 1];
+  if (!entry || !present) return history;
+  return {
+    past: past.slice(0, -1),
+    present: applyRealmPatch(present, entry.patch, 'undo'),
+    future: [entry, ...future],
+  };
+};
+
+/**
+ * Redoes the next step of a history.
+ */
+const stepForward = (history: RealmHistory): RealmHistory => {
+  const { past, present, future } = history;
+  const entry = future[0];
+  if (!entry || !present) return history;
+  return {
+    past: [...past, entry],
+    present: applyRealmPatch(present, entry.patch, 'redo'),
+    future: future.slice(1),
+  };
+};
+
+/**
+ * Checks whether a persisted step is a patch, as saved by this version of the history.
+ */
+const isHistoryEntry = (entry: unknown): entry is RealmHistoryEntry =>
+  typeof entry === 'object' &&
+  entry !== null &&
+  'label' in entry &&
+  'patch' in entry &&
+  typeof entry.patch === 'object' &&
+  entry.patch !== null &&
+  'hexes' in entry.patch;
+
+/**
+ * A custom hook to manage the realm with its history of changes.
+ * @param limit The maximum number of undo steps to keep; older steps are dropped.
+ * @param hexLimit The maximum number of hexes the undo steps may keep together.
+ * @returns An object containing the current realm, a setter taking a description of the
+ *          change, undo/redo functions, a function to jump to any step, booleans indicating
+ *          if undo/redo is possible, and the full history with a function to restore it.
+ */
+export const useRealmHistory = (
+  limit = DEFAULT_HISTORY_LIMIT,
+  hexLimit = DEFAULT_HISTORY_HEX_LIMIT
+) => {
+  const [state, setState] = useState<RealmHistory>({
+    past: [],
+    present: null,
+    future: [],
+  });
+
+  const canUndo = state.past.length > 0;
+  const canRedo = state.future.length > 0;
+
+  /**
+   * Sets a new realm, recording the change and clearing the future (redo) history. A change
+   * soon after a step with the same merge key is merged into it; the first realm is not
+   * recorded, as there is nothing to undo it to.
+   */
+  const set = useCallback(
+    (newState: Realm, description: HistoryDescriber) => {
+      const describe = typeof description === 'function' ? description : () => description;
+      setState((currentState) => {
+        const { past, present, future } = currentState;
+        if (newState === present) return currentState;
+        if (!present) return { past: [], present: newState, future: [] };
+
+        const patch = createRealmPatch(present, newState);
+        if (isEmptyPatch(patch)) return { ...currentState, present: newState };
+        const time = Date.now();
+        const { label, mergeKey } = describe(patch);
+
+        const last = past[past.length - 1];
+        if (
+          last &&
+          future.length === 0 &&
+          mergeKey !== undefined &&
+          last.mergeKey === mergeKey &&
+          time - last.time <= MERGE_WINDOW_MS
+        ) {
+          const merged = mergeRealmPatches(last.patch, patch);
+          if (merged) {
+            const rest = past.slice(0, -1);
+            return {
+              past: isEmptyPatch(merged)
+                ? rest
+                : [...rest, { ...describe(merged), mergeKey, patch: merged, time }],
+              present: newState,
+              future: [],
+            };
+          }
+        }
+
+        return {
+          past: trimPast([...past, { label, mergeKey, patch, time }], limit, hexLimit),
+          present: newState,
+          future: [],
+        };
+      });
+    },
+    [limit, hexLimit]
+  );
+
+  /**
+   * Replaces the entire history, e.g. when recovering a saved session. Steps saved in an
+   * older form, as copies of the realm, are dropped.
+   */
+  const restore = useCallback(
+    (history: RealmHistory) => {
+      const isCurrentForm = [...history.past, ...history.future].every(isHistoryEntry);
+      setState({
+        past: isCurrentForm ? trimPast(history.past, limit, hexLimit) : [],
+        present: history.present,
+        future: isCurrentForm ? history.future.slice(0, limit) : [],
+      });
+    },
+    [limit, hexLimit]
+  );
+
+  /**
+   * Undoes the latest step.
+   */
+  const undo = useCallback(() => setState(stepBack), []);
+
+  /**
+   * Redoes the next step.
+   */
+  const redo = useCallback(() => setState(stepForward), []);
+
+  /**
+   * Undoes or redoes steps until a given number of steps have been made.
+   * @param position The number of steps of the history to keep made, from 0 for none.
+   */
+  const jumpTo = useCallback((position: number) => {
+    setState((currentState) => {
+      let history = currentState;
+      while (history.past.length > position) {
+        const next = stepBack(history);
+        if (next === history) break;
+        history = next;
+      }
+      while (history.past.length < position) {
+        const next = stepForward(history);
+        if (next === history) break;
+        history = next;
+      }
+      return history;
+    });
+  }, []);
+
+  return {
+    state: state.present,
+    set,
+    undo,
+    redo,
+    jumpTo,
+    canUndo,
+    canRedo,
+    history: state,
+    restore,
+  };
+};
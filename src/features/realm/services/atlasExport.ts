@@ -0,0 +1,585 @@
+/**
+ * @file atlasExport.ts
+ * This file builds the printable atlas of a realm as a PDF: an overview page, the map tiled
+ * across as many sheets as its size needs, a legend page built from the tile set, and an index
+ * of myths, holdings and landmarks. Neighbouring sheets overlap so they can be trimmed and
+ * taped together. The Referee and Knight editions follow the same visibility rules as the map.
+ */
+
+import type { Hex, PaperSize, Realm, Tile, TileSet, ViewOptions } from '@/features/realm/types';
+import {
+  BARRIER_COLOR,
+  CARD_SURFACE_COLOR,
+  FOG_COLOR,
+  HOLDING_ICON_BORDER_COLOR,
+  LANDMARK_ICON_BORDER_COLOR,
+  MYTH_COLOR,
+  PAPER_SIZES,
+  PATH_STYLES,
+  PATH_TYPES,
+  SEAT_OF_POWER_COLOR,
+  TEXT_INVERSE_COLOR,
+} from '@/features/realm/config/constants';
+import { axialToPixel, getHexesBounds } from '@/features/realm/utils/hexUtils';
+import { columnLetters, createHexLabeler } from '@/features/realm/utils/hexLabelUtils';
+import { getTerrainBaseColor } from '@/app/theme/colors';
+import { fitText, measureText, PdfDocument, PT_PER_MM } from './pdfWriter';
+import type { PdfPage } from './pdfWriter';
+import { downloadBlob, rasterizeSvgMarkup, serializeStandaloneSvg } from './fileService';
+import { renderIcon } from './svgRenderer';
+
+/** The margin around each page, in points. */
+const PAGE_MARGIN = 12 * PT_PER_MM;
+/** The height of the page header and footer, in points. */
+const HEADER_HEIGHT = 22;
+const FOOTER_HEIGHT = 16;
+/** How much neighbouring sheets overlap, in points. */
+const SHEET_OVERLAP = 10 * PT_PER_MM;
+/** The resolution the map is rendered at for print. */
+const PRINT_DPI = 150;
+const TEXT_COLOR = '#1f1f1f';
+const MUTED_TEXT_COLOR = '#6b6b6b';
+const GUIDE_COLOR = '#9a9a9a';
+
+/** A rectangle, in points on the page or in pixels on the map. */
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** One sheet of the tiled map. */
+export interface AtlasSheet {
+  column: number;
+  row: number;
+  /** The sheet reference, e.g. "B3": the column letter and the row number. */
+  label: string;
+  /** The part of the map shown on the sheet, in map pixels. */
+  viewBox: Box;
+}
+
+/** The layout of the atlas pages for a realm. */
+export interface AtlasPlan {
+  pageWidth: number;
+  pageHeight: number;
+  /** The area of each page the map is drawn in, in points. */
+  mapArea: Box;
+  /** The number of points on paper per map pixel. */
+  scale: number;
+  columns: number;
+  rows: number;
+  sheets: AtlasSheet[];
+  /** The part of the map covered by all the sheets together, in map pixels. */
+  bounds: Box;
+}
+
+/** Options for exporting the printable atlas. */
+export interface AtlasExportOptions {
+  realm: Realm;
+  tileSets: TileSet;
+  terrainColors: Record<string, string>;
+  /** The view options of the exported map; `isGmView` selects the Referee edition. */
+  viewOptions: ViewOptions;
+  paperSize: PaperSize;
+  /** The size of a hex on paper, in millimetres from corner to corner. */
+  printHexSize: number;
+}
+
+/** An entry in the index of the atlas. */
+interface IndexEntry {
+  type: string;
+  name: string;
+  hex: Hex;
+}
+
+/**
+ * Works out how a realm is tiled across pages. Both page orientations are tried and the one
+ * needing fewer sheets is used, portrait on a tie.
+ * @param realm - The realm to print.
+ * @param viewOptions - The view options, for the hex orientation and size.
+ * @param paperSize - The paper size.
+ * @param printHexSize - The size of a hex on paper, in millimetres from corner to corner.
+ * @returns The layout of the map sheets.
+ */
+export function planAtlas(
+  realm: Realm,
+  viewOptions: ViewOptions,
+  paperSize: PaperSize,
+  printHexSize: number
+): AtlasPlan {
+  const { hexSize, orientation } = viewOptions;
+  const paper = PAPER_SIZES[paperSize];
+  const scale = (printHexSize * PT_PER_MM) / (2 * Math.max(hexSize.x, hexSize.y));
+  const margin = Math.max(hexSize.x, hexSize.y) / 2;
+  const hexBounds = getHexesBounds(realm.hexes, orientation, hexSize);
+  const map: Box = {
+    x: hexBounds.x - margin,
+    y: hexBounds.y - margin,
+    width: hexBounds.width + margin * 2,
+    height: hexBounds.height + margin * 2,
+  };
+
+  const layout = (pageWidth: number, pageHeight: number): AtlasPlan => {
+    const mapArea: Box = {
+      x: PAGE_MARGIN,
+      y: PAGE_MARGIN + HEADER_HEIGHT,
+      width: pageWidth - PAGE_MARGIN * 2,
+      height: pageHeight - PAGE_MARGIN * 2 - HEADER_HEIGHT - FOOTER_HEIGHT,
+    };
+    const sheetWidth = mapArea.width / scale;
+    const sheetHeight = mapArea.height / scale;
+    const overlap = SHEET_OVERLAP / scale;
+    const count = (length: number, size: number) =>
+      Math.max(1, Math.ceil((length - overlap) / (size - overlap)));
+    const columns = count(map.width, sheetWidth);
+    const rows = count(map.height, sheetHeight);
+    // The sheets are centred on the map, so any spare room is shared between the edges.
+    const left = map.x - (columns * (sheetWidth - overlap) + overlap - map.width) / 2;
+    const top = map.y - (rows * (sheetHeight - overlap) + overlap - map.height) / 2;
+
+    const sheets: AtlasSheet[] = [];
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        sheets.push({
+          column,
+          row,
+          label: `${columnLetters(column)}${row + 1}`,
+          viewBox: {
+            x: left + column * (sheetWidth - overlap),
+            y: top + row * (sheetHeight - overlap),
+            width: sheetWidth,
+            height: sheetHeight,
+          },
+        });
+      }
+    }
+    const covered: Box = {
+      x: left,
+      y: top,
+      width: columns * (sheetWidth - overlap) + overlap,
+      height: rows * (sheetHeight - overlap) + overlap,
+    };
+    return { pageWidth, pageHeight, mapArea, scale, columns, rows, sheets, bounds: covered };
+  };
+
+  const portrait = layout(paper.width, paper.height);
+  const landscape = layout(paper.height, paper.width);
+  return landscape.sheets.length < portrait.sheets.length ? landscape : portrait;
+}
+
+/**
+ * Finds the sheet a point on the map belongs to. Points in an overlap belong to the sheet
+ * further up and to the left.
+ */
+function findSheet(plan: AtlasPlan, point: { x: number; y: number }): AtlasSheet | undefined {
+  return plan.sheets.find(
+    ({ viewBox }) =>
+      point.x >= viewBox.x &&
+      point.x < viewBox.x + viewBox.width &&
+      point.y >= viewBox.y &&
+      point.y < viewBox.y + viewBox.height
+  );
+}
+
+/**
+ * Renders SVG markup to a JPEG image on a white background, for print.
+ * @returns The JPEG file data.
+ */
+async function rasterizeToJpeg(markup: string, width: number, height: number) {
+  const blob = await rasterizeSvgMarkup(markup, width, height, {
+    type: 'image/jpeg',
+    background: '#ffffff',
+  });
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Renders part of the map, from a standalone SVG document, as a JPEG image for print.
+ * @returns The image name in the document.
+ */
+async function addMapImage(pdf: PdfDocument, svg: SVGSVGElement, viewBox: Box, area: Box) {
+  const width = Math.max(1, Math.round((area.width / 72) * PRINT_DPI));
+  const height = Math.max(1, Math.round((area.height / 72) * PRINT_DPI));
+  svg.setAttribute('viewBox', `${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`);
+  svg.setAttribute('width', `${width}`);
+  svg.setAttribute('height', `${height}`);
+  svg.setAttribute('preserveAspectRatio', 'xMidYMid meet');
+  const markup = new XMLSerializer().serializeToString(svg);
+  return pdf.addImage(await rasterizeToJpeg(markup, width, height), width, height);
+}
+
+/**
+ * Renders the icon of a holding or landmark on its marker, as shown on the map.
+ * @returns The image name in the document.
+ */
+async function addIconImage(pdf: PdfDocument, tile: Tile, borderColor: string | undefined) {
+  const size = 96;
+  const markup = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}"><rect x="4" y="4" width="${size - 8}" height="${size - 8}" rx="12" fill="${CARD_SURFACE_COLOR ?? '#ffffff'}" stroke="${borderColor ?? '#000000'}" stroke-width="8"/>${renderIcon(tile.icon, 20, 20, size - 40, TEXT_INVERSE_COLOR)}</svg>`;
+  return pdf.addImage(await rasterizeToJpeg(markup, size, size), size, size);
+}
+
+/**
+ * Lays out blocks of a fixed height in columns down pages, starting new pages as needed.
+ */
+function createFlow(
+  addPage: (title: string) => PdfPage,
+  plan: AtlasPlan,
+  title: string,
+  columns: number
+) {
+  const area = plan.mapArea;
+  const gap = 18;
+  const columnWidth = (area.width - gap * (columns - 1)) / columns;
+  let page = addPage(title);
+  let column = 0;
+  let y = area.y;
+
+  return {
+    columnWidth,
+    /**
+     * Reserves room for a block, moving to the next column or page when it does not fit.
+     * @returns Where to draw the block.
+     */
+    place(height: number) {
+      if (y + height > area.y + area.height) {
+        column += 1;
+        y = area.y;
+        if (column >= columns) {
+          page = addPage(`${title} (continued)`);
+          column = 0;
+        }
+      }
+      const placed = { page, x: area.x + column * (columnWidth + gap), y };
+      y += height;
+      return placed;
+    },
+  };
+}
+
+/**
+ * Exports the printable atlas of a realm as a PDF file. The map is taken from an SVG element
+ * showing the whole realm, such as the export preview, so that it matches what was previewed.
+ * @param svgId The ID of the SVG element showing the map.
+ * @param fileName The desired file name for the PDF.
+ * @param options The realm, its display settings and the print settings.
+ */
+export async function exportAtlasAsPdf(
+  svgId: string,
+  fileName: string,
+  options: AtlasExportOptions
+) {
+  const svgElement = document.getElementById(svgId) as unknown as SVGElement | null;
+  if (!svgElement) {
+    return;
+  }
+
+  const { realm, tileSets, terrainColors, viewOptions, paperSize, printHexSize } = options;
+  const { isGmView, orientation, hexSize } = viewOptions;
+  const knight = viewOptions.visibility.knight;
+  const edition = isGmView ? 'Referee Edition' : 'Knight Edition';
+  const plan = planAtlas(realm, viewOptions, paperSize, printHexSize);
+  const { mapArea, scale } = plan;
+
+  const markup = await serializeStandaloneSvg(svgElement, { hideSelectionHighlights: true });
+  const svg = new DOMParser().parseFromString(markup, 'image/svg+xml')
+    .documentElement as unknown as SVGSVGElement;
+  // The sheets carry their own coordinates and the atlas its own legend, and the overlays are
+  // placed for the whole map rather than for each sheet.
+  svg
+    .querySelectorAll('[data-hex-labels], [data-map-overlays]')
+    .forEach((element) => element.remove());
+  const hexLabel = createHexLabeler(
+    realm.hexes,
+    viewOptions.hexLabels === 'none' ? 'axial' : viewOptions.hexLabels,
+    orientation
+  );
+
+  const pdf = new PdfDocument(`Realm Atlas - ${edition}`);
+  const pages: { page: PdfPage; title: string; footer?: string }[] = [];
+  const addPage = (title: string, footer?: string) => {
+    const page = pdf.addPage(plan.pageWidth, plan.pageHeight);
+    pages.push(footer === undefined ? { page, title } : { page, title, footer });
+    return page;
+  };
+
+  const isFogged = (hex: Hex) => !isGmView && knight.fogOfWar && !hex.isRevealed;
+  const isSeatOfPowerShown = isGmView || knight.seatOfPower;
+
+  // The overview: the whole map with the sheets marked on it.
+  const overviewBox = plan.bounds;
+  const overviewScale = Math.min(
+    mapArea.width / overviewBox.width,
+    mapArea.height / overviewBox.height
+  );
+  const overviewArea: Box = {
+    x: mapArea.x + (mapArea.width - overviewBox.width * overviewScale) / 2,
+    y: mapArea.y + (mapArea.height - overviewBox.height * overviewScale) / 2,
+    width: overviewBox.width * overviewScale,
+    height: overviewBox.height * overviewScale,
+  };
+  const overview = addPage(
+    'Overview',
+    `${plan.sheets.length} ${plan.sheets.length === 1 ? 'sheet' : 'sheets'} of ${
+      PAPER_SIZES[paperSize].label
+    }, ${plan.columns} across and ${plan.rows} down`
+  );
+  overview.drawImage(
+    await addMapImage(pdf, svg, overviewBox, overviewArea),
+    overviewArea.x,
+    overviewArea.y,
+    overviewArea.width,
+    overviewArea.height
+  );
+  plan.sheets.forEach((sheet) => {
+    const x = overviewArea.x + (sheet.viewBox.x - overviewBox.x) * overviewScale;
+    const y = overviewArea.y + (sheet.viewBox.y - overviewBox.y) * overviewScale;
+    const width = sheet.viewBox.width * overviewScale;
+    const height = sheet.viewBox.height * overviewScale;
+    overview.drawRect(x, y, width, height, { stroke: TEXT_COLOR, lineWidth: 0.75, dash: [3, 2] });
+    overview.drawRect(x + 3, y + 3, 22, 12, { fill: '#ffffff' });
+    overview.drawText(sheet.label, x + 14, y + 12.5, { size: 8, bold: true, align: 'center' });
+  });
+
+  // The map sheets.
+  const sheetAt = (column: number, row: number) =>
+    plan.sheets.find((sheet) => sheet.column === column && sheet.row === row);
+  const labelSize = Math.min(7, Math.max(4, printHexSize * PT_PER_MM * 0.12));
+  for (const sheet of plan.sheets) {
+    const neighbours = [
+      ['N', sheetAt(sheet.column, sheet.row - 1)],
+      ['E', sheetAt(sheet.column + 1, sheet.row)],
+      ['S', sheetAt(sheet.column, sheet.row + 1)],
+      ['W', sheetAt(sheet.column - 1, sheet.row)],
+    ] as const;
+    const adjoining = neighbours
+      .filter(([, neighbour]) => neighbour)
+      .map(([direction, neighbour]) => `${direction}: ${neighbour?.label ?? ''}`)
+      .join('   ');
+    const page = addPage(
+      `Sheet ${sheet.label}`,
+      adjoining ? `Adjoining sheets - ${adjoining}` : undefined
+    );
+    page.drawImage(
+      await addMapImage(pdf, svg, sheet.viewBox, mapArea),
+      mapArea.x,
+      mapArea.y,
+      mapArea.width,
+      mapArea.height
+    );
+
+    // Guides marking the strips repeated on the neighbouring sheets.
+    const guide = { stroke: GUIDE_COLOR, lineWidth: 0.5, dash: [4, 3] };
+    const right = mapArea.x + mapArea.width;
+    const bottom = mapArea.y + mapArea.height;
+    if (sheet.column > 0) {
+      const x = mapArea.x + SHEET_OVERLAP;
+      page.drawLine(x, mapArea.y, x, bottom, guide);
+    }
+    if (sheetAt(sheet.column + 1, sheet.row)) {
+      page.drawLine(right - SHEET_OVERLAP, mapArea.y, right - SHEET_OVERLAP, bottom, guide);
+    }
+    if (sheet.row > 0) {
+      const y = mapArea.y + SHEET_OVERLAP;
+      page.drawLine(mapArea.x, y, right, y, guide);
+    }
+    if (sheetAt(sheet.column, sheet.row + 1)) {
+      page.drawLine(mapArea.x, bottom - SHEET_OVERLAP, right, bottom - SHEET_OVERLAP, guide);
+    }
+
+    // The coordinates of each hex, just below its centre.
+    realm.hexes.forEach((hex) => {
+      const center = axialToPixel(hex, orientation, hexSize);
+      const x = mapArea.x + (center.x - sheet.viewBox.x) * scale;
+      const y = mapArea.y + (center.y - sheet.viewBox.y + hexSize.y * 0.6) * scale;
+      if (x < mapArea.x + 8 || x > right - 8 || y < mapArea.y + 8 || y > bottom - 2) return;
+      const label = hexLabel(hex);
+      const width = measureText(label, labelSize) + 2;
+      page.drawRect(x - width / 2, y - labelSize, width, labelSize + 1.5, { fill: '#ffffff' });
+      page.drawText(label, x, y, { size: labelSize, color: TEXT_COLOR, align: 'center' });
+    });
+    page.drawRect(mapArea.x, mapArea.y, mapArea.width, mapArea.height, {
+      stroke: TEXT_COLOR,
+      lineWidth: 0.75,
+    });
+  }
+
+  // The legend, built from the tile set.
+  const rowHeight = 20;
+  const swatch = 14;
+  const legend = createFlow(addPage, plan, 'Legend', 2);
+  const legendHeading = (text: string) => {
+    const { page, x, y } = legend.place(rowHeight + 6);
+    page.drawText(text, x, y + rowHeight, { size: 11, bold: true, color: TEXT_COLOR });
+  };
+  const legendRow = (label: string, drawSymbol: (page: PdfPage, x: number, y: number) => void) => {
+    const { page, x, y } = legend.place(rowHeight);
+    drawSymbol(page, x, y + (rowHeight - swatch) / 2);
+    page.drawText(fitText(label, 9, legend.columnWidth - swatch - 8), x + swatch + 8, y + 13.5, {
+      size: 9,
+      color: TEXT_COLOR,
+    });
+  };
+
+  legendHeading('Terrain');
+  tileSets.terrain.forEach((tile) =>
+    legendRow(tile.label, (page, x, y) =>
+      page.drawRect(x, y, swatch, swatch, {
+        fill: terrainColors[tile.id] ?? getTerrainBaseColor(tile.id),
+        stroke: MUTED_TEXT_COLOR,
+        lineWidth: 0.5,
+      })
+    )
+  );
+
+  const poiSections = [
+    {
+      title: 'Holdings',
+      tiles: tileSets.holding.filter((tile) => isGmView || (knight.holdings[tile.id] ?? true)),
+      borderColor: HOLDING_ICON_BORDER_COLOR,
+    },
+    {
+      title: 'Landmarks',
+      tiles: tileSets.landmark.filter((tile) => isGmView || (knight.landmarks[tile.id] ?? true)),
+      borderColor: LANDMARK_ICON_BORDER_COLOR,
+    },
+  ];
+  for (const { title, tiles, borderColor } of poiSections) {
+    if (tiles.length === 0) continue;
+    legendHeading(title);
+    for (const tile of tiles) {
+      const icon = await addIconImage(pdf, tile, borderColor);
+      legendRow(tile.label, (page, x, y) => page.drawImage(icon, x, y, swatch, swatch));
+    }
+  }
+
+  legendHeading('Features');
+  if (isSeatOfPowerShown) {
+    legendRow('Seat of Power', (page, x, y) =>
+      page.drawRect(x + 1, y + 1, swatch - 2, swatch - 2, {
+        fill: CARD_SURFACE_COLOR,
+        stroke: SEAT_OF_POWER_COLOR,
+        lineWidth: 2,
+      })
+    );
+  }
+  legendRow('Myth', (page, x, y) => {
+    page.drawCircle(x + swatch / 2, y + swatch / 2, swatch / 2, { fill: MYTH_COLOR });
+    page.drawText('1', x + swatch / 2, y + swatch / 2 + 3, {
+      size: 8,
+      bold: true,
+      color: TEXT_INVERSE_COLOR,
+      align: 'center',
+    });
+  });
+  PATH_TYPES.forEach((type) => {
+    const style = PATH_STYLES[type];
+    const width = style.width * 0.4;
+    const dash = style.dash?.split(/\s+/).map((length) => Number(length) * 0.4);
+    legendRow(style.label, (page, x, y) =>
+      page.drawLine(x, y + swatch / 2, x + swatch, y + swatch / 2, {
+        stroke: style.color,
+        lineWidth: width,
+        ...(dash ? { dash } : {}),
+      })
+    );
+  });
+  if (isGmView || knight.showBarriers) {
+    legendRow('Barrier', (page, x, y) =>
+      page.drawLine(x, y + swatch / 2, x + swatch, y + swatch / 2, {
+        stroke: BARRIER_COLOR,
+        lineWidth: 2.4,
+      })
+    );
+  }
+  if (!isGmView && knight.fogOfWar) {
+    legendRow('Unexplored', (page, x, y) =>
+      page.drawRect(x, y, swatch, swatch, { fill: FOG_COLOR })
+    );
+  }
+
+  // The index of myths, holdings and landmarks.
+  const tileLabel = (tiles: Tile[], id: string) =>
+    tiles.find((tile) => tile.id === id)?.label ?? id;
+  const mythNames = new Map(realm.myths.map((myth) => [myth.id, myth.name]));
+  const showDetails = isGmView || knight.showPoiDetails;
+  const myths: IndexEntry[] = [];
+  const holdings: IndexEntry[] = [];
+  const landmarks: IndexEntry[] = [];
+  realm.hexes.forEach((hex) => {
+    if (isFogged(hex)) return;
+    if (hex.myth && (isGmView || (knight.myths[hex.myth] ?? true))) {
+      myths.push({
+        type: `Myth ${hex.myth}`,
+        name: isGmView ? (mythNames.get(hex.myth) ?? '') : '',
+        hex,
+      });
+    }
+    if (hex.holding && (isGmView || (knight.holdings[hex.holding] ?? true))) {
+      const isSeatOfPower =
+        isSeatOfPowerShown && hex.q === realm.seatOfPower.q && hex.r === realm.seatOfPower.r;
+      const details = showDetails ? hex.holdingDetails : undefined;
+      holdings.push({
+        type: `${tileLabel(tileSets.holding, hex.holding)}${isSeatOfPower ? ' (Seat of Power)' : ''}`,
+        name: [details?.name, details?.occupant].filter(Boolean).join(', '),
+        hex,
+      });
+    }
+    if (hex.landmark && (isGmView || (knight.landmarks[hex.landmark] ?? true))) {
+      const details = showDetails ? hex.landmarkDetails : undefined;
+      landmarks.push({
+        type: tileLabel(tileSets.landmark, hex.landmark),
+        name: [details?.name, details?.occupant].filter(Boolean).join(', '),
+        hex,
+      });
+    }
+  });
+
+  const index = createFlow(addPage, plan, 'Index', 1);
+  const columns = [0, 0.3, 0.78, 0.9].map((fraction) => fraction * index.columnWidth);
+  const indexRow = (cells: string[], bold: boolean, color = TEXT_COLOR) => {
+    const { page, x, y } = index.place(14);
+    cells.forEach((cell, cellIndex) => {
+      const left = columns[cellIndex] ?? 0;
+      const width = (columns[cellIndex + 1] ?? index.columnWidth) - left - 6;
+      page.drawText(fitText(cell, 9, width, bold), x + left, y + 10, { size: 9, bold, color });
+    });
+  };
+  [
+    { title: 'Myths', entries: myths.sort((a, b) => (a.hex.myth ?? 0) - (b.hex.myth ?? 0)) },
+    { title: 'Holdings', entries: holdings },
+    { title: 'Landmarks', entries: landmarks },
+  ].forEach(({ title, entries }) => {
+    const { page, x, y } = index.place(rowHeight + 6);
+    page.drawText(title, x, y + rowHeight, { size: 11, bold: true, color: TEXT_COLOR });
+    if (entries.length === 0) {
+      indexRow(['None'], false, MUTED_TEXT_COLOR);
+      return;
+    }
+    indexRow(['Type', 'Name', 'Hex', 'Sheet'], true, MUTED_TEXT_COLOR);
+    entries.forEach(({ type, name, hex }) => {
+      const sheet = findSheet(plan, axialToPixel(hex, orientation, hexSize));
+      indexRow([type, name, hexLabel(hex), sheet?.label ?? ''], false);
+    });
+  });
+
+  // Headers and footers, now that the number of pages is known.
+  pages.forEach(({ page, title, footer }, pageIndex) => {
+    const top = PAGE_MARGIN + 12;
+    const bottom = plan.pageHeight - PAGE_MARGIN;
+    const right = plan.pageWidth - PAGE_MARGIN;
+    page.drawText(`Realm Atlas - ${edition}`, PAGE_MARGIN, top, {
+      size: 10,
+      color: MUTED_TEXT_COLOR,
+    });
+    page.drawText(title, right, top, { size: 12, bold: true, color: TEXT_COLOR, align: 'right' });
+    if (footer) page.drawText(footer, PAGE_MARGIN, bottom, { size: 8, color: MUTED_TEXT_COLOR });
+    page.drawText(`Page ${pageIndex + 1} of ${pages.length}`, right, bottom, {
+      size: 8,
+      color: MUTED_TEXT_COLOR,
+      align: 'right',
+    });
+  });
+
+  downloadBlob(pdf.toBlob(), fileName);
+}
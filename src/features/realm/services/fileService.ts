@@ -1,27 +1,83 @@
 /**
  * @file fileService.ts
  * This file contains utility functions for handling file operations,
- * such as exporting the realm data to JSON and exporting the SVG map to a PNG image.
+ * such as saving a project to JSON and exporting the SVG map to a PNG or SVG image.
  */
 
-import type { Realm } from '@/features/realm/types';
+import type { NameTables, RealmDocument } from '@/features/realm/types';
 
-interface SvgRasterizeOptions {
-  scale?: number;
+interface SvgSerializeOptions {
   hideSelectionHighlights?: boolean;
 }
 
+interface SvgRasterizeOptions extends SvgSerializeOptions {
+  scale?: number;
+}
+
+/**
+ * The style properties copied from the page onto the exported SVG. The map relies on
+ * stylesheet classes for these, e.g. `currentColor` icons and the myth number font.
+ */
+const INLINED_STYLE_PROPERTIES = [
+  'color',
+  'fill',
+  'stroke',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'font-style',
+] as const;
+
+/**
+ * Removes the selection and hover highlights from a cloned map.
+ */
+function removeSelectionHighlights(clone: SVGElement) {
+  clone.querySelectorAll('.hex-selection-highlight, .hex-hover-highlight').forEach((element) => {
+    element.remove();
+  });
+}
+
+/**
+ * Triggers a download of a file from a URL.
+ */
+function downloadUrl(url: string, fileName: string) {
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+}
+
+/**
+ * Saves a project (a realm document) as a JSON file.
+ * @param realmDocument The versioned realm document to be saved.
+ */
+export function exportProjectAsJson(realmDocument: RealmDocument) {
+  const jsonString = JSON.stringify(realmDocument, null, 2);
+  const blob = new Blob([jsonString], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = 'realm-project.json';
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 /**
- * Exports the current realm data as a JSON file.
- * @param realm The realm object to be exported.
+ * Saves name tables as a JSON file, to be edited and imported again.
+ * @param nameTables The name tables to save.
  */
-export function exportRealmAsJson(realm: Realm) {
-  const jsonString = JSON.stringify(realm, null, 2);
+export function exportNameTablesAsJson(nameTables: NameTables) {
+  const jsonString = JSON.stringify(nameTables, null, 2);
   const blob = new Blob([jsonString], { type: 'application/json' });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
-  a.download = 'realm-data.json';
+  a.download = 'name-tables.json';
   document.body.appendChild(a);
   a.click();
   document.body.removeChild(a);
@@ -44,12 +100,193 @@ export async function exportSvgAsPng(
   }
 
   const pngUrl = await rasterizeSvgToPng(svgElement, options);
-  const anchor = document.createElement('a');
-  anchor.href = pngUrl;
-  anchor.download = fileName;
-  document.body.appendChild(anchor);
-  anchor.click();
-  document.body.removeChild(anchor);
+  downloadUrl(pngUrl, fileName);
+}
+
+/**
+ * Exports an SVG element as a standalone SVG image file.
+ * @param svgId The ID of the SVG element to export.
+ * @param fileName The desired file name for the SVG image.
+ */
+export async function exportSvgAsSvg(
+  svgId: string,
+  fileName: string,
+  options: SvgSerializeOptions = {}
+) {
+  const svgElement = document.getElementById(svgId) as unknown as SVGElement | null;
+  if (!svgElement) {
+    return;
+  }
+
+  const svgData = await serializeStandaloneSvg(svgElement, options);
+  downloadBlob(new Blob([svgData], { type: 'image/svg+xml' }), fileName);
+}
+
+/**
+ * Saves generated file data, e.g. a PDF, as a file.
+ * @param blob The file data.
+ * @param fileName The desired file name.
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, fileName);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Reads a font file into a data URL, so it can be embedded in an exported image.
+ * @returns The data URL, or null if the font could not be fetched.
+ */
+async function fetchFontAsDataUrl(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return await new Promise((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : null);
+      reader.onerror = () => resolve(null);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds `@font-face` rules, with the font files embedded, for the page fonts used by an
+ * exported image. Fonts that cannot be read are left out and fall back to the generic family.
+ * @param fontFamilies The computed `font-family` values used in the image.
+ */
+async function embedFontFaces(fontFamilies: Set<string>): Promise<string> {
+  const rules: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let cssRules: CSSRuleList;
+    try {
+      cssRules = sheet.cssRules;
+    } catch {
+      // Stylesheets from other origins cannot be read.
+      continue;
+    }
+    for (const rule of Array.from(cssRules)) {
+      if (!(rule instanceof CSSFontFaceRule)) continue;
+      const family = rule.style.getPropertyValue('font-family').replace(/["']/g, '').trim();
+      const isUsed = [...fontFamilies].some((used) =>
+        used.split(',').some((name) => name.replace(/["']/g, '').trim() === family)
+      );
+      const source = /url\(["']?([^"')]+)["']?\)/.exec(rule.style.getPropertyValue('src'))?.[1];
+      if (!isUsed || !source) continue;
+
+      const dataUrl = await fetchFontAsDataUrl(
+        new URL(source, sheet.href ?? document.baseURI).href
+      );
+      if (!dataUrl) continue;
+      const weight = rule.style.getPropertyValue('font-weight') || 'normal';
+      const style = rule.style.getPropertyValue('font-style') || 'normal';
+      rules.push(
+        `@font-face { font-family: '${family}'; src: url('${dataUrl}'); font-weight: ${weight}; font-style: ${style}; }`
+      );
+    }
+  }
+  return rules.join('\n');
+}
+
+/**
+ * Serializes an SVG element into a standalone SVG document. Styles that come from the page's
+ * stylesheets are inlined and the fonts used are embedded, so the image looks the same in any
+ * viewer or print layout tool and stays sharp at any size.
+ * @param svgElement The SVG element to serialize.
+ * @param options Export options controlling selection visibility.
+ * @returns A Promise that resolves with the SVG document.
+ */
+export async function serializeStandaloneSvg(
+  svgElement: SVGElement,
+  options: SvgSerializeOptions = {}
+): Promise<string> {
+  const { hideSelectionHighlights = false } = options;
+  const clone = svgElement.cloneNode(true) as SVGElement;
+
+  // The clone mirrors the original, so their elements can be paired up in document order.
+  const sourceElements = [svgElement, ...Array.from(svgElement.querySelectorAll('*'))];
+  const cloneElements = [clone, ...Array.from(clone.querySelectorAll('*'))];
+  const fontFamilies = new Set<string>();
+  sourceElements.forEach((source, index) => {
+    const target = cloneElements[index];
+    if (!target || !source.hasAttribute('class')) return;
+    const computed = window.getComputedStyle(source);
+    INLINED_STYLE_PROPERTIES.forEach((property) => {
+      (target as SVGElement).style.setProperty(property, computed.getPropertyValue(property));
+    });
+    if (source.querySelector('text') || source instanceof SVGTextElement) {
+      fontFamilies.add(computed.getPropertyValue('font-family'));
+    }
+  });
+
+  if (hideSelectionHighlights) {
+    removeSelectionHighlights(clone);
+  }
+  clone.querySelectorAll('[class]').forEach((element) => element.removeAttribute('class'));
+  clone.removeAttribute('class');
+  clone.removeAttribute('id');
+
+  const [, , vbWidth, vbHeight] = (clone.getAttribute('viewBox') ?? '').split(' ').map(Number);
+  if (vbWidth && vbHeight && vbWidth > 0 && vbHeight > 0) {
+    clone.setAttribute('width', `${vbWidth}`);
+    clone.setAttribute('height', `${vbHeight}`);
+  }
+
+  const fontFaces = await embedFontFaces(fontFamilies);
+  if (fontFaces) {
+    const style = document.createElementNS('http://www.w3.org/2000/svg', 'style');
+    style.textContent = fontFaces;
+    clone.insertBefore(style, clone.firstChild);
+  }
+
+  const serializer = new XMLSerializer();
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serializer.serializeToString(clone)}`;
+}
+
+/**
+ * Renders SVG markup, e.g. from `serializeStandaloneSvg`, to an image of the given size.
+ * @param markup The SVG document.
+ * @param width The width of the image, in pixels.
+ * @param height The height of the image, in pixels.
+ * @param options The image type, and a colour to fill the background with before drawing.
+ * @returns A Promise that resolves with the image file data.
+ */
+export async function rasterizeSvgMarkup(
+  markup: string,
+  width: number,
+  height: number,
+  options: { type?: 'image/png' | 'image/jpeg'; background?: string | undefined } = {}
+): Promise<Blob> {
+  const { type = 'image/png', background } = options;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context is unavailable.');
+
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Failed to rasterize SVG element.'));
+      image.src = url;
+    });
+    if (background) {
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(image, 0, 0, width, height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.92));
+  if (!blob) throw new Error('Failed to encode the map image.');
+  return blob;
 }
 
 /**
@@ -66,9 +303,7 @@ export function rasterizeSvgToPng(
   const clone = svgElement.cloneNode(true) as SVGElement;
 
   if (hideSelectionHighlights) {
-    clone.querySelectorAll('.hex-selection-highlight, .hex-hover-highlight').forEach((element) => {
-      element.remove();
-    });
+    removeSelectionHighlights(clone);
   }
 
   const serializer = new XMLSerializer();
@@ -0,0 +1,125 @@
+/**
+ * @file formations.ts
+ * This file defines the highland formations used during terrain generation. Each formation
+ * is an elevation field over the map that is added to the noise, pulling highlands towards
+ * the shape of the formation.
+ */
+
+import type { GenerationOptions, HighlandFormation } from '@/features/realm/types';
+import type { RandomSource } from '@/features/realm/utils/randomUtils';
+
+/**
+ * An elevation modifier over the map. Coordinates are relative to the map centre and scaled
+ * so that the longer half-extent of the map is 1, with y pointing down. Highlands form where
+ * the field is high, lowlands where it is low.
+ */
+export type FormationField = (x: number, y: number) => number;
+
+/**
+ * Describes a single highland formation.
+ */
+export interface FormationDefinition {
+  /** Creates the elevation field. Formations with random features draw them from `random`. */
+  createField: (random: RandomSource) => FormationField;
+  /** Whether the formation can be inverted, swapping its highlands and lowlands. */
+  invertible: boolean;
+  /** The rotation (in degrees) after which the formation repeats itself, or `null` if it cannot be rotated. */
+  rotationPeriod: number | null;
+}
+
+const SIN_60 = Math.sqrt(3) / 2;
+
+/**
+ * A cone of height 1 at the given point, falling to 0 at the given radius.
+ */
+const cone = (x: number, y: number, cx: number, cy: number, radius: number) =>
+  Math.max(0, 1 - Math.hypot(x - cx, y - cy) / radius);
+
+/** All highland formations except 'random', which leaves elevation to the noise alone. */
+export const HIGHLAND_FORMATIONS: Record<
+  Exclude<HighlandFormation, 'random'>,
+  FormationDefinition
+> = {
+  // A slope rising towards the top of the map.
+  linear: {
+    createField: () => (_x, y) => -y,
+    invertible: false,
+    rotationPeriod: 360,
+  },
+  // A dome centred on the map.
+  circle: {
+    createField: () => (x, y) => 1 - Math.min(1, Math.hypot(x, y) / Math.SQRT2),
+    invertible: true,
+    rotationPeriod: null,
+  },
+  // A triangular pyramid with its tip towards the top of the map. The distance from the
+  // centre is measured along the normals of the three edges, so the contours are triangles.
+  triangle: {
+    createField: () => (x, y) => {
+      const distance = Math.max(y, -SIN_60 * x - 0.5 * y, SIN_60 * x - 0.5 * y);
+      return 1 - Math.min(1, distance);
+    },
+    invertible: true,
+    rotationPeriod: 120,
+  },
+  // A meandering chain of peaks running across the map.
+  ridge: {
+    createField: (random) => {
+      const phase = random() * Math.PI * 2;
+      return (x, y) => {
+        const spine = 0.15 * Math.sin(x * Math.PI * 1.5 + phase);
+        const across = 1 - Math.min(1, Math.abs(y - spine) / 0.45);
+        const along = 0.75 + 0.25 * Math.cos(x * Math.PI * 4 + phase);
+        return across * along;
+      };
+    },
+    invertible: true,
+    rotationPeriod: 180,
+  },
+  // A scattering of separate islands of high ground.
+  archipelago: {
+    createField: (random) => {
+      const count = 5 + Math.floor(random() * 4);
+      const islands = Array.from({ length: count }, () => ({
+        x: random() * 1.6 - 0.8,
+        y: random() * 1.6 - 0.8,
+        radius: 0.2 + random() * 0.2,
+      }));
+      return (x, y) => Math.max(0, ...islands.map((i) => cone(x, y, i.x, i.y, i.radius)));
+    },
+    invertible: true,
+    rotationPeriod: null,
+  },
+  // Two peaks either side of the map centre.
+  twinPeaks: {
+    createField: () => (x, y) => Math.max(cone(x, y, -0.45, 0, 0.6), cone(x, y, 0.45, 0, 0.6)),
+    invertible: true,
+    rotationPeriod: 180,
+  },
+};
+
+/**
+ * Creates the elevation field for the formation selected in the generation options,
+ * applying its rotation and inversion.
+ * @param options - The generation options.
+ * @param random - The seeded random source.
+ * @returns The elevation field, or `null` for the 'random' formation.
+ */
+export function createFormationField(
+  options: Pick<
+    GenerationOptions,
+    'highlandFormation' | 'highlandFormationRotation' | 'highlandFormationInverse'
+  >,
+  random: RandomSource
+): FormationField | null {
+  if (options.highlandFormation === 'random') return null;
+  const definition = HIGHLAND_FORMATIONS[options.highlandFormation];
+  const field = definition.createField(random);
+  const rotation = definition.rotationPeriod === null ? 0 : options.highlandFormationRotation;
+  const angle = (rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const sign = definition.invertible && options.highlandFormationInverse === true ? -1 : 1;
+  // Rotating the sample point backwards turns the formation clockwise, matching the preview icon.
+  return (x, y) => sign * field(x * cos + y * sin, -x * sin + y * cos);
+}
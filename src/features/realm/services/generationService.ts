@@ -0,0 +1,136 @@
+/**
+ * @file generationService.ts
+ * This file runs realm generation and terrain texture pre-rendering in a web worker, so that
+ * large realms do not freeze the page. Each task gets a worker of its own, which is terminated
+ * when the task is cancelled. Where workers are not available, the tasks run on the page.
+ */
+
+import type {
+  GenerationOptions,
+  GenerationProgress,
+  Point,
+  Realm,
+  TerrainTextures,
+  TileSet,
+} from '@/features/realm/types';
+import { generateTerrainTextures } from '@/features/realm/utils/textureUtils';
+import { generateRealm } from './realmGenerator';
+import type { GenerateRealmOptions } from './realmGenerator';
+import type { GenerationTask, GenerationWorkerMessage } from './generationWorker';
+
+/**
+ * Thrown when a task is cancelled before it finishes.
+ */
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Generation was cancelled.');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+/** Options for running a task in the background. */
+export interface BackgroundTaskOptions {
+  /** Cancels the task when aborted. */
+  signal?: AbortSignal;
+  /** Called as the task moves through its stages. */
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+/**
+ * Runs a task in a new worker.
+ * @returns A promise that resolves to the message holding the result of the task.
+ */
+function runInWorker(
+  task: GenerationTask,
+  { signal, onProgress }: BackgroundTaskOptions
+): Promise<GenerationWorkerMessage> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new GenerationCancelledError());
+      return;
+    }
+    const worker = new Worker(new URL('./generationWorker.ts', import.meta.url), {
+      type: 'module',
+    });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', cancel);
+    };
+    const cancel = () => {
+      finish();
+      reject(new GenerationCancelledError());
+    };
+    signal?.addEventListener('abort', cancel);
+
+    worker.addEventListener('message', (event: MessageEvent<GenerationWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      finish();
+      if (message.type === 'error') reject(new Error(message.message));
+      else resolve(message);
+    });
+    worker.addEventListener('error', (event) => {
+      finish();
+      reject(new Error(event.message || 'The generation worker stopped unexpectedly.'));
+    });
+    worker.postMessage(task);
+  });
+}
+
+/**
+ * Generates a realm in a web worker.
+ * @param options - The shape and size of the realm.
+ * @param genOptions - The options for generation.
+ * @param taskOptions - The signal that cancels generation, and the progress listener.
+ * @returns A promise that resolves to the realm, or rejects with a `GenerationCancelledError`
+ *   if generation is cancelled.
+ */
+export async function generateRealmInBackground(
+  options: GenerateRealmOptions,
+  genOptions: GenerationOptions,
+  taskOptions: BackgroundTaskOptions = {}
+): Promise<Realm> {
+  if (typeof Worker === 'undefined') {
+    if (taskOptions.signal?.aborted) throw new GenerationCancelledError();
+    return generateRealm(options, genOptions, taskOptions.onProgress);
+  }
+  const message = await runInWorker({ type: 'realm', options, genOptions }, taskOptions);
+  if (message.type !== 'realm') throw new Error('The generation worker sent no realm.');
+  return message.realm;
+}
+
+/**
+ * Pre-renders the terrain textures in a web worker. Browsers that cannot draw on an offscreen
+ * canvas in a worker render them on the page instead.
+ * @param tileSets - The complete set of tile definitions.
+ * @param terrainColors - A map of terrain IDs to their current hex colors.
+ * @param hexSize - The size of the hexes the textures are drawn for.
+ * @param taskOptions - The signal that cancels rendering.
+ * @returns A promise that resolves to the textures, or rejects with a
+ *   `GenerationCancelledError` if rendering is cancelled.
+ */
+export async function generateTerrainTexturesInBackground(
+  tileSets: TileSet,
+  terrainColors: Record<string, string>,
+  hexSize: Point,
+  taskOptions: BackgroundTaskOptions = {}
+): Promise<TerrainTextures> {
+  const devicePixelRatio = typeof window !== 'undefined' ? (window.devicePixelRatio ?? 1) : 1;
+  if (typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined') {
+    try {
+      const message = await runInWorker(
+        { type: 'textures', tileSets, terrainColors, hexSize, devicePixelRatio },
+        taskOptions
+      );
+      if (message.type === 'textures') return message.textures;
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) throw error;
+      console.warn('Rendering terrain textures in a worker failed, rendering on the page:', error);
+    }
+  }
+  if (taskOptions.signal?.aborted) throw new GenerationCancelledError();
+  return generateTerrainTextures(tileSets, terrainColors, hexSize, devicePixelRatio);
+}
@@ -0,0 +1,69 @@
+/**
+ * @file generationWorker.ts
+ * This file is the web worker that generates realms and pre-renders terrain textures, so that
+ * the page stays responsive while they are made. It is started by `generationService`, which
+ * gives each worker one task and terminates it to cancel the task.
+ */
+
+import type {
+  GenerationOptions,
+  GenerationProgress,
+  Point,
+  Realm,
+  TerrainTextures,
+  TileSet,
+} from '@/features/realm/types';
+import { generateTerrainTextures } from '@/features/realm/utils/textureUtils';
+import { generateRealm } from './realmGenerator';
+import type { GenerateRealmOptions } from './realmGenerator';
+
+/** A task for the worker. */
+export type GenerationTask =
+  | { type: 'realm'; options: GenerateRealmOptions; genOptions: GenerationOptions }
+  | {
+      type: 'textures';
+      tileSets: TileSet;
+      terrainColors: Record<string, string>;
+      hexSize: Point;
+      devicePixelRatio: number;
+    };
+
+/** A message from the worker: progress on its task, the result, or why the task failed. */
+export type GenerationWorkerMessage =
+  | { type: 'progress'; progress: GenerationProgress }
+  | { type: 'realm'; realm: Realm }
+  | { type: 'textures'; textures: TerrainTextures }
+  | { type: 'error'; message: string };
+
+const post = (message: GenerationWorkerMessage) => globalThis.postMessage(message);
+
+/**
+ * Runs a task and posts its result.
+ */
+const runTask = async (task: GenerationTask) => {
+  switch (task.type) {
+    case 'realm': {
+      const realm = generateRealm(task.options, task.genOptions, (progress) =>
+        post({ type: 'progress', progress })
+      );
+      post({ type: 'realm', realm });
+      break;
+    }
+    case 'textures': {
+      const textures = await generateTerrainTextures(
+        task.tileSets,
+        task.terrainColors,
+        task.hexSize,
+        task.devicePixelRatio
+      );
+      post({ type: 'textures', textures });
+      break;
+    }
+  }
+};
+
+globalThis.addEventListener('message', (event: MessageEvent<GenerationTask>) => {
+  runTask(event.data).catch((error: unknown) =>
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  );
+});
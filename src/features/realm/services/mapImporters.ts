@@ -0,0 +1,532 @@
+/**
+ * @file mapImporters.ts
+ * This file contains the importers for hex maps made with other tools: Tiled JSON maps,
+ * Worldographer (and Hexographer 2) `.wxx` files and plain CSV lists of `q,r,terrain`. Each
+ * importer reads a file into a `ForeignMap`, whose tiles are then matched to the realm's
+ * terrain types before the map is turned into a `Realm`.
+ */
+
+import type {
+  ForeignMap,
+  ForeignMapFormat,
+  ForeignTile,
+  Hex,
+  HexOrientation,
+  Realm,
+  TerrainMapping,
+  Tile,
+} from '@/features/realm/types';
+import { DEFAULT_PARTY } from '@/features/realm/config/constants';
+import { getAxialDistance } from '@/features/realm/utils/hexUtils';
+
+/** The largest map that can be imported, in hexes. */
+const MAX_IMPORTED_HEXES = 10000;
+
+/** Tile names that mean "no tile", whose hexes are left out by default. */
+const BLANK_TILE_PATTERN = /^(blank|empty|none|void|unknown)$/;
+
+/** Words in other tools' tile names that suggest each of the standard terrain types. */
+const TERRAIN_KEYWORDS: Record<string, string[]> = {
+  marsh: ['marsh', 'swamp', 'wetland', 'fen'],
+  heath: ['heath', 'moor', 'scrub', 'tundra', 'shrub'],
+  crags: ['crag', 'rock', 'cliff', 'badland', 'broken'],
+  peaks: ['peak', 'mountain', 'volcano', 'summit', 'alpine'],
+  forest: ['forest', 'wood', 'jungle', 'tree', 'taiga'],
+  valley: ['valley', 'canyon', 'gorge', 'dale'],
+  hills: ['hill', 'highland', 'downs', 'mound'],
+  meadow: ['meadow', 'grass', 'field', 'farm', 'pasture'],
+  bog: ['bog', 'mire', 'quagmire'],
+  lakes: ['lake', 'water', 'sea', 'ocean', 'river', 'pond', 'coast'],
+  glades: ['glade', 'clearing', 'grove'],
+  plain: ['plain', 'flat', 'steppe', 'prairie', 'savanna', 'desert', 'open'],
+};
+
+/**
+ * Thrown when a file cannot be imported as a hex map.
+ */
+export class MapImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MapImportError';
+  }
+}
+
+/** A hex read from a file, by its column and row, before conversion to axial coordinates. */
+interface OffsetCell {
+  column: number;
+  row: number;
+  tileId: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Converts offset coordinates to axial ones. Pointy hexes are laid out in staggered rows and
+ * flat hexes in staggered columns; `oddShifted` tells whether the odd rows (or columns) are the
+ * ones pushed out by half a hex.
+ */
+function offsetToAxial(
+  column: number,
+  row: number,
+  orientation: HexOrientation,
+  oddShifted: boolean
+): { q: number; r: number } {
+  if (orientation === 'pointy') {
+    const q = oddShifted ? column - (row - (row & 1)) / 2 : column - (row + (row & 1)) / 2;
+    return { q, r: row };
+  }
+  const r = oddShifted ? row - (column - (column & 1)) / 2 : row - (column + (column & 1)) / 2;
+  return { q: column, r };
+}
+
+/**
+ * Checks that a map is small enough to import, before anything is measured or copied.
+ * @throws {MapImportError} If the map has more hexes than can be imported.
+ */
+function checkImportSize(count: number) {
+  if (count > MAX_IMPORTED_HEXES) {
+    throw new MapImportError(
+      `The map has ${count} hexes, more than the ${MAX_IMPORTED_HEXES} that can be imported.`
+    );
+  }
+}
+
+/**
+ * Measures how many rows or columns a set of offset coordinates spans. A loop rather than
+ * spreading into `Math.max`, which overflows the call stack on large maps.
+ */
+function measureSpan(values: number[]): number {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return max - min + 1;
+}
+
+/**
+ * Builds a foreign map from cells read in offset coordinates.
+ */
+function createForeignMapFromCells(
+  format: ForeignMapFormat,
+  fileName: string,
+  cells: OffsetCell[],
+  labels: Map<string, string>,
+  orientation: HexOrientation,
+  oddShifted: boolean
+): ForeignMap {
+  if (cells.length === 0) {
+    throw new MapImportError('The map does not contain any tiles.');
+  }
+  checkImportSize(cells.length);
+  return {
+    format,
+    fileName,
+    orientation,
+    width: measureSpan(cells.map((cell) => cell.column)),
+    height: measureSpan(cells.map((cell) => cell.row)),
+    hexes: cells.map((cell) => ({
+      ...offsetToAxial(cell.column, cell.row, orientation, oddShifted),
+      tileId: cell.tileId,
+    })),
+    tiles: countTiles(cells, labels),
+  };
+}
+
+/**
+ * Counts how many hexes use each tile, most used first.
+ */
+function countTiles(cells: { tileId: string }[], labels: Map<string, string>): ForeignTile[] {
+  const counts = new Map<string, number>();
+  cells.forEach((cell) => counts.set(cell.tileId, (counts.get(cell.tileId) ?? 0) + 1));
+  return Array.from(counts, ([id, count]) => ({ id, label: labels.get(id) ?? id, count })).sort(
+    (a, b) => b.count - a.count
+  );
+}
+
+/**
+ * Decodes the tile IDs of a Tiled layer stored as base64. Compressed layers are not supported.
+ */
+function decodeTiledData(data: unknown, encoding: unknown, compression: unknown): number[] {
+  if (encoding !== 'base64') {
+    return Array.isArray(data) ? data.map(Number) : [];
+  }
+  if (typeof compression === 'string' && compression !== '') {
+    throw new MapImportError(
+      `The map's layers are ${compression}-compressed. Save it in Tiled with the layer format set to CSV or uncompressed Base64.`
+    );
+  }
+  if (typeof data !== 'string') return [];
+  const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+  const view = new DataView(bytes.buffer);
+  return Array.from({ length: Math.floor(bytes.length / 4) }, (_, index) =>
+    view.getUint32(index * 4, true)
+  );
+}
+
+/**
+ * Names a Tiled tile by its `terrain` or `name` property, its class, or its tileset and number.
+ */
+function labelTiledTile(tilesets: Record<string, unknown>[], gid: number): string {
+  const tileset = tilesets
+    .filter((candidate) => Number(candidate.firstgid) <= gid)
+    .sort((a, b) => Number(b.firstgid) - Number(a.firstgid))[0];
+  if (!tileset) return `Tile ${gid}`;
+  const localId = gid - Number(tileset.firstgid);
+  const tile = Array.isArray(tileset.tiles)
+    ? (tileset.tiles as unknown[]).find((entry) => isRecord(entry) && entry.id === localId)
+    : undefined;
+  if (isRecord(tile)) {
+    const property = Array.isArray(tile.properties)
+      ? (tile.properties as unknown[]).find(
+          (entry) =>
+            isRecord(entry) &&
+            typeof entry.name === 'string' &&
+            ['terrain', 'name'].includes(entry.name.toLowerCase()) &&
+            typeof entry.value === 'string' &&
+            entry.value !== ''
+        )
+      : undefined;
+    if (isRecord(property) && typeof property.value === 'string') return property.value;
+    for (const key of ['class', 'type']) {
+      const value = tile[key];
+      if (typeof value === 'string' && value !== '') return value;
+    }
+  }
+  const tilesetName =
+    typeof tileset.name === 'string'
+      ? tileset.name
+      : typeof tileset.source === 'string'
+        ? (tileset.source.split('/').pop() ?? 'Tileset')
+        : 'Tileset';
+  return `${tilesetName} #${localId}`;
+}
+
+/**
+ * Reads a hexagonal map saved by Tiled as JSON (`.tmj` or `.json`). Where tile layers overlap,
+ * the topmost tile is used.
+ * @param text - The content of the file.
+ * @param fileName - The name of the file.
+ * @returns The map.
+ * @throws {MapImportError} If the file is not a hexagonal Tiled map.
+ */
+export function parseTiledMap(text: string, fileName: string): ForeignMap {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new MapImportError('The file is not valid JSON.');
+  }
+  if (!isRecord(data) || data.type !== 'map' || !Array.isArray(data.layers)) {
+    throw new MapImportError('The file is not a Tiled map.');
+  }
+  if (data.orientation !== 'hexagonal') {
+    throw new MapImportError(
+      `The Tiled map is ${String(data.orientation)}; only hexagonal maps can be imported.`
+    );
+  }
+  const orientation: HexOrientation = data.staggeraxis === 'x' ? 'flat' : 'pointy';
+  const oddShifted = data.staggerindex !== 'even';
+  const tilesets = Array.isArray(data.tilesets) ? data.tilesets.filter(isRecord) : [];
+
+  const tileLayers: Record<string, unknown>[] = [];
+  const collectLayers = (layers: unknown[]) =>
+    layers.forEach((layer) => {
+      if (!isRecord(layer) || layer.visible === false) return;
+      if (layer.type === 'tilelayer') tileLayers.push(layer);
+      if (layer.type === 'group' && Array.isArray(layer.layers)) collectLayers(layer.layers);
+    });
+  collectLayers(data.layers);
+
+  const cellsByKey = new Map<string, OffsetCell>();
+  const readTiles = (gids: number[], x: number, y: number, width: number) =>
+    gids.forEach((value, index) => {
+      // The top three bits of a tile ID hold its flip flags.
+      const gid = value & 0x1fffffff;
+      if (gid === 0 || width <= 0) return;
+      const column = x + (index % width);
+      const row = y + Math.floor(index / width);
+      cellsByKey.set(`${column},${row}`, { column, row, tileId: String(gid) });
+    });
+  tileLayers.forEach((layer) => {
+    if (Array.isArray(layer.chunks)) {
+      layer.chunks.filter(isRecord).forEach((chunk) => {
+        readTiles(
+          decodeTiledData(chunk.data, layer.encoding, layer.compression),
+          Number(chunk.x) || 0,
+          Number(chunk.y) || 0,
+          Number(chunk.width) || 0
+        );
+      });
+    } else {
+      readTiles(
+        decodeTiledData(layer.data, layer.encoding, layer.compression),
+        0,
+        0,
+        Number(layer.width) || 0
+      );
+    }
+  });
+
+  const cells = Array.from(cellsByKey.values());
+  const labels = new Map(
+    Array.from(new Set(cells.map((cell) => cell.tileId)), (id) => [
+      id,
+      labelTiledTile(tilesets, Number(id)),
+    ])
+  );
+  return createForeignMapFromCells('tiled', fileName, cells, labels, orientation, oddShifted);
+}
+
+/**
+ * Reads a map saved by Worldographer or Hexographer 2, already decompressed to XML. Each
+ * `tilerow` holds one column of tiles, one per line, starting with the tile's terrain number.
+ * @param xml - The XML content of the file.
+ * @param fileName - The name of the file.
+ * @returns The map.
+ * @throws {MapImportError} If the file is not a Worldographer map.
+ */
+export function parseWorldographerMap(xml: string, fileName: string): ForeignMap {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const tiles = document.querySelector('map > tiles');
+  if (document.querySelector('parsererror') || !tiles) {
+    throw new MapImportError('The file is not a Worldographer map.');
+  }
+  const map = document.documentElement;
+  const orientation: HexOrientation =
+    map.getAttribute('hexOrientation') === 'ROWS' ? 'pointy' : 'flat';
+
+  // The terrain map lists each terrain name followed by its number, all separated by tabs.
+  const labels = new Map<string, string>();
+  const terrainMap = (document.querySelector('map > terrainmap')?.textContent ?? '').split('\t');
+  for (let index = 0; index + 1 < terrainMap.length; index += 2) {
+    const name = terrainMap[index]?.trim() ?? '';
+    const id = terrainMap[index + 1]?.trim() ?? '';
+    if (id !== '') labels.set(id, name);
+  }
+
+  const cells: OffsetCell[] = [];
+  Array.from(tiles.getElementsByTagName('tilerow')).forEach((tileRow, column) => {
+    (tileRow.textContent ?? '')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line !== '')
+      .forEach((line, row) => {
+        const tileId = line.split('\t')[0] ?? '';
+        if (tileId !== '') cells.push({ column, row, tileId });
+      });
+  });
+  cells.forEach((cell) => {
+    if (!labels.has(cell.tileId)) labels.set(cell.tileId, `Terrain ${cell.tileId}`);
+  });
+  return createForeignMapFromCells('worldographer', fileName, cells, labels, orientation, true);
+}
+
+/**
+ * Splits a line of CSV into its fields, allowing quoted fields.
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let isQuoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (isQuoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      isQuoted = true;
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Reads a CSV list of hexes, one per line, with its axial `q` and `r` coordinates and the name
+ * of its terrain. A header row naming the `q`, `r` and `terrain` columns is optional; without
+ * one the first three columns are used. Commas, semicolons and tabs are accepted as separators.
+ * @param text - The content of the file.
+ * @param fileName - The name of the file.
+ * @returns The map. Its orientation is left to the current view.
+ * @throws {MapImportError} If a line cannot be read.
+ */
+export function parseHexCsv(text: string, fileName: string): ForeignMap {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line, index) => ({ line, number: index + 1 }))
+    .filter(({ line }) => line.trim() !== '');
+  const firstLine = lines[0]?.line ?? '';
+  const delimiter = [',', ';', '\t'].find((candidate) => firstLine.includes(candidate)) ?? ',';
+
+  let columns = { q: 0, r: 1, terrain: 2 };
+  const header = splitCsvLine(firstLine, delimiter).map((field) => field.toLowerCase());
+  if (lines.length > 0 && !/^-?\d+$/.test(header[0] ?? '')) {
+    columns = {
+      q: header.indexOf('q'),
+      r: header.indexOf('r'),
+      terrain: header.indexOf('terrain'),
+    };
+    if (columns.q < 0 || columns.r < 0 || columns.terrain < 0) {
+      throw new MapImportError(
+        'The header row must name the "q", "r" and "terrain" columns, or be left out.'
+      );
+    }
+    lines.shift();
+  }
+  checkImportSize(lines.length);
+
+  const seen = new Set<string>();
+  const hexes = lines.map(({ line, number }) => {
+    const fields = splitCsvLine(line, delimiter);
+    const q = fields[columns.q] ?? '';
+    const r = fields[columns.r] ?? '';
+    const tileId = fields[columns.terrain] ?? '';
+    if (!/^-?\d+$/.test(q) || !/^-?\d+$/.test(r)) {
+      throw new MapImportError(`Line ${number}: the coordinates must be whole numbers.`);
+    }
+    if (tileId === '') {
+      throw new MapImportError(`Line ${number}: the terrain is missing.`);
+    }
+    const key = `${Number(q)},${Number(r)}`;
+    if (seen.has(key)) {
+      throw new MapImportError(`Line ${number}: hex ${key} is listed twice.`);
+    }
+    seen.add(key);
+    return { q: Number(q), r: Number(r), tileId };
+  });
+  if (hexes.length === 0) {
+    throw new MapImportError('The file does not list any hexes.');
+  }
+
+  // The size of the map is measured in offset rows, as the realm generator lays them out.
+  return {
+    format: 'csv',
+    fileName,
+    orientation: null,
+    width: measureSpan(hexes.map((hex) => hex.q + Math.floor(hex.r / 2))),
+    height: measureSpan(hexes.map((hex) => hex.r)),
+    hexes,
+    tiles: countTiles(hexes, new Map()),
+  };
+}
+
+/**
+ * Decodes the text of a Worldographer file, which is usually gzip-compressed UTF-16.
+ */
+async function decodeWorldographerFile(bytes: Uint8Array): Promise<string> {
+  let content = bytes;
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+    content = new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+  const encoding =
+    content[0] === 0xfe && content[1] === 0xff
+      ? 'utf-16be'
+      : content[0] === 0xff && content[1] === 0xfe
+        ? 'utf-16le'
+        : 'utf-8';
+  return new TextDecoder(encoding).decode(content);
+}
+
+/**
+ * Reads a hex map file from another tool, recognising its format from its content.
+ * @param file - The selected file.
+ * @returns The map, ready to have its tiles matched to terrain.
+ * @throws {MapImportError} If the file is not in a supported format or cannot be read.
+ */
+export async function readForeignMap(file: File): Promise<ForeignMap> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const isGzip = bytes[0] === 0x1f && bytes[1] === 0x8b;
+  if (isGzip || /\.wxx$/i.test(file.name)) {
+    return parseWorldographerMap(await decodeWorldographerFile(bytes), file.name);
+  }
+  const text = new TextDecoder().decode(bytes).replace(/^\uFEFF/, '');
+  const start = text.trimStart()[0];
+  if (start === '{') return parseTiledMap(text, file.name);
+  if (start === '<') return parseWorldographerMap(text, file.name);
+  return parseHexCsv(text, file.name);
+}
+
+/**
+ * Suggests a terrain type for each tile of an imported map, by matching the tile's name to the
+ * terrain IDs and labels, then to common words for each standard terrain. Blank tiles and
+ * tiles with no match are left out.
+ * @param tiles - The tiles of the imported map.
+ * @param terrain - The realm's terrain types.
+ * @returns The suggested mapping.
+ */
+export function suggestTerrainMapping(tiles: ForeignTile[], terrain: Tile[]): TerrainMapping {
+  const matchTile = (label: string): string | null => {
+    const name = label.trim().toLowerCase();
+    if (BLANK_TILE_PATTERN.test(name)) return null;
+    const words = name.split(/[^a-z0-9]+/).filter(Boolean);
+    const exact = terrain.find(
+      (tile) => tile.id.toLowerCase() === name || tile.label.toLowerCase() === name
+    );
+    if (exact) return exact.id;
+    const named = terrain.find((tile) =>
+      words.some((word) => word === tile.id.toLowerCase() || word === tile.label.toLowerCase())
+    );
+    if (named) return named.id;
+    const keyword = terrain.find((tile) =>
+      (TERRAIN_KEYWORDS[tile.id] ?? []).some((stem) => words.some((word) => word.startsWith(stem)))
+    );
+    return keyword?.id ?? null;
+  };
+  return Object.fromEntries(tiles.map((tile) => [tile.id, matchTile(tile.label)]));
+}
+
+/**
+ * Turns an imported map into a realm, using the chosen terrain for each tile. The realm is
+ * centred on the origin, like a generated one, and its Seat of Power placed in the middle.
+ * @param map - The imported map.
+ * @param mapping - The terrain chosen for each tile.
+ * @returns The new realm.
+ * @throws {MapImportError} If every tile is left out.
+ */
+export function createRealmFromForeignMap(map: ForeignMap, mapping: TerrainMapping): Realm {
+  const included = map.hexes.flatMap((hex) => {
+    const terrain = mapping[hex.tileId];
+    return terrain ? [{ q: hex.q, r: hex.r, terrain }] : [];
+  });
+  if (included.length === 0) {
+    throw new MapImportError('Every tile is left out, so there are no hexes to import.');
+  }
+
+  const qShift = Math.round(included.reduce((sum, hex) => sum + hex.q, 0) / included.length);
+  const rShift = Math.round(included.reduce((sum, hex) => sum + hex.r, 0) / included.length);
+  const hexes: Hex[] = included.map((hex) => {
+    const q = hex.q - qShift;
+    const r = hex.r - rShift;
+    return { q, r, s: -q - r, terrain: hex.terrain, barrierEdges: [] };
+  });
+  const origin = { q: 0, r: 0 };
+  const seat = hexes.reduce((closest, hex) =>
+    getAxialDistance(hex, origin) < getAxialDistance(closest, origin) ? hex : closest
+  );
+
+  return {
+    shape: 'square',
+    width: map.width,
+    height: map.height,
+    hexes,
+    myths: [],
+    seatOfPower: { q: seat.q, r: seat.r },
+    paths: [],
+    party: DEFAULT_PARTY,
+  };
+}
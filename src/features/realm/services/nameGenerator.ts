@@ -0,0 +1,154 @@
+/**
+ * @file nameGenerator.ts
+ * This file contains the procedural name generator. Names are built from grammar tables,
+ * one per kind of feature, using a seeded random source so that a realm's names are
+ * reproducible from its seed. Users can replace any of the built-in tables with their own.
+ */
+
+import type { NameFeature, NameTable, NameTables } from '@/features/realm/types';
+import { DEFAULT_NAME_TABLES, NAME_FEATURES } from '@/features/realm/config/nameTables';
+import { createRandomSeed, mulberry32 } from '@/features/realm/utils/randomUtils';
+import type { RandomSource } from '@/features/realm/utils/randomUtils';
+
+/** How deeply parts may refer to other parts before expansion stops. */
+const MAX_EXPANSION_DEPTH = 8;
+
+/** How many times the generator retries to avoid repeating a name it already gave. */
+const MAX_UNIQUE_ATTEMPTS = 12;
+
+const PART_PATTERN = /\{([^{}]+)\}/g;
+
+/**
+ * Picks a random entry from a list.
+ */
+const pick = (entries: string[], random: RandomSource): string =>
+  entries[Math.floor(random() * entries.length)] ?? '';
+
+/**
+ * Replaces each `{part}` in a text with a random entry of that part.
+ */
+function expand(text: string, table: NameTable, random: RandomSource, depth: number): string {
+  if (depth >= MAX_EXPANSION_DEPTH) return text;
+  return text.replace(PART_PATTERN, (_, part: string) =>
+    expand(pick(table.parts[part] ?? [], random), table, random, depth + 1)
+  );
+}
+
+/**
+ * Combines imported name tables with the built-in ones.
+ * @param customTables - The imported tables, by feature.
+ * @returns A table for every feature, the imported one where there is one.
+ */
+export function resolveNameTables(customTables: Partial<NameTables>): NameTables {
+  return { ...DEFAULT_NAME_TABLES, ...customTables };
+}
+
+/**
+ * Generates a name for a feature.
+ * @param tables - The name tables to use.
+ * @param feature - The kind of feature to name.
+ * @param random - The seeded random source.
+ * @returns The name, with its first letter capitalized.
+ */
+export function generateName(tables: NameTables, feature: NameFeature, random: RandomSource) {
+  const table = tables[feature];
+  const name = expand(pick(table.patterns, random), table, random, 0).trim();
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Creates a name generator that avoids giving the same name twice, as far as the tables allow.
+ * @param tables - The name tables to use.
+ * @param random - The seeded random source.
+ * @returns A function that names a feature.
+ */
+export function createNamer(tables: NameTables, random: RandomSource) {
+  const usedNames = new Set<string>();
+  return (feature: NameFeature): string => {
+    let name = generateName(tables, feature, random);
+    for (let attempt = 1; attempt < MAX_UNIQUE_ATTEMPTS && usedNames.has(name); attempt++) {
+      name = generateName(tables, feature, random);
+    }
+    usedNames.add(name);
+    return name;
+  };
+}
+
+/**
+ * Generates a fresh name on demand, for the editor's "roll a name" buttons.
+ * @param customTables - The imported name tables.
+ * @param feature - The kind of feature to name.
+ * @returns The name.
+ */
+export function rollName(customTables: Partial<NameTables>, feature: NameFeature): string {
+  return generateName(resolveNameTables(customTables), feature, mulberry32(createRandomSeed()));
+}
+
+/**
+ * Checks name tables loaded from a file or a project.
+ * @param data - The parsed tables, keyed by feature.
+ * @returns A description of each problem found; empty when the tables are valid.
+ */
+export function describeNameTableIssues(data: unknown): string[] {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return ['Name tables must be an object keyed by feature.'];
+  }
+  const features = NAME_FEATURES.map((feature) => feature.id as string);
+  const issues: string[] = [];
+  Object.entries(data).forEach(([feature, table]: [string, unknown]) => {
+    if (!features.includes(feature)) {
+      issues.push(`"${feature}" is not a feature; expected one of ${features.join(', ')}.`);
+      return;
+    }
+    if (typeof table !== 'object' || table === null) {
+      issues.push(`"${feature}" must be an object with patterns and parts.`);
+      return;
+    }
+    const { patterns, parts } = table as Record<string, unknown>;
+    const isStringList = (value: unknown): value is string[] =>
+      Array.isArray(value) && value.length > 0 && value.every((entry) => typeof entry === 'string');
+    if (!isStringList(patterns)) {
+      issues.push(`"${feature}.patterns" must be a non-empty list of strings.`);
+    }
+    if (typeof parts !== 'object' || parts === null || Array.isArray(parts)) {
+      issues.push(`"${feature}.parts" must be an object of string lists.`);
+      return;
+    }
+    const partEntries = parts as Record<string, unknown>;
+    Object.entries(partEntries).forEach(([part, entries]) => {
+      if (!isStringList(entries)) {
+        issues.push(`"${feature}.parts.${part}" must be a non-empty list of strings.`);
+      }
+    });
+    const texts = [
+      ...(isStringList(patterns) ? patterns : []),
+      ...Object.values(partEntries).flatMap((entries) => (isStringList(entries) ? entries : [])),
+    ];
+    texts.forEach((text) => {
+      for (const [, part] of text.matchAll(PART_PATTERN)) {
+        if (part !== undefined && !(part in partEntries)) {
+          issues.push(`"${feature}" refers to the part "{${part}}", which it does not define.`);
+        }
+      }
+    });
+  });
+  return [...new Set(issues)];
+}
+
+/**
+ * Parses a name tables file.
+ * @param fileContent - The JSON content of the file.
+ * @returns The tables it defines, by feature.
+ * @throws {Error} If the file is not valid JSON or the tables are malformed.
+ */
+export function parseNameTables(fileContent: string): Partial<NameTables> {
+  let data: unknown;
+  try {
+    data = JSON.parse(fileContent);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const issues = describeNameTableIssues(data);
+  if (issues.length > 0) throw new Error(issues.join('\n'));
+  return data as Partial<NameTables>;
+}
@@ -0,0 +1,327 @@
+/**
+ * @file pdfWriter.ts
+ * This file contains a minimal PDF writer, enough to lay out printable pages of text, shapes
+ * and JPEG images. Text is set in the standard Helvetica fonts, which every PDF reader has, so
+ * no fonts need to be embedded. Coordinates are in points (1/72 inch) from the top left corner
+ * of the page, as on screen, and are flipped to PDF's bottom-left origin when written.
+ */
+
+/** The number of points in a millimetre. */
+export const PT_PER_MM = 72 / 25.4;
+
+/**
+ * The advance widths of the printable ASCII characters in Helvetica, in 1/1000 em, from the
+ * standard font metrics. Characters outside this range are measured as an average glyph.
+ */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+  611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+  222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const AVERAGE_WIDTH = 556;
+/** Helvetica Bold is about this much wider than the regular weight. */
+const BOLD_WIDTH_FACTOR = 1.06;
+
+/** Options for drawing text. */
+export interface PdfTextOptions {
+  size: number;
+  bold?: boolean;
+  color?: string | undefined;
+  /** Which side of the text `x` refers to. Defaults to the left. */
+  align?: 'left' | 'center' | 'right';
+}
+
+/** Options for drawing shapes. Shapes without a fill or stroke colour are not drawn. */
+export interface PdfShapeOptions {
+  fill?: string | undefined;
+  stroke?: string | undefined;
+  lineWidth?: number;
+  /** The dash pattern of the stroke, in points, e.g. `[4, 2]`. */
+  dash?: number[];
+}
+
+/**
+ * Measures the width of a line of text set in Helvetica.
+ * @param text - The text to measure.
+ * @param size - The font size, in points.
+ * @param bold - Whether the text is set in bold, which is measured approximately.
+ * @returns The width, in points.
+ */
+export function measureText(text: string, size: number, bold = false): number {
+  const units = [...text].reduce(
+    (sum, char) => sum + (HELVETICA_WIDTHS[char.charCodeAt(0) - 32] ?? AVERAGE_WIDTH),
+    0
+  );
+  return (units / 1000) * size * (bold ? BOLD_WIDTH_FACTOR : 1);
+}
+
+/**
+ * Shortens text with an ellipsis so that it fits in a given width.
+ * @returns The text, shortened if needed.
+ */
+export function fitText(text: string, size: number, maxWidth: number, bold = false): string {
+  if (measureText(text, size, bold) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && measureText(`${fitted}...`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+}
+
+/**
+ * Writes a string as a PDF string literal in WinAnsi encoding. Characters outside Latin-1
+ * cannot be set in the standard fonts and are replaced with a question mark.
+ */
+function toPdfString(text: string): string {
+  const escaped = [...text]
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      if (char === '\\' || char === '(' || char === ')') return `\\${char}`;
+      if (code >= 32 && code < 127) return char;
+      if (code >= 160 && code < 256) return `\\${code.toString(8).padStart(3, '0')}`;
+      return '?';
+    })
+    .join('');
+  return `(${escaped})`;
+}
+
+/**
+ * Converts a CSS colour in `#rgb`, `#rrggbb`, `#rrggbbaa` or `rgb()` notation to PDF colour
+ * components from 0 to 1. Transparency is ignored. Unknown colours are treated as black.
+ */
+function toPdfColor(color: string): string {
+  let channels = [0, 0, 0];
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(color.trim())?.[1];
+  const rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i.exec(color.trim());
+  if (hex) {
+    const full = hex.length === 3 ? [...hex].map((digit) => digit + digit).join('') : hex;
+    channels = [0, 2, 4].map((start) => parseInt(full.slice(start, start + 2), 16));
+  } else if (rgb) {
+    channels = [rgb[1], rgb[2], rgb[3]].map(Number);
+  }
+  return channels.map((channel) => formatNumber(channel / 255)).join(' ');
+}
+
+/** Formats a number compactly for a PDF content stream. */
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+/**
+ * A page of a PDF document. Drawing calls are recorded as content stream operators.
+ */
+export class PdfPage {
+  readonly operations: string[] = [];
+  /** The names of the images drawn on this page. */
+  readonly imageNames = new Set<string>();
+
+  constructor(
+    readonly width: number,
+    readonly height: number
+  ) {}
+
+  /**
+   * Draws a line of text. `y` is the baseline of the text.
+   */
+  drawText(text: string, x: number, y: number, options: PdfTextOptions) {
+    const { size, bold = false, color = '#000000', align = 'left' } = options;
+    const width = measureText(text, size, bold);
+    const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+    this.operations.push(
+      `BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${toPdfColor(color)} rg ${formatNumber(
+        left
+      )} ${formatNumber(this.height - y)} Td ${toPdfString(text)} Tj ET`
+    );
+  }
+
+  /**
+   * Draws a rectangle from its top left corner.
+   */
+  drawRect(x: number, y: number, width: number, height: number, options: PdfShapeOptions) {
+    this.drawShape(
+      `${formatNumber(x)} ${formatNumber(this.height - y - height)} ${formatNumber(
+        width
+      )} ${formatNumber(height)} re`,
+      options
+    );
+  }
+
+  /**
+   * Draws a straight line.
+   */
+  drawLine(x1: number, y1: number, x2: number, y2: number, options: PdfShapeOptions) {
+    this.drawShape(
+      `${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(
+        this.height - y2
+      )} l`,
+      { ...options, fill: undefined }
+    );
+  }
+
+  /**
+   * Draws a circle around its centre.
+   */
+  drawCircle(cx: number, cy: number, radius: number, options: PdfShapeOptions) {
+    // A circle is drawn as four Bézier curves, one per quadrant.
+    const k = radius * 0.5523;
+    const y = this.height - cy;
+    const n = formatNumber;
+    this.drawShape(
+      [
+        `${n(cx + radius)} ${n(y)} m`,
+        `${n(cx + radius)} ${n(y + k)} ${n(cx + k)} ${n(y + radius)} ${n(cx)} ${n(y + radius)} c`,
+        `${n(cx - k)} ${n(y + radius)} ${n(cx - radius)} ${n(y + k)} ${n(cx - radius)} ${n(y)} c`,
+        `${n(cx - radius)} ${n(y - k)} ${n(cx - k)} ${n(y - radius)} ${n(cx)} ${n(y - radius)} c`,
+        `${n(cx + k)} ${n(y - radius)} ${n(cx + radius)} ${n(y - k)} ${n(cx + radius)} ${n(y)} c`,
+      ].join(' '),
+      options
+    );
+  }
+
+  /**
+   * Draws an image added to the document with `PdfDocument.addImage`, from its top left corner.
+   */
+  drawImage(name: string, x: number, y: number, width: number, height: number) {
+    this.imageNames.add(name);
+    this.operations.push(
+      `q ${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ${formatNumber(
+        this.height - y - height
+      )} cm /${name} Do Q`
+    );
+  }
+
+  private drawShape(path: string, { fill, stroke, lineWidth = 1, dash }: PdfShapeOptions) {
+    if (!fill && !stroke) return;
+    const state = [
+      fill ? `${toPdfColor(fill)} rg` : '',
+      stroke ? `${toPdfColor(stroke)} RG ${formatNumber(lineWidth)} w` : '',
+      stroke && dash ? `[${dash.map(formatNumber).join(' ')}] 0 d` : '',
+    ]
+      .filter(Boolean)
+      .join(' ');
+    const paint = fill && stroke ? 'B' : fill ? 'f' : 'S';
+    this.operations.push(`q ${state} ${path} ${paint} Q`);
+  }
+}
+
+/**
+ * A PDF document under construction. Add images and pages, draw on the pages, then call
+ * `toBlob` to assemble the file.
+ */
+export class PdfDocument {
+  private readonly pages: PdfPage[] = [];
+  private readonly images = new Map<string, { data: Uint8Array; width: number; height: number }>();
+
+  constructor(private readonly title: string) {}
+
+  /**
+   * Adds a page to the end of the document.
+   * @param width - The page width, in points.
+   * @param height - The page height, in points.
+   */
+  addPage(width: number, height: number): PdfPage {
+    const page = new PdfPage(width, height);
+    this.pages.push(page);
+    return page;
+  }
+
+  /**
+   * Adds a JPEG image that pages can draw, any number of times.
+   * @param data - The JPEG file data.
+   * @param width - The image width, in pixels.
+   * @param height - The image height, in pixels.
+   * @returns The name to draw the image with.
+   */
+  addImage(data: Uint8Array, width: number, height: number): string {
+    const name = `Im${this.images.size + 1}`;
+    this.images.set(name, { data, width, height });
+    return name;
+  }
+
+  /**
+   * Assembles the PDF file.
+   */
+  toBlob(): Blob {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const writeObject = (id: number, body: string | Uint8Array[]) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n`);
+      if (typeof body === 'string') write(body);
+      else body.forEach(write);
+      write('\nendobj\n');
+    };
+
+    // Objects 1 to 5 are fixed; images, then page contents and pages, follow.
+    const imageIds = new Map([...this.images.keys()].map((name, index) => [name, 6 + index]));
+    const firstPageId = 6 + this.images.size;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+
+    write('%PDF-1.4\n%âãÏÓ\n');
+    writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(
+      2,
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${
+        pageIds.length
+      } >>`
+    );
+    writeObject(
+      3,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+    );
+    writeObject(
+      4,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+    );
+    writeObject(5, `<< /Title ${toPdfString(this.title)} >>`);
+
+    this.images.forEach(({ data, width, height }, name) => {
+      writeObject(imageIds.get(name) ?? 0, [
+        encoder.encode(
+          `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${data.length} >>\nstream\n`
+        ),
+        data,
+        encoder.encode('\nendstream'),
+      ]);
+    });
+
+    this.pages.forEach((page, index) => {
+      const pageId = pageIds[index] ?? 0;
+      const content = page.operations.join('\n');
+      const xObjects = [...page.imageNames]
+        .map((name) => `/${name} ${imageIds.get(name) ?? 0} 0 R`)
+        .join(' ');
+      writeObject(
+        pageId,
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(
+          page.height
+        )}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> /Contents ${
+          pageId + 1
+        } 0 R >>`
+      );
+      writeObject(
+        pageId + 1,
+        `<< /Length ${encoder.encode(content).length} >>\nstream\n${content}\nendstream`
+      );
+    });
+
+    const xrefOffset = length;
+    const objectCount = firstPageId + this.pages.length * 2;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+      write(`${String(offsets[id] ?? 0).padStart(10, '0')} 00000 n \n`);
+    }
+    write(
+      `trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+    );
+
+    return new Blob(chunks, { type: 'application/pdf' });
+  }
+}
@@ -0,0 +1,958 @@
+/**
+ * @file realmDocument.ts
+ * This file defines the versioned realm file format. It wraps a realm and its
+ * surrounding editor state in a document envelope, validates loaded documents
+ * field by field, and upgrades older files through a chain of migrations.
+ */
+
+import type {
+  Myth,
+  MythStatus,
+  PathType,
+  PopulationTier,
+  RealmDocument,
+  RealmDocumentContent,
+  Tile,
+  TileSet,
+} from '@/features/realm/types';
+import { getTerrainBaseColor } from '@/app/theme/colors';
+import {
+  DEFAULT_MAP_OVERLAYS,
+  DEFAULT_NOISE_SETTINGS,
+  DEFAULT_PARTY,
+  DEFAULT_VIEW_VISIBILITY,
+  HEX_LABEL_STYLES,
+  MAP_OVERLAY_POSITIONS,
+  MYTH_STATUSES,
+  PATH_TYPES,
+  POPULATION_TIERS,
+} from '@/features/realm/config/constants';
+import { createMyth } from '@/features/realm/utils/mythUtils';
+import { describeNameTableIssues } from './nameGenerator';
+import { HIGHLAND_FORMATIONS } from './formations';
+
+/** The identifier written to every realm document. */
+export const REALM_DOCUMENT_FORMAT = 'hex-realm-generator/realm';
+
+/** The current version of the realm file format. */
+export const REALM_DOCUMENT_VERSION = 12;
+
+/** The version of the application, injected at build time. */
+export const APP_VERSION = process.env.APP_VERSION ?? '0.0.0';
+
+/** The maximum number of validation issues listed in an error message. */
+const MAX_REPORTED_ISSUES = 8;
+
+/**
+ * A single problem found while validating a realm document.
+ */
+export interface RealmValidationIssue {
+  /** The path to the offending field, e.g. `realm.hexes[12].barrierEdges[1]`. */
+  path: string;
+  /** A description of what is wrong with the field. */
+  message: string;
+}
+
+/**
+ * Thrown when a realm file cannot be read, migrated or validated.
+ */
+export class RealmFileError extends Error {
+  /** The validation issues that caused the error, if any. */
+  readonly issues: RealmValidationIssue[];
+
+  constructor(message: string, issues: RealmValidationIssue[] = []) {
+    super(message);
+    this.name = 'RealmFileError';
+    this.issues = issues;
+  }
+}
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * A migration upgrades a document from one format version to the next.
+ * `fallback` supplies the editor state for fields that older versions did not store.
+ */
+type RealmDocumentMigration = (document: RawRecord, fallback: RealmDocumentContent) => RawRecord;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value);
+
+/**
+ * Rebuilds the myth list from `hex.myth` markers, for files saved before myths were stored.
+ * @param hexes The raw hexes of the realm.
+ * @returns The reconstructed myths.
+ */
+function rebuildMyths(hexes: unknown[]): Myth[] {
+  const myths: Myth[] = [];
+  hexes.forEach((hex) => {
+    if (isRecord(hex) && isInteger(hex.myth) && hex.myth > 0) {
+      myths.push(createMyth(hex.myth, { q: Number(hex.q), r: Number(hex.r) }));
+    }
+  });
+  return myths;
+}
+
+/**
+ * Adds placeholder terrain tiles for any terrain used by the hexes but missing from the tile set.
+ * @param hexes The raw hexes of the realm.
+ * @param tileSets The tile sets to complete.
+ * @returns The tile sets, including a tile for every terrain in use.
+ */
+function withTilesForTerrain(hexes: unknown[], tileSets: TileSet): TileSet {
+  const knownTerrain = new Set(tileSets.terrain.map((tile) => tile.id));
+  const missingTiles: Tile[] = [];
+  hexes.forEach((hex) => {
+    if (!isRecord(hex) || typeof hex.terrain !== 'string' || knownTerrain.has(hex.terrain)) return;
+    knownTerrain.add(hex.terrain);
+    missingTiles.push({
+      id: hex.terrain,
+      label: hex.terrain,
+      icon: 'leaf',
+      color: getTerrainBaseColor(hex.terrain),
+      description: 'Terrain restored from an older realm file.',
+      sprayIcons: [],
+    });
+  });
+  if (missingTiles.length === 0) return tileSets;
+  return { ...tileSets, terrain: [...tileSets.terrain, ...missingTiles] };
+}
+
+/**
+ * Adds settings missing from the Knight view visibility of a document.
+ * @param document The document to upgrade.
+ * @param defaults The settings to add, used only where the document has no value.
+ * @returns The document's view options with the settings added.
+ */
+function withKnightVisibilityDefaults(document: RawRecord, defaults: RawRecord): unknown {
+  const viewOptions = document.viewOptions;
+  if (!isRecord(viewOptions) || !isRecord(viewOptions.visibility)) return viewOptions;
+  const knight = viewOptions.visibility.knight;
+  return {
+    ...viewOptions,
+    visibility: {
+      ...viewOptions.visibility,
+      knight: isRecord(knight) ? { ...defaults, ...knight } : knight,
+    },
+  };
+}
+
+/**
+ * Migrations keyed by the version they upgrade from.
+ * Version 1 is the original, unversioned export: a bare realm object.
+ */
+const MIGRATIONS: Record<number, RealmDocumentMigration> = {
+  1: (legacyRealm, fallback) => {
+    const hexes: unknown[] = Array.isArray(legacyRealm.hexes) ? legacyRealm.hexes : [];
+    const realm: RawRecord = {
+      ...legacyRealm,
+      hexes: hexes.map((hex) =>
+        isRecord(hex) && hex.barrierEdges === undefined ? { ...hex, barrierEdges: [] } : hex
+      ),
+      myths: Array.isArray(legacyRealm.myths) ? legacyRealm.myths : rebuildMyths(hexes),
+    };
+    const now = new Date().toISOString();
+    return {
+      format: REALM_DOCUMENT_FORMAT,
+      formatVersion: 2,
+      appVersion: APP_VERSION,
+      createdAt: now,
+      updatedAt: now,
+      realm,
+      tileSets: withTilesForTerrain(hexes, fallback.tileSets),
+      terrainColors: fallback.terrainColors,
+      viewOptions: fallback.viewOptions,
+      generationOptions: {
+        ...fallback.generationOptions,
+        ...(isInteger(legacyRealm.seed) ? { seed: legacyRealm.seed } : {}),
+      },
+    };
+  },
+  // Version 3 saves whole projects, adding the barrier colour.
+  2: (document, fallback) => ({
+    ...document,
+    formatVersion: 3,
+    barrierColor: fallback.barrierColor,
+  }),
+  // Version 4 adds rivers and roads, and the options for generating them.
+  3: (document, fallback) => ({
+    ...document,
+    formatVersion: 4,
+    realm: isRecord(document.realm) ? { paths: [], ...document.realm } : document.realm,
+    generationOptions: isRecord(document.generationOptions)
+      ? {
+          numRivers: fallback.generationOptions.numRivers,
+          generateRoads: fallback.generationOptions.generateRoads,
+          ...document.generationOptions,
+        }
+      : document.generationOptions,
+  }),
+  // Version 5 adds the noise settings. Older realms were generated with the defaults.
+  4: (document) => ({
+    ...document,
+    formatVersion: 5,
+    generationOptions: isRecord(document.generationOptions)
+      ? { noise: DEFAULT_NOISE_SETTINGS, ...document.generationOptions }
+      : document.generationOptions,
+  }),
+  // Version 6 adds the fog of war. No hexes are revealed yet, so it starts switched off.
+  5: (document) => ({
+    ...document,
+    formatVersion: 6,
+    viewOptions: withKnightVisibilityDefaults(document, { fogOfWar: false }),
+  }),
+  // Version 7 adds the party and its travel log.
+  6: (document) => ({
+    ...document,
+    formatVersion: 7,
+    realm: isRecord(document.realm) ? { party: DEFAULT_PARTY, ...document.realm } : document.realm,
+  }),
+  // Version 8 adds hex names, notes and tags, and whether the Knights can see them.
+  7: (document) => ({
+    ...document,
+    formatVersion: 8,
+    viewOptions: withKnightVisibilityDefaults(document, {
+      showHexNames: DEFAULT_VIEW_VISIBILITY.showHexNames,
+      showHexNotes: DEFAULT_VIEW_VISIBILITY.showHexNotes,
+    }),
+  }),
+  // Version 9 adds myth details: status, description, omens, cast and linked hexes.
+  8: (document) => ({
+    ...document,
+    formatVersion: 9,
+    realm:
+      isRecord(document.realm) && Array.isArray(document.realm.myths)
+        ? {
+            ...document.realm,
+            myths: document.realm.myths.map((myth: unknown) =>
+              isRecord(myth) && isInteger(myth.id)
+                ? { ...createMyth(myth.id, { q: 0, r: 0 }), ...myth }
+                : myth
+            ),
+          }
+        : document.realm,
+  }),
+  // Version 10 adds the records of holdings and landmarks, and whether the Knights can see them.
+  9: (document) => ({
+    ...document,
+    formatVersion: 10,
+    viewOptions: withKnightVisibilityDefaults(document, {
+      showPoiDetails: DEFAULT_VIEW_VISIBILITY.showPoiDetails,
+    }),
+  }),
+  // Version 11 adds generated names and imported name tables. Older realms were generated
+  // without names, so naming starts switched off to keep their seeds reproducible.
+  10: (document) => ({
+    ...document,
+    formatVersion: 11,
+    generationOptions: isRecord(document.generationOptions)
+      ? { generateNames: false, nameTables: {}, ...document.generationOptions }
+      : document.generationOptions,
+  }),
+  // Version 12 adds hex coordinate labels and the legend, compass and scale bar overlays,
+  // all hidden so that older maps look as they did.
+  11: (document) => ({
+    ...document,
+    formatVersion: 12,
+    viewOptions: isRecord(document.viewOptions)
+      ? { hexLabels: 'none', overlays: DEFAULT_MAP_OVERLAYS, ...document.viewOptions }
+      : document.viewOptions,
+  }),
+};
+
+/**
+ * Determines the format version of a parsed file.
+ * @param data The parsed JSON content.
+ * @returns The format version, or `null` if the file is not a realm file.
+ */
+function detectFormatVersion(data: RawRecord): number | null {
+  if (data.format === REALM_DOCUMENT_FORMAT) {
+    return isInteger(data.formatVersion) ? data.formatVersion : null;
+  }
+  // Unversioned exports were a bare realm object.
+  if ('hexes' in data && 'seatOfPower' in data) return 1;
+  return null;
+}
+
+/**
+ * Upgrades a parsed file to the current format version by applying each migration in turn.
+ * @param data The parsed JSON content.
+ * @param fallback Editor state used to fill fields that older versions did not store.
+ * @returns The document in the current format (not yet validated).
+ */
+export function migrateRealmDocument(data: unknown, fallback: RealmDocumentContent): RawRecord {
+  if (!isRecord(data)) {
+    throw new RealmFileError('The file does not contain a realm.');
+  }
+  let version = detectFormatVersion(data);
+  if (version === null) {
+    throw new RealmFileError('The file is not a recognised realm file.');
+  }
+  if (version > REALM_DOCUMENT_VERSION) {
+    throw new RealmFileError(
+      `The file uses format version ${version}, which is newer than this app supports (${REALM_DOCUMENT_VERSION}). Please update the app.`
+    );
+  }
+  let document = data;
+  while (version < REALM_DOCUMENT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new RealmFileError(`No migration is available for format version ${version}.`);
+    }
+    document = migrate(document, fallback);
+    version += 1;
+  }
+  return document;
+}
+
+/**
+ * Collects the ids of the tiles in one category of a tile set, reporting malformed tiles.
+ */
+function validateTiles(value: unknown, path: string, issues: RealmValidationIssue[]): Set<string> {
+  const ids = new Set<string>();
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'must be an array of tiles' });
+    return ids;
+  }
+  value.forEach((tile, index) => {
+    const tilePath = `${path}[${index}]`;
+    if (!isRecord(tile)) {
+      issues.push({ path: tilePath, message: 'must be an object' });
+      return;
+    }
+    if (typeof tile.id !== 'string' || tile.id === '') {
+      issues.push({ path: `${tilePath}.id`, message: 'must be a non-empty string' });
+    } else if (ids.has(tile.id)) {
+      issues.push({ path: `${tilePath}.id`, message: `duplicates the id "${tile.id}"` });
+    } else {
+      ids.add(tile.id);
+    }
+    for (const key of ['label', 'icon']) {
+      if (typeof tile[key] !== 'string') {
+        issues.push({ path: `${tilePath}.${key}`, message: 'must be a string' });
+      }
+    }
+    if (tile.color !== undefined && typeof tile.color !== 'string') {
+      issues.push({ path: `${tilePath}.color`, message: 'must be a colour string' });
+    }
+  });
+  return ids;
+}
+
+/**
+ * Validates the realm part of a document against the document's tile sets.
+ */
+function validateRealm(
+  realm: unknown,
+  tileIds: { terrain: Set<string>; holding: Set<string>; landmark: Set<string> },
+  issues: RealmValidationIssue[]
+): void {
+  if (!isRecord(realm)) {
+    issues.push({ path: 'realm', message: 'must be an object' });
+    return;
+  }
+
+  if (realm.shape === 'hex') {
+    if (!isInteger(realm.radius) || realm.radius < 1) {
+      issues.push({ path: 'realm.radius', message: 'must be a positive integer' });
+    }
+  } else if (realm.shape === 'square') {
+    for (const key of ['width', 'height']) {
+      const size = realm[key];
+      if (!isInteger(size) || size < 1) {
+        issues.push({ path: `realm.${key}`, message: 'must be a positive integer' });
+      }
+    }
+  } else {
+    issues.push({ path: 'realm.shape', message: 'must be "hex" or "square"' });
+  }
+
+  if (realm.seed !== undefined && !isInteger(realm.seed)) {
+    issues.push({ path: 'realm.seed', message: 'must be an integer' });
+  }
+
+  const hexKeys = new Set<string>();
+  if (!Array.isArray(realm.hexes)) {
+    issues.push({ path: 'realm.hexes', message: 'must be an array of hexes' });
+  } else {
+    realm.hexes.forEach((hex, index) => {
+      const path = `realm.hexes[${index}]`;
+      if (!isRecord(hex)) {
+        issues.push({ path, message: 'must be an object' });
+        return;
+      }
+      const { q, r, s } = hex;
+      if (!isInteger(q) || !isInteger(r) || !isInteger(s)) {
+        issues.push({ path, message: 'must have integer q, r and s coordinates' });
+      } else if (q + r + s !== 0) {
+        issues.push({ path: `${path}.s`, message: `must equal -q - r (${-q - r}), got ${s}` });
+      } else {
+        const key = `${q},${r}`;
+        if (hexKeys.has(key)) {
+          issues.push({ path, message: `duplicates the hex at ${key}` });
+        }
+        hexKeys.add(key);
+      }
+      if (typeof hex.terrain !== 'string' || !tileIds.terrain.has(hex.terrain)) {
+        issues.push({
+          path: `${path}.terrain`,
+          message: `unknown terrain id ${JSON.stringify(hex.terrain)}`,
+        });
+      }
+      if (!Array.isArray(hex.barrierEdges)) {
+        issues.push({ path: `${path}.barrierEdges`, message: 'must be an array' });
+      } else {
+        hex.barrierEdges.forEach((edge, edgeIndex) => {
+          if (!isInteger(edge) || edge < 0 || edge > 5) {
+            issues.push({
+              path: `${path}.barrierEdges[${edgeIndex}]`,
+              message: `must be an edge index from 0 to 5, got ${JSON.stringify(edge)}`,
+            });
+          }
+        });
+      }
+      if (
+        hex.holding !== undefined &&
+        (typeof hex.holding !== 'string' || !tileIds.holding.has(hex.holding))
+      ) {
+        issues.push({
+          path: `${path}.holding`,
+          message: `unknown holding id ${JSON.stringify(hex.holding)}`,
+        });
+      }
+      if (
+        hex.landmark !== undefined &&
+        (typeof hex.landmark !== 'string' || !tileIds.landmark.has(hex.landmark))
+      ) {
+        issues.push({
+          path: `${path}.landmark`,
+          message: `unknown landmark id ${JSON.stringify(hex.landmark)}`,
+        });
+      }
+      if (hex.myth !== undefined && hex.myth !== null && !isInteger(hex.myth)) {
+        issues.push({ path: `${path}.myth`, message: 'must be a myth id' });
+      }
+      if (hex.isRevealed !== undefined && typeof hex.isRevealed !== 'boolean') {
+        issues.push({ path: `${path}.isRevealed`, message: 'must be a boolean' });
+      }
+      for (const key of ['name', 'notes']) {
+        if (hex[key] !== undefined && typeof hex[key] !== 'string') {
+          issues.push({ path: `${path}.${key}`, message: 'must be a string' });
+        }
+      }
+      if (
+        hex.tags !== undefined &&
+        (!Array.isArray(hex.tags) || !hex.tags.every((tag) => typeof tag === 'string'))
+      ) {
+        issues.push({ path: `${path}.tags`, message: 'must be an array of strings' });
+      }
+      for (const key of ['holdingDetails', 'landmarkDetails']) {
+        const details = hex[key];
+        if (details === undefined) continue;
+        if (!isRecord(details)) {
+          issues.push({ path: `${path}.${key}`, message: 'must be an object' });
+          continue;
+        }
+        for (const field of ['name', 'occupant', 'description', 'secrets']) {
+          if (details[field] !== undefined && typeof details[field] !== 'string') {
+            issues.push({ path: `${path}.${key}.${field}`, message: 'must be a string' });
+          }
+        }
+        if (
+          details.population !== undefined &&
+          !POPULATION_TIERS.some((tier) => tier.id === (details.population as PopulationTier))
+        ) {
+          issues.push({
+            path: `${path}.${key}.population`,
+            message: `must be one of ${POPULATION_TIERS.map((tier) => `"${tier.id}"`).join(', ')}`,
+          });
+        }
+      }
+    });
+  }
+
+  if (!Array.isArray(realm.myths)) {
+    issues.push({ path: 'realm.myths', message: 'must be an array of myths' });
+  } else {
+    const mythIds = new Set<number>();
+    realm.myths.forEach((myth, index) => {
+      const path = `realm.myths[${index}]`;
+      if (!isRecord(myth)) {
+        issues.push({ path, message: 'must be an object' });
+        return;
+      }
+      if (!isInteger(myth.id)) {
+        issues.push({ path: `${path}.id`, message: 'must be an integer' });
+      } else if (mythIds.has(myth.id)) {
+        issues.push({ path: `${path}.id`, message: `duplicates the myth id ${myth.id}` });
+      } else {
+        mythIds.add(myth.id);
+      }
+      if (typeof myth.name !== 'string') {
+        issues.push({ path: `${path}.name`, message: 'must be a string' });
+      }
+      if (!isInteger(myth.q) || !isInteger(myth.r)) {
+        issues.push({ path, message: 'must have integer q and r coordinates' });
+      } else if (hexKeys.size > 0 && !hexKeys.has(`${myth.q},${myth.r}`)) {
+        issues.push({ path, message: `is placed at ${myth.q},${myth.r}, outside the realm` });
+      }
+      if (!MYTH_STATUSES.some((status) => status.id === (myth.status as MythStatus))) {
+        issues.push({
+          path: `${path}.status`,
+          message: `must be one of ${MYTH_STATUSES.map((status) => `"${status.id}"`).join(', ')}`,
+        });
+      }
+      if (typeof myth.description !== 'string') {
+        issues.push({ path: `${path}.description`, message: 'must be a string' });
+      }
+      if (!Array.isArray(myth.omens)) {
+        issues.push({ path: `${path}.omens`, message: 'must be an array of omens' });
+      } else {
+        myth.omens.forEach((omen, omenIndex) => {
+          if (
+            !isRecord(omen) ||
+            typeof omen.text !== 'string' ||
+            typeof omen.hasOccurred !== 'boolean'
+          ) {
+            issues.push({
+              path: `${path}.omens[${omenIndex}]`,
+              message: 'must have a text and a hasOccurred flag',
+            });
+          }
+        });
+      }
+      if (!Array.isArray(myth.cast) || !myth.cast.every((name) => typeof name === 'string')) {
+        issues.push({ path: `${path}.cast`, message: 'must be an array of strings' });
+      }
+      if (!Array.isArray(myth.linkedHexes)) {
+        issues.push({ path: `${path}.linkedHexes`, message: 'must be an array of coordinates' });
+      } else {
+        myth.linkedHexes.forEach((hex, hexIndex) => {
+          const hexPath = `${path}.linkedHexes[${hexIndex}]`;
+          if (!isRecord(hex) || !isInteger(hex.q) || !isInteger(hex.r)) {
+            issues.push({ path: hexPath, message: 'must have integer q and r coordinates' });
+          } else if (hexKeys.size > 0 && !hexKeys.has(`${hex.q},${hex.r}`)) {
+            issues.push({ path: hexPath, message: `links ${hex.q},${hex.r}, outside the realm` });
+          }
+        });
+      }
+    });
+  }
+
+  if (!Array.isArray(realm.paths)) {
+    issues.push({ path: 'realm.paths', message: 'must be an array of paths' });
+  } else {
+    const pathIds = new Set<string>();
+    realm.paths.forEach((realmPath, index) => {
+      const path = `realm.paths[${index}]`;
+      if (!isRecord(realmPath)) {
+        issues.push({ path, message: 'must be an object' });
+        return;
+      }
+      if (typeof realmPath.id !== 'string' || realmPath.id === '') {
+        issues.push({ path: `${path}.id`, message: 'must be a non-empty string' });
+      } else if (pathIds.has(realmPath.id)) {
+        issues.push({ path: `${path}.id`, message: `duplicates the path id "${realmPath.id}"` });
+      } else {
+        pathIds.add(realmPath.id);
+      }
+      if (!PATH_TYPES.includes(realmPath.type as PathType)) {
+        issues.push({
+          path: `${path}.type`,
+          message: `must be one of ${PATH_TYPES.map((type) => `"${type}"`).join(', ')}`,
+        });
+      }
+      if (realmPath.name !== undefined && typeof realmPath.name !== 'string') {
+        issues.push({ path: `${path}.name`, message: 'must be a string' });
+      }
+      if (!Array.isArray(realmPath.points)) {
+        issues.push({ path: `${path}.points`, message: 'must be an array of points' });
+        return;
+      }
+      realmPath.points.forEach((point, pointIndex) => {
+        const pointPath = `${path}.points[${pointIndex}]`;
+        if (!isRecord(point) || !isInteger(point.q) || !isInteger(point.r)) {
+          issues.push({ path: pointPath, message: 'must have integer q and r coordinates' });
+          return;
+        }
+        if (hexKeys.size > 0 && !hexKeys.has(`${point.q},${point.r}`)) {
+          issues.push({
+            path: pointPath,
+            message: `is placed at ${point.q},${point.r}, outside the realm`,
+          });
+        }
+        if (
+          point.corner !== undefined &&
+          (!isInteger(point.corner) || point.corner < 0 || point.corner > 5)
+        ) {
+          issues.push({
+            path: `${pointPath}.corner`,
+            message: `must be a corner index from 0 to 5, got ${JSON.stringify(point.corner)}`,
+          });
+        }
+      });
+    });
+  }
+
+  const party = realm.party;
+  if (!isRecord(party)) {
+    issues.push({ path: 'realm.party', message: 'must be an object' });
+  } else {
+    if (!isInteger(party.day) || party.day < 1) {
+      issues.push({ path: 'realm.party.day', message: 'must be a positive integer' });
+    }
+    if (!Array.isArray(party.log)) {
+      issues.push({ path: 'realm.party.log', message: 'must be an array of moves' });
+    } else {
+      party.log.forEach((entry, index) => {
+        const path = `realm.party.log[${index}]`;
+        if (!isRecord(entry) || !isInteger(entry.q) || !isInteger(entry.r)) {
+          issues.push({ path, message: 'must have integer q and r coordinates' });
+          return;
+        }
+        if (!isInteger(entry.day) || entry.day < 1) {
+          issues.push({ path: `${path}.day`, message: 'must be a positive integer' });
+        }
+        if (hexKeys.size > 0 && !hexKeys.has(`${entry.q},${entry.r}`)) {
+          issues.push({ path, message: `is at ${entry.q},${entry.r}, outside the realm` });
+        }
+      });
+    }
+  }
+
+  const seat = realm.seatOfPower;
+  if (!isRecord(seat) || !isInteger(seat.q) || !isInteger(seat.r)) {
+    issues.push({ path: 'realm.seatOfPower', message: 'must have integer q and r coordinates' });
+  } else if (hexKeys.size > 0 && !hexKeys.has(`${seat.q},${seat.r}`)) {
+    issues.push({
+      path: 'realm.seatOfPower',
+      message: `is placed at ${seat.q},${seat.r}, outside the realm`,
+    });
+  }
+}
+
+/**
+ * Validates the generation options of a realm document.
+ * @param generationOptions The generation options to validate.
+ * @returns A list of issues, each with the exact path of the malformed field. Empty if valid.
+ */
+export function validateGenerationOptions(generationOptions: unknown): RealmValidationIssue[] {
+  const issues: RealmValidationIssue[] = [];
+  if (!isRecord(generationOptions)) {
+    issues.push({ path: 'generationOptions', message: 'must be an object' });
+  } else {
+    if (!isInteger(generationOptions.seed)) {
+      issues.push({ path: 'generationOptions.seed', message: 'must be an integer' });
+    }
+    for (const key of ['numHoldings', 'numMyths', 'mythMinDistance', 'numRivers']) {
+      const value = generationOptions[key];
+      if (!isInteger(value) || value < 0) {
+        issues.push({
+          path: `generationOptions.${key}`,
+          message: 'must be a non-negative integer',
+        });
+      }
+    }
+    const landmarks = generationOptions.landmarks;
+    if (!isRecord(landmarks)) {
+      issues.push({ path: 'generationOptions.landmarks', message: 'must be an object' });
+    } else {
+      Object.entries(landmarks).forEach(([landmarkId, count]) => {
+        if (!isInteger(count) || count < 0) {
+          issues.push({
+            path: `generationOptions.landmarks.${landmarkId}`,
+            message: 'must be a non-negative integer',
+          });
+        }
+      });
+    }
+    for (const key of ['generateBarriers', 'generateRoads', 'generateNames']) {
+      if (typeof generationOptions[key] !== 'boolean') {
+        issues.push({ path: `generationOptions.${key}`, message: 'must be a boolean' });
+      }
+    }
+    describeNameTableIssues(generationOptions.nameTables).forEach((message) =>
+      issues.push({ path: 'generationOptions.nameTables', message })
+    );
+    // 'random' has no formation of its own, leaving the elevation to the noise.
+    const formations = ['random', ...Object.keys(HIGHLAND_FORMATIONS)];
+    const formation = generationOptions.highlandFormation;
+    if (typeof formation !== 'string' || !formations.includes(formation)) {
+      issues.push({
+        path: 'generationOptions.highlandFormation',
+        message: `must be one of ${formations.map((id) => `"${id}"`).join(', ')}`,
+      });
+    }
+    for (const key of [
+      'highlandFormationStrength',
+      'highlandFormationRotation',
+      'terrainRoughness',
+    ]) {
+      const value = generationOptions[key];
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path: `generationOptions.${key}`, message: 'must be a number' });
+      }
+    }
+    if (
+      generationOptions.highlandFormationInverse !== undefined &&
+      typeof generationOptions.highlandFormationInverse !== 'boolean'
+    ) {
+      issues.push({
+        path: 'generationOptions.highlandFormationInverse',
+        message: 'must be a boolean',
+      });
+    }
+    const noise = generationOptions.noise;
+    if (!isRecord(noise)) {
+      issues.push({ path: 'generationOptions.noise', message: 'must be an object' });
+    } else {
+      for (const key of ['octaves', 'relaxationPasses']) {
+        const value = noise[key];
+        if (!isInteger(value) || value < (key === 'octaves' ? 1 : 0)) {
+          issues.push({
+            path: `generationOptions.noise.${key}`,
+            message:
+              key === 'octaves' ? 'must be a positive integer' : 'must be a non-negative integer',
+          });
+        }
+      }
+      for (const key of ['lacunarity', 'persistence', 'warpStrength']) {
+        const value = noise[key];
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+          issues.push({
+            path: `generationOptions.noise.${key}`,
+            message: 'must be a non-negative number',
+          });
+        }
+      }
+    }
+    const matrix = generationOptions.terrainClusteringMatrix;
+    if (!isRecord(matrix)) {
+      issues.push({
+        path: 'generationOptions.terrainClusteringMatrix',
+        message: 'must be an object',
+      });
+    } else {
+      Object.entries(matrix).forEach(([rowId, row]) => {
+        if (!isRecord(row)) {
+          issues.push({
+            path: `generationOptions.terrainClusteringMatrix.${rowId}`,
+            message: 'must be an object',
+          });
+          return;
+        }
+        Object.entries(row).forEach(([columnId, affinity]) => {
+          if (typeof affinity !== 'number' || !Number.isFinite(affinity)) {
+            issues.push({
+              path: `generationOptions.terrainClusteringMatrix.${rowId}.${columnId}`,
+              message: 'must be a number',
+            });
+          }
+        });
+      });
+    }
+    const biases = generationOptions.terrainBiases;
+    if (!isRecord(biases)) {
+      issues.push({ path: 'generationOptions.terrainBiases', message: 'must be an object' });
+    } else {
+      Object.entries(biases).forEach(([terrainId, bias]) => {
+        if (typeof bias !== 'number' || !Number.isFinite(bias) || bias < 0) {
+          issues.push({
+            path: `generationOptions.terrainBiases.${terrainId}`,
+            message: 'must be a non-negative number',
+          });
+        }
+      });
+    }
+    const heightOrder = generationOptions.terrainHeightOrder;
+    if (!Array.isArray(heightOrder)) {
+      issues.push({ path: 'generationOptions.terrainHeightOrder', message: 'must be an array' });
+    } else {
+      heightOrder.forEach((terrainId, index) => {
+        if (typeof terrainId !== 'string') {
+          issues.push({
+            path: `generationOptions.terrainHeightOrder[${index}]`,
+            message: 'must be a terrain id',
+          });
+        }
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Validates a realm document in the current format.
+ * @param document The document to validate.
+ * @returns A list of issues, each with the exact path of the malformed field. Empty if valid.
+ */
+export function validateRealmDocument(document: unknown): RealmValidationIssue[] {
+  const issues: RealmValidationIssue[] = [];
+  if (!isRecord(document)) {
+    return [{ path: '', message: 'must be an object' }];
+  }
+
+  if (document.format !== REALM_DOCUMENT_FORMAT) {
+    issues.push({ path: 'format', message: `must be "${REALM_DOCUMENT_FORMAT}"` });
+  }
+  if (document.formatVersion !== REALM_DOCUMENT_VERSION) {
+    issues.push({ path: 'formatVersion', message: `must be ${REALM_DOCUMENT_VERSION}` });
+  }
+  for (const key of ['appVersion', 'createdAt', 'updatedAt']) {
+    if (typeof document[key] !== 'string') {
+      issues.push({ path: key, message: 'must be a string' });
+    }
+  }
+
+  const tileSets = document.tileSets;
+  const tileIds = {
+    terrain: new Set<string>(),
+    holding: new Set<string>(),
+    landmark: new Set<string>(),
+  };
+  if (!isRecord(tileSets)) {
+    issues.push({ path: 'tileSets', message: 'must be an object' });
+  } else {
+    tileIds.terrain = validateTiles(tileSets.terrain, 'tileSets.terrain', issues);
+    tileIds.holding = validateTiles(tileSets.holding, 'tileSets.holding', issues);
+    tileIds.landmark = validateTiles(tileSets.landmark, 'tileSets.landmark', issues);
+  }
+
+  const terrainColors = document.terrainColors;
+  if (!isRecord(terrainColors)) {
+    issues.push({ path: 'terrainColors', message: 'must be an object' });
+  } else {
+    Object.entries(terrainColors).forEach(([terrainId, color]) => {
+      if (typeof color !== 'string') {
+        issues.push({ path: `terrainColors.${terrainId}`, message: 'must be a colour string' });
+      }
+    });
+  }
+
+  if (typeof document.barrierColor !== 'string') {
+    issues.push({ path: 'barrierColor', message: 'must be a colour string' });
+  }
+
+  const viewOptions = document.viewOptions;
+  if (!isRecord(viewOptions)) {
+    issues.push({ path: 'viewOptions', message: 'must be an object' });
+  } else {
+    if (viewOptions.orientation !== 'pointy' && viewOptions.orientation !== 'flat') {
+      issues.push({ path: 'viewOptions.orientation', message: 'must be "pointy" or "flat"' });
+    }
+    if (!isRecord(viewOptions.hexSize)) {
+      issues.push({ path: 'viewOptions.hexSize', message: 'must be an object' });
+    }
+    if (!isRecord(viewOptions.visibility)) {
+      issues.push({ path: 'viewOptions.visibility', message: 'must be an object' });
+    }
+    if (!HEX_LABEL_STYLES.some((style) => style.id === viewOptions.hexLabels)) {
+      issues.push({
+        path: 'viewOptions.hexLabels',
+        message: `must be one of ${HEX_LABEL_STYLES.map((style) => `"${style.id}"`).join(', ')}`,
+      });
+    }
+    const overlays = viewOptions.overlays;
+    if (!isRecord(overlays)) {
+      issues.push({ path: 'viewOptions.overlays', message: 'must be an object' });
+    } else {
+      (['showLegend', 'showCompass', 'showScaleBar'] as const).forEach((key) => {
+        if (typeof overlays[key] !== 'boolean') {
+          issues.push({ path: `viewOptions.overlays.${key}`, message: 'must be a boolean' });
+        }
+      });
+      if (!MAP_OVERLAY_POSITIONS.some((position) => position.id === overlays.position)) {
+        issues.push({
+          path: 'viewOptions.overlays.position',
+          message: `must be one of ${MAP_OVERLAY_POSITIONS.map((position) => `"${position.id}"`).join(', ')}`,
+        });
+      }
+      if (typeof overlays.distancePerHex !== 'number' || !(overlays.distancePerHex >= 0)) {
+        issues.push({
+          path: 'viewOptions.overlays.distancePerHex',
+          message: 'must be a non-negative number',
+        });
+      }
+      if (typeof overlays.distanceUnit !== 'string') {
+        issues.push({ path: 'viewOptions.overlays.distanceUnit', message: 'must be a string' });
+      }
+    }
+  }
+
+  issues.push(...validateGenerationOptions(document.generationOptions));
+
+  validateRealm(document.realm, tileIds, issues);
+  return issues;
+}
+
+/**
+ * Wraps the current editor state in a realm document ready to be saved.
+ * @param content The realm and editor state to save.
+ * @param createdAt The original creation time, when re-saving a previously loaded document.
+ * @returns A realm document in the current format.
+ */
+export function createRealmDocument(
+  content: RealmDocumentContent,
+  createdAt?: string | null
+): RealmDocument {
+  const now = new Date().toISOString();
+  return {
+    format: REALM_DOCUMENT_FORMAT,
+    formatVersion: REALM_DOCUMENT_VERSION,
+    appVersion: APP_VERSION,
+    createdAt: createdAt ?? now,
+    updatedAt: now,
+    ...content,
+  };
+}
+
+/**
+ * Migrates and validates an already-parsed realm document, e.g. one read back from local storage.
+ * @param data The parsed document, in any supported format version.
+ * @param fallback Editor state used to fill fields that older versions did not store.
+ * @returns The loaded realm document.
+ * @throws {RealmFileError} If the data is not a realm document or contains invalid data.
+ */
+export function loadRealmDocument(data: unknown, fallback: RealmDocumentContent): RealmDocument {
+  const document = migrateRealmDocument(data, fallback);
+  const issues = validateRealmDocument(document);
+  if (issues.length > 0) {
+    throw new RealmFileError('The realm file contains invalid data.', issues);
+  }
+  return document as unknown as RealmDocument;
+}
+
+/**
+ * Parses, migrates and validates the text of a realm file.
+ * @param text The raw file content.
+ * @param fallback Editor state used to fill fields that older versions did not store.
+ * @returns The loaded realm document.
+ * @throws {RealmFileError} If the file is not valid JSON, not a realm file, or contains invalid data.
+ */
+export function parseRealmDocument(text: string, fallback: RealmDocumentContent): RealmDocument {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new RealmFileError('The file is not valid JSON.');
+  }
+  return loadRealmDocument(data, fallback);
+}
+
+/**
+ * Formats a realm file error for display, listing the first few validation issues.
+ * @param error The error to describe.
+ * @returns A human-readable, multi-line description.
+ */
+export function describeRealmFileError(error: RealmFileError): string {
+  if (error.issues.length === 0) return error.message;
+  const listed = error.issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map((issue) => `• ${issue.path || '(root)'}: ${issue.message}`);
+  const remaining = error.issues.length - listed.length;
+  if (remaining > 0) listed.push(`…and ${remaining} more.`);
+  return [error.message, ...listed].join('\n');
+}
@@ -2,21 +2,68 @@
  * @file realmGenerator.ts
  * This file contains the core logic for procedurally generating a new realm.
  * It handles grid creation, terrain distribution, and the placement of holdings,
- * landmarks, myths, and barriers.
+ * landmarks, myths, barriers, rivers and roads.
  */
 
-import type { Realm, Hex, GenerationOptions, Myth } from '@/features/realm/types';
-import { HOLDING_TYPES, BARRIER_CHANCE } from '@/features/realm/config/constants';
+import type {
+  Realm,
+  Hex,
+  GenerationOptions,
+  GenerationProgress,
+  Myth,
+  RealmPath,
+  PathType,
+} from '@/features/realm/types';
+import { HOLDING_TYPES, BARRIER_CHANCE, DEFAULT_PARTY } from '@/features/realm/config/constants';
 import { getAxialDistance, getNeighbors } from '@/features/realm/utils/hexUtils';
+import { createMyth } from '@/features/realm/utils/mythUtils';
+import { HexSpatialIndex } from '@/features/realm/utils/hexSpatialIndex';
+import { mulberry32 } from '@/features/realm/utils/randomUtils';
+import type { RandomSource } from '@/features/realm/utils/randomUtils';
+import { createFormationField } from './formations';
+import { createNamer, resolveNameTables } from './nameGenerator';
 import { PerlinNoise } from './perlin';
 
 /**
  * Defines the shape and size for realm generation.
  */
-type GenerateRealmOptions =
+export type GenerateRealmOptions =
   | { shape: 'hex'; radius: number }
   | { shape: 'square'; width: number; height: number };
 
+/** The noise frequency at medium roughness. It doubles at full roughness and halves at none. */
+const BASE_NOISE_FREQUENCY = 0.1;
+/** How far domain warping can move a noise sample at full strength, in noise periods. */
+const WARP_DISTANCE = 1;
+
+/** Rivers shorter than this many hexes are discarded. */
+const MIN_RIVER_LENGTH = 3;
+
+/** The cost of building a road through each terrain type. Unlisted terrain costs 1. */
+const ROAD_TERRAIN_COSTS: Record<string, number> = {
+  peaks: 8,
+  crags: 6,
+  bog: 5,
+  marsh: 4,
+  hills: 3,
+  forest: 2,
+  heath: 1.5,
+  lakes: Infinity,
+};
+/** The extra cost of bridging a river. */
+const ROAD_RIVER_CROSSING_COST = 2;
+/** The cost of following a road that has already been built, which makes roads merge. */
+const ROAD_REUSE_COST = 0.5;
+/** Holdings that are linked by tracks rather than roads. */
+const MINOR_HOLDINGS = ['village'];
+/** Mixed into the seed for the names' random stream, to keep it apart from the terrain's. */
+const NAME_SEED_SALT = 0x6e616d65;
+
+const hexKey = (hex: { q: number; r: number }) => `${hex.q},${hex.r}`;
+
+/** Receives the progress of a realm's generation. */
+type ProgressListener = (progress: GenerationProgress) => void;
+
 /**
  * Creates a hexagonal grid of hexes.
  * @param radius - The radius of the hexagonal map.
@@ -74,73 +121,83 @@ function createSquareGrid(width: number, height: number): Hex[] {
 /**
  * Selects a random element from an array.
  * @param arr - The array to select from.
+ * @param random - The seeded random source.
  * @returns A random element from the array.
  */
-function getRandomElement<T>(arr: T[]): T | undefined {
+function getRandomElement<T>(arr: T[], random: RandomSource): T | undefined {
   if (arr.length === 0) return undefined;
-  return arr[Math.floor(Math.random() * arr.length)];
+  return arr[Math.floor(random() * arr.length)];
 }
 
 /**
  * Generates an initial terrain map based on Perlin noise and elevation distribution.
  * @param hexes - The array of hexes to assign terrain to.
  * @param options - The generation options.
- * @returns A Map where keys are hex coordinates and values are terrain IDs.
+ * @param random - The seeded random source.
+ * @returns Maps from hex coordinates to terrain IDs and to the raw elevation of each hex.
  */
-function getInitialTerrainMap(hexes: Hex[], options: GenerationOptions): Map<string, string> {
-  const noiseGen = new PerlinNoise(Math.random());
-  if (hexes.length === 0) return new Map();
-
-  // Calculate map bounds for noise normalization
-  let minQ = Infinity,
-    maxQ = -Infinity,
-    minR = Infinity,
-    maxR = -Infinity;
+function getInitialTerrainMap(
+  hexes: Hex[],
+  options: GenerationOptions,
+  random: RandomSource
+): { terrainMap: Map<string, string>; elevations: Map<string, number> } {
+  const noiseGen = new PerlinNoise(random());
+  if (hexes.length === 0) return { terrainMap: new Map(), elevations: new Map() };
+
+  // Calculate map bounds for formation normalization, in the grid's Cartesian space so
+  // that formations keep their shape on screen.
+  const toCartesian = (hex: Hex) => ({ x: hex.q + hex.r / 2, y: (hex.r * Math.sqrt(3)) / 2 });
+  let minX = Infinity,
+    maxX = -Infinity,
+    minY = Infinity,
+    maxY = -Infinity;
   hexes.forEach((h) => {
-    minQ = Math.min(minQ, h.q);
-    maxQ = Math.max(maxQ, h.q);
-    minR = Math.min(minR, h.r);
-    maxR = Math.max(maxR, h.r);
+    const { x, y } = toCartesian(h);
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
   });
-  const maxDimension = Math.max(maxQ - minQ, maxR - minR, 1);
+  const halfExtent = Math.max(maxX - minX, maxY - minY, 1) / 2;
+  const centerX = (minX + maxX) / 2;
+  const centerY = (minY + maxY) / 2;
+  const formationField = createFormationField(options, random);
+  const { octaves, lacunarity, persistence, warpStrength } = options.noise;
+  const baseFrequency = BASE_NOISE_FREQUENCY * 2 ** ((options.terrainRoughness - 0.5) * 2);
+  const warpDistance = (warpStrength * WARP_DISTANCE) / baseFrequency;
 
   const hexElevations: { hex: Hex; elevation: number }[] = hexes.map((hex) => {
+    // Domain warping: offset the sample point by a second, low-frequency noise field
+    let sampleQ = hex.q,
+      sampleR = hex.r;
+    if (warpDistance > 0) {
+      sampleQ +=
+        noiseGen.noise(hex.q * baseFrequency + 5.2, hex.r * baseFrequency + 1.3) * warpDistance;
+      sampleR +=
+        noiseGen.noise(hex.q * baseFrequency + 9.7, hex.r * baseFrequency + 2.8) * warpDistance;
+    }
+
     // Base noise calculation
     let e = 0,
       freq = 1,
       amp = 1;
-    for (let i = 0; i < 5; i++) {
-      e += noiseGen.noise(hex.q * 0.1 * freq, hex.r * 0.1 * freq) * amp;
-      freq *= 2;
-      amp *= 0.5;
+    for (let i = 0; i < octaves; i++) {
+      e += noiseGen.noise(sampleQ * baseFrequency * freq, sampleR * baseFrequency * freq) * amp;
+      freq *= lacunarity;
+      amp *= persistence;
     }
 
     // Apply highland formation modifier
-    let e_mod = 0;
-    if (options.highlandFormation !== 'random') {
-      const centerX = (minQ + maxQ) / 2;
-      const centerY = (minR + maxR) / 2;
-      const nx = (hex.q - centerX) / (maxDimension / 2),
-        ny = (hex.r - centerY) / (maxDimension / 2);
-      const angle = (options.highlandFormationRotation * Math.PI) / 180;
-      const rx = nx * Math.cos(angle) - ny * Math.sin(angle);
-      const ry = nx * Math.sin(angle) + ny * Math.cos(angle);
-
-      if (options.highlandFormation === 'linear') e_mod = -ry;
-      else if (options.highlandFormation === 'circle')
-        e_mod = 1 - Math.min(1, Math.sqrt(rx * rx + ry * ry) / Math.sqrt(2));
-      // (Triangle logic omitted for brevity, but it calculates if the point is inside a rotated triangle)
+    if (formationField) {
+      const { x, y } = toCartesian(hex);
+      const e_mod = formationField((x - centerX) / halfExtent, (y - centerY) / halfExtent);
+      e += e_mod * 1.5 * options.highlandFormationStrength;
     }
-    if (
-      options.highlandFormationInverse === true &&
-      (options.highlandFormation === 'circle' || options.highlandFormation === 'triangle')
-    )
-      e_mod = -e_mod;
-    e += e_mod * 1.5 * options.highlandFormationStrength;
 
     return { hex, elevation: e };
   });
 
+  const elevations = new Map(hexElevations.map(({ hex, elevation }) => [hexKey(hex), elevation]));
   hexElevations.sort((a, b) => b.elevation - a.elevation);
 
   // Distribute terrain types based on elevation and biases
@@ -179,7 +236,7 @@ function getInitialTerrainMap(hexes: Hex[], options: GenerationOptions): Map<str
       }
     }
   }
-  return initialTerrainMap;
+  return { terrainMap: initialTerrainMap, elevations };
 }
 
 /**
@@ -187,61 +244,309 @@ function getInitialTerrainMap(hexes: Hex[], options: GenerationOptions): Map<str
  * to create more natural-looking clusters.
  * @param hexes - The array of hexes.
  * @param options - The generation options containing the clustering matrix.
+ * @param random - The seeded random source.
+ * @param onProgress - Receives the progress of the terrain and relaxation stages.
+ * @returns The raw elevation of each hex, keyed by hex coordinates.
  */
-function generateTerrain(hexes: Hex[], options: GenerationOptions): void {
-  const initialTerrainMap = getInitialTerrainMap(hexes, options);
+function generateTerrain(
+  hexes: Hex[],
+  options: GenerationOptions,
+  random: RandomSource,
+  onProgress: ProgressListener
+): Map<string, number> {
+  const { terrainMap: initialTerrainMap, elevations } = getInitialTerrainMap(
+    hexes,
+    options,
+    random
+  );
   hexes.forEach((hex) => (hex.terrain = initialTerrainMap.get(`${hex.q},${hex.r}`) || 'plain'));
 
-  const RELAXATION_PASSES = 4;
+  // Smoother terrain gets more clustering passes, rougher terrain fewer.
+  const relaxationPasses = Math.round(
+    options.noise.relaxationPasses * 2 * (1 - options.terrainRoughness)
+  );
   const terrainTypes = Object.keys(options.terrainClusteringMatrix);
-  let currentHexes = hexes.map((h) => ({ ...h }));
-
-  for (let i = 0; i < RELAXATION_PASSES; i++) {
-    const nextHexes = currentHexes.map((h) => ({ ...h }));
-    const currentHexesMap = new Map(currentHexes.map((h) => [`${h.q},${h.r}`, h]));
-
-    for (const hex of nextHexes) {
-      let bestTerrain = hex.terrain;
+  // The terrain of each hex by its position in the array, and the positions of its neighbours.
+  const hexIndexes = new Map(hexes.map((h, index) => [hexKey(h), index]));
+  const neighborIndexes = hexes.map((hex) =>
+    getNeighbors(hex)
+      .map((coords) => hexIndexes.get(hexKey(coords)))
+      .filter((index): index is number => index !== undefined)
+  );
+  const initialTerrains = hexes.map((h) => initialTerrainMap.get(hexKey(h)));
+  let currentTerrains = hexes.map((h) => h.terrain);
+
+  onProgress({ stage: 'relaxation', fraction: 0 });
+  for (let i = 0; i < relaxationPasses; i++) {
+    const terrains = currentTerrains;
+    currentTerrains = terrains.map((terrain, index) => {
+      let bestTerrain = terrain;
       let maxScore = -Infinity;
       for (const candidateTerrain of terrainTypes) {
         let score = 0;
-        const neighbors = getNeighbors(hex)
-          .map((coords) => currentHexesMap.get(`${coords.q},${coords.r}`))
-          .filter((h): h is Hex => !!h);
-        for (const neighbor of neighbors) {
-          score += options.terrainClusteringMatrix[candidateTerrain]?.[neighbor.terrain] || 0;
+        for (const neighborIndex of neighborIndexes[index] ?? []) {
+          score +=
+            options.terrainClusteringMatrix[candidateTerrain]?.[terrains[neighborIndex] ?? ''] || 0;
         }
-        if (candidateTerrain === initialTerrainMap.get(`${hex.q},${hex.r}`)) score += 1.5; // Weight towards initial terrain
+        if (candidateTerrain === initialTerrains[index]) score += 1.5; // Weight towards initial terrain
         if (score > maxScore) {
           maxScore = score;
           bestTerrain = candidateTerrain;
         }
       }
-      hex.terrain = bestTerrain;
-    }
-    currentHexes = nextHexes;
+      return bestTerrain;
+    });
+    onProgress({ stage: 'relaxation', fraction: (i + 1) / relaxationPasses });
   }
-  const finalHexesMap = new Map(currentHexes.map((h) => [`${h.q},${h.r}`, h]));
-  hexes.forEach((h) => {
-    h.terrain = finalHexesMap.get(`${h.q},${h.r}`)?.terrain || h.terrain;
+  hexes.forEach((h, index) => {
+    h.terrain = currentTerrains[index] || h.terrain;
   });
+  return elevations;
+}
+
+/**
+ * Runs rivers from random highland sources, always flowing to the lowest neighbouring hex,
+ * until they reach a lake, join another river or leave the map. A river that ends in a
+ * hollow with no lower neighbour forms a new lake there, if lakes are in use.
+ * @param hexes - The array of hexes.
+ * @param elevations - The raw elevation of each hex, keyed by hex coordinates.
+ * @param numRivers - The number of rivers to generate.
+ * @param canFormLakes - Whether the 'lakes' terrain may be used for new lakes.
+ * @param random - The seeded random source.
+ * @returns The generated river paths.
+ */
+function addRivers(
+  hexes: Hex[],
+  elevations: Map<string, number>,
+  numRivers: number,
+  canFormLakes: boolean,
+  random: RandomSource
+): RealmPath[] {
+  const hexMap = new Map(hexes.map((h) => [hexKey(h), h]));
+  const elevationOf = (hex: Hex) => elevations.get(hexKey(hex)) ?? 0;
+  const riverHexes = new Set<string>();
+  const rivers: RealmPath[] = [];
+
+  // Sources are drawn from the highest fifth of the map.
+  const sources = hexes
+    .filter((h) => h.terrain !== 'lakes')
+    .sort((a, b) => elevationOf(b) - elevationOf(a))
+    .slice(0, Math.max(numRivers, Math.ceil(hexes.length / 5)));
+
+  while (rivers.length < numRivers && sources.length > 0) {
+    const source = sources.splice(Math.floor(random() * sources.length), 1)[0];
+    if (!source || [source, ...getNeighbors(source)].some((h) => riverHexes.has(hexKey(h)))) {
+      continue;
+    }
+
+    const course: Hex[] = [source];
+    let current = source;
+    let lakeToForm: Hex | null = null;
+    for (;;) {
+      if (current.terrain === 'lakes' || riverHexes.has(hexKey(current))) break;
+      const neighbors = getNeighbors(current).map((coords) => hexMap.get(hexKey(coords)));
+      if (neighbors.some((n) => !n)) break; // Flows off the edge of the map.
+      const lowest = neighbors
+        .filter((n): n is Hex => !!n)
+        .sort((a, b) => elevationOf(a) - elevationOf(b))[0];
+      if (!lowest || elevationOf(lowest) >= elevationOf(current)) {
+        // A hollow with no way down: the river pools into a new lake, or is abandoned.
+        if (!canFormLakes) course.length = 0;
+        lakeToForm = current;
+        break;
+      }
+      course.push(lowest);
+      current = lowest;
+    }
+    if (course.length < MIN_RIVER_LENGTH) continue;
+
+    if (lakeToForm) lakeToForm.terrain = 'lakes';
+    course.forEach((hex) => {
+      if (hex.terrain === 'lakes') {
+        hex.isWater = true;
+      } else {
+        hex.isRiver = true;
+      }
+      riverHexes.add(hexKey(hex));
+    });
+    rivers.push({
+      id: `river-${rivers.length + 1}`,
+      type: 'river',
+      points: course.map(({ q, r }) => ({ q, r })),
+    });
+  }
+  return rivers;
+}
+
+/**
+ * A minimal binary min-heap, used as the open set of the road search.
+ */
+class MinHeap<T> {
+  private items: { value: T; priority: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(value: T, priority: number): void {
+    const items = this.items;
+    items.push({ value, priority });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      const item = items[i];
+      const parentItem = items[parent];
+      if (!item || !parentItem || parentItem.priority <= item.priority) break;
+      items[i] = parentItem;
+      items[parent] = item;
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (!top || !last || items.length === 0) return top?.value;
+    items[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+      if ((items[left]?.priority ?? Infinity) < (items[smallest]?.priority ?? Infinity)) {
+        smallest = left;
+      }
+      if ((items[right]?.priority ?? Infinity) < (items[smallest]?.priority ?? Infinity)) {
+        smallest = right;
+      }
+      const item = items[i];
+      const smallestItem = items[smallest];
+      if (smallest === i || !item || !smallestItem) break;
+      items[i] = smallestItem;
+      items[smallest] = item;
+      i = smallest;
+    }
+    return top.value;
+  }
+}
+
+/**
+ * Finds the cheapest route for a road between two hexes using A* search,
+ * weighing terrain, river crossings and existing roads.
+ * @param start - The hex the road starts from.
+ * @param goal - The hex the road leads to.
+ * @param hexMap - All hexes, keyed by hex coordinates.
+ * @param roadHexes - The keys of hexes that already carry a road.
+ * @returns The hexes along the route, including both ends, or `null` if there is no route.
+ */
+function findRoadRoute(
+  start: Hex,
+  goal: Hex,
+  hexMap: Map<string, Hex>,
+  roadHexes: Set<string>
+): Hex[] | null {
+  const goalKey = hexKey(goal);
+  const costs = new Map<string, number>([[hexKey(start), 0]]);
+  const cameFrom = new Map<string, Hex>();
+  // The cheapest step costs ROAD_REUSE_COST, which keeps the heuristic admissible.
+  const open = new MinHeap<Hex>();
+  open.push(start, getAxialDistance(start, goal) * ROAD_REUSE_COST);
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (!current) break;
+    const currentKey = hexKey(current);
+    if (currentKey === goalKey) {
+      const route = [current];
+      let step = cameFrom.get(currentKey);
+      while (step) {
+        route.unshift(step);
+        step = cameFrom.get(hexKey(step));
+      }
+      return route;
+    }
+    const currentCost = costs.get(currentKey) ?? Infinity;
+    for (const coords of getNeighbors(current)) {
+      const neighbor = hexMap.get(hexKey(coords));
+      if (!neighbor) continue;
+      const neighborKey = hexKey(neighbor);
+      let stepCost = roadHexes.has(neighborKey)
+        ? ROAD_REUSE_COST
+        : (ROAD_TERRAIN_COSTS[neighbor.terrain] ?? 1) +
+          (neighbor.isRiver ? ROAD_RIVER_CROSSING_COST : 0);
+      if (neighborKey === goalKey) stepCost = Math.min(stepCost, 1);
+      const cost = currentCost + stepCost;
+      if (!Number.isFinite(cost) || cost >= (costs.get(neighborKey) ?? Infinity)) continue;
+      costs.set(neighborKey, cost);
+      cameFrom.set(neighborKey, current);
+      open.push(neighbor, cost + getAxialDistance(neighbor, goal) * ROAD_REUSE_COST);
+    }
+  }
+  return null;
+}
+
+/**
+ * Connects every holding to the network with roads, starting from the Seat of Power.
+ * Holdings are linked along a minimum spanning tree (by distance), and each link is routed
+ * around difficult terrain. Links to minor holdings are built as tracks instead of roads.
+ * @param hexes - The array of hexes.
+ * @param seatOfPower - The coordinates of the Seat of Power.
+ * @returns The generated road and track paths.
+ */
+function addRoads(hexes: Hex[], seatOfPower: { q: number; r: number }): RealmPath[] {
+  const hexMap = new Map(hexes.map((h) => [hexKey(h), h]));
+  const holdings = hexes.filter((h) => h.holding);
+  const seatIndex = holdings.findIndex((h) => h.q === seatOfPower.q && h.r === seatOfPower.r);
+  const connected = holdings.splice(Math.max(seatIndex, 0), 1);
+  const roadHexes = new Set<string>();
+  const paths: RealmPath[] = [];
+
+  while (holdings.length > 0) {
+    let best: { from: Hex; to: Hex; index: number; distance: number } | null = null;
+    for (const [index, to] of holdings.entries()) {
+      for (const from of connected) {
+        const distance = getAxialDistance(from, to);
+        if (!best || distance < best.distance) best = { from, to, index, distance };
+      }
+    }
+    if (!best) break;
+    const { from, to, index } = best;
+    holdings.splice(index, 1);
+    connected.push(to);
+
+    const route = findRoadRoute(from, to, hexMap, roadHexes);
+    if (!route) continue;
+    route.forEach((hex) => roadHexes.add(hexKey(hex)));
+    const type: PathType = [from, to].some((h) => MINOR_HOLDINGS.includes(h.holding ?? ''))
+      ? 'track'
+      : 'road';
+    paths.push({
+      id: `${type}-${paths.length + 1}`,
+      type,
+      points: route.map(({ q, r }) => ({ q, r })),
+    });
+  }
+  return paths;
 }
 
 /**
  * Randomly adds barriers to hex edges.
  * @param hexes - The array of hexes.
+ * @param random - The seeded random source.
  */
-function addBarriers(hexes: Hex[]): void {
+function addBarriers(hexes: Hex[], random: RandomSource): void {
+  const hexMap = new Map(hexes.map((h) => [hexKey(h), h]));
   const numBarriers = Math.floor((hexes.length * 6 * BARRIER_CHANCE) / 2);
   for (let i = 0; i < numBarriers; i++) {
-    const hex = getRandomElement(hexes);
+    const hex = getRandomElement(hexes, random);
     if (!hex) continue;
-    const edge = Math.floor(Math.random() * 6);
+    const edge = Math.floor(random() * 6);
     if (!hex.barrierEdges.includes(edge)) {
       hex.barrierEdges.push(edge);
       const neighborCoords = getNeighbors(hex)[edge];
       if (!neighborCoords) continue;
-      const neighborHex = hexes.find((h) => h.q === neighborCoords.q && h.r === neighborCoords.r);
+      const neighborHex = hexMap.get(hexKey(neighborCoords));
       if (neighborHex) {
         const oppositeEdge = (edge + 3) % 6;
         if (!neighborHex.barrierEdges.includes(oppositeEdge)) {
@@ -257,29 +562,30 @@ function addBarriers(hexes: Hex[]): void {
  * @param hexes - The array of hexes.
  * @param sizeForDensity - A size metric (radius or max dimension) to scale placement distance.
  * @param numHoldings - The number of holdings to place.
+ * @param random - The seeded random source.
  * @returns The coordinates of the designated Seat of Power.
  */
 function placeHoldings(
   hexes: Hex[],
   sizeForDensity: number,
-  numHoldings: number
+  numHoldings: number,
+  random: RandomSource
 ): { q: number; r: number } {
   const validHexes = hexes.filter(
     (h) => !['peaks', 'crags', 'bog', 'lakes', 'marsh'].includes(h.terrain)
   );
+  const minDistance = sizeForDensity / 4;
   const placedHoldings: Hex[] = [];
+  const placedIndex = new HexSpatialIndex(minDistance);
   while (placedHoldings.length < numHoldings && validHexes.length > 0) {
-    const index = Math.floor(Math.random() * validHexes.length);
+    const index = Math.floor(random() * validHexes.length);
     const hex = validHexes.splice(index, 1)[0];
-    if (
-      hex &&
-      !hex.holding &&
-      !placedHoldings.some((h) => getAxialDistance(h, hex) < sizeForDensity / 4)
-    ) {
-      const holdingType = getRandomElement(HOLDING_TYPES);
+    if (hex && !hex.holding && !placedIndex.hasWithin(hex, minDistance)) {
+      const holdingType = getRandomElement(HOLDING_TYPES, random);
       if (holdingType !== undefined) {
         hex.holding = holdingType;
         placedHoldings.push(hex);
+        placedIndex.add(hex);
       }
     }
   }
@@ -304,29 +610,31 @@ function placeHoldings(
 function placeMyths(hexes: Hex[], numMyths: number, mythMinDistance: number): Myth[] {
   const featureHexes = hexes.filter((h) => h.holding || h.landmark);
   const candidates = hexes.filter((h) => !h.holding && !h.landmark);
+  // Remoteness is the distance to the nearest holding or landmark, or else to the centre.
+  const remoteness = new Map<Hex, number>();
   if (featureHexes.length > 0) {
-    candidates.sort(
-      (a, b) =>
-        Math.min(...featureHexes.map((f) => getAxialDistance(b, f))) -
-        Math.min(...featureHexes.map((f) => getAxialDistance(a, f)))
-    );
+    const featureIndex = new HexSpatialIndex(Math.sqrt(hexes.length / featureHexes.length));
+    featureHexes.forEach((f) => featureIndex.add(f));
+    candidates.forEach((c) => remoteness.set(c, featureIndex.nearestDistance(c)));
   } else {
-    candidates.sort(
-      (a, b) => getAxialDistance({ q: 0, r: 0 }, b) - getAxialDistance({ q: 0, r: 0 }, a)
-    );
+    candidates.forEach((c) => remoteness.set(c, getAxialDistance({ q: 0, r: 0 }, c)));
   }
+  candidates.sort((a, b) => (remoteness.get(b) ?? 0) - (remoteness.get(a) ?? 0));
+
   const placedMyths: Hex[] = [];
+  const placedIndex = new HexSpatialIndex(mythMinDistance);
   for (const candidate of candidates) {
     if (placedMyths.length >= numMyths) break;
-    if (placedMyths.every((p) => getAxialDistance(candidate, p) >= mythMinDistance)) {
+    if (!placedIndex.hasWithin(candidate, mythMinDistance)) {
       placedMyths.push(candidate);
+      placedIndex.add(candidate);
     }
   }
   const myths: Myth[] = [];
   placedMyths.forEach((hex, index) => {
     const mythId = index + 1;
     hex.myth = mythId;
-    myths.push({ id: mythId, name: `Myth #${mythId}`, q: hex.q, r: hex.r });
+    myths.push(createMyth(mythId, hex));
   });
   return myths;
 }
@@ -335,13 +643,18 @@ function placeMyths(hexes: Hex[], numMyths: number, mythMinDistance: number): My
  * Places a specified number of each landmark type on valid hexes.
  * @param hexes - The array of hexes.
  * @param landmarkOptions - An object specifying how many of each landmark to place.
+ * @param random - The seeded random source.
  */
-function placeLandmarks(hexes: Hex[], landmarkOptions: Record<string, number>): void {
+function placeLandmarks(
+  hexes: Hex[],
+  landmarkOptions: Record<string, number>,
+  random: RandomSource
+): void {
   const validHexes = hexes.filter((h) => !h.holding && !h.landmark);
   Object.entries(landmarkOptions).forEach(([type, count]) => {
     const numToPlace = count || 0;
     for (let i = 0; i < numToPlace && validHexes.length > 0; i++) {
-      const index = Math.floor(Math.random() * validHexes.length);
+      const index = Math.floor(random() * validHexes.length);
       const chosenHex = validHexes.splice(index, 1)[0];
       if (chosenHex) {
         chosenHex.landmark = type;
@@ -350,13 +663,48 @@ function placeLandmarks(hexes: Hex[], landmarkOptions: Record<string, number>):
   });
 }
 
+/**
+ * Names the holdings, landmarks, myths and rivers of a generated realm.
+ * @param hexes - The hexes of the realm, whose holdings and landmarks are named.
+ * @param myths - The myths to name.
+ * @param rivers - The rivers to name.
+ * @param genOptions - The generation options, holding any imported name tables.
+ */
+function nameFeatures(
+  hexes: Hex[],
+  myths: Myth[],
+  rivers: RealmPath[],
+  genOptions: GenerationOptions
+): void {
+  // Names draw from their own stream, so turning them on or off leaves the land unchanged.
+  const nameFeature = createNamer(
+    resolveNameTables(genOptions.nameTables),
+    mulberry32(genOptions.seed ^ NAME_SEED_SALT)
+  );
+  hexes.forEach((hex) => {
+    if (hex.holding) hex.holdingDetails = { name: nameFeature('holding') };
+    if (hex.landmark) hex.landmarkDetails = { name: nameFeature('landmark') };
+  });
+  myths.forEach((myth) => (myth.name = nameFeature('myth')));
+  rivers.forEach((river) => (river.name = nameFeature('river')));
+}
+
 /**
  * The main function to generate a complete realm.
+ * All randomness is drawn from PRNGs seeded with `genOptions.seed`, so the same
+ * seed and options always produce the same realm.
  * @param options - The shape and size of the realm.
  * @param genOptions - The detailed parameters for procedural generation.
+ * @param onProgress - Receives the progress of the generation as each stage runs.
  * @returns A complete Realm object.
  */
-export function generateRealm(options: GenerateRealmOptions, genOptions: GenerationOptions): Realm {
+export function generateRealm(
+  options: GenerateRealmOptions,
+  genOptions: GenerationOptions,
+  onProgress: ProgressListener = () => undefined
+): Realm {
+  onProgress({ stage: 'terrain', fraction: 0 });
+  const random = mulberry32(genOptions.seed);
   let hexes: Hex[];
   let sizeForDensity: number;
   const realmData: Partial<Realm> = { shape: options.shape };
@@ -372,11 +720,25 @@ export function generateRealm(options: GenerateRealmOptions, genOptions: Generat
     realmData.height = options.height;
   }
 
-  generateTerrain(hexes, genOptions);
-  if (genOptions.generateBarriers) addBarriers(hexes);
-  const seatOfPower = placeHoldings(hexes, sizeForDensity, genOptions.numHoldings);
-  placeLandmarks(hexes, genOptions.landmarks);
+  const elevations = generateTerrain(hexes, genOptions, random, onProgress);
+  const rivers = addRivers(
+    hexes,
+    elevations,
+    genOptions.numRivers,
+    'lakes' in genOptions.terrainClusteringMatrix,
+    random
+  );
+  if (genOptions.generateBarriers) addBarriers(hexes, random);
+
+  onProgress({ stage: 'holdings', fraction: 0 });
+  const seatOfPower = placeHoldings(hexes, sizeForDensity, genOptions.numHoldings, random);
+  // Roads only follow the terrain and holdings, so they are laid out before the landmarks.
+  const roads = genOptions.generateRoads ? addRoads(hexes, seatOfPower) : [];
+
+  onProgress({ stage: 'landmarks', fraction: 0 });
+  placeLandmarks(hexes, genOptions.landmarks, random);
 
+  onProgress({ stage: 'myths', fraction: 0 });
   hexes.forEach((h) => (h.myth = undefined));
   const myths = placeMyths(hexes, genOptions.numMyths, genOptions.mythMinDistance);
 
@@ -386,5 +748,16 @@ export function generateRealm(options: GenerateRealmOptions, genOptions: Generat
     );
   }
 
-  return { ...realmData, hexes, myths, seatOfPower } as Realm;
+  if (genOptions.generateNames) nameFeatures(hexes, myths, rivers, genOptions);
+  onProgress({ stage: 'myths', fraction: 1 });
+
+  return {
+    ...realmData,
+    hexes,
+    myths,
+    seatOfPower,
+    paths: [...rivers, ...roads],
+    party: DEFAULT_PARTY,
+    seed: genOptions.seed,
+  } as Realm;
 }
@@ -0,0 +1,283 @@
+/**
+ * @file storageService.ts
+ * This file contains the IndexedDB persistence layer for local saves. It keeps a single
+ * autosave slot used for session recovery, a library of named projects, and a library of
+ * stamps: regions of hexes saved to be pasted into any realm.
+ */
+
+import type { RealmDocument, Stamp } from '@/features/realm/types';
+import type { RealmHistory } from '@/features/realm/hooks/useRealmHistory';
+
+const DATABASE_NAME = 'hex-realm-generator';
+const DATABASE_VERSION = 2;
+const AUTOSAVE_STORE = 'autosave';
+const PROJECT_STORE = 'projects';
+const STAMP_STORE = 'stamps';
+const AUTOSAVE_KEY = 'current';
+
+/**
+ * The contents of the autosave slot.
+ */
+export interface AutosaveRecord {
+  /** The project as it was at the time of the autosave. */
+  project: RealmDocument;
+  /** The undo/redo stack of the realm. */
+  history: RealmHistory;
+  /** ISO timestamp of the autosave. */
+  savedAt: string;
+}
+
+/**
+ * A named project stored in the local library.
+ */
+export interface SavedProjectRecord {
+  /** A unique identifier for the save. */
+  id: string;
+  /** The user-facing name of the save. */
+  name: string;
+  /** ISO timestamp of when the save was first created. */
+  createdAt: string;
+  /** ISO timestamp of when the save was last written. */
+  updatedAt: string;
+  /** The saved project. */
+  project: RealmDocument;
+}
+
+/**
+ * A lightweight description of a saved project, used for listing the library.
+ */
+export type SavedProjectSummary = Omit<SavedProjectRecord, 'project'> & {
+  /** The number of hexes in the saved realm. */
+  hexCount: number;
+};
+
+/**
+ * A stamp stored in the local library.
+ */
+export interface SavedStampRecord extends Stamp {
+  /** A unique identifier for the stamp. */
+  id: string;
+  /** ISO timestamp of when the stamp was saved. */
+  createdAt: string;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ * @param request The request to await.
+ * @returns A promise resolving with the request's result.
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed.'));
+  });
+}
+
+/**
+ * Opens (and if needed, creates) the application's database. The connection is shared.
+ * @returns A promise resolving with the open database.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Local storage is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(AUTOSAVE_STORE)) {
+          database.createObjectStore(AUTOSAVE_STORE);
+        }
+        if (!database.objectStoreNames.contains(PROJECT_STORE)) {
+          database.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        }
+        if (!database.objectStoreNames.contains(STAMP_STORE)) {
+          database.createObjectStore(STAMP_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Could not open local storage.'));
+    }).catch((error: unknown) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Runs a single request against an object store.
+ * @param storeName The store to use.
+ * @param mode The transaction mode.
+ * @param createRequest A function creating the request from the store.
+ * @returns A promise resolving with the request's result.
+ */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  const transaction = database.transaction(storeName, mode);
+  return promisifyRequest(createRequest(transaction.objectStore(storeName)));
+}
+
+/**
+ * Creates a unique id for a saved project or stamp.
+ */
+function createRecordId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Reads the autosave slot.
+ * @returns The autosave, or `null` if there is none.
+ */
+export async function readAutosave(): Promise<AutosaveRecord | null> {
+  const record = await withStore<AutosaveRecord | undefined>(
+    AUTOSAVE_STORE,
+    'readonly',
+    (store) => store.get(AUTOSAVE_KEY) as IDBRequest<AutosaveRecord | undefined>
+  );
+  return record ?? null;
+}
+
+/**
+ * Overwrites the autosave slot.
+ * @param record The autosave to write.
+ */
+export async function writeAutosave(record: AutosaveRecord): Promise<void> {
+  await withStore(AUTOSAVE_STORE, 'readwrite', (store) => store.put(record, AUTOSAVE_KEY));
+}
+
+/**
+ * Empties the autosave slot.
+ */
+export async function clearAutosave(): Promise<void> {
+  await withStore(AUTOSAVE_STORE, 'readwrite', (store) => store.delete(AUTOSAVE_KEY));
+}
+
+/**
+ * Lists the projects in the library, most recently updated first.
+ * @returns Summaries of all saved projects.
+ */
+export async function listSavedProjects(): Promise<SavedProjectSummary[]> {
+  const records = await withStore<SavedProjectRecord[]>(
+    PROJECT_STORE,
+    'readonly',
+    (store) => store.getAll() as IDBRequest<SavedProjectRecord[]>
+  );
+  return records
+    .map(({ project, ...summary }) => ({ ...summary, hexCount: project.realm.hexes.length }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Reads a project from the library.
+ * @param id The id of the saved project.
+ * @returns The saved project, or `null` if it does not exist.
+ */
+export async function loadSavedProject(id: string): Promise<SavedProjectRecord | null> {
+  const record = await withStore<SavedProjectRecord | undefined>(
+    PROJECT_STORE,
+    'readonly',
+    (store) => store.get(id) as IDBRequest<SavedProjectRecord | undefined>
+  );
+  return record ?? null;
+}
+
+/**
+ * Saves a project to the library under a new name.
+ * @param name The name of the save.
+ * @param project The project to save.
+ * @returns The new library record.
+ */
+export async function saveProjectToLibrary(
+  name: string,
+  project: RealmDocument
+): Promise<SavedProjectRecord> {
+  const now = new Date().toISOString();
+  const record: SavedProjectRecord = {
+    id: createRecordId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    project,
+  };
+  await withStore(PROJECT_STORE, 'readwrite', (store) => store.put(record));
+  return record;
+}
+
+/**
+ * Copies a saved project under a new name.
+ * @param id The id of the project to copy.
+ * @returns The new library record, or `null` if the original does not exist.
+ */
+export async function duplicateSavedProject(id: string): Promise<SavedProjectRecord | null> {
+  const original = await loadSavedProject(id);
+  if (!original) return null;
+  return saveProjectToLibrary(`${original.name} (copy)`, original.project);
+}
+
+/**
+ * Renames a saved project.
+ * @param id The id of the project to rename.
+ * @param name The new name.
+ */
+export async function renameSavedProject(id: string, name: string): Promise<void> {
+  const record = await loadSavedProject(id);
+  if (!record) return;
+  await withStore(PROJECT_STORE, 'readwrite', (store) =>
+    store.put({ ...record, name, updatedAt: new Date().toISOString() })
+  );
+}
+
+/**
+ * Removes a project from the library.
+ * @param id The id of the project to delete.
+ */
+export async function deleteSavedProject(id: string): Promise<void> {
+  await withStore(PROJECT_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Lists the stamps in the library, sorted by name.
+ * @returns All saved stamps.
+ */
+export async function listSavedStamps(): Promise<SavedStampRecord[]> {
+  const records = await withStore<SavedStampRecord[]>(
+    STAMP_STORE,
+    'readonly',
+    (store) => store.getAll() as IDBRequest<SavedStampRecord[]>
+  );
+  return records.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Saves a stamp to the library.
+ * @param stamp The stamp to save, under its own name.
+ * @returns The new library record.
+ */
+export async function saveStampToLibrary(stamp: Stamp): Promise<SavedStampRecord> {
+  const record: SavedStampRecord = {
+    ...stamp,
+    id: createRecordId(),
+    createdAt: new Date().toISOString(),
+  };
+  await withStore(STAMP_STORE, 'readwrite', (store) => store.put(record));
+  return record;
+}
+
+/**
+ * Removes a stamp from the library.
+ * @param id The id of the stamp to delete.
+ */
+export async function deleteSavedStamp(id: string): Promise<void> {
+  await withStore(STAMP_STORE, 'readwrite', (store) => store.delete(id));
+}
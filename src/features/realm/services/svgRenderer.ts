@@ -0,0 +1,257 @@
+/**
+ * @file svgRenderer.ts
+ * This file renders a realm to a standalone SVG document as a string, without React or a
+ * browser DOM. It draws the same layers as the interactive map (terrain, holdings and
+ * landmarks, myths, paths, fog of war and barriers) with flat terrain colours in place of the
+ * textured terrain, so that maps can be produced from Node as well as from the app.
+ */
+
+import type { Hex, Point, Realm, Tile, TileSet, ViewOptions } from '@/features/realm/types';
+import {
+  CARD_SURFACE_COLOR,
+  FOG_COLOR,
+  HOLDING_ICON_BORDER_COLOR,
+  LANDMARK_ICON_BORDER_COLOR,
+  MAP_VIEWPORT_COLOR,
+  MYTH_COLOR,
+  PATH_STYLES,
+  PATH_TYPES,
+  SEAT_OF_POWER_COLOR,
+  TEXT_INVERSE_COLOR,
+} from '@/features/realm/config/constants';
+import {
+  axialToPixel,
+  getBarrierPath,
+  getHexCorners,
+  getHexesBounds,
+  getPolylinePath,
+} from '@/features/realm/utils/hexUtils';
+import { getIconNode } from '@/features/realm/utils/iconPaths';
+import { getTerrainBaseColor } from '@/app/theme/colors';
+
+/**
+ * Options for rendering a realm to SVG.
+ */
+export interface SvgRenderOptions {
+  viewOptions: ViewOptions;
+  tileSets: TileSet;
+  terrainColors: Record<string, string>;
+  barrierColor: string;
+  /** The margin around the hexes, in pixels. */
+  padding?: number;
+  /** Whether to fill the area behind the hexes. Defaults to true. */
+  includeBackground?: boolean;
+}
+
+/**
+ * Escapes text for use in XML content and attribute values.
+ */
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Serializes an element's attributes, leaving out undefined values.
+ */
+const attributes = (attrs: Record<string, string | number | undefined>) =>
+  Object.entries(attrs)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join('');
+
+/** Rounds a coordinate to two decimals, which is plenty at map scale. */
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toPoints = (corners: Point[]) => corners.map((p) => `${round(p.x)},${round(p.y)}`).join(' ');
+
+/**
+ * Renders a Lucide icon as a nested SVG element.
+ */
+export function renderIcon(
+  name: string,
+  x: number,
+  y: number,
+  size: number,
+  color: string | undefined
+): string {
+  const iconNode = getIconNode(name);
+  if (!iconNode) return '';
+  const children = iconNode
+    .map(([tag, attrs]) => {
+      const { key: _key, ...rest } = attrs as Record<string, string | number | undefined>;
+      return `<${String(tag)}${attributes(rest)}/>`;
+    })
+    .join('');
+  return `<svg${attributes({
+    x,
+    y,
+    width: size,
+    height: size,
+    viewBox: '0 0 24 24',
+    fill: 'none',
+    stroke: color,
+    'stroke-width': 2,
+    'stroke-linecap': 'round',
+    'stroke-linejoin': 'round',
+  })}>${children}</svg>`;
+}
+
+/**
+ * Renders a realm to a standalone SVG document. Knight view settings in `viewOptions` are
+ * respected, so the same realm can be rendered for the Referee or for the players.
+ * @param realm - The realm to render.
+ * @param options - The display options, tile sets and colours to render with.
+ * @returns The SVG document as a string.
+ */
+export function renderRealmSvg(realm: Realm, options: SvgRenderOptions): string {
+  const { viewOptions, tileSets, terrainColors, barrierColor } = options;
+  const { orientation, hexSize, isGmView } = viewOptions;
+  const knight = viewOptions.visibility.knight;
+  const padding = options.padding ?? hexSize.x;
+  const hexCorners = getHexCorners(orientation, hexSize);
+
+  const findTile = (tiles: Tile[], id: string | undefined) =>
+    id ? tiles.find((tile) => tile.id === id) : undefined;
+  const isFogged = (hex: Hex) => !isGmView && knight.fogOfWar && !hex.isRevealed;
+  const centers = new Map(
+    realm.hexes.map((hex) => [hex, axialToPixel(hex, orientation, hexSize)] as const)
+  );
+
+  const bounds = getHexesBounds(realm.hexes, orientation, hexSize);
+  const minX = bounds.x - padding;
+  const minY = bounds.y - padding;
+  const width = bounds.width + padding * 2;
+  const height = bounds.height + padding * 2;
+
+  const terrain: string[] = [];
+  const markers: string[] = [];
+  const fog: string[] = [];
+  const barriers: string[] = [];
+
+  realm.hexes.forEach((hex) => {
+    const center = centers.get(hex) ?? { x: 0, y: 0 };
+    const transform = `translate(${round(center.x)}, ${round(center.y)})`;
+
+    if (isFogged(hex)) {
+      fog.push(
+        `<polygon${attributes({ points: toPoints(hexCorners), transform, fill: FOG_COLOR })}/>`
+      );
+      return;
+    }
+
+    terrain.push(
+      `<polygon${attributes({
+        points: toPoints(hexCorners),
+        transform,
+        fill: terrainColors[hex.terrain] ?? getTerrainBaseColor(hex.terrain),
+        stroke: viewOptions.showGrid ? viewOptions.gridColor : 'none',
+        'stroke-width': viewOptions.showGrid ? viewOptions.gridWidth : undefined,
+      })}/>`
+    );
+
+    const holding = findTile(tileSets.holding, hex.holding);
+    const landmark = findTile(tileSets.landmark, hex.landmark);
+    const shownHolding = holding && (isGmView || (knight.holdings[holding.id] ?? true));
+    const shownLandmark = landmark && (isGmView || (knight.landmarks[landmark.id] ?? true));
+    const tile = shownHolding ? holding : shownLandmark ? landmark : undefined;
+    if (tile?.icon) {
+      const isSeatOfPower =
+        Boolean(shownHolding) &&
+        hex.q === realm.seatOfPower.q &&
+        hex.r === realm.seatOfPower.r &&
+        (isGmView || knight.seatOfPower);
+      const borderColor = isSeatOfPower
+        ? SEAT_OF_POWER_COLOR
+        : shownHolding
+          ? HOLDING_ICON_BORDER_COLOR
+          : LANDMARK_ICON_BORDER_COLOR;
+      markers.push(
+        `<g${attributes({ transform })}><polygon${attributes({
+          points: toPoints(hexCorners),
+          transform: 'scale(0.75)',
+          fill: CARD_SURFACE_COLOR,
+          stroke: borderColor,
+          'stroke-width': (isSeatOfPower ? 6 : 4) / 0.75,
+          'stroke-linejoin': 'round',
+        })}/>${renderIcon(
+          tile.icon,
+          -hexSize.x * 0.4,
+          -hexSize.y * 0.4,
+          hexSize.x * 0.8,
+          TEXT_INVERSE_COLOR
+        )}</g>`
+      );
+    }
+
+    if (hex.myth && (isGmView || (knight.myths[hex.myth] ?? true))) {
+      markers.push(
+        `<g${attributes({ transform })}><circle${attributes({
+          r: hexSize.x * 0.3,
+          fill: MYTH_COLOR,
+        })}/><text${attributes({
+          'text-anchor': 'middle',
+          dy: '.35em',
+          fill: TEXT_INVERSE_COLOR,
+          'font-family': 'Georgia, serif',
+          'font-weight': 'bold',
+          'font-size': hexSize.x * 0.4,
+        })}>${hex.myth}</text></g>`
+      );
+    }
+
+    if (hex.barrierEdges.length > 0 && (isGmView || knight.showBarriers)) {
+      hex.barrierEdges.forEach((edge) =>
+        barriers.push(
+          `<path${attributes({
+            d: getBarrierPath(edge, hexCorners),
+            transform,
+            stroke: barrierColor,
+            'stroke-width': 6,
+            'stroke-linecap': 'round',
+          })}/>`
+        )
+      );
+    }
+  });
+
+  // Rivers are drawn first so that roads appear to bridge them.
+  const paths = [...realm.paths]
+    .filter((path) => path.points.length >= 2)
+    .sort((a, b) => PATH_TYPES.indexOf(a.type) - PATH_TYPES.indexOf(b.type))
+    .map((path) => {
+      const style = PATH_STYLES[path.type];
+      return `<path${attributes({
+        d: getPolylinePath(path.points, orientation, hexSize, hexCorners),
+        fill: 'none',
+        stroke: style.color,
+        'stroke-width': style.width,
+        'stroke-dasharray': style.dash,
+        'stroke-linecap': 'round',
+        'stroke-linejoin': 'round',
+      })}/>`;
+    });
+
+  const background =
+    options.includeBackground === false
+      ? ''
+      : `<rect${attributes({ x: minX, y: minY, width, height, fill: MAP_VIEWPORT_COLOR })}/>`;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg"${attributes({
+      viewBox: `${minX} ${minY} ${width} ${height}`,
+      width: Math.round(width),
+      height: Math.round(height),
+    })}>`,
+    background,
+    `<g>${terrain.join('')}</g>`,
+    `<g>${markers.join('')}</g>`,
+    `<g>${paths.join('')}</g>`,
+    `<g>${fog.join('')}</g>`,
+    `<g>${barriers.join('')}</g>`,
+    '</svg>',
+  ].join('\n');
+}
@@ -0,0 +1,435 @@
+/**
+ * @file vttExport.ts
+ * This file exports the realm for virtual tabletops: a Foundry VTT scene package, with the map
+ * image, a hex grid that lines up with the hexes of the image, a journal page for each myth,
+ * holding and landmark and a map note pinning each page to its hex; and a Universal VTT
+ * (`.dd2vtt`) file with the image and its grid size. The Referee and Knight editions follow the
+ * same visibility rules as the map.
+ */
+
+import type { Hex, Point, Realm, TileSet, ViewOptions } from '@/features/realm/types';
+import {
+  MAP_VIEWPORT_COLOR,
+  MYTH_STATUSES,
+  POPULATION_TIERS,
+} from '@/features/realm/config/constants';
+import { axialToPixel } from '@/features/realm/utils/hexUtils';
+import { createHexLabeler } from '@/features/realm/utils/hexLabelUtils';
+import { downloadBlob, rasterizeSvgMarkup, serializeStandaloneSvg } from './fileService';
+import { ZipArchive } from './zipWriter';
+
+/** The size of a grid space in the scene, in pixels, as Foundry VTT uses by default. */
+const SCENE_GRID_SIZE = 100;
+/** The smallest grid space a large realm is shrunk to, in pixels. */
+const MIN_SCENE_GRID_SIZE = 50;
+/** The largest scene image, in pixels along either side, that virtual tabletops load reliably. */
+const MAX_SCENE_IMAGE_SIZE = 8192;
+
+/** Foundry VTT's grid types for hexes in staggered rows (pointy) and columns (flat). */
+const FOUNDRY_GRID_TYPES = { pointy: 2, flat: 4 } as const;
+/** Foundry VTT's ownership levels: none, and allowed to read. */
+const FOUNDRY_OWNERSHIP = { none: 0, observer: 2 } as const;
+
+/** The Foundry VTT map note icon for each holding and landmark type. */
+const FOUNDRY_NOTE_ICONS: Record<string, string> = {
+  castle: 'icons/svg/castle.svg',
+  city: 'icons/svg/city.svg',
+  town: 'icons/svg/house.svg',
+  village: 'icons/svg/village.svg',
+  dwelling: 'icons/svg/house.svg',
+  sanctum: 'icons/svg/temple.svg',
+  monument: 'icons/svg/obelisk.svg',
+  hazard: 'icons/svg/trap.svg',
+  curse: 'icons/svg/skull.svg',
+  ruins: 'icons/svg/ruins.svg',
+};
+const FOUNDRY_DEFAULT_NOTE_ICON = 'icons/svg/book.svg';
+
+const ID_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+/** Options for exporting the realm to a virtual tabletop. */
+export interface VttExportOptions {
+  realm: Realm;
+  tileSets: TileSet;
+  /** The view options of the exported map; `isGmView` selects the Referee edition. */
+  viewOptions: ViewOptions;
+  /** Whether the exported image already shows grid lines, so the tabletop's own can be hidden. */
+  includeGrid: boolean;
+}
+
+/** How the realm is laid out on a virtual tabletop scene. */
+export interface VttScenePlan {
+  /** The width and height of the scene image, in pixels. */
+  width: number;
+  height: number;
+  /** The distance between opposite sides of a hex in the scene, in pixels. */
+  gridSize: number;
+  /** The point of the map shown at the top left corner of the scene, in map pixels. */
+  origin: Point;
+  /** The number of scene pixels per map pixel, horizontally and vertically. */
+  scale: Point;
+}
+
+/** A journal page about a myth, holding or landmark, pinned to its hex. */
+interface SceneEntry {
+  title: string;
+  /** The page content, as HTML. */
+  content: string;
+  icon: string;
+  hex: Hex;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Turns plain text into HTML paragraphs, one per blank-line separated block. */
+const toParagraphs = (text: string) =>
+  text
+    .split(/\n\s*\n/)
+    .filter((paragraph) => paragraph.trim() !== '')
+    .map((paragraph) => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+/** Creates a random document ID in the form Foundry VTT uses. */
+const createFoundryId = () =>
+  Array.from(
+    { length: 16 },
+    () => ID_CHARACTERS[Math.floor(Math.random() * ID_CHARACTERS.length)]
+  ).join('');
+
+/**
+ * Works out how the realm is laid out on a scene. The map is scaled, separately along each
+ * axis, so that its hexes match a regular hex grid of `gridSize` pixels, and placed so that the
+ * top left hex of the grid sits in the corner of the scene. Hex rows (or columns) are then
+ * staggered the way Foundry VTT's "odd" hex grids are.
+ * @param realm - The realm to export.
+ * @param viewOptions - The view options, for the hex orientation and size.
+ * @returns The scene layout.
+ */
+export function planVttScene(realm: Realm, viewOptions: ViewOptions): VttScenePlan {
+  const { orientation, hexSize } = viewOptions;
+  // The top left hex of the grid: the first row and column, counted as offset coordinates.
+  let corner: { q: number; r: number };
+  if (orientation === 'pointy') {
+    const firstR = Math.min(...realm.hexes.map((hex) => hex.r));
+    const firstColumn = Math.min(
+      ...realm.hexes.map((hex) => hex.q + Math.floor((hex.r - firstR) / 2))
+    );
+    corner = { q: firstColumn, r: firstR };
+  } else {
+    const firstQ = Math.min(...realm.hexes.map((hex) => hex.q));
+    const firstRow = Math.min(
+      ...realm.hexes.map((hex) => hex.r + Math.floor((hex.q - firstQ) / 2))
+    );
+    corner = { q: firstQ, r: firstRow };
+  }
+
+  // Half the width and height of a hex, in map pixels.
+  const halfHex =
+    orientation === 'pointy'
+      ? { x: (Math.sqrt(3) / 2) * hexSize.x, y: hexSize.y }
+      : { x: hexSize.x, y: (Math.sqrt(3) / 2) * hexSize.y };
+  const cornerCenter = axialToPixel(corner, orientation, hexSize);
+  const origin = { x: cornerCenter.x - halfHex.x, y: cornerCenter.y - halfHex.y };
+  const extent = realm.hexes.reduce(
+    (max, hex) => {
+      const center = axialToPixel(hex, orientation, hexSize);
+      return {
+        x: Math.max(max.x, center.x + halfHex.x - origin.x),
+        y: Math.max(max.y, center.y + halfHex.y - origin.y),
+      };
+    },
+    { x: 0, y: 0 }
+  );
+
+  // Both orientations measure a grid space across the flat sides of a hex.
+  const scaleFor = (gridSize: number) => ({
+    x: gridSize / (Math.sqrt(3) * hexSize.x),
+    y: gridSize / (Math.sqrt(3) * hexSize.y),
+  });
+  const fullScale = scaleFor(SCENE_GRID_SIZE);
+  const largestSide = Math.max(extent.x * fullScale.x, extent.y * fullScale.y);
+  const gridSize =
+    largestSide > MAX_SCENE_IMAGE_SIZE
+      ? Math.max(
+          MIN_SCENE_GRID_SIZE,
+          Math.floor((SCENE_GRID_SIZE * MAX_SCENE_IMAGE_SIZE) / largestSide)
+        )
+      : SCENE_GRID_SIZE;
+  const scale = scaleFor(gridSize);
+
+  return {
+    width: Math.ceil(extent.x * scale.x),
+    height: Math.ceil(extent.y * scale.y),
+    gridSize,
+    origin,
+    scale,
+  };
+}
+
+/**
+ * Renders the scene image from an SVG element showing the whole realm, such as the export
+ * preview. The overlays are left out, as they are placed for the preview rather than the scene.
+ * @returns The PNG file data, or null if the SVG element does not exist.
+ */
+async function renderSceneImage(svgId: string, plan: VttScenePlan): Promise<Uint8Array | null> {
+  const svgElement = document.getElementById(svgId) as unknown as SVGElement | null;
+  if (!svgElement) {
+    return null;
+  }
+  const markup = await serializeStandaloneSvg(svgElement, { hideSelectionHighlights: true });
+  const svg = new DOMParser().parseFromString(markup, 'image/svg+xml').documentElement;
+  svg.querySelectorAll('[data-map-overlays]').forEach((element) => element.remove());
+  svg.setAttribute(
+    'viewBox',
+    `${plan.origin.x} ${plan.origin.y} ${plan.width / plan.scale.x} ${plan.height / plan.scale.y}`
+  );
+  svg.setAttribute('width', `${plan.width}`);
+  svg.setAttribute('height', `${plan.height}`);
+  svg.setAttribute('preserveAspectRatio', 'none');
+  const image = await rasterizeSvgMarkup(
+    new XMLSerializer().serializeToString(svg),
+    plan.width,
+    plan.height,
+    { background: MAP_VIEWPORT_COLOR }
+  );
+  return new Uint8Array(await image.arrayBuffer());
+}
+
+/**
+ * Lists the myths, holdings and landmarks shown in the exported edition, each with a journal
+ * page describing it. The Knight edition leaves out what the Knights cannot see, and never
+ * includes secrets.
+ */
+function collectSceneEntries(realm: Realm, tileSets: TileSet, viewOptions: ViewOptions) {
+  const { isGmView } = viewOptions;
+  const knight = viewOptions.visibility.knight;
+  const hexLabel = createHexLabeler(
+    realm.hexes,
+    viewOptions.hexLabels === 'none' ? 'axial' : viewOptions.hexLabels,
+    viewOptions.orientation
+  );
+  const showDetails = isGmView || knight.showPoiDetails;
+  const isSeatOfPowerShown = isGmView || knight.seatOfPower;
+  const mythsById = new Map(realm.myths.map((myth) => [myth.id, myth]));
+  const entries: SceneEntry[] = [];
+
+  realm.hexes.forEach((hex) => {
+    if (!isGmView && knight.fogOfWar && !hex.isRevealed) return;
+    const location = `<p><strong>Hex:</strong> ${escapeHtml(hexLabel(hex))}</p>`;
+
+    const myth = hex.myth ? mythsById.get(hex.myth) : undefined;
+    if (myth && (isGmView || (knight.myths[myth.id] ?? true))) {
+      const omens = myth.omens.filter((omen) => isGmView || omen.hasOccurred);
+      const status = MYTH_STATUSES.find((entry) => entry.id === myth.status)?.label;
+      entries.push({
+        title: isGmView && myth.name ? myth.name : `Myth ${myth.id}`,
+        content: [
+          location,
+          isGmView && status ? `<p><strong>Status:</strong> ${escapeHtml(status)}</p>` : '',
+          isGmView ? toParagraphs(myth.description) : '',
+          omens.length > 0
+            ? `<h3>Omens</h3><ol>${omens
+                .map(
+                  (omen) =>
+                    `<li>${escapeHtml(omen.text)}${isGmView && omen.hasOccurred ? ' <em>(occurred)</em>' : ''}</li>`
+                )
+                .join('')}</ol>`
+            : '',
+          isGmView && myth.cast.length > 0
+            ? `<h3>Cast</h3><ul>${myth.cast.map((name) => `<li>${escapeHtml(name)}</li>`).join('')}</ul>`
+            : '',
+        ].join(''),
+        icon: FOUNDRY_DEFAULT_NOTE_ICON,
+        hex,
+      });
+    }
+
+    const places = [
+      {
+        id: hex.holding,
+        tiles: tileSets.holding,
+        details: hex.holdingDetails,
+        visibility: knight.holdings,
+      },
+      {
+        id: hex.landmark,
+        tiles: tileSets.landmark,
+        details: hex.landmarkDetails,
+        visibility: knight.landmarks,
+      },
+    ];
+    places.forEach(({ id, tiles, details: placeDetails, visibility }) => {
+      if (!id || !(isGmView || (visibility[id] ?? true))) return;
+      const typeLabel = tiles.find((tile) => tile.id === id)?.label ?? id;
+      const isSeatOfPower =
+        id === hex.holding &&
+        isSeatOfPowerShown &&
+        hex.q === realm.seatOfPower.q &&
+        hex.r === realm.seatOfPower.r;
+      const type = `${typeLabel}${isSeatOfPower ? ' (Seat of Power)' : ''}`;
+      const details = showDetails ? placeDetails : undefined;
+      const population = POPULATION_TIERS.find((tier) => tier.id === details?.population)?.label;
+      entries.push({
+        title: details?.name ? details.name : type,
+        content: [
+          details?.name ? `<p><strong>${escapeHtml(type)}</strong></p>` : '',
+          location,
+          details?.occupant
+            ? `<p><strong>Occupant:</strong> ${escapeHtml(details.occupant)}</p>`
+            : '',
+          population ? `<p><strong>Population:</strong> ${escapeHtml(population)}</p>` : '',
+          toParagraphs(details?.description ?? ''),
+          isGmView && details?.secrets
+            ? `<section class="secret" id="secret-${createFoundryId()}"><h3>Secrets</h3>${toParagraphs(details.secrets)}</section>`
+            : '',
+        ].join(''),
+        icon: FOUNDRY_NOTE_ICONS[id] ?? FOUNDRY_DEFAULT_NOTE_ICON,
+        hex,
+      });
+    });
+  });
+  return entries;
+}
+
+/**
+ * The script of a Foundry VTT macro that creates the scene and its journal from the package,
+ * keeping their IDs so that the map notes stay linked to their journal pages.
+ */
+const createImportMacro = (folder: string, sceneFile: string, journalFile: string | null) =>
+  `// Creates the realm scene${journalFile ? ' and its journal' : ''} from the exported package.
+// Copy the "${folder}" folder into Foundry VTT's Data folder, then run this as a Script macro.
+const load = async (file) => (await fetch(\`${folder}/\${file}\`)).json();
+${journalFile ? `await JournalEntry.create(await load('${journalFile}'), { keepId: true });\n` : ''}const scene = await Scene.create(await load('${sceneFile}'), { keepId: true });
+ui.notifications.info(\`Imported the scene "\${scene.name}".\`);
+`;
+
+/**
+ * Exports the realm as a Foundry VTT scene package: a ZIP archive holding a folder with the
+ * map image, the scene and journal documents, and a macro that imports them.
+ * @param svgId The ID of the SVG element showing the map.
+ * @param fileName The desired file name for the archive.
+ * @param options The realm, its display settings and whether the image shows grid lines.
+ */
+export async function exportFoundryScene(
+  svgId: string,
+  fileName: string,
+  options: VttExportOptions
+) {
+  const { realm, tileSets, viewOptions, includeGrid } = options;
+  const plan = planVttScene(realm, viewOptions);
+  const image = await renderSceneImage(svgId, plan);
+  if (!image) {
+    return;
+  }
+
+  const folder = fileName.replace(/\.[^.]+$/, '');
+  const edition = viewOptions.isGmView ? 'Referee' : 'Knight';
+  const ownership = viewOptions.isGmView ? FOUNDRY_OWNERSHIP.none : FOUNDRY_OWNERSHIP.observer;
+  const entries = collectSceneEntries(realm, tileSets, viewOptions);
+  const journalId = createFoundryId();
+
+  const pages = entries.map((entry, index) => ({
+    _id: createFoundryId(),
+    name: entry.title,
+    type: 'text',
+    title: { show: true, level: 1 },
+    text: { content: entry.content, format: 1 },
+    sort: (index + 1) * 100000,
+    ownership: { default: -1 },
+  }));
+  const journal = {
+    _id: journalId,
+    name: `Realm Gazetteer (${edition})`,
+    pages,
+    ownership: { default: ownership },
+  };
+
+  const { overlays } = viewOptions;
+  const scene = {
+    _id: createFoundryId(),
+    name: `Realm Map (${edition})`,
+    navigation: true,
+    width: plan.width,
+    height: plan.height,
+    padding: 0,
+    background: { src: `${folder}/${folder}.png` },
+    backgroundColor: MAP_VIEWPORT_COLOR,
+    grid: {
+      type: FOUNDRY_GRID_TYPES[viewOptions.orientation],
+      size: plan.gridSize,
+      color: '#000000',
+      // The image's own grid lines are used when it has them.
+      alpha: includeGrid ? 0 : 0.2,
+      distance: overlays.distancePerHex > 0 ? overlays.distancePerHex : 1,
+      units: overlays.distanceUnit,
+    },
+    tokenVision: false,
+    notes: entries.map((entry, index) => {
+      const center = axialToPixel(entry.hex, viewOptions.orientation, viewOptions.hexSize);
+      return {
+        _id: createFoundryId(),
+        entryId: journalId,
+        pageId: pages[index]?._id,
+        x: Math.round((center.x - plan.origin.x) * plan.scale.x),
+        y: Math.round((center.y - plan.origin.y) * plan.scale.y),
+        texture: { src: entry.icon },
+        iconSize: Math.round(plan.gridSize * 0.4),
+        text: entry.title,
+        fontSize: Math.max(12, Math.round(plan.gridSize * 0.2)),
+        global: false,
+      };
+    }),
+  };
+
+  const sceneFile = `fvtt-Scene-${folder}.json`;
+  const journalFile = entries.length > 0 ? `fvtt-JournalEntry-${folder}.json` : null;
+  const zip = new ZipArchive();
+  zip.addFile(`${folder}/${folder}.png`, image);
+  zip.addFile(`${folder}/${sceneFile}`, JSON.stringify(scene, null, 2));
+  if (journalFile) {
+    zip.addFile(`${folder}/${journalFile}`, JSON.stringify(journal, null, 2));
+  }
+  zip.addFile(`${folder}/import-macro.js`, createImportMacro(folder, sceneFile, journalFile));
+  downloadBlob(zip.toBlob(), fileName);
+}
+
+/**
+ * Exports the realm as a Universal VTT (`.dd2vtt`) file: the map image with the size of its
+ * grid. The format only describes square grids, so one grid space is the width of a hex across
+ * its flat sides, which keeps distances right on tabletops that measure in grid spaces.
+ * @param svgId The ID of the SVG element showing the map.
+ * @param fileName The desired file name.
+ * @param options The realm and its display settings.
+ */
+export async function exportUniversalVtt(
+  svgId: string,
+  fileName: string,
+  options: VttExportOptions
+) {
+  const plan = planVttScene(options.realm, options.viewOptions);
+  const image = await renderSceneImage(svgId, plan);
+  if (!image) {
+    return;
+  }
+
+  let binary = '';
+  for (let index = 0; index < image.length; index += 0x8000) {
+    binary += String.fromCharCode(...image.subarray(index, index + 0x8000));
+  }
+  const uvtt = {
+    format: 0.3,
+    resolution: {
+      map_origin: { x: 0, y: 0 },
+      map_size: { x: plan.width / plan.gridSize, y: plan.height / plan.gridSize },
+      pixels_per_grid: plan.gridSize,
+    },
+    line_of_sight: [],
+    objects_line_of_sight: [],
+    portals: [],
+    environment: { baked_lighting: true, ambient_light: 'ffffffff' },
+    lights: [],
+    image: btoa(binary),
+  };
+  downloadBlob(new Blob([JSON.stringify(uvtt)], { type: 'application/json' }), fileName);
+}
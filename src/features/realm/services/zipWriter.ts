@@ -0,0 +1,122 @@
+/**
+ * @file zipWriter.ts
+ * A minimal ZIP archive writer, enough to bundle exported files into a single download.
+ * Files are stored without compression: the images they mostly contain are compressed already.
+ */
+
+const textEncoder = new TextEncoder();
+
+/** The CRC-32 lookup table, computed once. */
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * Computes the CRC-32 checksum of some data, as ZIP archives record it.
+ */
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encodes a date in the MS-DOS format used by ZIP archives.
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/** A file added to the archive. */
+interface ZipEntry {
+  name: Uint8Array;
+  data: Uint8Array;
+  crc: number;
+  offset: number;
+}
+
+/**
+ * A ZIP archive built in memory. Add the files, then read the archive with `toBlob`.
+ */
+export class ZipArchive {
+  private readonly entries: ZipEntry[] = [];
+  private readonly chunks: Uint8Array[] = [];
+  private length = 0;
+  private readonly modified = toDosDateTime(new Date());
+
+  /**
+   * Adds a file to the archive.
+   * @param path - The path of the file in the archive, with `/` between folders.
+   * @param content - The content of the file; text is stored as UTF-8.
+   */
+  addFile(path: string, content: Uint8Array | string) {
+    const name = textEncoder.encode(path);
+    const data = typeof content === 'string' ? textEncoder.encode(content) : content;
+    const entry = { name, data, crc: crc32(data), offset: this.length };
+    this.entries.push(entry);
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    this.writeEntryFields(header, 4, entry);
+    this.push(new Uint8Array(header.buffer), name, data);
+  }
+
+  /**
+   * Finishes the archive.
+   * @returns The archive as a file.
+   */
+  toBlob(): Blob {
+    const directoryOffset = this.length;
+    this.entries.forEach((entry) => {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, 0x02014b50, true);
+      header.setUint16(4, 20, true);
+      this.writeEntryFields(header, 6, entry);
+      header.setUint32(42, entry.offset, true);
+      this.push(new Uint8Array(header.buffer), entry.name);
+    });
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, this.length - directoryOffset, true);
+    end.setUint32(16, directoryOffset, true);
+    this.push(new Uint8Array(end.buffer));
+
+    return new Blob(this.chunks, { type: 'application/zip' });
+  }
+
+  /**
+   * Writes the fields shared by the local and central headers of a file, from the version
+   * needed to extract it up to the length of its name.
+   */
+  private writeEntryFields(header: DataView, offset: number, entry: ZipEntry) {
+    header.setUint16(offset, 20, true);
+    // Bit 11 marks the file name as UTF-8.
+    header.setUint16(offset + 2, 0x0800, true);
+    header.setUint16(offset + 4, 0, true);
+    header.setUint16(offset + 6, this.modified.time, true);
+    header.setUint16(offset + 8, this.modified.date, true);
+    header.setUint32(offset + 10, entry.crc, true);
+    header.setUint32(offset + 14, entry.data.length, true);
+    header.setUint32(offset + 18, entry.data.length, true);
+    header.setUint16(offset + 22, entry.name.length, true);
+  }
+
+  private push(...chunks: Uint8Array[]) {
+    chunks.forEach((chunk) => {
+      this.chunks.push(chunk);
+      this.length += chunk.length;
+    });
+  }
+}
@@ -10,6 +10,16 @@ export interface Point {
   y: number;
 }
 
+/** The part of the map shown on screen, in map units. */
+export interface MapViewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** The number of screen pixels per map unit, before the device pixel ratio. */
+  scale: number;
+}
+
 /** Represents a single hexagonal cell in the grid. */
 export interface Hex {
   /** The q coordinate in the axial coordinate system. */
@@ -24,14 +34,57 @@ export interface Hex {
   barrierEdges: number[];
   /** The identifier for a holding (e.g., 'castle') located in the hex. */
   holding?: string;
+  /** The Referee's record of the holding in the hex. */
+  holdingDetails?: PoiDetails;
   /** The numerical ID of a myth located in the hex. */
   myth?: number | undefined;
   /** The identifier for a landmark located in the hex. */
   landmark?: string;
-  /** A flag indicating if the hex is a water body. (Not currently used in generation) */
+  /** The Referee's record of the landmark in the hex. */
+  landmarkDetails?: PoiDetails;
+  /** A flag indicating if the hex is a lake a generated river drains into. */
   isWater?: boolean;
-  /** A flag indicating if the hex contains a river. (Not currently used in generation) */
+  /** A flag indicating if a generated river flows through the hex. */
   isRiver?: boolean;
+  /** A flag indicating if the Knights have explored the hex, lifting the fog of war over it. */
+  isRevealed?: boolean;
+  /** A custom name for the hex, e.g. "Greywater Ford". */
+  name?: string;
+  /** The Referee's notes about the hex, written in Markdown. */
+  notes?: string;
+  /** Free-form tags used to group and search hexes. */
+  tags?: string[];
+}
+
+/** How many people live at a holding or landmark. */
+export type PopulationTier = 'deserted' | 'sparse' | 'modest' | 'populous' | 'teeming';
+
+/**
+ * The record of a placed holding or landmark. Every field but the secrets may be shown to
+ * the Knights; blank fields are left out.
+ */
+export interface PoiDetails {
+  /** The name of the place, e.g. "Blackwater Keep". */
+  name?: string;
+  /** Who rules the holding or occupies the landmark. */
+  occupant?: string;
+  /** A description of the place. */
+  description?: string;
+  /** How many people live there. */
+  population?: PopulationTier;
+  /** What only the Referee knows about the place. */
+  secrets?: string;
+}
+
+/** The stage a myth has reached in play. */
+export type MythStatus = 'dormant' | 'active' | 'resolved';
+
+/** One of the omens that herald a myth, in the order they occur. */
+export interface MythOmen {
+  /** What happens, as described to the Knights. */
+  text: string;
+  /** Whether the omen has occurred in play. */
+  hasOccurred: boolean;
 }
 
 /** Represents a myth, a special point of interest with a unique ID and name. */
@@ -44,6 +97,65 @@ export interface Myth {
   q: number;
   /** The r coordinate of the hex where the myth is located. */
   r: number;
+  /** The stage the myth has reached in play. */
+  status: MythStatus;
+  /** The Referee's description of the myth. */
+  description: string;
+  /** The omens of the myth, in the order they occur. */
+  omens: MythOmen[];
+  /** The names of the cast related to the myth. */
+  cast: string[];
+  /** Other hexes tied to the myth, such as the places its omens occur. */
+  linkedHexes: { q: number; r: number }[];
+}
+
+/** The kinds of linear features that can be drawn across the map. */
+export type PathType = 'river' | 'road' | 'track';
+
+/** A vertex of a path: the centre of a hex, or one of its corners when following hex edges. */
+export interface PathPoint {
+  /** The q coordinate of the hex. */
+  q: number;
+  /** The r coordinate of the hex. */
+  r: number;
+  /** The index (0-5) of the hex corner to use instead of the hex centre. */
+  corner?: number;
+}
+
+/** Represents a river, road or track, drawn as a polyline through its points. */
+export interface RealmPath {
+  /** The unique identifier for the path. */
+  id: string;
+  /** The kind of path, which determines how it is drawn. */
+  type: PathType;
+  /** The vertices of the path, in order. */
+  points: PathPoint[];
+  /** The name of the path, e.g. "The Ashbourne". */
+  name?: string;
+}
+
+/** What the Path Painter does on the map: draw a path of the given type, or erase paths. */
+export type PathBrush = PathType | 'eraser';
+
+/** Whether newly drawn paths run through hex centres or along hex edges. */
+export type PathSnap = 'center' | 'edge';
+
+/** A single move of the Knights' party, recorded in the travel log. */
+export interface TravelLogEntry {
+  /** The day of the journey on which the party arrived. */
+  day: number;
+  /** The q coordinate of the hex the party moved to. */
+  q: number;
+  /** The r coordinate of the hex the party moved to. */
+  r: number;
+}
+
+/** The Knights' party: the current day of the journey and every hex it has visited. */
+export interface Party {
+  /** The current day of the journey, starting at 1. */
+  day: number;
+  /** Every move of the party, oldest first. The first entry is where the party was placed, the last is where it is now. */
+  log: TravelLogEntry[];
 }
 
 /** Represents the entire game world or map. */
@@ -62,10 +174,111 @@ export interface Realm {
   myths: Myth[];
   /** The coordinates of the hex designated as the Seat of Power. */
   seatOfPower: { q: number; r: number };
+  /** The rivers, roads and tracks drawn across the realm. */
+  paths: RealmPath[];
+  /** The position and travel log of the Knights' party. */
+  party: Party;
+  /** The seed used to generate this realm, if it was procedurally generated. */
+  seed?: number;
+}
+
+/** A hex edited by a change to a realm, as it was before and after the change. */
+export interface HexChange {
+  before: Hex;
+  after: Hex;
+}
+
+/** Some of the top-level properties of a realm. A property the realm lacks is undefined. */
+export type RealmFields = { [K in keyof Realm]?: Realm[K] | undefined };
+
+/**
+ * A change to a realm, stored as the parts of the realm it touched, so it can be undone and
+ * redone without keeping a copy of the whole realm.
+ */
+export interface RealmPatch {
+  /** The hexes the change edited in place. */
+  hexes: HexChange[];
+  /**
+   * The other properties the change replaced, as they were before it. A change that reshapes
+   * the grid stores its whole array of hexes here.
+   */
+  before: RealmFields;
+  /** The properties the change replaced, as they were after it. */
+  after: RealmFields;
+}
+
+/** How a change to a realm is shown in the undo history. */
+export interface HistoryDescription {
+  label: string;
+  /** Steps with the same merge key, made one soon after another, are merged into one. */
+  mergeKey?: string | undefined;
+}
+
+/** A step in the undo history of a realm. */
+export interface RealmHistoryEntry {
+  /** A description of the change for the history panel, e.g. "Painted 14 hexes Forest". */
+  label: string;
+  patch: RealmPatch;
+  /** Steps with the same merge key, made one soon after another, are merged into one. */
+  mergeKey?: string | undefined;
+  /** When the step was made or last merged into, in milliseconds since the epoch. */
+  time: number;
+}
+
+/**
+ * A hex of a stamp, placed relative to the stamp's anchor hex at 0,0. Myths and the fog of war
+ * belong to the realm rather than the region, so they are not copied.
+ */
+export type StampHex = Omit<Hex, 's' | 'myth' | 'isRevealed'>;
+
+/** A region of hexes copied to be pasted elsewhere on the map. */
+export interface Stamp {
+  /** The user-facing name of the stamp, e.g. "Lake ringed by marsh". */
+  name: string;
+  hexes: StampHex[];
+}
+
+/** How a stamp is turned before it is pasted. */
+export interface StampTransform {
+  /** The number of 60° clockwise turns, from 0 to 5. */
+  rotation: number;
+  /** Whether the stamp is mirrored left to right, before it is turned. */
+  isMirrored: boolean;
 }
 
 /** Defines the set of available tools for interacting with the map. */
-export type Tool = 'select' | 'terrain' | 'barrier' | 'poi' | 'myth';
+export type Tool =
+  | 'select'
+  | 'terrain'
+  | 'barrier'
+  | 'path'
+  | 'poi'
+  | 'myth'
+  | 'reveal'
+  | 'party'
+  | 'stamp';
+
+/** What the Reveal tool does to the hexes it is used on: lift the fog of war, or restore it. */
+export type RevealBrush = 'reveal' | 'conceal';
+
+/**
+ * The shapes the Terrain Painter paints with: a solid circle or a ring around the pointer, a
+ * straight line dragged from hex to hex, a fill of the connected hexes of one terrain, or a
+ * circle scattered with a mix of terrains.
+ */
+export type TerrainBrushShape = 'circle' | 'ring' | 'line' | 'fill' | 'scatter';
+
+/** The settings of the Terrain Painter's brush. */
+export interface TerrainBrush {
+  shape: TerrainBrushShape;
+  /**
+   * The size of the brush, from 1 to `MAX_TERRAIN_BRUSH_SIZE`: it reaches the hexes less than
+   * this many steps from the pointer, so size 1 paints a single hex. Lines are as thick.
+   */
+  size: number;
+  /** How likely the scatter brush is to paint each terrain, relative to the others. */
+  scatterWeights: Record<string, number>;
+}
 
 /** Defines the orientation of the hex grid. */
 export type HexOrientation = 'pointy' | 'flat';
@@ -82,6 +295,36 @@ export interface KnightVisibilitySettings {
   myths: Record<number, boolean>;
   /** Whether barrier markers are shown. */
   showBarriers: boolean;
+  /** Whether hexes the Knights have not yet revealed are hidden under fog. */
+  fogOfWar: boolean;
+  /** Whether custom hex names are shown. */
+  showHexNames: boolean;
+  /** Whether hex notes and tags are shown. */
+  showHexNotes: boolean;
+  /** Whether the public details of holdings and landmarks are shown. Secrets never are. */
+  showPoiDetails: boolean;
+}
+
+/**
+ * The ways hexes can be labelled with their coordinates: axial `q,r`, offset column and row
+ * numbers like "0412", or a column letter and row number like "D12".
+ */
+export type HexLabelStyle = 'none' | 'axial' | 'offset' | 'alphanumeric';
+
+/** The corners of the map that the overlays can be placed in. */
+export type MapOverlayPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+/** Settings for the legend, compass rose and scale bar drawn over the map. */
+export interface MapOverlaySettings {
+  showLegend: boolean;
+  showCompass: boolean;
+  showScaleBar: boolean;
+  /** The corner the legend is placed in. The compass and scale bar take the other corners. */
+  position: MapOverlayPosition;
+  /** The distance across one hex, as shown on the scale bar. */
+  distancePerHex: number;
+  /** The unit of `distancePerHex`, e.g. "miles". */
+  distanceUnit: string;
 }
 
 /** Options for controlling the visual representation of the hex grid. */
@@ -100,6 +343,10 @@ export interface ViewOptions {
   gridWidth: number;
   /** Whether to display the procedural icon spray layer. */
   showIconSpray: boolean;
+  /** How hexes are labelled with their coordinates, if at all. */
+  hexLabels: HexLabelStyle;
+  /** The legend, compass rose and scale bar drawn over the map. */
+  overlays: MapOverlaySettings;
   /** Knight view visibility configuration for map layers. */
   visibility: {
     knight: KnightVisibilitySettings;
@@ -186,14 +433,55 @@ export type TerrainTextures = Record<
 /** Options for specifying the number of each landmark type to generate. */
 export type LandmarkGenerationOptions = Record<string, number>;
 
+/** The kinds of realm feature the name generator can name. */
+export type NameFeature = 'holding' | 'landmark' | 'myth' | 'region' | 'river';
+
+/**
+ * A grammar for names of one kind of feature. A name is made by picking one of the patterns
+ * and replacing each `{part}` in it with a random entry of that part, which may itself
+ * contain further `{part}` references.
+ */
+export interface NameTable {
+  /** The shapes a name can take, e.g. "{root}{end} Keep". */
+  patterns: string[];
+  /** The entries for each part the patterns refer to. */
+  parts: Record<string, string[]>;
+}
+
+/** A name table for each kind of feature. */
+export type NameTables = Record<NameFeature, NameTable>;
+
 /** A matrix defining the clustering affinity between different terrain types. */
 export type TerrainClusteringMatrix = Record<string, Record<string, number>>;
 
 /** Defines the shape used for forming highland areas during terrain generation. */
-export type HighlandFormation = 'random' | 'linear' | 'circle' | 'triangle';
+export type HighlandFormation =
+  | 'random'
+  | 'linear'
+  | 'circle'
+  | 'triangle'
+  | 'ridge'
+  | 'archipelago'
+  | 'twinPeaks';
+
+/** Advanced settings for the fractal noise that shapes the elevation of a generated realm. */
+export interface NoiseSettings {
+  /** The number of noise layers (octaves) that are combined. More octaves add finer detail. */
+  octaves: number;
+  /** The frequency multiplier between successive octaves. */
+  lacunarity: number;
+  /** The amplitude multiplier between successive octaves. Higher values give rougher elevation. */
+  persistence: number;
+  /** How far (0-1) the noise is distorted by a second noise field, giving less regular shapes. 0 disables domain warping. */
+  warpStrength: number;
+  /** The number of terrain clustering passes at medium roughness. Smoother terrain uses more, rougher terrain fewer. */
+  relaxationPasses: number;
+}
 
 /** A collection of all options controlling the procedural generation of a realm. */
 export interface GenerationOptions {
+  /** The seed for the generator's PRNG. The same seed and options always produce the same realm. */
+  seed: number;
   /** The number of holdings (castles, cities, etc.) to generate. */
   numHoldings: number;
   /** The number of myths to generate. */
@@ -204,16 +492,26 @@ export interface GenerationOptions {
   landmarks: LandmarkGenerationOptions;
   /** Whether to generate random barriers between hexes. */
   generateBarriers: boolean;
+  /** The number of rivers to run from the highlands down to lakes or the map edge. */
+  numRivers: number;
+  /** Whether to connect the holdings with roads and tracks. */
+  generateRoads: boolean;
+  /** Whether to name the holdings, landmarks, myths and rivers. */
+  generateNames: boolean;
+  /** Name tables imported by the user, replacing the built-in tables for their features. */
+  nameTables: Partial<NameTables>;
   /** The shape used to influence highland placement. */
   highlandFormation: HighlandFormation;
   /** The strength of the highland formation's influence on elevation. */
   highlandFormationStrength: number;
   /** The rotation (in degrees) of the highland formation shape. */
   highlandFormationRotation: number;
-  /** Whether to invert the highland formation (e.g., a central sea instead of a central mountain). */
+  /** Whether to invert the highland formation (e.g., a central sea instead of a central mountain). Ignored by formations that cannot be inverted. */
   highlandFormationInverse?: boolean;
-  /** Controls the size and smoothness of terrain clusters. Lower values are more chaotic. */
+  /** Controls the size and smoothness of terrain clusters (0-1). It scales the noise frequency and the number of relaxation passes. Higher values are more chaotic. */
   terrainRoughness: number;
+  /** Advanced settings for the elevation noise. */
+  noise: NoiseSettings;
   /** The matrix of terrain clustering affinities. */
   terrainClusteringMatrix: TerrainClusteringMatrix;
   /** A set of weights influencing the frequency of each terrain type. */
@@ -222,12 +520,101 @@ export interface GenerationOptions {
   terrainHeightOrder: string[];
 }
 
+/** The stages of realm generation, in the order they run. */
+export type GenerationStage = 'terrain' | 'relaxation' | 'holdings' | 'landmarks' | 'myths';
+
+/** How far realm generation has got. */
+export interface GenerationProgress {
+  stage: GenerationStage;
+  /** How much of the stage is done, from 0 to 1. */
+  fraction: number;
+}
+
+/**
+ * The file formats the realm map can be exported to: images, a printable atlas, and scenes
+ * for virtual tabletops (a Foundry VTT package or a Universal VTT file).
+ */
+export type ExportFormat = 'png' | 'svg' | 'pdf' | 'foundry' | 'uvtt';
+
+/** The paper sizes the realm map can be printed on. */
+export type PaperSize = 'a4' | 'letter';
+
 /** User-configurable options for exporting the realm map. */
 export interface ExportSettings {
+  /** The file format of the export. */
+  format: ExportFormat;
   /** Which perspective to render, Referee (GM) or Knight (player). */
   viewMode: 'referee' | 'knight';
   /** Whether to include hex grid lines in the exported image. */
   includeGrid: boolean;
   /** Whether to include the icon spray overlay in the exported image. */
   includeIconSpray: boolean;
+  /** The paper size of the printable atlas. */
+  paperSize: PaperSize;
+  /** The size of a hex in the printable atlas, in millimetres from corner to corner. */
+  printHexSize: number;
+}
+
+/** A realm bundled with the editor state it was built with, saved together as a project. */
+export interface RealmDocumentContent {
+  /** The realm itself. */
+  realm: Realm;
+  /** The tile sets (terrain, holdings, landmarks) the realm refers to. */
+  tileSets: TileSet;
+  /** The base colour for each terrain type. */
+  terrainColors: Record<string, string>;
+  /** The colour used to draw barriers. */
+  barrierColor: string;
+  /** The display options in use when the file was saved. */
+  viewOptions: ViewOptions;
+  /** The generation options in use when the file was saved. */
+  generationOptions: GenerationOptions;
+}
+
+/** A versioned envelope around a realm, as written to and read from JSON files. */
+export interface RealmDocument extends RealmDocumentContent {
+  /** An identifier marking the file as a realm document. */
+  format: string;
+  /** The version of the file format, used to pick migrations when loading older files. */
+  formatVersion: number;
+  /** The version of the application that wrote the file. */
+  appVersion: string;
+  /** ISO timestamp of when the realm was first saved. */
+  createdAt: string;
+  /** ISO timestamp of the most recent save. */
+  updatedAt: string;
 }
+
+/** The formats of other mapping tools that hex maps can be imported from. */
+export type ForeignMapFormat = 'tiled' | 'worldographer' | 'csv';
+
+/** A kind of tile used by an imported map, to be matched to one of the realm's terrain types. */
+export interface ForeignTile {
+  /** The identifier of the tile in the imported file. */
+  id: string;
+  /** The tile's name in the imported file, or a description of it when it has none. */
+  label: string;
+  /** The number of hexes using the tile. */
+  count: number;
+}
+
+/** A hex map read from another mapping tool, before its tiles are matched to terrain. */
+export interface ForeignMap {
+  /** The format the map was read from. */
+  format: ForeignMapFormat;
+  /** The name of the imported file. */
+  fileName: string;
+  /** The orientation of the map's hexes, or null if the file does not say. */
+  orientation: HexOrientation | null;
+  /** The number of columns of hexes spanned by the map. */
+  width: number;
+  /** The number of rows of hexes spanned by the map. */
+  height: number;
+  /** Each hex of the map in axial coordinates, with the tile it uses. */
+  hexes: { q: number; r: number; tileId: string }[];
+  /** The kinds of tile the map uses, most used first. */
+  tiles: ForeignTile[];
+}
+
+/** The terrain type chosen for each tile of an imported map, by tile ID. Null leaves the tile's hexes out. */
+export type TerrainMapping = Record<string, string | null>;
@@ -0,0 +1,129 @@
+/**
+ * @file brushUtils.ts
+ * This file contains the geometry of the Terrain Painter's brushes: the hexes a circle, ring or
+ * line covers, the connected region a fill spreads over, and the terrain a scatter brush picks.
+ */
+import type { Hex } from '@/features/realm/types';
+import { getAxialDistance, getHexesInRange, getNeighbors } from './hexUtils';
+import { findHex, hexKey } from './hexIndex';
+import type { RandomSource } from './randomUtils';
+
+/**
+ * Lists the hexes a circle or ring brush covers.
+ * @param center - The hex under the pointer.
+ * @param size - The size of the brush; size 1 covers the hex alone.
+ * @param isRing - Whether only the outermost hexes are covered.
+ * @returns The coordinates of the covered hexes.
+ */
+export function getBrushHexes(
+  center: { q: number; r: number },
+  size: number,
+  isRing = false
+): { q: number; r: number }[] {
+  const radius = Math.max(0, size - 1);
+  const hexes = getHexesInRange(center, radius);
+  return isRing ? hexes.filter((hex) => getAxialDistance(center, hex) === radius) : hexes;
+}
+
+/**
+ * Rounds fractional axial coordinates to the hex containing them.
+ */
+function roundAxial(q: number, r: number): { q: number; r: number } {
+  const s = -q - r;
+  let rq = Math.round(q);
+  let rr = Math.round(r);
+  const rs = Math.round(s);
+  const dq = Math.abs(rq - q);
+  const dr = Math.abs(rr - r);
+  const ds = Math.abs(rs - s);
+  if (dq > dr && dq > ds) rq = -rr - rs;
+  else if (dr > ds) rr = -rq - rs;
+  return { q: rq + 0, r: rr + 0 };
+}
+
+/**
+ * Lists the hexes of a straight line between two hexes, one per step.
+ * @param start - The hex the line starts at.
+ * @param end - The hex the line ends at.
+ * @returns The coordinates of the hexes along the line, both ends included.
+ */
+export function getHexLine(
+  start: { q: number; r: number },
+  end: { q: number; r: number }
+): { q: number; r: number }[] {
+  const steps = getAxialDistance(start, end);
+  if (steps === 0) return [{ q: start.q, r: start.r }];
+  // A tiny nudge keeps points lying exactly on an edge from rounding unevenly along the line.
+  const nudge = 1e-6;
+  return Array.from({ length: steps + 1 }, (_, step) => {
+    const t = step / steps;
+    return roundAxial(
+      start.q + nudge + (end.q - start.q) * t,
+      start.r + nudge + (end.r - start.r) * t
+    );
+  });
+}
+
+/**
+ * Lists the hexes a line brush covers: a line between two hexes, as thick as the brush.
+ * @param start - The hex the drag started on.
+ * @param end - The hex under the pointer.
+ * @param size - The size of the brush.
+ * @returns The coordinates of the covered hexes, without repeats.
+ */
+export function getLineBrushHexes(
+  start: { q: number; r: number },
+  end: { q: number; r: number },
+  size: number
+): { q: number; r: number }[] {
+  const covered = new Map<string, { q: number; r: number }>();
+  getHexLine(start, end).forEach((hex) =>
+    getBrushHexes(hex, size).forEach((coords) => covered.set(hexKey(coords.q, coords.r), coords))
+  );
+  return Array.from(covered.values());
+}
+
+/**
+ * Finds the region a fill spreads over: the hexes of the same terrain as a hex, reached from
+ * it through neighbours of that terrain.
+ * @param hexes - The hexes of the realm.
+ * @param start - The hex the fill starts at.
+ * @returns The hexes of the region, the start included.
+ */
+export function findTerrainRegion(hexes: Hex[], start: Hex): Hex[] {
+  const region = new Map<string, Hex>([[hexKey(start.q, start.r), start]]);
+  // The loop also visits the hexes pushed onto the queue while it runs.
+  const queue = [start];
+  for (const hex of queue) {
+    getNeighbors(hex).forEach(({ q, r }) => {
+      const key = hexKey(q, r);
+      if (region.has(key)) return;
+      const neighbor = findHex(hexes, q, r);
+      if (!neighbor || neighbor.terrain !== start.terrain) return;
+      region.set(key, neighbor);
+      queue.push(neighbor);
+    });
+  }
+  return Array.from(region.values());
+}
+
+/**
+ * Picks a terrain for the scatter brush, each as likely as its share of the weights.
+ * @param weights - The weight of each terrain; terrains without a positive weight are skipped.
+ * @param random - The source of random numbers.
+ * @returns The picked terrain, or `null` if no terrain has a positive weight.
+ */
+export function pickWeightedTerrain(
+  weights: Record<string, number>,
+  random: RandomSource = Math.random
+): string | null {
+  const entries = Object.entries(weights).filter(([, weight]) => weight > 0);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total <= 0) return null;
+  let roll = random() * total;
+  for (const [terrain, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return terrain;
+  }
+  return entries[entries.length - 1]?.[0] ?? null;
+}
@@ -0,0 +1,70 @@
+/**
+ * @file hexDetailsUtils.ts
+ * This file contains utility functions for the names, notes and tags the Referee adds to hexes,
+ * and for the records of the holdings and landmarks placed on them.
+ */
+import type { Hex, PoiDetails } from '@/features/realm/types';
+
+/** The hex fields holding the records of its holding and its landmark. */
+export type PoiDetailsKey = 'holdingDetails' | 'landmarkDetails';
+
+/**
+ * Turns user input into a list of tags. Tags are separated by commas, trimmed, stripped of
+ * a leading `#` and lower-cased, and duplicates are dropped.
+ * @param input - The text entered by the user, e.g. "ford, #River crossing".
+ * @returns The tags, in the order they were entered.
+ */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(',')
+    .map((tag) => tag.trim().replace(/^#+/, '').trim().toLowerCase())
+    .filter((tag) => tag !== '');
+  return [...new Set(tags)];
+}
+
+/**
+ * Finds the hexes whose details match a search query, ignoring case. A query starting with
+ * `#` only matches tags that start with the rest of the query; any other query matches
+ * names (including those of holdings and landmarks), notes and tags containing it.
+ * @param hexes - The hexes to search.
+ * @param query - The search query.
+ * @returns The matching hexes, named hexes first.
+ */
+export function searchHexes(hexes: Hex[], query: string): Hex[] {
+  const normalized = query.trim().toLowerCase();
+  if (normalized === '') return [];
+
+  const matches = normalized.startsWith('#')
+    ? hexes.filter((hex) => hex.tags?.some((tag) => tag.startsWith(normalized.replace(/^#+/, ''))))
+    : hexes.filter(
+        (hex) =>
+          hex.name?.toLowerCase().includes(normalized) ||
+          hex.notes?.toLowerCase().includes(normalized) ||
+          hex.holdingDetails?.name?.toLowerCase().includes(normalized) ||
+          hex.landmarkDetails?.name?.toLowerCase().includes(normalized) ||
+          hex.tags?.some((tag) => tag.includes(normalized))
+      );
+
+  return matches.sort((a, b) => Number(Boolean(b.name)) - Number(Boolean(a.name)));
+}
+
+/**
+ * Sets the record of the holding or landmark in a hex. Blank fields are dropped, and a record
+ * with no fields left is removed from the hex.
+ * @param hex - The hex to update.
+ * @param key - Whether the record is of the holding or the landmark.
+ * @param details - The new record.
+ * @returns The updated hex.
+ */
+export function withPoiDetails(hex: Hex, key: PoiDetailsKey, details: PoiDetails): Hex {
+  const filled = Object.fromEntries(
+    Object.entries(details).filter(([, value]) => typeof value === 'string' && value.trim() !== '')
+  ) as PoiDetails;
+  const updatedHex: Hex = { ...hex };
+  if (Object.keys(filled).length === 0) {
+    delete updatedHex[key];
+  } else {
+    updatedHex[key] = filled;
+  }
+  return updatedHex;
+}
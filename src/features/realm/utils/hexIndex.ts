@@ -0,0 +1,80 @@
+/**
+ * @file hexIndex.ts
+ * This file contains an index of the hexes of a realm by their coordinates, so hexes can be
+ * looked up and replaced without scanning the whole array. The index of an array is built once
+ * and carried over to the arrays made from it by `replaceHexes`, as their hexes keep their places.
+ */
+import type { Hex } from '@/features/realm/types';
+
+/** The position of each hex in an array of hexes, by its coordinate key. */
+type HexIndex = Map<string, number>;
+
+const indexes = new WeakMap<Hex[], HexIndex>();
+
+/**
+ * Builds the key identifying a hex by its coordinates.
+ * @param q - The q coordinate of the hex.
+ * @param r - The r coordinate of the hex.
+ * @returns The key, in the `q,r` form used throughout the app.
+ */
+export function hexKey(q: number, r: number): string {
+  return `${q},${r}`;
+}
+
+/**
+ * Reads the coordinates back from a hex key.
+ * @param key - A key made by `hexKey`.
+ * @returns The q and r coordinates of the hex.
+ */
+export function parseHexKey(key: string): { q: number; r: number } {
+  const [q = NaN, r = NaN] = key.split(',').map(Number);
+  return { q, r };
+}
+
+/**
+ * Gets the index of an array of hexes, building it on first use.
+ */
+function getHexIndex(hexes: Hex[]): HexIndex {
+  let index = indexes.get(hexes);
+  if (!index) {
+    index = new Map();
+    for (let i = 0; i < hexes.length; i++) {
+      const hex = hexes[i];
+      if (hex) index.set(hexKey(hex.q, hex.r), i);
+    }
+    indexes.set(hexes, index);
+  }
+  return index;
+}
+
+/**
+ * Finds the hex at some coordinates.
+ * @param hexes - The hexes of the realm.
+ * @param q - The q coordinate of the hex.
+ * @param r - The r coordinate of the hex.
+ * @returns The hex, or undefined if there is no hex there.
+ */
+export function findHex(hexes: Hex[], q: number, r: number): Hex | undefined {
+  const position = getHexIndex(hexes).get(hexKey(q, r));
+  return position === undefined ? undefined : hexes[position];
+}
+
+/**
+ * Replaces some hexes with updated versions, keeping every other hex as it is.
+ * @param hexes - The hexes of the realm.
+ * @param updates - The updated hexes. Updates for coordinates outside the realm are ignored.
+ * @returns A new array of hexes, or the same array if nothing was replaced.
+ */
+export function replaceHexes(hexes: Hex[], updates: Iterable<Hex>): Hex[] {
+  const index = getHexIndex(hexes);
+  let next: Hex[] | null = null;
+  for (const update of updates) {
+    const position = index.get(hexKey(update.q, update.r));
+    if (position === undefined || hexes[position] === update) continue;
+    next ??= hexes.slice();
+    next[position] = update;
+  }
+  if (!next) return hexes;
+  indexes.set(next, index);
+  return next;
+}
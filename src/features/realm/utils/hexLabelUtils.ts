@@ -0,0 +1,67 @@
+/**
+ * @file hexLabelUtils.ts
+ * This file contains utility functions for labelling hexes with their coordinates, in the
+ * styles offered on the map: axial `q,r`, offset column and row numbers, or letters and numbers.
+ */
+import type { HexLabelStyle, HexOrientation } from '@/features/realm/types';
+
+/**
+ * Turns a zero-based column number into letters: A to Z, then AA, AB and so on.
+ * @param column - The column number, counting from 0.
+ * @returns The column letters.
+ */
+export function columnLetters(column: number): string {
+  let letters = '';
+  for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * Creates a function that labels the hexes of a realm with their coordinates.
+ * Offset and letter-number labels count columns and rows across the realm from its top left
+ * hex, with rows offset for pointy hexes and columns offset for flat ones, as on a paper map.
+ * @param hexes - All hexes of the realm, to find where the columns and rows start.
+ * @param style - The label style.
+ * @param orientation - The orientation of the hexes.
+ * @returns A function returning the label of a hex, empty when `style` is 'none'.
+ */
+export function createHexLabeler(
+  hexes: { q: number; r: number }[],
+  style: HexLabelStyle,
+  orientation: HexOrientation
+): (hex: { q: number; r: number }) => string {
+  if (style === 'none') return () => '';
+  if (style === 'axial') return (hex) => `${hex.q},${hex.r}`;
+
+  // The parity of the offset rows (or columns) follows the first one, so that the realm's
+  // straight edges stay straight whatever its axial origin.
+  const firstR = Math.min(...hexes.map((hex) => hex.r));
+  const firstQ = Math.min(...hexes.map((hex) => hex.q));
+  const toOffset = (hex: { q: number; r: number }) =>
+    orientation === 'pointy'
+      ? { column: hex.q + Math.floor((hex.r - firstR) / 2), row: hex.r }
+      : { column: hex.q, row: hex.r + Math.floor((hex.q - firstQ) / 2) };
+  const offsets = hexes.map(toOffset);
+  const minColumn = Math.min(...offsets.map((offset) => offset.column));
+  const minRow = Math.min(...offsets.map((offset) => offset.row));
+
+  if (style === 'alphanumeric') {
+    return (hex) => {
+      const { column, row } = toOffset(hex);
+      return `${columnLetters(column - minColumn)}${row - minRow + 1}`;
+    };
+  }
+
+  const maxNumber = Math.max(
+    ...offsets.map((offset) => Math.max(offset.column - minColumn, offset.row - minRow) + 1)
+  );
+  const digits = Math.max(2, String(maxNumber).length);
+  return (hex) => {
+    const { column, row } = toOffset(hex);
+    return `${String(column - minColumn + 1).padStart(digits, '0')}${String(
+      row - minRow + 1
+    ).padStart(digits, '0')}`;
+  };
+}
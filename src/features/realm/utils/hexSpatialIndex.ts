@@ -0,0 +1,98 @@
+/**
+ * @file hexSpatialIndex.ts
+ * This file contains a spatial index of hexes, which answers distance questions about a set of
+ * hexes without measuring the distance to each of them. Hexes are sorted into square buckets of
+ * axial coordinates, and a query only looks in the buckets that can hold an answer.
+ */
+import { getAxialDistance } from './hexUtils';
+
+interface HexCoords {
+  q: number;
+  r: number;
+}
+
+/**
+ * A set of hexes indexed by position. The axial distance between two hexes is never less than
+ * the difference of their q or r coordinates, which bounds the buckets a query has to visit.
+ */
+export class HexSpatialIndex {
+  private readonly buckets = new Map<string, HexCoords[]>();
+  private readonly bucketSize: number;
+  private minBucket = { q: Infinity, r: Infinity };
+  private maxBucket = { q: -Infinity, r: -Infinity };
+
+  /**
+   * @param bucketSize - The width of a bucket, in hexes. Queries are fastest when it is close
+   *   to the distances asked about.
+   */
+  constructor(bucketSize: number) {
+    this.bucketSize = Math.max(1, Math.round(bucketSize));
+  }
+
+  /**
+   * Adds a hex to the index.
+   */
+  add(hex: HexCoords) {
+    const q = Math.floor(hex.q / this.bucketSize);
+    const r = Math.floor(hex.r / this.bucketSize);
+    const key = `${q},${r}`;
+    const bucket = this.buckets.get(key);
+    if (bucket) bucket.push(hex);
+    else this.buckets.set(key, [hex]);
+    this.minBucket = { q: Math.min(this.minBucket.q, q), r: Math.min(this.minBucket.r, r) };
+    this.maxBucket = { q: Math.max(this.maxBucket.q, q), r: Math.max(this.maxBucket.r, r) };
+  }
+
+  /**
+   * Checks whether any indexed hex is closer to a hex than some distance.
+   * @param hex - The hex to measure from.
+   * @param distance - The distance, in hexes, which the indexed hex must be closer than.
+   * @returns True if an indexed hex is closer than the distance.
+   */
+  hasWithin(hex: HexCoords, distance: number): boolean {
+    const reach = Math.ceil(distance) - 1;
+    if (reach < 0) return false;
+    const minQ = Math.floor((hex.q - reach) / this.bucketSize);
+    const maxQ = Math.floor((hex.q + reach) / this.bucketSize);
+    const minR = Math.floor((hex.r - reach) / this.bucketSize);
+    const maxR = Math.floor((hex.r + reach) / this.bucketSize);
+    for (let q = minQ; q <= maxQ; q++) {
+      for (let r = minR; r <= maxR; r++) {
+        const bucket = this.buckets.get(`${q},${r}`);
+        if (bucket?.some((other) => getAxialDistance(hex, other) < distance)) return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Finds the distance from a hex to the nearest indexed hex. Buckets are searched in rings
+   * around the hex until no further ring can hold a nearer one.
+   * @param hex - The hex to measure from.
+   * @returns The distance in hexes, or Infinity if the index is empty.
+   */
+  nearestDistance(hex: HexCoords): number {
+    const centerQ = Math.floor(hex.q / this.bucketSize);
+    const centerR = Math.floor(hex.r / this.bucketSize);
+    const maxRing = Math.max(
+      centerQ - this.minBucket.q,
+      this.maxBucket.q - centerQ,
+      centerR - this.minBucket.r,
+      this.maxBucket.r - centerR
+    );
+    let nearest = Infinity;
+    for (let ring = 0; ring <= maxRing; ring++) {
+      for (let q = centerQ - ring; q <= centerQ + ring; q++) {
+        for (let r = centerR - ring; r <= centerR + ring; r++) {
+          if (Math.max(Math.abs(q - centerQ), Math.abs(r - centerR)) !== ring) continue;
+          this.buckets.get(`${q},${r}`)?.forEach((other) => {
+            nearest = Math.min(nearest, getAxialDistance(hex, other));
+          });
+        }
+      }
+      // Hexes in the next ring of buckets are more than `ring` buckets away along q or r.
+      if (nearest <= ring * this.bucketSize + 1) break;
+    }
+    return nearest;
+  }
+}
@@ -4,7 +4,7 @@
  * axial coordinate system (q, r). It includes functions for coordinate conversion,
  * geometry calculation, and neighbor finding.
  */
-import type { Point, HexOrientation } from '@/features/realm/types';
+import type { Point, HexOrientation, PathPoint } from '@/features/realm/types';
 
 /**
  * Converts axial hex coordinates to pixel coordinates.
@@ -92,6 +92,66 @@ export function findClosestEdge(point: Point, corners: Point[]): number {
   return closestEdgeIndex;
 }
 
+/**
+ * Finds the closest corner of a hex to a given point.
+ * @param point - The point relative to the hex center {x, y}.
+ * @param corners - The array of the hex's corner points.
+ * @returns The index of the closest corner (0-5).
+ */
+export function findClosestCorner(point: Point, corners: Point[]): number {
+  let minDistance = Infinity;
+  let closestCornerIndex = -1;
+  corners.forEach((corner, i) => {
+    const distance = Math.hypot(point.x - corner.x, point.y - corner.y);
+    if (distance < minDistance) {
+      minDistance = distance;
+      closestCornerIndex = i;
+    }
+  });
+  return closestCornerIndex;
+}
+
+/**
+ * Converts a path point to pixel coordinates.
+ * @param point - The path point: a hex, optionally with a corner index.
+ * @param orientation - The orientation of the grid ('pointy' or 'flat').
+ * @param size - The size of the hexes in pixels {x, y}.
+ * @param corners - The array of corner points of a hex, relative to its center.
+ * @returns The pixel coordinates {x, y} of the hex center or corner.
+ */
+export function pathPointToPixel(
+  point: PathPoint,
+  orientation: HexOrientation,
+  size: Point,
+  corners: Point[]
+): Point {
+  const center = axialToPixel(point, orientation, size);
+  const corner = point.corner === undefined ? undefined : corners[point.corner];
+  return corner ? { x: center.x + corner.x, y: center.y + corner.y } : center;
+}
+
+/**
+ * Generates an SVG path string for a polyline through a list of path points.
+ * @param points - The path points, in order.
+ * @param orientation - The orientation of the grid ('pointy' or 'flat').
+ * @param size - The size of the hexes in pixels {x, y}.
+ * @param corners - The array of corner points of a hex, relative to its center.
+ * @returns An SVG path data string (e.g., "M x1 y1 L x2 y2 L x3 y3").
+ */
+export function getPolylinePath(
+  points: PathPoint[],
+  orientation: HexOrientation,
+  size: Point,
+  corners: Point[]
+): string {
+  return points
+    .map((point, i) => {
+      const { x, y } = pathPointToPixel(point, orientation, size, corners);
+      return `${i === 0 ? 'M' : 'L'} ${x} ${y}`;
+    })
+    .join(' ');
+}
+
 /**
  * Axial direction vectors, ordered to match pointy-top edge indices.
  * 0:E, 1:SE, 2:SW, 3:W, 4:NW, 5:NE
@@ -129,3 +189,54 @@ export function getAxialDistance(a: { q: number; r: number }, b: { q: number; r:
   const ds = Math.abs(-a.q - a.r - (-b.q - b.r));
   return (dq + dr + ds) / 2;
 }
+
+/**
+ * Lists the coordinates of all hexes within a given distance of a hex, including the hex itself.
+ * @param center - The central hex {q, r}.
+ * @param radius - The maximum distance in hexes.
+ * @returns An array of coordinate objects.
+ */
+export function getHexesInRange(
+  center: { q: number; r: number },
+  radius: number
+): { q: number; r: number }[] {
+  const results: { q: number; r: number }[] = [];
+  for (let dq = -radius; dq <= radius; dq++) {
+    const minDr = Math.max(-radius, -dq - radius);
+    const maxDr = Math.min(radius, -dq + radius);
+    for (let dr = minDr; dr <= maxDr; dr++) {
+      results.push({ q: center.q + dq, r: center.r + dr });
+    }
+  }
+  return results;
+}
+
+/**
+ * Calculates the bounding box of a set of hexes, corners included.
+ * @param hexes - The hexes to enclose.
+ * @param orientation - The orientation of the grid.
+ * @param size - The size of the hexes in pixels.
+ * @returns The bounding box in pixels, or an empty box at the origin if there are no hexes.
+ */
+export function getHexesBounds(
+  hexes: { q: number; r: number }[],
+  orientation: HexOrientation,
+  size: Point
+): { x: number; y: number; width: number; height: number } {
+  if (hexes.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const corners = getHexCorners(orientation, size);
+  let minX = Number.POSITIVE_INFINITY;
+  let minY = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  let maxY = Number.NEGATIVE_INFINITY;
+  hexes.forEach((hex) => {
+    const center = axialToPixel(hex, orientation, size);
+    corners.forEach((corner) => {
+      minX = Math.min(minX, center.x + corner.x);
+      minY = Math.min(minY, center.y + corner.y);
+      maxX = Math.max(maxX, center.x + corner.x);
+      maxY = Math.max(maxY, center.y + corner.y);
+    });
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
@@ -0,0 +1,91 @@
+/**
+ * @file historyLabels.ts
+ * This file contains the functions that describe edits to hexes for the undo history, e.g.
+ * "Painted 14 hexes Forest", and decide which edits are merged into one step.
+ */
+import type { Hex, HexChange, HistoryDescription, Tile, TileSet } from '@/features/realm/types';
+
+/** The properties of a hex that hold the Referee's records of its holding or landmark. */
+const DETAIL_KEYS: (keyof Hex)[] = ['holdingDetails', 'landmarkDetails'];
+/** The properties of a hex set when placing or removing a holding or landmark. */
+const PLACE_KEYS: (keyof Hex)[] = ['holding', 'landmark', ...DETAIL_KEYS];
+
+/**
+ * Formats a number of hexes, e.g. "1 hex" or "14 hexes".
+ */
+const countHexes = (count: number) => `${count} ${count === 1 ? 'hex' : 'hexes'}`;
+
+/**
+ * Names a hex by its custom name, or by its coordinates.
+ */
+const nameHex = (hex: Hex) => hex.name || `hex ${hex.q},${hex.r}`;
+
+/**
+ * Finds the label of a tile, falling back to its ID for tiles that have been removed.
+ */
+const tileLabel = (tiles: Tile[], id: string) => tiles.find((tile) => tile.id === id)?.label ?? id;
+
+/**
+ * Describes an edit to some hexes.
+ * @param changes - The edited hexes, before and after the edit.
+ * @param tileSets - The tiles, for the labels of terrain, holdings and landmarks.
+ * @returns The label of the edit, and the key that merges it with similar edits: the strokes
+ *   of one brush, or the keystrokes in one hex's fields.
+ */
+export function describeHexChanges(changes: HexChange[], tileSets: TileSet): HistoryDescription {
+  const onlyChanged = (keys: (keyof Hex)[]) =>
+    changes.every(({ before, after }) =>
+      (Object.keys({ ...before, ...after }) as (keyof Hex)[]).every(
+        (key) => keys.includes(key) || before[key] === after[key]
+      )
+    );
+  const count = countHexes(changes.length);
+  const [first] = changes;
+
+  if (onlyChanged(['terrain'])) {
+    const terrains = new Set(changes.map(({ after }) => after.terrain));
+    const [terrain] = terrains;
+    return terrains.size === 1 && terrain !== undefined
+      ? {
+          label: `Painted ${count} ${tileLabel(tileSets.terrain, terrain)}`,
+          mergeKey: `terrain:${terrain}`,
+        }
+      : { label: `Painted ${count}` };
+  }
+  if (onlyChanged(['barrierEdges'])) {
+    return { label: `Edited barriers on ${count}`, mergeKey: 'barriers' };
+  }
+  if (onlyChanged(['isRevealed'])) {
+    if (changes.every(({ after }) => after.isRevealed)) {
+      return { label: `Revealed ${count}`, mergeKey: 'reveal' };
+    }
+    if (changes.every(({ after }) => !after.isRevealed)) {
+      return { label: `Concealed ${count}`, mergeKey: 'conceal' };
+    }
+  }
+  if (changes.length === 1 && first) {
+    const { before, after } = first;
+    if (onlyChanged(DETAIL_KEYS)) {
+      return {
+        label: `Edited the record of ${nameHex(after)}`,
+        mergeKey: `details:${after.q},${after.r}`,
+      };
+    }
+    if (onlyChanged(PLACE_KEYS)) {
+      if (after.holding && after.holding !== before.holding) {
+        return { label: `Placed ${tileLabel(tileSets.holding, after.holding)}` };
+      }
+      if (after.landmark && after.landmark !== before.landmark) {
+        return { label: `Placed ${tileLabel(tileSets.landmark, after.landmark)}` };
+      }
+      if (before.holding) {
+        return { label: `Removed ${tileLabel(tileSets.holding, before.holding)}` };
+      }
+      if (before.landmark) {
+        return { label: `Removed ${tileLabel(tileSets.landmark, before.landmark)}` };
+      }
+    }
+    return { label: `Edited ${nameHex(after)}`, mergeKey: `hex:${after.q},${after.r}` };
+  }
+  return { label: `Edited ${count}` };
+}
@@ -0,0 +1,41 @@
+/**
+ * @file mythUtils.ts
+ * This file contains utility functions for creating and editing myths.
+ */
+import type { Myth } from '@/features/realm/types';
+
+/**
+ * Creates a new, dormant myth with no details yet.
+ * @param id - The id of the myth.
+ * @param hex - The coordinates of the hex the myth is placed on.
+ * @returns The new myth, named after its id.
+ */
+export function createMyth(id: number, hex: { q: number; r: number }): Myth {
+  return {
+    id,
+    name: `Myth #${id}`,
+    q: hex.q,
+    r: hex.r,
+    status: 'dormant',
+    description: '',
+    omens: [],
+    cast: [],
+    linkedHexes: [],
+  };
+}
+
+/**
+ * Links a hex to a myth, or unlinks it if it is already linked.
+ * @param myth - The myth to update.
+ * @param hex - The coordinates of the hex.
+ * @returns The updated myth.
+ */
+export function toggleMythLinkedHex(myth: Myth, hex: { q: number; r: number }): Myth {
+  const isLinked = myth.linkedHexes.some((h) => h.q === hex.q && h.r === hex.r);
+  return {
+    ...myth,
+    linkedHexes: isLinked
+      ? myth.linkedHexes.filter((h) => h.q !== hex.q || h.r !== hex.r)
+      : [...myth.linkedHexes, { q: hex.q, r: hex.r }],
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * @file partyUtils.ts
+ * This file contains utility functions for tracking the Knights' party and its travel log.
+ */
+import type { Party, TravelLogEntry } from '@/features/realm/types';
+
+/**
+ * Finds where the party currently is.
+ * @param party - The party.
+ * @returns The last entry of the travel log, or `null` if the party has not been placed.
+ */
+export function getPartyPosition(party: Party): TravelLogEntry | null {
+  return party.log[party.log.length - 1] ?? null;
+}
+
+/**
+ * Moves the party to a hex, logging the move on the current day.
+ * @param party - The party to move.
+ * @param hex - The coordinates of the destination hex.
+ * @returns The moved party, or the same party if it is already on the hex.
+ */
+export function moveParty(party: Party, hex: { q: number; r: number }): Party {
+  const position = getPartyPosition(party);
+  if (position && position.q === hex.q && position.r === hex.r) return party;
+  return { ...party, log: [...party.log, { day: party.day, q: hex.q, r: hex.r }] };
+}
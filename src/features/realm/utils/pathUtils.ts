@@ -0,0 +1,51 @@
+/**
+ * @file pathUtils.ts
+ * This file contains utility functions for editing the rivers, roads and tracks of a realm.
+ */
+import type { PathPoint, PathType, RealmPath } from '@/features/realm/types';
+
+/**
+ * Creates an id for a new path that is not used by any existing path, e.g. `road-3`.
+ * @param type - The type of the new path.
+ * @param paths - The existing paths.
+ * @returns A unique path id.
+ */
+export function createPathId(type: PathType, paths: RealmPath[]): string {
+  const usedIds = new Set(paths.map((path) => path.id));
+  let index = 1;
+  while (usedIds.has(`${type}-${index}`)) index++;
+  return `${type}-${index}`;
+}
+
+/**
+ * Erases the parts of paths that pass through the given hexes. A path that is cut in the
+ * middle is split in two, and pieces too short to draw a line are removed.
+ * @param paths - The paths to erase from.
+ * @param hexKeys - The coordinates of the hexes to clear, as `q,r` keys.
+ * @returns The remaining paths. Paths that were not touched are returned unchanged.
+ */
+export function erasePathsAt(paths: RealmPath[], hexKeys: Set<string>): RealmPath[] {
+  if (hexKeys.size === 0) return paths;
+  const remaining: RealmPath[] = [];
+  paths.forEach((path) => {
+    const pieces: PathPoint[][] = [[]];
+    path.points.forEach((point) => {
+      const piece = pieces[pieces.length - 1];
+      if (hexKeys.has(`${point.q},${point.r}`)) {
+        if (piece && piece.length > 0) pieces.push([]);
+      } else {
+        piece?.push(point);
+      }
+    });
+    const kept = pieces.filter((piece) => piece.length >= 2);
+    if (kept.length === 1 && kept[0]?.length === path.points.length) {
+      remaining.push(path);
+      return;
+    }
+    kept.forEach((points, index) => {
+      const id = index === 0 ? path.id : createPathId(path.type, [...paths, ...remaining]);
+      remaining.push({ ...path, id, points });
+    });
+  });
+  return remaining;
+}
@@ -0,0 +1,62 @@
+/**
+ * @file randomUtils.ts
+ * This file contains small seeded pseudo-random helpers shared by the realm generator
+ * and the procedural icon spray, so that both produce reproducible output.
+ */
+
+/** A seeded pseudo-random number source returning values in [0, 1). */
+export type RandomSource = () => number;
+
+/** The largest seed value; seeds are unsigned 32-bit integers. */
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * A simple, high-quality pseudo-random number generator.
+ * @param a The seed.
+ * @returns A function that returns a random number between 0 and 1.
+ */
+export function mulberry32(a: number): RandomSource {
+  return function () {
+    let t = (a += 0x6d2b79f5);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates a consistent seed from a string.
+ * @param str The input string (e.g., terrain ID).
+ * @returns A 32-bit integer seed.
+ */
+export function stringToSeed(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = (hash << 5) - hash + char;
+    hash |= 0; // Convert to 32bit integer
+  }
+  return hash;
+}
+
+/**
+ * Creates a fresh, non-deterministic seed for a new realm.
+ * @returns An unsigned 32-bit integer seed.
+ */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+/**
+ * Normalizes user input (a number or a free-form "seed code") into a valid seed.
+ * Numeric input is used as-is; any other text is hashed so that it still maps to a stable seed.
+ * @param value The raw seed value entered by the user.
+ * @returns An unsigned 32-bit integer seed.
+ */
+export function parseSeed(value: string | number): number {
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) {
+    return Math.min(Number(text), MAX_SEED);
+  }
+  return stringToSeed(text) >>> 0;
+}
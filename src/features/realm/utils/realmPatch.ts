@@ -0,0 +1,132 @@
+/**
+ * @file realmPatch.ts
+ * This file contains the logic for recording changes to a realm as patches: the hexes and
+ * properties a change touched, before and after it. The undo history keeps patches instead of
+ * copies of the realm, so its memory grows with the size of the edits, not of the realm.
+ */
+import type { Hex, HexChange, Realm, RealmFields, RealmPatch } from '@/features/realm/types';
+import { hexKey, replaceHexes } from './hexIndex';
+
+/** Which way a patch is applied: back to the realm before the change, or forward to after. */
+export type PatchDirection = 'undo' | 'redo';
+
+/**
+ * Checks whether two hexes hold the same data, so hexes rebuilt with the same values (e.g. by
+ * revealing every hex) are not recorded as edited.
+ */
+const isSameHex = (a: Hex, b: Hex) => {
+  if (a === b) return true;
+  const keys = Object.keys(a) as (keyof Hex)[];
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+};
+
+/**
+ * Copies a property of a realm into a set of fields.
+ */
+const copyField = <K extends keyof Realm>(fields: RealmFields, realm: Realm, key: K) => {
+  fields[key] = realm[key];
+};
+
+/**
+ * Finds the hexes edited in place between two arrays of hexes.
+ * @returns The edited hexes, or null if the arrays do not hold the same grid in the same order.
+ */
+function diffHexes(before: Hex[], after: Hex[]): HexChange[] | null {
+  if (before.length !== after.length) return null;
+  const changes: HexChange[] = [];
+  for (let i = 0; i < before.length; i++) {
+    const a = before[i];
+    const b = after[i];
+    if (!a || !b || a.q !== b.q || a.r !== b.r) return null;
+    if (!isSameHex(a, b)) changes.push({ before: a, after: b });
+  }
+  return changes;
+}
+
+/**
+ * Records the change from one realm to another.
+ * @param before - The realm before the change.
+ * @param after - The realm after the change.
+ * @returns The patch that turns one realm into the other.
+ */
+export function createRealmPatch(before: Realm, after: Realm): RealmPatch {
+  const patch: RealmPatch = { hexes: [], before: {}, after: {} };
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof Realm)[]);
+  keys.forEach((key) => {
+    if (key === 'hexes' || before[key] === after[key]) return;
+    copyField(patch.before, before, key);
+    copyField(patch.after, after, key);
+  });
+  if (before.hexes !== after.hexes) {
+    const changes = diffHexes(before.hexes, after.hexes);
+    if (changes) {
+      patch.hexes = changes;
+    } else {
+      patch.before.hexes = before.hexes;
+      patch.after.hexes = after.hexes;
+    }
+  }
+  return patch;
+}
+
+/**
+ * Checks whether a patch changes nothing.
+ */
+export function isEmptyPatch(patch: RealmPatch): boolean {
+  return patch.hexes.length === 0 && Object.keys(patch.after).length === 0;
+}
+
+/**
+ * Applies a patch to a realm.
+ * @param realm - The realm to change.
+ * @param patch - The patch to apply.
+ * @param direction - Whether to undo the change or redo it.
+ * @returns The changed realm.
+ */
+export function applyRealmPatch(realm: Realm, patch: RealmPatch, direction: PatchDirection): Realm {
+  const fields = direction === 'undo' ? patch.before : patch.after;
+  const next: RealmFields = { ...realm, ...fields };
+  (Object.keys(fields) as (keyof Realm)[]).forEach((key) => {
+    if (next[key] === undefined) delete next[key];
+  });
+  if (patch.hexes.length > 0) {
+    next.hexes = replaceHexes(
+      next.hexes ?? realm.hexes,
+      patch.hexes.map((change) => (direction === 'undo' ? change.before : change.after))
+    );
+  }
+  return next as Realm;
+}
+
+/**
+ * Combines two patches made one after the other into one.
+ * @param first - The earlier patch.
+ * @param second - The later patch.
+ * @returns The combined patch, or null if either patch reshapes the grid.
+ */
+export function mergeRealmPatches(first: RealmPatch, second: RealmPatch): RealmPatch | null {
+  if ('hexes' in first.after || 'hexes' in second.after) return null;
+  const hexes = new Map<string, HexChange>();
+  first.hexes.forEach((change) => hexes.set(hexKey(change.after.q, change.after.r), change));
+  second.hexes.forEach((change) => {
+    const key = hexKey(change.after.q, change.after.r);
+    hexes.set(key, { before: hexes.get(key)?.before ?? change.before, after: change.after });
+  });
+  return {
+    hexes: Array.from(hexes.values()).filter((change) => !isSameHex(change.before, change.after)),
+    before: { ...second.before, ...first.before },
+    after: { ...first.after, ...second.after },
+  };
+}
+
+/**
+ * Estimates the memory a patch holds, as the number of hexes it keeps.
+ */
+export function getPatchSize(patch: RealmPatch): number {
+  return (
+    1 +
+    patch.hexes.length * 2 +
+    (patch.before.hexes?.length ?? 0) +
+    (patch.after.hexes?.length ?? 0)
+  );
+}
@@ -0,0 +1,206 @@
+/**
+ * @file selectionUtils.ts
+ * This file contains the logic for working with many hexes at once: selecting them with a
+ * marquee or a lasso dragged over the map, or by their attributes, and the bulk edits that are
+ * applied to a selection.
+ */
+import type { Hex, HexOrientation, Point } from '@/features/realm/types';
+import { axialToPixel, getNeighbors } from './hexUtils';
+import { findHex, hexKey, parseHexKey } from './hexIndex';
+
+/** A shape dragged over the map to select the hexes whose centres it encloses. */
+export interface SelectionShape {
+  /** A marquee is the rectangle between its first and last points; a lasso is the polygon of all of them. */
+  mode: 'marquee' | 'lasso';
+  /** The points of the shape, in map units. */
+  points: Point[];
+}
+
+/** An attribute hexes can be selected by. */
+export type SelectionAttribute = 'terrain' | 'holding' | 'landmark' | 'tag';
+
+/** The value matching any holding or landmark when selecting by attribute. */
+export const ANY_ATTRIBUTE_VALUE = '*';
+
+/**
+ * Works out the outline of a selection shape.
+ * @param shape - The shape.
+ * @returns The corners of the marquee, or the points of the lasso.
+ */
+export function getSelectionOutline(shape: SelectionShape): Point[] {
+  if (shape.mode === 'lasso') return shape.points;
+  const start = shape.points[0];
+  const end = shape.points[shape.points.length - 1];
+  if (!start || !end) return [];
+  return [start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }];
+}
+
+/**
+ * Checks whether a point lies inside a polygon, by counting the edges a ray from it crosses.
+ */
+export function isPointInPolygon(point: Point, polygon: Point[]): boolean {
+  let isInside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (!a || !b) continue;
+    if (a.y > point.y !== b.y > point.y) {
+      const crossingX = a.x + ((point.y - a.y) / (b.y - a.y)) * (b.x - a.x);
+      if (point.x < crossingX) isInside = !isInside;
+    }
+  }
+  return isInside;
+}
+
+/**
+ * Finds the hexes whose centres lie inside a selection shape.
+ * @param hexes - The hexes of the realm.
+ * @param orientation - The orientation of the grid.
+ * @param hexSize - The size of the hexes.
+ * @param shape - The marquee or lasso.
+ * @returns The keys of the enclosed hexes.
+ */
+export function findHexesInShape(
+  hexes: Hex[],
+  orientation: HexOrientation,
+  hexSize: Point,
+  shape: SelectionShape
+): string[] {
+  const outline = getSelectionOutline(shape);
+  if (outline.length < 3) return [];
+  return hexes
+    .filter((hex) => isPointInPolygon(axialToPixel(hex, orientation, hexSize), outline))
+    .map((hex) => hexKey(hex.q, hex.r));
+}
+
+/**
+ * Finds the hexes with a given attribute.
+ * @param hexes - The hexes of the realm.
+ * @param attribute - The attribute to match.
+ * @param value - The terrain, holding, landmark or tag to match. Holdings and landmarks also
+ *   take `ANY_ATTRIBUTE_VALUE`, matching any of them.
+ * @returns The matching hexes.
+ */
+export function findHexesByAttribute(
+  hexes: Hex[],
+  attribute: SelectionAttribute,
+  value: string
+): Hex[] {
+  const matches = (id: string | undefined) =>
+    value === ANY_ATTRIBUTE_VALUE ? id !== undefined : id === value;
+  return hexes.filter((hex) => {
+    switch (attribute) {
+      case 'terrain':
+        return hex.terrain === value;
+      case 'holding':
+        return matches(hex.holding);
+      case 'landmark':
+        return matches(hex.landmark);
+      case 'tag':
+        return hex.tags?.includes(value) ?? false;
+    }
+  });
+}
+
+/**
+ * Looks up the selected hexes.
+ * @param hexes - The hexes of the realm.
+ * @param selection - The keys of the selected hexes.
+ * @returns The selected hexes that are in the realm.
+ */
+export function getSelectedHexes(hexes: Hex[], selection: ReadonlySet<string>): Hex[] {
+  const selected: Hex[] = [];
+  selection.forEach((key) => {
+    const { q, r } = parseHexKey(key);
+    const hex = findHex(hexes, q, r);
+    if (hex) selected.push(hex);
+  });
+  return selected;
+}
+
+/**
+ * Adds or removes the barriers around a selection: on the sides of the selected hexes that
+ * face a hex outside it or the edge of the realm. Barriers are kept on both hexes of a side.
+ * @param hexes - The hexes of the realm.
+ * @param selection - The keys of the selected hexes.
+ * @param hasBarrier - Whether the sides get barriers, or lose them.
+ * @returns The changed hexes, including the neighbours outside the selection.
+ */
+export function setPerimeterBarriers(
+  hexes: Hex[],
+  selection: ReadonlySet<string>,
+  hasBarrier: boolean
+): Hex[] {
+  const updates = new Map<string, Hex>();
+  const setEdge = (hex: Hex, edge: number) => {
+    const key = hexKey(hex.q, hex.r);
+    const current = updates.get(key) ?? hex;
+    if (current.barrierEdges.includes(edge) === hasBarrier) return;
+    updates.set(key, {
+      ...current,
+      barrierEdges: hasBarrier
+        ? [...current.barrierEdges, edge].sort((a, b) => a - b)
+        : current.barrierEdges.filter((e) => e !== edge),
+    });
+  };
+
+  getSelectedHexes(hexes, selection).forEach((hex) => {
+    getNeighbors(hex).forEach((coords, edge) => {
+      if (selection.has(hexKey(coords.q, coords.r))) return;
+      setEdge(hex, edge);
+      const neighbor = findHex(hexes, coords.q, coords.r);
+      if (neighbor) setEdge(neighbor, (edge + 3) % 6);
+    });
+  });
+  return Array.from(updates.values());
+}
+
+/**
+ * Removes the holdings and landmarks, with their records, from some hexes.
+ * @param hexes - The hexes to clear.
+ * @returns The hexes that had a holding or landmark, without it.
+ */
+export function clearPlaces(hexes: Hex[]): Hex[] {
+  return hexes
+    .filter((hex) => hex.holding !== undefined || hex.landmark !== undefined)
+    .map(
+      ({
+        holding: _holding,
+        holdingDetails: _holdingDetails,
+        landmark: _landmark,
+        landmarkDetails: _landmarkDetails,
+        ...rest
+      }) => rest
+    );
+}
+
+/**
+ * Deletes the contents of the selected hexes, leaving bare terrain: their holdings and
+ * landmarks, names, notes, tags and barriers. Myths are kept, as they are managed with the
+ * Myth tool.
+ * @param hexes - The hexes of the realm.
+ * @param selection - The keys of the selected hexes.
+ * @returns The changed hexes, including the neighbours outside the selection that shared a
+ *   barrier with them.
+ */
+export function clearHexContents(hexes: Hex[], selection: ReadonlySet<string>): Hex[] {
+  const updates = new Map<string, Hex>();
+  setPerimeterBarriers(hexes, selection, false).forEach((hex) =>
+    updates.set(hexKey(hex.q, hex.r), hex)
+  );
+  getSelectedHexes(hexes, selection).forEach((hex) => {
+    const key = hexKey(hex.q, hex.r);
+    const {
+      holding: _holding,
+      holdingDetails: _holdingDetails,
+      landmark: _landmark,
+      landmarkDetails: _landmarkDetails,
+      name: _name,
+      notes: _notes,
+      tags: _tags,
+      ...rest
+    } = updates.get(key) ?? hex;
+    updates.set(key, { ...rest, barrierEdges: [] });
+  });
+  return Array.from(updates.values());
+}
@@ -8,6 +8,7 @@ import {
   MASK_RESOLUTION,
   TERRAIN_SPRAY_DEFAULTS,
 } from '@/features/realm/config/constants';
+import { mulberry32, stringToSeed } from './randomUtils';
 
 interface SprayIcon {
   name: string;
@@ -39,35 +40,6 @@ const isPointAllowedByMask = (
   return mask[maskIndex] === 1;
 };
 
-/**
- * A simple, high-quality pseudo-random number generator.
- * @param a The seed.
- * @returns A function that returns a random number between 0 and 1.
- */
-function mulberry32(a: number) {
-  return function () {
-    let t = (a += 0x6d2b79f5);
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-}
-
-/**
- * Generates a consistent seed from a string.
- * @param str The input string (e.g., terrain ID).
- * @returns A 32-bit integer seed.
- */
-function stringToSeed(str: string): number {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash |= 0; // Convert to 32bit integer
-  }
-  return hash;
-}
-
 interface SizeBounds {
   base: number;
   min: number;
@@ -0,0 +1,152 @@
+/**
+ * @file stampUtils.ts
+ * This file contains the logic for stamps: regions of hexes copied from the map, like a lake
+ * ringed by marsh or a mountain pass, that can be turned and mirrored and pasted elsewhere.
+ */
+import type { Hex, HexOrientation, Stamp, StampTransform } from '@/features/realm/types';
+import { getAxialDistance, getNeighbors } from './hexUtils';
+import { findHex, hexKey } from './hexIndex';
+import { getSelectedHexes } from './selectionUtils';
+
+/** The offsets of the six neighbours of a hex, in the order of its edges. */
+const EDGE_DIRECTIONS = getNeighbors({ q: 0, r: 0 });
+
+/** A stamp pasted as it was copied. */
+export const IDENTITY_TRANSFORM: StampTransform = { rotation: 0, isMirrored: false };
+
+/**
+ * Copies the selected hexes into a stamp. The selected hex nearest the middle of the region
+ * becomes the anchor, which is placed on the hex the stamp is pasted at.
+ * @param hexes - The hexes of the realm.
+ * @param selection - The keys of the selected hexes.
+ * @param name - The name of the stamp.
+ * @returns The stamp, or `null` if no hexes are selected.
+ */
+export function createStamp(
+  hexes: Hex[],
+  selection: ReadonlySet<string>,
+  name: string
+): Stamp | null {
+  const selected = getSelectedHexes(hexes, selection);
+  if (selected.length === 0) return null;
+
+  const centre = {
+    q: selected.reduce((sum, hex) => sum + hex.q, 0) / selected.length,
+    r: selected.reduce((sum, hex) => sum + hex.r, 0) / selected.length,
+  };
+  const anchor = selected.reduce((best, hex) =>
+    getAxialDistance(hex, centre) < getAxialDistance(best, centre) ? hex : best
+  );
+
+  return {
+    name,
+    hexes: selected.map(({ s: _s, myth: _myth, isRevealed: _isRevealed, ...hex }) => ({
+      ...hex,
+      q: hex.q - anchor.q,
+      r: hex.r - anchor.r,
+    })),
+  };
+}
+
+/**
+ * Mirrors and turns an offset from a stamp's anchor. Mirroring flips the map left to right,
+ * which moves hexes differently on pointy and flat grids; turning is the same on both.
+ */
+function transformOffset(
+  { q, r }: { q: number; r: number },
+  { rotation, isMirrored }: StampTransform,
+  orientation: HexOrientation
+): { q: number; r: number } {
+  let [tq, tr] = isMirrored ? (orientation === 'pointy' ? [-q - r, r] : [-q, q + r]) : [q, r];
+  for (let turn = 0; turn < ((rotation % 6) + 6) % 6; turn++) {
+    [tq, tr] = [-tr, tq + tr];
+  }
+  // Adding zero turns -0 into 0, so the coordinates compare and serialise as expected.
+  return { q: tq + 0, r: tr + 0 };
+}
+
+/**
+ * Finds the edge an edge of a hex becomes once the stamp is mirrored and turned, by
+ * transforming the direction of the neighbour across it.
+ */
+function transformEdge(edge: number, transform: StampTransform, orientation: HexOrientation) {
+  const direction = EDGE_DIRECTIONS[edge];
+  if (!direction) return edge;
+  const { q, r } = transformOffset(direction, transform, orientation);
+  return EDGE_DIRECTIONS.findIndex((d) => d.q === q && d.r === r);
+}
+
+/**
+ * Mirrors and turns a stamp, moving its barriers with the hexes.
+ * @param stamp - The stamp.
+ * @param transform - The turns and mirroring to apply.
+ * @param orientation - The orientation of the grid it is pasted on.
+ * @returns The transformed stamp.
+ */
+export function transformStamp(
+  stamp: Stamp,
+  transform: StampTransform,
+  orientation: HexOrientation
+): Stamp {
+  if (transform.rotation % 6 === 0 && !transform.isMirrored) return stamp;
+  return {
+    ...stamp,
+    hexes: stamp.hexes.map((hex) => ({
+      ...hex,
+      ...transformOffset(hex, transform, orientation),
+      barrierEdges: hex.barrierEdges
+        .map((edge) => transformEdge(edge, transform, orientation))
+        .sort((a, b) => a - b),
+    })),
+  };
+}
+
+/**
+ * Pastes a stamp with its anchor on a hex. The hexes the stamp covers take its contents,
+ * keeping their own myths and fog of war; a myth keeps its hex clear of holdings and
+ * landmarks. Hexes of the stamp beyond the realm are left out.
+ * @param hexes - The hexes of the realm.
+ * @param stamp - The stamp, already transformed.
+ * @param target - The hex the anchor of the stamp is pasted on.
+ * @returns The changed hexes, including the neighbours around the stamp whose barriers are
+ *   matched to its edges.
+ */
+export function placeStamp(hexes: Hex[], stamp: Stamp, target: { q: number; r: number }): Hex[] {
+  const updates = new Map<string, Hex>();
+  stamp.hexes.forEach(({ q, r, ...contents }) => {
+    const existing = findHex(hexes, target.q + q, target.r + r);
+    if (!existing) return;
+    const hex: Hex = { ...contents, q: existing.q, r: existing.r, s: existing.s };
+    if (existing.isRevealed) hex.isRevealed = true;
+    if (existing.myth !== undefined) {
+      hex.myth = existing.myth;
+      delete hex.holding;
+      delete hex.holdingDetails;
+      delete hex.landmark;
+      delete hex.landmarkDetails;
+    }
+    updates.set(hexKey(hex.q, hex.r), hex);
+  });
+
+  // Barriers are kept on both hexes of a side, so the hexes around the stamp follow its edges.
+  const stamped = Array.from(updates.values());
+  const stampedKeys = new Set(updates.keys());
+  stamped.forEach((hex) => {
+    getNeighbors(hex).forEach((coords, edge) => {
+      const key = hexKey(coords.q, coords.r);
+      if (stampedKeys.has(key)) return;
+      const neighbor = updates.get(key) ?? findHex(hexes, coords.q, coords.r);
+      if (!neighbor) return;
+      const opposite = (edge + 3) % 6;
+      const hasBarrier = hex.barrierEdges.includes(edge);
+      if (neighbor.barrierEdges.includes(opposite) === hasBarrier) return;
+      updates.set(key, {
+        ...neighbor,
+        barrierEdges: hasBarrier
+          ? [...neighbor.barrierEdges, opposite].sort((a, b) => a - b)
+          : neighbor.barrierEdges.filter((e) => e !== opposite),
+      });
+    });
+  });
+  return Array.from(updates.values());
+}
@@ -1,20 +1,54 @@
 ﻿/**
  * @file utils/textureUtils.ts
  * This file contains the logic for pre-rendering terrain tiles to canvas textures
- * for performance optimization.
+ * for performance optimization. Textures can be rendered in a web worker, on an offscreen canvas.
  */
 
 import type { IconNode } from 'lucide-react';
 
-import type { TileSet, TerrainTextures, Point, Tile } from '@/features/realm/types';
+import type { TileSet, TerrainTextures, Point, Tile, HexOrientation } from '@/features/realm/types';
 import { resolveColorToken } from '@/app/theme/colors';
-import { getHexCorners } from './hexUtils';
+import { axialToPixel, getHexCorners } from './hexUtils';
+import type { TerrainChunk } from './viewportUtils';
 import { generateSprayIcons } from './sprayUtils';
 import { getIconNode } from './iconPaths';
 
 const DEFAULT_TEXTURE_HEX_SIZE: Point = { x: 50, y: 50 };
 const RESOLUTION_SCALE = 4; // Oversample to keep textures crisp when zooming.
 
+/** A canvas to render textures on: an element of the page, or an offscreen canvas in a worker. */
+type TextureCanvas = HTMLCanvasElement | OffscreenCanvas;
+type TextureContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Creates a canvas to render textures on, offscreen where there is no document.
+ */
+const createTextureCanvas = (width: number, height: number): TextureCanvas => {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * Reads the content of a canvas as a PNG data URL.
+ */
+const toPngDataUrl = async (canvas: TextureCanvas): Promise<string> => {
+  if (!('convertToBlob' in canvas)) {
+    return canvas.toDataURL('image/png');
+  }
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : '');
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the texture'));
+    reader.readAsDataURL(blob);
+  });
+};
+
 const toNumber = (value: string | number | undefined): number | null => {
   if (typeof value === 'number') {
     return Number.isFinite(value) ? value : null;
@@ -123,7 +157,7 @@ const createPathFromNode = (tag: string, attrs: Record<string, string>): Path2D
   }
 };
 
-const renderIconNode = (ctx: CanvasRenderingContext2D, iconNode: IconNode) => {
+const renderIconNode = (ctx: TextureContext, iconNode: IconNode) => {
   for (const [tag, attrs] of iconNode) {
     const path = createPathFromNode(tag, attrs);
     if (!path) {
@@ -148,7 +182,7 @@ const renderIconNode = (ctx: CanvasRenderingContext2D, iconNode: IconNode) => {
  * @param ctx The 2D rendering context of the canvas.
  * @param terrain The terrain tile definition.
  */
-function drawSprayIcons(ctx: CanvasRenderingContext2D, terrain: Tile, hexSize: Point) {
+function drawSprayIcons(ctx: TextureContext, terrain: Tile, hexSize: Point) {
   // Use a mock hex; the coordinates don't matter as the pattern is deterministic by terrain ID.
   const mockHex = { q: 0, r: 0, s: 0, terrain: terrain.id, barrierEdges: [] };
   const iconsToRender = generateSprayIcons(mockHex, terrain, hexSize);
@@ -187,26 +221,27 @@ function drawSprayIcons(ctx: CanvasRenderingContext2D, terrain: Tile, hexSize: P
  * Asynchronously generates pre-rendered textures for all terrain types.
  * @param tileSets - The complete set of tile definitions.
  * @param terrainColors - A map of terrain IDs to their current hex colors.
+ * @param hexSize - The size of the hexes the textures are drawn for.
+ * @param devicePixelRatio - The pixel ratio of the screen. A worker has to be told the page's.
  * @returns A promise that resolves to a TerrainTextures object.
  */
 export async function generateTerrainTextures(
   tileSets: TileSet,
   terrainColors: Record<string, string>,
-  hexSize: Point = DEFAULT_TEXTURE_HEX_SIZE
+  hexSize: Point = DEFAULT_TEXTURE_HEX_SIZE,
+  devicePixelRatio: number = typeof window !== 'undefined' ? (window.devicePixelRatio ?? 1) : 1
 ): Promise<TerrainTextures> {
   const textures: TerrainTextures = {};
 
-  const canvas = document.createElement('canvas');
   const hexBoundingBox = {
     width: hexSize.x * Math.sqrt(3),
     height: hexSize.y * 2,
   };
-  const devicePixelRatio = typeof window !== 'undefined' ? (window.devicePixelRatio ?? 1) : 1;
   const scaleFactor = RESOLUTION_SCALE * devicePixelRatio;
-  canvas.width = Math.round(hexBoundingBox.width * scaleFactor);
-  canvas.height = Math.round(hexBoundingBox.height * scaleFactor);
-  canvas.style.width = `${hexBoundingBox.width}px`;
-  canvas.style.height = `${hexBoundingBox.height}px`;
+  const canvas = createTextureCanvas(
+    Math.round(hexBoundingBox.width * scaleFactor),
+    Math.round(hexBoundingBox.height * scaleFactor)
+  );
 
   const ctx = canvas.getContext('2d');
   if (!ctx) {
@@ -236,11 +271,11 @@ export async function generateTerrainTextures(
     ctx.fillStyle = color;
     ctx.fill();
 
-    const withoutSpray = canvas.toDataURL('image/png');
+    const withoutSpray = await toPngDataUrl(canvas);
 
     // --- Generate texture WITH spray ---
     drawSprayIcons(ctx, terrain, hexSize);
-    const withSpray = canvas.toDataURL('image/png');
+    const withSpray = await toPngDataUrl(canvas);
 
     textures[terrain.id] = { withSpray, withoutSpray };
     ctx.restore();
@@ -248,3 +283,120 @@ export async function generateTerrainTextures(
 
   return textures;
 }
+
+/**
+ * Loads the pre-rendered terrain textures as images, ready to be drawn to a canvas.
+ * @param terrainTextures - The textures of each terrain type.
+ * @param withSpray - Whether to load the textures with their icon spray.
+ * @returns A promise that resolves to the decoded image of each terrain type.
+ */
+export async function loadTerrainImages(
+  terrainTextures: TerrainTextures,
+  withSpray: boolean
+): Promise<Map<string, HTMLImageElement>> {
+  const entries = await Promise.all(
+    Object.entries(terrainTextures).map(async ([terrainId, textureSet]) => {
+      const image = new Image();
+      image.src = withSpray ? textureSet.withSpray : textureSet.withoutSpray;
+      await image.decode();
+      return [terrainId, image] as const;
+    })
+  );
+  return new Map(entries);
+}
+
+/** How the terrain of a chunk is drawn. */
+export interface TerrainChunkStyle {
+  orientation: HexOrientation;
+  hexSize: Point;
+  showGrid: boolean;
+  gridColor: string;
+  gridWidth: number;
+  /** Whether unrevealed hexes are left out, as the fog of war hides them completely. */
+  hideUnrevealed: boolean;
+}
+
+/**
+ * Draws the terrain and grid lines of a chunk of hexes to a bitmap, the same way the map draws
+ * them for a single hex.
+ * @param chunk - The chunk of hexes to draw.
+ * @param level - The level of detail, in bitmap pixels per map unit.
+ * @param terrainImages - The decoded texture of each terrain type.
+ * @param style - How the terrain is drawn.
+ * @returns A promise that resolves to the bitmap as a PNG file, covering the chunk's bounds.
+ */
+export function renderTerrainChunk(
+  chunk: TerrainChunk,
+  level: number,
+  terrainImages: Map<string, HTMLImageElement>,
+  style: TerrainChunkStyle
+): Promise<Blob> {
+  const { bounds } = chunk;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bounds.width * level);
+  canvas.height = Math.round(bounds.height * level);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return Promise.reject(new Error('Could not get 2D rendering context'));
+  }
+  ctx.scale(level, level);
+  ctx.translate(-bounds.x, -bounds.y);
+
+  const hexCorners = getHexCorners(style.orientation, style.hexSize);
+  const hexPath = new Path2D();
+  hexCorners.forEach((corner, index) =>
+    index === 0 ? hexPath.moveTo(corner.x, corner.y) : hexPath.lineTo(corner.x, corner.y)
+  );
+  hexPath.closePath();
+  const xCoords = hexCorners.map((corner) => corner.x);
+  const yCoords = hexCorners.map((corner) => corner.y);
+  const box = {
+    x: Math.min(...xCoords),
+    y: Math.min(...yCoords),
+    width: Math.max(...xCoords) - Math.min(...xCoords),
+    height: Math.max(...yCoords) - Math.min(...yCoords),
+  };
+  ctx.strokeStyle = style.gridColor;
+  ctx.lineWidth = style.gridWidth;
+
+  for (const hex of chunk.hexes) {
+    if (style.hideUnrevealed && !hex.isRevealed) continue;
+    const center = axialToPixel(hex, style.orientation, style.hexSize);
+    ctx.save();
+    ctx.translate(center.x, center.y);
+
+    const image = terrainImages.get(hex.terrain);
+    ctx.save();
+    if (image) {
+      // Scale the texture to cover the hex's bounding box, as `xMidYMid slice` does in SVG.
+      const fit = Math.max(box.width / image.width, box.height / image.height);
+      const width = image.width * fit;
+      const height = image.height * fit;
+      ctx.clip(hexPath);
+      ctx.drawImage(
+        image,
+        box.x + (box.width - width) / 2,
+        box.y + (box.height - height) / 2,
+        width,
+        height
+      );
+    } else {
+      // Fallback for missing texture
+      ctx.fillStyle = '#FF00FF';
+      ctx.fill(hexPath);
+    }
+    ctx.restore();
+
+    if (style.showGrid) {
+      ctx.stroke(hexPath);
+    }
+    ctx.restore();
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error('Could not encode the terrain chunk'));
+    }, 'image/png');
+  });
+}
@@ -0,0 +1,140 @@
+/**
+ * @file viewportUtils.ts
+ * This file contains the helpers that keep large maps fast to draw: culling the hexes outside
+ * the part of the map on screen, and grouping hexes into the chunks whose terrain is drawn to
+ * cached bitmaps.
+ */
+import type { Hex, HexOrientation, MapViewport, Point } from '@/features/realm/types';
+import { axialToPixel } from './hexUtils';
+
+/** A rectangle on the map, in map units. */
+export interface MapBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** The width and height of a terrain chunk bitmap, in pixels, whatever its level of detail. */
+export const CHUNK_PIXEL_SIZE = 1024;
+/** The coarsest level of detail, in bitmap pixels per map unit. */
+const MIN_CHUNK_LEVEL = 1 / 16;
+/** The finest level of detail, in bitmap pixels per map unit. */
+const MAX_CHUNK_LEVEL = 8;
+
+/** A group of neighbouring hexes whose terrain is drawn to one bitmap. */
+export interface TerrainChunk {
+  key: string;
+  /** The area of the map the bitmap covers, including the hexes that overhang the chunk. */
+  bounds: MapBounds;
+  hexes: Hex[];
+}
+
+/**
+ * Works out the area of the map to draw for a viewport. It reaches a little past the viewport
+ * and snaps to a coarse grid, so that it only changes once a pan has moved some way.
+ * @param viewport - The part of the map on screen.
+ * @returns The area whose hexes should be drawn.
+ */
+export function getCullingBounds(viewport: MapViewport): MapBounds {
+  const step = 2 ** Math.ceil(Math.log2(Math.max(viewport.width, viewport.height) / 4));
+  const x = Math.floor(viewport.x / step - 1) * step;
+  const y = Math.floor(viewport.y / step - 1) * step;
+  return {
+    x,
+    y,
+    width: Math.ceil((viewport.x + viewport.width) / step + 1) * step - x,
+    height: Math.ceil((viewport.y + viewport.height) / step + 1) * step - y,
+  };
+}
+
+/**
+ * Checks whether two areas of the map overlap.
+ */
+export function boundsIntersect(a: MapBounds, b: MapBounds): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Finds the hexes that are at least partly inside an area of the map.
+ * @param hexes - The hexes to cull.
+ * @param orientation - The orientation of the grid.
+ * @param hexSize - The size of the hexes.
+ * @param bounds - The area of the map to keep.
+ * @returns The hexes inside the area, in their original order.
+ */
+export function cullHexes(
+  hexes: Hex[],
+  orientation: HexOrientation,
+  hexSize: Point,
+  bounds: MapBounds
+): Hex[] {
+  const reach = Math.max(hexSize.x, hexSize.y);
+  const minX = bounds.x - reach;
+  const minY = bounds.y - reach;
+  const maxX = bounds.x + bounds.width + reach;
+  const maxY = bounds.y + bounds.height + reach;
+  return hexes.filter((hex) => {
+    const { x, y } = axialToPixel(hex, orientation, hexSize);
+    return x >= minX && x <= maxX && y >= minY && y <= maxY;
+  });
+}
+
+/**
+ * Picks the level of detail of the terrain bitmaps for a zoom level: the nearest power of two
+ * at or above the screen resolution, so bitmaps are never stretched by more than a little.
+ * @param pixelsPerUnit - The number of device pixels per map unit on screen.
+ * @returns The number of bitmap pixels per map unit.
+ */
+export function getChunkLevel(pixelsPerUnit: number): number {
+  const level = 2 ** Math.ceil(Math.log2(Math.max(pixelsPerUnit, Number.EPSILON)));
+  return Math.min(MAX_CHUNK_LEVEL, Math.max(MIN_CHUNK_LEVEL, level));
+}
+
+/**
+ * Groups hexes into square chunks of the map, by the position of their centres. Coarser
+ * levels of detail use larger chunks, so that every chunk bitmap has the same size.
+ * @param hexes - The hexes to group.
+ * @param orientation - The orientation of the grid.
+ * @param hexSize - The size of the hexes.
+ * @param hexBoundingBox - The bounding box of a hex, relative to its centre.
+ * @param level - The level of detail, in bitmap pixels per map unit.
+ * @returns The chunks by key. Hexes keep their original order within a chunk.
+ */
+export function groupHexesIntoChunks(
+  hexes: Hex[],
+  orientation: HexOrientation,
+  hexSize: Point,
+  hexBoundingBox: MapBounds,
+  level: number
+): Map<string, TerrainChunk> {
+  const chunkSize = CHUNK_PIXEL_SIZE / level;
+  const chunks = new Map<string, TerrainChunk>();
+  hexes.forEach((hex) => {
+    const center = axialToPixel(hex, orientation, hexSize);
+    const column = Math.floor(center.x / chunkSize);
+    const row = Math.floor(center.y / chunkSize);
+    const key = `${level}:${column},${row}`;
+    let chunk = chunks.get(key);
+    if (!chunk) {
+      // The overhang is rounded out to whole bitmap pixels, so bitmaps are never stretched.
+      const left = Math.floor(hexBoundingBox.x * level);
+      const top = Math.floor(hexBoundingBox.y * level);
+      const right = Math.ceil((hexBoundingBox.x + hexBoundingBox.width) * level);
+      const bottom = Math.ceil((hexBoundingBox.y + hexBoundingBox.height) * level);
+      chunk = {
+        key,
+        bounds: {
+          x: column * chunkSize + left / level,
+          y: row * chunkSize + top / level,
+          width: (CHUNK_PIXEL_SIZE + right - left) / level,
+          height: (CHUNK_PIXEL_SIZE + bottom - top) / level,
+        },
+        hexes: [],
+      };
+      chunks.set(key, chunk);
+    }
+    chunk.hexes.push(hex);
+  });
+  return chunks;
+}
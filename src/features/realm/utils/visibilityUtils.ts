@@ -91,7 +91,29 @@ export const normalizeKnightVisibility = (
     DEFAULT_VIEW_VISIBILITY.showBarriers
   );
 
-  changed = changed || seatChanged || barrierChanged;
+  const [fogOfWar, fogChanged] = ensureBoolean(base.fogOfWar, DEFAULT_VIEW_VISIBILITY.fogOfWar);
+  const [showHexNames, namesChanged] = ensureBoolean(
+    base.showHexNames,
+    DEFAULT_VIEW_VISIBILITY.showHexNames
+  );
+  const [showHexNotes, notesChanged] = ensureBoolean(
+    base.showHexNotes,
+    DEFAULT_VIEW_VISIBILITY.showHexNotes
+  );
+
+  const [showPoiDetails, poiDetailsChanged] = ensureBoolean(
+    base.showPoiDetails,
+    DEFAULT_VIEW_VISIBILITY.showPoiDetails
+  );
+
+  changed =
+    changed ||
+    seatChanged ||
+    barrierChanged ||
+    fogChanged ||
+    namesChanged ||
+    notesChanged ||
+    poiDetailsChanged;
 
   return {
     visibility: {
@@ -100,6 +122,10 @@ export const normalizeKnightVisibility = (
       landmarks,
       myths: mythsVisibility,
       showBarriers,
+      fogOfWar,
+      showHexNames,
+      showHexNotes,
+      showPoiDetails,
     },
     changed,
   };